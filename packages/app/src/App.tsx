@@ -1,15 +1,42 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useBlotter } from './hooks/useBlotter';
 import { StatusBar } from './components/StatusBar';
 import { RatesBlotter } from './components/RatesBlotter';
+import { RiskLadder } from './components/RiskLadder';
+import { OperatorPanel } from './components/OperatorPanel';
+import { PriceLadder } from './components/PriceLadder';
 
 export default function App() {
-  const { instruments, connection, flash } = useBlotter();
+  const { instruments, connection, flash, simulator, controlSimulator, depth, watchDepth } = useBlotter();
+  const [operatorOpen, setOperatorOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selected = instruments.find(inst => inst.instrumentId === selectedId);
+
+  // The ladder shows the depth of the selected instrument
+  useEffect(() => {
+    watchDepth(selectedId);
+  }, [selectedId, watchDepth]);
 
   return (
     <div className="app">
-      <StatusBar connection={connection} instrumentCount={instruments.length} />
-      <RatesBlotter instruments={instruments} flash={flash} />
+      <StatusBar
+        connection={connection}
+        instrumentCount={instruments.length}
+        simulator={simulator}
+        operatorOpen={operatorOpen}
+        onToggleOperator={() => setOperatorOpen(open => !open)}
+      />
+      {operatorOpen && <OperatorPanel simulator={simulator} onCommand={controlSimulator} />}
+      <div className="trading-area">
+        <RatesBlotter
+          instruments={instruments}
+          flash={flash}
+          selectedId={selectedId}
+          onSelect={id => setSelectedId(current => current === id ? null : id)}
+        />
+        {selected && <PriceLadder instrument={selected} depth={depth} onClose={() => setSelectedId(null)} />}
+      </div>
+      <RiskLadder instruments={instruments} />
     </div>
   );
 }
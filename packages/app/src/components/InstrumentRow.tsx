@@ -5,6 +5,8 @@ import { FlashState } from '../hooks/useBlotter';
 interface Props {
   instrument: Instrument;
   flash: FlashState[string] | undefined;
+  selected: boolean;
+  onSelect: (instrumentId: string) => void;
 }
 
 function fmt(n: number | undefined, decimals = 4): string {
@@ -18,9 +20,11 @@ function fmtPct(n: number): string {
 }
 
 function fmtSize(n: number): string {
-  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
-  if (n >= 1_000) return `${(n / 1_000).toFixed(0)}K`;
-  return String(n);
+  const abs = Math.abs(n);
+  const sign = n < 0 ? '-' : '';
+  if (abs >= 1_000_000) return `${sign}${(abs / 1_000_000).toFixed(1)}M`;
+  if (abs >= 1_000) return `${sign}${(abs / 1_000).toFixed(0)}K`;
+  return `${sign}${abs.toFixed(0)}`;
 }
 
 function cellClass(field: string, flash: FlashState[string] | undefined): string {
@@ -37,11 +41,14 @@ function typeLabel(securityType: string): string {
     INTEREST_RATE_SWAP:'IRS',
     FUTURE:            'FUT',
     OPTION:            'OPT',
+    MONEY_MARKET:      'MM',
+    FRA:               'FRA',
+    REPO:              'REPO',
   };
   return map[securityType] ?? securityType;
 }
 
-export function InstrumentRow({ instrument: inst, flash }: Props) {
+export function InstrumentRow({ instrument: inst, flash, selected, onSelect }: Props) {
   const pctClass = inst.percentageChange >= 0 ? 'positive' : 'negative';
 
   // Extract instrument-specific fields
@@ -52,7 +59,15 @@ export function InstrumentRow({ instrument: inst, flash }: Props) {
   let extra2Label = '';
   let extra2Val = '';
 
-  if (inst.securityType === 'GOVERNMENT_BOND' || inst.securityType === 'CORPORATE_BOND') {
+  if (inst.securityType === 'CORPORATE_BOND') {
+    // Credit trades on its spread to the swap curve, in bp
+    price = (inst as any).currentPrice;
+    yieldVal = (inst as any).yieldToMaturity;
+    extra1Label = 'Z';
+    extra1Val = fmt((inst as any).zSpread, 1);
+    extra2Label = 'OAS';
+    extra2Val = fmt((inst as any).oasSpread, 1);
+  } else if (inst.securityType === 'GOVERNMENT_BOND') {
     price = (inst as any).currentPrice;
     yieldVal = (inst as any).yieldToMaturity;
     extra1Label = 'Dur';
@@ -60,12 +75,12 @@ export function InstrumentRow({ instrument: inst, flash }: Props) {
     extra2Label = 'Cpn';
     extra2Val = fmt((inst as any).coupon, 2);
   } else if (inst.securityType === 'INTEREST_RATE_SWAP') {
-    price = (inst as any).fixedRate;
+    price = (inst as any).swapRate;
     yieldVal = undefined;
     extra1Label = 'MTM';
     extra1Val = fmtSize((inst as any).currentMtm ?? 0);
     extra2Label = 'DV01';
-    extra2Val = fmt((inst as any).fixedLegDv01, 0);
+    extra2Val = fmt((inst as any).dv01, 0);
   } else if (inst.securityType === 'FUTURE') {
     price = (inst as any).currentPrice;
     yieldVal = undefined;
@@ -80,10 +95,33 @@ export function InstrumentRow({ instrument: inst, flash }: Props) {
     extra1Val = `${fmt((inst as any).impliedVol, 1)}%`;
     extra2Label = 'Δ';
     extra2Val = fmt((inst as any).delta, 3);
+  } else if (inst.securityType === 'MONEY_MARKET') {
+    // Bills and paper quote a discount rate, CDs a yield
+    const mm = inst as any;
+    price = mm.currentPrice;
+    yieldVal = mm.moneyMarketYield;
+    extra1Label = mm.rateBasis === 'DISCOUNT' ? 'Disc' : 'BEY';
+    extra1Val = fmt(mm.rateBasis === 'DISCOUNT' ? mm.discountRate : mm.bondEquivalentYield, 3);
+    extra2Label = 'Days';
+    extra2Val = String(mm.daysToMaturity ?? '—');
+  } else if (inst.securityType === 'FRA') {
+    price = (inst as any).forwardRate;
+    yieldVal = undefined;
+    extra1Label = 'MTM';
+    extra1Val = fmtSize((inst as any).currentMtm ?? 0);
+    extra2Label = 'DV01';
+    extra2Val = fmt((inst as any).dv01, 0);
+  } else if (inst.securityType === 'REPO') {
+    price = (inst as any).marketRepoRate;
+    yieldVal = undefined;
+    extra1Label = 'MTM';
+    extra1Val = fmtSize((inst as any).currentMtm ?? 0);
+    extra2Label = 'Mgn';
+    extra2Val = fmtSize((inst as any).marginExcess ?? 0);
   }
 
   return (
-    <tr>
+    <tr className={`instrument-row ${selected ? 'selected' : ''}`} onClick={() => onSelect(inst.instrumentId)}>
       <td className="id-cell">{inst.instrumentId}</td>
       <td><span className={`type-badge type-${inst.securityType}`}>{typeLabel(inst.securityType)}</span></td>
       <td className="desc-cell">{inst.description}</td>
@@ -91,14 +129,14 @@ export function InstrumentRow({ instrument: inst, flash }: Props) {
       <td className={`num-cell ${cellClass('askPrice', flash)}`}>{fmt(inst.askPrice)}</td>
       <td className={`num-cell ${cellClass('bidYield', flash)}`}>{yieldVal !== undefined ? fmt(inst.bidYield, 3) : '—'}</td>
       <td className={`num-cell ${cellClass('askYield', flash)}`}>{yieldVal !== undefined ? fmt(inst.askYield, 3) : '—'}</td>
-      <td className={`num-cell ${cellClass('currentPrice', flash)} ${cellClass('fixedRate', flash)}`}>{price !== undefined ? fmt(price) : '—'}</td>
+      <td className={`num-cell ${cellClass('currentPrice', flash)} ${cellClass('swapRate', flash)} ${cellClass('forwardRate', flash)} ${cellClass('marketRepoRate', flash)}`}>{price !== undefined ? fmt(price) : '—'}</td>
       <td className={`num-cell ${pctClass}`}>{fmtPct(inst.percentageChange)}</td>
       <td className="num-cell">{fmtSize(inst.bidSize)}</td>
       <td className="num-cell">{fmtSize(inst.offerSize)}</td>
       <td className="num-cell extra-label">{extra1Label}</td>
-      <td className={`num-cell ${cellClass(extra1Label === 'IV' ? 'impliedVol' : extra1Label === 'Δ' ? 'delta' : '', flash)}`}>{extra1Val}</td>
+      <td className={`num-cell ${cellClass(extra1Label === 'IV' ? 'impliedVol' : extra1Label === 'MTM' ? 'currentMtm' : extra1Label === 'Z' ? 'zSpread' : '', flash)}`}>{extra1Val}</td>
       <td className="num-cell extra-label">{extra2Label}</td>
-      <td className="num-cell">{extra2Val}</td>
+      <td className={`num-cell ${cellClass(extra2Label === 'Δ' ? 'delta' : extra2Label === 'DV01' ? 'dv01' : extra2Label === 'Mgn' ? 'marginExcess' : extra2Label === 'OAS' ? 'oasSpread' : '', flash)}`}>{extra2Val}</td>
       <td className="num-cell">{inst.trader}</td>
     </tr>
   );
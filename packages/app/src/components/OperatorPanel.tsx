@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { MARKET_SCENARIOS, MarketScenario, SimulatorCommand, SimulatorState } from '../types';
+
+interface Props {
+  simulator: SimulatorState | null;
+  onCommand: (command: SimulatorCommand) => Promise<void>;
+}
+
+/**
+ * Controls for rehearsing market conditions: start and stop the simulator,
+ * switch scenario, change volatility and tick interval, and trigger flash
+ * events
+ */
+export function OperatorPanel({ simulator, onCommand }: Props) {
+  const [volatility, setVolatility] = useState('');
+  const [tickInterval, setTickInterval] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  function send(command: SimulatorCommand) {
+    setError(null);
+    onCommand(command).catch((err: Error) => setError(err.message));
+  }
+
+  function submitNumber(value: string, command: (n: number) => SimulatorCommand) {
+    const n = parseFloat(value);
+    if (Number.isFinite(n)) send(command(n));
+  }
+
+  if (!simulator) {
+    return (
+      <div className="operator-panel">
+        <div className="blotter-toolbar">
+          <span className="panel-title">Operator</span>
+          <span className="row-count">Waiting for simulator state…</span>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="operator-panel">
+      <div className="blotter-toolbar">
+        <span className="panel-title">Operator</span>
+        {simulator.running ? (
+          <button className="filter-btn" onClick={() => send({ action: 'stop' })}>Stop</button>
+        ) : (
+          <button className="filter-btn" onClick={() => send({ action: 'start' })}>Start</button>
+        )}
+        <button
+          className={`filter-btn ${simulator.paused ? 'active' : ''}`}
+          onClick={() => send({ action: simulator.paused ? 'resume' : 'pause' })}
+        >
+          {simulator.paused ? 'Resume' : 'Pause'}
+        </button>
+
+        <span className="operator-separator" />
+        {MARKET_SCENARIOS.map((scenario: MarketScenario) => (
+          <button
+            key={scenario}
+            className={`filter-btn ${simulator.scenario === scenario ? 'active' : ''}`}
+            onClick={() => send({ action: 'setScenario', scenario })}
+          >
+            {scenario}
+          </button>
+        ))}
+
+        <span className="operator-separator" />
+        {simulator.flashEvent ? (
+          <button className="filter-btn active" onClick={() => send({ action: 'endFlashEvent' })}>End flash</button>
+        ) : (
+          <button className="filter-btn" onClick={() => send({ action: 'flashEvent' })}>Flash event</button>
+        )}
+      </div>
+
+      <div className="blotter-toolbar">
+        <label className="operator-field">
+          Vol ×
+          <input
+            type="number"
+            min={0}
+            step={0.1}
+            placeholder={String(simulator.volatilityMultiplier)}
+            value={volatility}
+            onChange={e => setVolatility(e.target.value)}
+          />
+        </label>
+        <button className="filter-btn" onClick={() => submitNumber(volatility, multiplier => ({ action: 'setVolatility', multiplier }))}>
+          Set
+        </button>
+
+        <label className="operator-field">
+          Tick ms
+          <input
+            type="number"
+            min={50}
+            step={50}
+            placeholder={String(simulator.updateInterval)}
+            value={tickInterval}
+            onChange={e => setTickInterval(e.target.value)}
+          />
+        </label>
+        <button className="filter-btn" onClick={() => submitNumber(tickInterval, ms => ({ action: 'setUpdateInterval', interval: ms }))}>
+          Set
+        </button>
+
+        {error && <span className="operator-error">{error}</span>}
+        <span className="row-count">
+          {simulator.mode === 'replaying' ? 'Replaying' : 'Simulating'} · {new Date(simulator.time).toLocaleTimeString()}
+        </span>
+      </div>
+    </div>
+  );
+}
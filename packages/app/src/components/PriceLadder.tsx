@@ -0,0 +1,103 @@
+import React from 'react';
+import { Instrument, OrderBookDepth } from '../types';
+
+interface Props {
+  instrument: Instrument;
+  depth: OrderBookDepth | null;
+  onClose: () => void;
+}
+
+interface LadderRow {
+  price: number;
+  bidSize?: number;
+  bidOrders?: number;
+  askSize?: number;
+  askOrders?: number;
+}
+
+function fmtSize(n: number | undefined): string {
+  if (n === undefined) return '';
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(0)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(0)}K`;
+  return n.toFixed(0);
+}
+
+/**
+ * Decimals needed to show every price on the book's tick grid
+ */
+function priceDecimals(tickSize: number): number {
+  let decimals = 0;
+  while (decimals < 6 && Math.abs(tickSize * 10 ** decimals - Math.round(tickSize * 10 ** decimals)) > 1e-9) {
+    decimals++;
+  }
+  return decimals;
+}
+
+/**
+ * One row per price, highest first, with the bids and offers resting there
+ */
+function buildLadder(depth: OrderBookDepth): LadderRow[] {
+  const rows = new Map<number, LadderRow>();
+  const row = (price: number) => {
+    let existing = rows.get(price);
+    if (!existing) {
+      existing = { price };
+      rows.set(price, existing);
+    }
+    return existing;
+  };
+
+  depth.bids.forEach(level => Object.assign(row(level.price), { bidSize: level.size, bidOrders: level.orders }));
+  depth.asks.forEach(level => Object.assign(row(level.price), { askSize: level.size, askOrders: level.orders }));
+
+  return Array.from(rows.values()).sort((a, b) => b.price - a.price);
+}
+
+export function PriceLadder({ instrument, depth, onClose }: Props) {
+  const ladder = depth ? buildLadder(depth) : [];
+  const decimals = depth ? priceDecimals(depth.tickSize) : 4;
+  const bestBid = depth?.bids[0]?.price;
+  const bestAsk = depth?.asks[0]?.price;
+
+  return (
+    <div className="price-ladder">
+      <div className="blotter-toolbar">
+        <span className="panel-title">Depth</span>
+        <span className="id-cell">{instrument.instrumentId}</span>
+        <button className="filter-btn ladder-close" onClick={onClose}>Close</button>
+      </div>
+
+      <div className="table-wrapper">
+        <table className="blotter-table ladder-table">
+          <thead>
+            <tr>
+              <th>Orders</th>
+              <th>Bid Sz</th>
+              <th>Price</th>
+              <th>Ask Sz</th>
+              <th>Orders</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ladder.map(row => (
+              <tr key={row.price}>
+                <td className="num-cell ladder-orders">{row.bidOrders ?? ''}</td>
+                <td className={`num-cell ${row.bidSize !== undefined ? 'ladder-bid' : ''}`}>{fmtSize(row.bidSize)}</td>
+                <td className={`num-cell ladder-price ${row.price === bestBid || row.price === bestAsk ? 'ladder-inside' : ''}`}>
+                  {row.price.toFixed(decimals)}
+                </td>
+                <td className={`num-cell ${row.askSize !== undefined ? 'ladder-ask' : ''}`}>{fmtSize(row.askSize)}</td>
+                <td className="num-cell ladder-orders">{row.askOrders ?? ''}</td>
+              </tr>
+            ))}
+            {ladder.length === 0 && (
+              <tr>
+                <td colSpan={5} className="empty-row">{depth ? 'Book is empty' : 'Waiting for depth'}</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,8 @@ import { InstrumentRow } from './InstrumentRow';
 interface Props {
   instruments: Instrument[];
   flash: FlashState;
+  selectedId: string | null;
+  onSelect: (instrumentId: string) => void;
 }
 
 type SortField = 'instrumentId' | 'securityType' | 'bidPrice' | 'askPrice' | 'percentageChange';
@@ -17,9 +19,12 @@ const TYPE_FILTERS: { label: string; value: SecurityType | 'ALL' }[] = [
   { label: 'Swaps', value: 'INTEREST_RATE_SWAP' },
   { label: 'Futures', value: 'FUTURE' },
   { label: 'Options', value: 'OPTION' },
+  { label: 'MM', value: 'MONEY_MARKET' },
+  { label: 'FRAs', value: 'FRA' },
+  { label: 'Repo', value: 'REPO' },
 ];
 
-export function RatesBlotter({ instruments, flash }: Props) {
+export function RatesBlotter({ instruments, flash, selectedId, onSelect }: Props) {
   const [filter, setFilter] = useState<SecurityType | 'ALL'>('ALL');
   const [sort, setSort] = useState<{ field: SortField; dir: 1 | -1 }>({
     field: 'securityType',
@@ -89,6 +94,8 @@ export function RatesBlotter({ instruments, flash }: Props) {
                 key={inst.instrumentId}
                 instrument={inst}
                 flash={flash[inst.instrumentId]}
+                selected={inst.instrumentId === selectedId}
+                onSelect={onSelect}
               />
             ))}
             {sorted.length === 0 && (
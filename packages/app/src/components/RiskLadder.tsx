@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Instrument } from '../types';
+
+interface Props {
+  instruments: Instrument[];
+}
+
+interface LadderRow {
+  key: string;
+  book: string;
+  trader: string;
+  currency: string;
+  buckets: Record<string, number>;
+  total: number;
+}
+
+const KEY_RATE_TENORS = ['3M', '6M', '1Y', '2Y', '5Y', '10Y', '30Y'];
+
+function fmtRisk(n: number): string {
+  if (Math.abs(n) < 0.5) return '—';
+  return n.toLocaleString('en-US', { maximumFractionDigits: 0 });
+}
+
+function riskClass(n: number): string {
+  if (Math.abs(n) < 0.5) return '';
+  return n > 0 ? 'positive' : 'negative';
+}
+
+/**
+ * Sum key-rate DV01s by book, trader and currency, as GET /api/risk/ladder does
+ */
+function buildLadder(instruments: Instrument[]): LadderRow[] {
+  const rows = new Map<string, LadderRow>();
+
+  for (const inst of instruments) {
+    if (!inst.keyRateDv01) continue;
+
+    const key = `${inst.book}|${inst.trader}|${inst.notionalCurrency}`;
+    let row = rows.get(key);
+    if (!row) {
+      row = { key, book: inst.book, trader: inst.trader, currency: inst.notionalCurrency, buckets: {}, total: 0 };
+      rows.set(key, row);
+    }
+
+    for (const tenor of KEY_RATE_TENORS) {
+      const dv01 = inst.keyRateDv01[tenor] ?? 0;
+      row.buckets[tenor] = (row.buckets[tenor] ?? 0) + dv01;
+      row.total += dv01;
+    }
+  }
+
+  return Array.from(rows.values()).sort((a, b) => a.key.localeCompare(b.key));
+}
+
+export function RiskLadder({ instruments }: Props) {
+  const [book, setBook] = useState<string>('ALL');
+
+  const books = Array.from(new Set(instruments.filter(i => i.keyRateDv01).map(i => i.book))).sort();
+  const ladder = buildLadder(instruments.filter(i => book === 'ALL' || i.book === book));
+
+  return (
+    <div className="risk-ladder">
+      <div className="blotter-toolbar">
+        <span className="panel-title">Risk Ladder</span>
+        {['ALL', ...books].map(b => (
+          <button
+            key={b}
+            className={`filter-btn ${book === b ? 'active' : ''}`}
+            onClick={() => setBook(b)}
+          >
+            {b === 'ALL' ? 'All' : b}
+          </button>
+        ))}
+        <span className="row-count">DV01 per +1bp</span>
+      </div>
+
+      <div className="table-wrapper">
+        <table className="blotter-table">
+          <thead>
+            <tr>
+              <th>Book</th>
+              <th>Trader</th>
+              <th>Ccy</th>
+              {KEY_RATE_TENORS.map(tenor => <th key={tenor}>{tenor}</th>)}
+              <th>Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ladder.map(row => (
+              <tr key={row.key}>
+                <td className="id-cell">{row.book}</td>
+                <td className="desc-cell">{row.trader}</td>
+                <td className="desc-cell">{row.currency}</td>
+                {KEY_RATE_TENORS.map(tenor => (
+                  <td key={tenor} className={`num-cell ${riskClass(row.buckets[tenor])}`}>
+                    {fmtRisk(row.buckets[tenor])}
+                  </td>
+                ))}
+                <td className={`num-cell ${riskClass(row.total)}`}>{fmtRisk(row.total)}</td>
+              </tr>
+            ))}
+            {ladder.length === 0 && (
+              <tr>
+                <td colSpan={KEY_RATE_TENORS.length + 4} className="empty-row">No rate risk</td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
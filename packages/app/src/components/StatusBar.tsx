@@ -1,12 +1,29 @@
 import React from 'react';
 import { ConnectionState } from '../hooks/useBlotter';
+import { SimulatorState } from '../types';
 
 interface Props {
   connection: ConnectionState;
   instrumentCount: number;
+  simulator: SimulatorState | null;
+  operatorOpen: boolean;
+  onToggleOperator: () => void;
 }
 
-export function StatusBar({ connection, instrumentCount }: Props) {
+/**
+ * Short description of the market regime, e.g. "highVolatility ×2 · FLASH"
+ */
+function regimeLabel(simulator: SimulatorState): string {
+  const parts = [simulator.mode === 'replaying' ? 'Replay' : simulator.scenario];
+  if (simulator.volatilityMultiplier !== 1) parts[0] += ` ×${simulator.volatilityMultiplier}`;
+  if (simulator.scenarioScript) parts.push(simulator.scenarioScript);
+  if (simulator.flashEvent) parts.push('FLASH');
+  if (!simulator.running) parts.push('STOPPED');
+  else if (simulator.paused) parts.push('PAUSED');
+  return parts.join(' · ');
+}
+
+export function StatusBar({ connection, instrumentCount, simulator, operatorOpen, onToggleOperator }: Props) {
   const dot = {
     connecting:   '#f59e0b',
     connected:    '#22c55e',
@@ -30,6 +47,14 @@ export function StatusBar({ connection, instrumentCount }: Props) {
         {connection.status === 'connected' && (
           <span className="instrument-count">{instrumentCount} instruments</span>
         )}
+        {simulator && (
+          <span className={`regime-badge ${simulator.flashEvent ? 'flash' : ''} ${!simulator.running || simulator.paused ? 'held' : ''}`}>
+            {regimeLabel(simulator)}
+          </span>
+        )}
+        <button className={`filter-btn ${operatorOpen ? 'active' : ''}`} onClick={onToggleOperator}>
+          Operator
+        </button>
       </span>
     </div>
   );
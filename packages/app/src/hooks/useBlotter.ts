@@ -1,6 +1,6 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
 import { io, Socket } from 'socket.io-client';
-import { Instrument, DeltaUpdate } from '../types';
+import { Instrument, DeltaUpdate, OrderBookDepth, SimulatorCommand, SimulatorState } from '../types';
 
 export interface ConnectionState {
   status: 'connecting' | 'connected' | 'disconnected' | 'error';
@@ -19,11 +19,14 @@ export function useBlotter() {
   const [instruments, setInstruments] = useState<Map<string, Instrument>>(new Map());
   const [connection, setConnection] = useState<ConnectionState>({ status: 'connecting' });
   const [flash, setFlash] = useState<FlashState>({});
+  const [simulator, setSimulator] = useState<SimulatorState | null>(null);
+  const [depth, setDepth] = useState<OrderBookDepth | null>(null);
   const socketRef = useRef<Socket | null>(null);
+  const depthIdRef = useRef<string | null>(null);
   const prevValuesRef = useRef<Map<string, Record<string, number>>>(new Map());
 
   const applyFlash = useCallback((instrumentId: string, fields: Record<string, unknown>) => {
-    const numericFlashFields = ['bidPrice', 'askPrice', 'bidYield', 'askYield', 'currentPrice', 'fixedRate', 'yieldToMaturity', 'currentMtm', 'impliedVol', 'delta'];
+    const numericFlashFields = ['bidPrice', 'askPrice', 'bidYield', 'askYield', 'currentPrice', 'swapRate', 'yieldToMaturity', 'currentMtm', 'dv01', 'forwardRate', 'marketRepoRate', 'marginExcess', 'impliedVol', 'delta', 'zSpread', 'oasSpread'];
     const prev = prevValuesRef.current.get(instrumentId) ?? {};
     const newFlash: Record<string, 'up' | 'down'> = {};
 
@@ -90,6 +93,11 @@ export function useBlotter() {
           setInstruments(map);
         }
       });
+
+      // Pick the watched book up again after a reconnect
+      if (depthIdRef.current) {
+        socket.emit('subscribe-depth', [depthIdRef.current]);
+      }
     });
 
     socket.on('instrument-update', (updates: DeltaUpdate[]) => {
@@ -106,6 +114,12 @@ export function useBlotter() {
       });
     });
 
+    socket.on('simulator-state', (state: SimulatorState) => setSimulator(state));
+
+    socket.on('depth-update', (book: OrderBookDepth) => {
+      if (book.instrumentId === depthIdRef.current) setDepth(book);
+    });
+
     socket.on('disconnect', () => setConnection({ status: 'disconnected' }));
     socket.on('connect_error', (err) => setConnection({ status: 'error', error: err.message }));
 
@@ -114,5 +128,32 @@ export function useBlotter() {
     };
   }, [applyFlash]);
 
-  return { instruments: Array.from(instruments.values()), connection, flash };
+  // Send an operator command; every client hears the new state through simulator-state
+  const controlSimulator = useCallback((command: SimulatorCommand): Promise<void> => {
+    return new Promise((resolve, reject) => {
+      const socket = socketRef.current;
+      if (!socket) {
+        reject(new Error('Not connected'));
+        return;
+      }
+      socket.emit('simulator-control', command, (response: { success: boolean; message?: string }) => {
+        if (response?.success) resolve();
+        else reject(new Error(response?.message ?? 'Simulator command failed'));
+      });
+    });
+  }, []);
+
+  // Watch the order book of one instrument at a time, or none
+  const watchDepth = useCallback((instrumentId: string | null) => {
+    const previous = depthIdRef.current;
+    if (previous === instrumentId) return;
+
+    const socket = socketRef.current;
+    if (previous) socket?.emit('unsubscribe-depth', [previous]);
+    depthIdRef.current = instrumentId;
+    setDepth(null);
+    if (instrumentId) socket?.emit('subscribe-depth', [instrumentId]);
+  }, []);
+
+  return { instruments: Array.from(instruments.values()), connection, flash, simulator, controlSimulator, depth, watchDepth };
 }
@@ -3,7 +3,10 @@ export type SecurityType =
   | 'CORPORATE_BOND'
   | 'INTEREST_RATE_SWAP'
   | 'FUTURE'
-  | 'OPTION';
+  | 'OPTION'
+  | 'MONEY_MARKET'
+  | 'FRA'
+  | 'REPO';
 
 export interface BaseInstrument {
   instrumentId: string;
@@ -29,6 +32,7 @@ export interface BaseInstrument {
   marketSector: string;
   rating: string;
   liquidityScore: number;
+  keyRateDv01?: Record<string, number>;
   lastUpdate: string;
 }
 
@@ -40,16 +44,28 @@ export interface Bond extends BaseInstrument {
   duration: number;
   convexity: number;
   currentPrice: number;
+  zSpread: number;
+  oasSpread: number;
+  assetSwapSpread: number;
+  proceedsAssetSwapSpread: number;
   maturityDate: string;
 }
 
 export interface Swap extends BaseInstrument {
   securityType: 'INTEREST_RATE_SWAP';
   fixedRate: number;
+  direction: 'PAY_FIXED' | 'RECEIVE_FIXED';
+  swapRate: number;
   floatingRateIndex: string;
   currentMtm: number;
+  fixedLegPv: number;
+  floatingLegPv: number;
   fixedLegDv01: number;
   floatingLegDv01: number;
+  dv01: number;
+  currentFloatingRate: number;
+  accruedFloatingCoupon: number;
+  nextResetDate: string;
   maturityDate: string;
 }
 
@@ -61,6 +77,11 @@ export interface Future extends BaseInstrument {
   volume: number;
   priceChangeToday: number;
   expirationDate: string;
+  deliverableInstruments: string[];
+  cheapestToDeliver: string;
+  conversionFactor: number;
+  basisToSpot: number;
+  impliedRepoRate: number;
 }
 
 export interface Option extends BaseInstrument {
@@ -69,19 +90,122 @@ export interface Option extends BaseInstrument {
   optionType: 'call' | 'put';
   strikePrice: number;
   currentPrice: number;
+  pricingModel: 'BLACK_76' | 'BACHELIER';
   impliedVol: number;
   delta: number;
   gamma: number;
   theta: number;
   vega: number;
+  rho: number;
   intrinsicValue: number;
   timeValue: number;
 }
 
-export type Instrument = Bond | Swap | Future | Option;
+export interface MoneyMarket extends BaseInstrument {
+  securityType: 'MONEY_MARKET';
+  moneyMarketType: 'TBILL' | 'CD' | 'COMMERCIAL_PAPER';
+  rateBasis: 'DISCOUNT' | 'YIELD';
+  issuer: string;
+  maturityDate: string;
+  couponRate: number;
+  currentPrice: number;
+  discountRate: number;
+  moneyMarketYield: number;
+  bondEquivalentYield: number;
+  daysToMaturity: number;
+  dv01: number;
+}
+
+export interface Fra extends BaseInstrument {
+  securityType: 'FRA';
+  floatingRateIndex: string;
+  fixingDate: string;
+  startDate: string;
+  endDate: string;
+  contractRate: number;
+  direction: 'PAY_FIXED' | 'RECEIVE_FIXED';
+  forwardRate: number;
+  settlementAmount: number;
+  currentMtm: number;
+  dv01: number;
+}
+
+export interface Repo extends BaseInstrument {
+  securityType: 'REPO';
+  direction: 'REPO' | 'REVERSE_REPO';
+  startDate: string;
+  endDate: string;
+  repoRate: number;
+  marketRepoRate: number;
+  collateralId: string;
+  collateralValue: number;
+  haircut: number;
+  accruedInterest: number;
+  marginExcess: number;
+  currentMtm: number;
+  dv01: number;
+}
+
+export type Instrument = Bond | Swap | Future | Option | MoneyMarket | Fra | Repo;
 
 export interface DeltaUpdate {
   instrumentId: string;
   timestamp: number;
   fields: Record<string, unknown>;
 }
+
+export interface DepthLevel {
+  price: number;
+  size: number;
+  orders: number;
+}
+
+export interface OrderBookDepth {
+  instrumentId: string;
+  timestamp: number;
+  tickSize: number;
+  bids: DepthLevel[];
+  asks: DepthLevel[];
+}
+
+export type MarketScenario = 'normal' | 'highVolatility' | 'trending' | 'flashEvent' | 'factorModel';
+
+export const MARKET_SCENARIOS: MarketScenario[] = ['normal', 'highVolatility', 'trending', 'flashEvent', 'factorModel'];
+
+export interface ReplayState {
+  source?: string;
+  status: 'playing' | 'paused' | 'finished';
+  speed: number;
+  loop: boolean;
+  startTime: string;
+  endTime: string;
+  currentTime: string;
+  position: number;
+  records: number;
+}
+
+export interface SimulatorState {
+  running: boolean;
+  paused: boolean;
+  mode: 'simulating' | 'replaying';
+  scenario: MarketScenario;
+  volatilityMultiplier: number;
+  updateInterval: number;
+  flashEvent: boolean;
+  flashEventEnd?: string;
+  scenarioScript?: string;
+  replay?: ReplayState;
+  time: string;
+}
+
+export type SimulatorCommand =
+  | { action: 'start' | 'stop' | 'pause' | 'resume' | 'endFlashEvent' }
+  | { action: 'setScenario'; scenario: MarketScenario }
+  | { action: 'setVolatility'; multiplier: number }
+  | { action: 'setUpdateInterval'; interval: number }
+  | { action: 'flashEvent'; duration?: number }
+  | { action: 'startReplay'; file: string; speed?: number; loop?: boolean }
+  | { action: 'pauseReplay' | 'resumeReplay' | 'stopReplay' }
+  | { action: 'seekReplay'; time: string }
+  | { action: 'setReplaySpeed'; speed: number }
+  | { action: 'setReplayLoop'; loop: boolean };
@@ -0,0 +1,228 @@
+import { bondAccruedInterest, bondCashflowPoints } from './bondMath';
+import { addMonths, daysBetween, daysInMonth, toDate } from './dates';
+import { Bond } from '../models/bond';
+import { Future } from '../models/future';
+
+/**
+ * Delivery rules of a Treasury futures contract
+ */
+export interface DeliveryContract {
+  code: string; // Exchange product code, e.g. "ZN"
+  minRemainingMonths: number; // Shortest remaining term a deliverable may have
+  maxRemainingMonths?: number; // Longest remaining term, if capped
+  maxOriginalMonths?: number; // Longest original term, if capped
+  measuredFrom: 'FIRST_DAY' | 'LAST_DAY'; // Day of the delivery month remaining terms are measured from
+  roundingMonths: number; // Conversion factor terms are rounded down to whole multiples of this
+}
+
+/**
+ * CBOT Treasury contracts by the tenor of their notional bond
+ */
+export const TREASURY_FUTURE_CONTRACTS: Record<number, DeliveryContract> = {
+  2: { code: 'ZT', minRemainingMonths: 21, maxRemainingMonths: 24, maxOriginalMonths: 63, measuredFrom: 'LAST_DAY', roundingMonths: 1 },
+  5: { code: 'ZF', minRemainingMonths: 50, maxOriginalMonths: 63, measuredFrom: 'FIRST_DAY', roundingMonths: 1 },
+  10: { code: 'ZN', minRemainingMonths: 78, maxRemainingMonths: 120, measuredFrom: 'FIRST_DAY', roundingMonths: 3 },
+  30: { code: 'ZB', minRemainingMonths: 180, maxRemainingMonths: 300, measuredFrom: 'FIRST_DAY', roundingMonths: 3 },
+};
+
+/** Yield, in percent, at which conversion factors price deliverables */
+const CONVERSION_FACTOR_YIELD = 6;
+
+/**
+ * Delivery rules for a future, looked up by its notional bond tenor
+ */
+export function deliveryContract(future: Future): DeliveryContract | undefined {
+  return TREASURY_FUTURE_CONTRACTS[future.underlyingTenor];
+}
+
+/**
+ * Date in the delivery month that remaining terms are measured from
+ */
+export function deliveryReferenceDate(contract: DeliveryContract, deliveryMonth: Date): Date {
+  const month = toDate(deliveryMonth);
+  const year = month.getUTCFullYear();
+  const day = contract.measuredFrom === 'FIRST_DAY' ? 1 : daysInMonth(year, month.getUTCMonth());
+  return new Date(Date.UTC(year, month.getUTCMonth(), day));
+}
+
+/**
+ * Whole calendar months from `from` to `to`
+ */
+function wholeMonthsBetween(from: Date, to: Date): number {
+  const months = (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + (to.getUTCMonth() - from.getUTCMonth());
+  return to.getUTCDate() < from.getUTCDate() ? months - 1 : months;
+}
+
+/**
+ * Whether a bond's remaining and original terms fit the contract's
+ * delivery basket for a delivery month
+ */
+export function isDeliverable(bond: Bond, contract: DeliveryContract, deliveryMonth: Date): boolean {
+  const reference = deliveryReferenceDate(contract, deliveryMonth);
+  const maturity = toDate(bond.maturityDate).getTime();
+
+  if (maturity < addMonths(reference, contract.minRemainingMonths).getTime()) return false;
+  if (contract.maxRemainingMonths !== undefined &&
+    maturity > addMonths(reference, contract.maxRemainingMonths).getTime()) return false;
+  if (contract.maxOriginalMonths !== undefined &&
+    maturity > addMonths(toDate(bond.issueDate), contract.maxOriginalMonths).getTime()) return false;
+  return true;
+}
+
+/**
+ * Exchange conversion factor: the price per 1 face of the bond at a 6%
+ * yield, with its term from the reference date rounded down to the
+ * contract's month multiple. Rounded to four decimals as published.
+ */
+export function conversionFactor(
+  couponPct: number,
+  maturityDate: Date,
+  referenceDate: Date,
+  roundingMonths: number
+): number {
+  const months = wholeMonthsBetween(toDate(referenceDate), toDate(maturityDate));
+  const years = Math.floor(months / 12);
+  const remainder = months % 12 - ((months % 12) % roundingMonths);
+
+  const coupon = couponPct / 100;
+  const semiYield = CONVERSION_FACTOR_YIELD / 200;
+  const monthsToNextCoupon = remainder < 7 ? remainder : remainder - 6;
+  const a = 1 / Math.pow(1 + semiYield, monthsToNextCoupon / 6);
+  const b = (coupon / 2) * (6 - monthsToNextCoupon) / 6;
+  const c = 1 / Math.pow(1 + semiYield, remainder < 7 ? 2 * years : 2 * years + 1);
+  const d = (coupon / (2 * semiYield)) * (1 - c);
+
+  return parseFloat((a * (coupon / 2 + c + d) - b).toFixed(4));
+}
+
+/**
+ * Market inputs for analysing deliverables against a futures price
+ */
+export interface DeliveryContext {
+  futurePrice: number;
+  settlement: Date; // Spot settlement of a bond bought today
+  deliveryDate: Date; // Date the bond is delivered into the future
+  repoRate: number; // Term financing rate to delivery, percent, ACT/360
+}
+
+/**
+ * Basis and carry of one deliverable. Prices and basis are in price
+ * points per 100 face.
+ */
+export interface DeliverableAnalysis {
+  instrumentId: string;
+  description: string;
+  coupon: number;
+  maturityDate: string;
+  conversionFactor: number;
+  cleanPrice: number;
+  accrued: number;
+  accruedAtDelivery: number;
+  invoicePrice: number; // Futures price times conversion factor plus accrued at delivery
+  grossBasis: number; // Clean price less futures price times conversion factor
+  carry: number; // Coupon income less financing cost to delivery
+  netBasis: number; // Gross basis less carry
+  impliedRepoRate?: number; // Percent, ACT/360; undefined with no time left to delivery
+  isCheapestToDeliver: boolean;
+}
+
+const REPO_BASIS = 360;
+
+/**
+ * Cash-and-carry analysis of buying a bond at spot and delivering it into
+ * the future. Coupons paid before delivery reduce the financed amount
+ * from their payment date.
+ */
+export function analyseDeliverable(
+  bond: Bond,
+  contract: DeliveryContract,
+  deliveryMonth: Date,
+  context: DeliveryContext
+): DeliverableAnalysis {
+  const settlement = toDate(context.settlement);
+  const delivery = toDate(context.deliveryDate);
+  const days = Math.max(0, daysBetween(settlement, delivery));
+
+  const factor = conversionFactor(
+    bond.coupon,
+    toDate(bond.maturityDate),
+    deliveryReferenceDate(contract, deliveryMonth),
+    contract.roundingMonths
+  );
+  const accrued = bondAccruedInterest(bond, settlement);
+  const accruedAtDelivery = days > 0 ? bondAccruedInterest(bond, delivery) : accrued;
+  const dirtyPrice = bond.currentPrice + accrued;
+  const invoicePrice = context.futurePrice * factor + accruedAtDelivery;
+
+  // Coupons received while the bond is held, weighted by the days they reduce the financed amount
+  const coupons = bondCashflowPoints(bond, settlement)
+    .filter(point => point.date.getTime() <= delivery.getTime())
+    .map(point => ({ amount: point.coupon, days: daysBetween(point.date, delivery) }));
+  const couponTotal = coupons.reduce((sum, coupon) => sum + coupon.amount, 0);
+  const financingBase = (dirtyPrice * days - coupons.reduce((sum, coupon) => sum + coupon.amount * coupon.days, 0)) / REPO_BASIS;
+
+  const couponIncome = accruedAtDelivery - accrued + couponTotal;
+  const carry = couponIncome - (context.repoRate / 100) * financingBase;
+  const grossBasis = bond.currentPrice - context.futurePrice * factor;
+
+  return {
+    instrumentId: bond.instrumentId,
+    description: bond.description,
+    coupon: bond.coupon,
+    maturityDate: bond.maturityDate,
+    conversionFactor: factor,
+    cleanPrice: bond.currentPrice,
+    accrued,
+    accruedAtDelivery,
+    invoicePrice,
+    grossBasis,
+    carry,
+    netBasis: grossBasis - carry,
+    impliedRepoRate: days > 0 && financingBase > 0
+      ? ((invoicePrice + couponTotal - dirtyPrice) / financingBase) * 100
+      : undefined,
+    isCheapestToDeliver: false,
+  };
+}
+
+/**
+ * Analyse each deliverable and flag the cheapest to deliver: the highest
+ * implied repo rate, or the lowest net basis once no time is left
+ */
+export function analyseDeliveryBasket(
+  bonds: Bond[],
+  contract: DeliveryContract,
+  deliveryMonth: Date,
+  context: DeliveryContext
+): DeliverableAnalysis[] {
+  const analyses = bonds
+    .filter(bond => isDeliverable(bond, contract, deliveryMonth))
+    .map(bond => analyseDeliverable(bond, contract, deliveryMonth, context));
+  if (analyses.length === 0) return analyses;
+
+  const cheapest = analyses.reduce((best, analysis) => {
+    if (analysis.impliedRepoRate !== undefined && best.impliedRepoRate !== undefined) {
+      return analysis.impliedRepoRate > best.impliedRepoRate ? analysis : best;
+    }
+    return analysis.netBasis < best.netBasis ? analysis : best;
+  });
+  cheapest.isCheapestToDeliver = true;
+
+  return analyses;
+}
+
+/**
+ * Write the delivery basket and the cheapest-to-deliver's conversion
+ * factor, basis and implied repo onto the future
+ */
+export function updateFutureDeliveryAnalytics(future: Future, basket: DeliverableAnalysis[]): void {
+  const cheapest = basket.find(analysis => analysis.isCheapestToDeliver);
+
+  future.deliverableInstruments = basket.map(analysis => analysis.instrumentId);
+  future.cheapestToDeliver = cheapest?.instrumentId ?? '';
+  future.conversionFactor = cheapest?.conversionFactor ?? 0;
+  future.basisToSpot = cheapest ? parseFloat(cheapest.grossBasis.toFixed(6)) : 0;
+  future.impliedRepoRate = cheapest?.impliedRepoRate !== undefined
+    ? parseFloat(cheapest.impliedRepoRate.toFixed(4))
+    : 0;
+}
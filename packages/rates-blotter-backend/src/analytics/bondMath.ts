@@ -0,0 +1,293 @@
+import { paymentTimes } from './curve';
+import { accruedInterest, couponPeriod, yearFraction } from './dayCount';
+import { formatDate, isEndOfMonth, toDate } from './dates';
+import { generateSchedule } from './schedule';
+import { Bond } from '../models/bond';
+import { BusinessDayConvention } from '../models/enums';
+
+/**
+ * Price per 100 face of a fixed coupon bond from its yield.
+ * Coupon and yield are in percent; the yield compounds at the coupon frequency.
+ */
+export function priceFromYield(
+  yieldPct: number,
+  couponPct: number,
+  yearsToMaturity: number,
+  frequency: number
+): number {
+  if (yearsToMaturity <= 0) return 100;
+
+  const periodYield = yieldPct / 100 / frequency;
+  const coupon = couponPct / frequency;
+  const discount = (time: number) => Math.pow(1 + periodYield, -time * frequency);
+
+  let price = 100 * discount(yearsToMaturity);
+  for (const time of paymentTimes(0, yearsToMaturity, frequency)) {
+    price += coupon * discount(time);
+  }
+  return price;
+}
+
+/**
+ * Accrued interest per 100 face for a bond settling on `settlement`.
+ * Zero once the bond has matured.
+ */
+export function bondAccruedInterest(bond: Bond, settlement: Date): number {
+  const period = couponPeriod(settlement, toDate(bond.maturityDate), bond.couponFrequency, toDate(bond.issueDate));
+  if (!period) return 0;
+
+  return accruedInterest({
+    couponRate: bond.coupon,
+    frequency: bond.couponFrequency,
+    previousCouponDate: period.previous,
+    nextCouponDate: period.next,
+    settlementDate: settlement,
+    convention: bond.dayCountConvention,
+  });
+}
+
+/**
+ * A remaining payment per 100 face, timed in coupon periods from settlement
+ */
+export interface BondCashflowPoint {
+  date: Date;
+  periods: number; // Coupon periods from settlement (fractional for the current period)
+  amount: number;
+  coupon: number; // Coupon part of `amount`
+  accrualFactor: number; // Coupon year fraction
+}
+
+/**
+ * Optional early redemption, e.g. a call
+ */
+export interface Redemption {
+  date: Date;
+  price: number;
+}
+
+export interface BondAnalytics {
+  cleanPrice: number;
+  dirtyPrice: number;
+  accrued: number;
+  yieldToMaturity: number; // Percent, compounded at the coupon frequency
+  macaulayDuration: number; // Years
+  modifiedDuration: number;
+  convexity: number; // Years squared
+  dv01: number; // Dirty price change for a 1bp yield fall, on the notional
+  pv01: number; // Value of a 1bp coupon stream, on the notional
+}
+
+export interface YieldToWorst {
+  yield: number; // Percent
+  workoutDate: string;
+  redemptionPrice: number;
+}
+
+const MAX_YIELD_ITERATIONS = 100;
+const YIELD_TOLERANCE = 1e-12;
+
+/**
+ * Remaining coupons and redemption per 100 face. Times follow the street
+ * convention: the fraction of the current coupon period still to run,
+ * then whole periods (stub periods count as their fraction of a period).
+ * An early redemption ends the flows at the first coupon date on or after
+ * its date.
+ */
+export function bondCashflowPoints(bond: Bond, settlement: Date, redemption?: Redemption): BondCashflowPoint[] {
+  const settle = toDate(settlement);
+  const frequency = bond.couponFrequency;
+  const periods = generateSchedule({
+    effectiveDate: toDate(bond.issueDate),
+    maturityDate: toDate(bond.maturityDate),
+    frequency,
+    accrualConvention: BusinessDayConvention.UNADJUSTED,
+  });
+
+  const points: BondCashflowPoint[] = [];
+  let elapsed = 0;
+
+  for (const period of periods) {
+    if (period.endDate.getTime() <= settle.getTime()) continue;
+
+    const options = {
+      frequency,
+      referenceStart: period.referenceStart,
+      referenceEnd: period.referenceEnd,
+      endOfMonth: isEndOfMonth(period.referenceEnd),
+    };
+    const accrualFactor = yearFraction(period.startDate, period.endDate, bond.dayCountConvention, options);
+    const from = period.startDate.getTime() < settle.getTime() ? settle : period.startDate;
+    elapsed += yearFraction(from, period.endDate, bond.dayCountConvention, options) * frequency;
+
+    const coupon = bond.coupon * accrualFactor;
+    const redeemed = redemption !== undefined && period.endDate.getTime() >= toDate(redemption.date).getTime();
+    const isLast = redeemed || period === periods[periods.length - 1];
+    const principal = isLast ? (redeemed ? redemption!.price : 100) : 0;
+
+    points.push({ date: period.endDate, periods: elapsed, amount: coupon + principal, coupon, accrualFactor });
+    if (isLast) break;
+  }
+
+  return points;
+}
+
+/**
+ * Dirty price per 100 face of a set of cashflow points at a yield in percent
+ */
+function dirtyPriceFromPoints(points: BondCashflowPoint[], yieldPct: number, frequency: number): number {
+  const base = 1 + yieldPct / 100 / frequency;
+  return points.reduce((price, point) => price + point.amount * Math.pow(base, -point.periods), 0);
+}
+
+/**
+ * Solve the yield (percent) that reprices a set of cashflows to a dirty price.
+ * Newton steps, falling back to bisection if Newton leaves the bracket.
+ */
+function solveYield(points: BondCashflowPoint[], dirtyPrice: number, frequency: number): number {
+  if (points.length === 0) return 0;
+
+  let low = -0.99 * frequency * 100;
+  let high = 100;
+  let y = 5;
+
+  for (let i = 0; i < MAX_YIELD_ITERATIONS; i++) {
+    const base = 1 + y / 100 / frequency;
+    let price = 0;
+    let slope = 0;
+    points.forEach(point => {
+      const pv = point.amount * Math.pow(base, -point.periods);
+      price += pv;
+      slope -= (point.periods * pv) / base / frequency / 100;
+    });
+
+    const error = price - dirtyPrice;
+    if (Math.abs(error) < YIELD_TOLERANCE) return y;
+
+    // Price falls as yield rises
+    if (error > 0) low = y;
+    else high = y;
+
+    const next = slope !== 0 ? y - error / slope : NaN;
+    y = next > low && next < high ? next : (low + high) / 2;
+  }
+
+  return y;
+}
+
+/**
+ * Clean and dirty price per 100 face from a yield in percent
+ */
+export function bondPriceFromYield(
+  bond: Bond,
+  yieldPct: number,
+  settlement: Date
+): { cleanPrice: number; dirtyPrice: number; accrued: number } {
+  const accrued = bondAccruedInterest(bond, settlement);
+  const dirtyPrice = dirtyPriceFromPoints(bondCashflowPoints(bond, settlement), yieldPct, bond.couponFrequency);
+  return { cleanPrice: dirtyPrice - accrued, dirtyPrice, accrued };
+}
+
+/**
+ * Yield to maturity (or to an early redemption) in percent from a clean price
+ */
+export function bondYieldFromPrice(bond: Bond, cleanPrice: number, settlement: Date, redemption?: Redemption): number {
+  const dirtyPrice = cleanPrice + bondAccruedInterest(bond, settlement);
+  return solveYield(bondCashflowPoints(bond, settlement, redemption), dirtyPrice, bond.couponFrequency);
+}
+
+/**
+ * Price, duration, convexity and basis point values at a yield in percent.
+ * DV01 and PV01 are in currency on the bond's notional amount.
+ */
+export function bondAnalytics(bond: Bond, yieldPct: number, settlement: Date): BondAnalytics {
+  const frequency = bond.couponFrequency;
+  const points = bondCashflowPoints(bond, settlement);
+  const accrued = bondAccruedInterest(bond, settlement);
+  const base = 1 + yieldPct / 100 / frequency;
+
+  let dirtyPrice = 0;
+  let weightedTime = 0;
+  let weightedConvexity = 0;
+  let annuity = 0;
+  points.forEach(point => {
+    const discount = Math.pow(base, -point.periods);
+    const pv = point.amount * discount;
+    dirtyPrice += pv;
+    weightedTime += pv * point.periods;
+    weightedConvexity += pv * point.periods * (point.periods + 1);
+    annuity += point.accrualFactor * discount;
+  });
+
+  const macaulayDuration = dirtyPrice > 0 ? weightedTime / dirtyPrice / frequency : 0;
+  const modifiedDuration = macaulayDuration / base;
+  const convexity = dirtyPrice > 0 ? weightedConvexity / dirtyPrice / (frequency * frequency * base * base) : 0;
+  const faceUnits = bond.notionalAmount / 100;
+
+  return {
+    cleanPrice: dirtyPrice - accrued,
+    dirtyPrice,
+    accrued,
+    yieldToMaturity: yieldPct,
+    macaulayDuration,
+    modifiedDuration,
+    convexity,
+    dv01: modifiedDuration * dirtyPrice * faceUnits * 0.0001,
+    pv01: annuity * bond.notionalAmount * 0.0001,
+  };
+}
+
+/**
+ * Lowest of the yield to maturity and the yields to each remaining call.
+ * Calls are assumed exercisable on coupon dates, so a call dated between
+ * coupons redeems on the following coupon date.
+ */
+export function bondYieldToWorst(bond: Bond, cleanPrice: number, settlement: Date): YieldToWorst {
+  const settle = toDate(settlement);
+  const maturity = toDate(bond.maturityDate);
+  let worst: YieldToWorst = {
+    yield: bondYieldFromPrice(bond, cleanPrice, settle),
+    workoutDate: formatDate(maturity),
+    redemptionPrice: 100,
+  };
+
+  (bond.callSchedule ?? []).forEach(call => {
+    const callDate = toDate(call.date);
+    if (callDate.getTime() <= settle.getTime() || callDate.getTime() >= maturity.getTime()) return;
+
+    const redemption = { date: callDate, price: call.price };
+    const callYield = bondYieldFromPrice(bond, cleanPrice, settle, redemption);
+    if (callYield < worst.yield) {
+      const points = bondCashflowPoints(bond, settle, redemption);
+      worst = {
+        yield: callYield,
+        workoutDate: formatDate(points[points.length - 1].date),
+        redemptionPrice: call.price,
+      };
+    }
+  });
+
+  return worst;
+}
+
+/**
+ * Reprice a bond from its yield and write the price, accrued, risk and
+ * yield-to-worst fields back onto it. Matured bonds are left untouched.
+ */
+export function updateBondAnalytics(bond: Bond, yieldPct: number, settlement: Date): void {
+  if (toDate(settlement).getTime() >= toDate(bond.maturityDate).getTime()) return;
+
+  const analytics = bondAnalytics(bond, yieldPct, settlement);
+  const worst = bondYieldToWorst(bond, analytics.cleanPrice, settlement);
+
+  bond.yieldToMaturity = parseFloat(yieldPct.toFixed(4));
+  bond.currentPrice = parseFloat(analytics.cleanPrice.toFixed(4));
+  bond.accrued = parseFloat(analytics.accrued.toFixed(6));
+  bond.dirtyPrice = parseFloat(analytics.dirtyPrice.toFixed(6));
+  bond.macaulayDuration = parseFloat(analytics.macaulayDuration.toFixed(4));
+  bond.duration = parseFloat(analytics.modifiedDuration.toFixed(4));
+  bond.convexity = parseFloat(analytics.convexity.toFixed(4));
+  bond.dv01 = parseFloat(analytics.dv01.toFixed(2));
+  bond.pv01 = parseFloat(analytics.pv01.toFixed(2));
+  bond.yieldToWorst = parseFloat(worst.yield.toFixed(4));
+  bond.workoutDate = worst.workoutDate;
+}
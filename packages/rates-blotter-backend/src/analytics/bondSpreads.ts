@@ -0,0 +1,267 @@
+import { Bond } from '../models/bond';
+import { YieldCurve, yearsBetween } from './curve';
+import { BondCashflowPoint, bondCashflowPoints } from './bondMath';
+import { toDate } from './dates';
+
+/**
+ * Spreads of a bond over a swap curve, in basis points
+ */
+export interface BondSpreads {
+  zSpread: number; // Parallel shift of the curve's continuously compounded zero rates
+  assetSwapSpread: number; // Par asset swap: the package costs par
+  proceedsAssetSwapSpread: number; // Proceeds asset swap: the floating leg is on the dirty price
+  oasSpread: number; // Z-spread net of the issuer's call option; the Z-spread for bullets
+}
+
+/**
+ * Normal volatility of the short rate in the OAS lattice, decimal per year
+ */
+export const DEFAULT_SHORT_RATE_VOL = 0.01;
+
+const LATTICE_STEPS_PER_YEAR = 12;
+const MAX_SPREAD_ITERATIONS = 100;
+const SPREAD_TOLERANCE = 1e-10; // Price per 100 face
+
+/**
+ * A bond cashflow timed in years from settlement, with the curve's
+ * discount factor forward to settlement
+ */
+interface TimedCashflow {
+  point: BondCashflowPoint;
+  time: number;
+  discountFactor: number;
+}
+
+function timedCashflows(points: BondCashflowPoint[], curve: YieldCurve, asOf: Date, settlement: Date): TimedCashflow[] {
+  const settlementDf = curve.discountFactor(yearsBetween(asOf, settlement));
+  return points.map(point => ({
+    point,
+    time: yearsBetween(settlement, point.date),
+    discountFactor: curve.discountFactor(yearsBetween(asOf, point.date)) / settlementDf,
+  }));
+}
+
+/**
+ * Solve the spread (decimal) at which a decreasing price function hits a
+ * target, by false position (Illinois) inside an expanding bracket
+ */
+function solveSpread(price: (spread: number) => number, target: number): number {
+  let low = -0.05;
+  let high = 0.2;
+  let errorLow = price(low) - target;
+  let errorHigh = price(high) - target;
+
+  for (let i = 0; i < 20 && errorLow < 0; i++) {
+    low -= 0.05;
+    errorLow = price(low) - target;
+  }
+  for (let i = 0; i < 20 && errorHigh > 0; i++) {
+    high *= 2;
+    errorHigh = price(high) - target;
+  }
+
+  let spread = low;
+  let side = 0;
+  for (let i = 0; i < MAX_SPREAD_ITERATIONS; i++) {
+    spread = (low * errorHigh - high * errorLow) / (errorHigh - errorLow);
+    const error = price(spread) - target;
+    if (Math.abs(error) < SPREAD_TOLERANCE) break;
+
+    if (error > 0) {
+      low = spread;
+      errorLow = error;
+      if (side === 1) errorHigh /= 2;
+      side = 1;
+    } else {
+      high = spread;
+      errorHigh = error;
+      if (side === -1) errorLow /= 2;
+      side = -1;
+    }
+  }
+  return spread;
+}
+
+/**
+ * Z-spread (decimal) that reprices the cashflows to a dirty price
+ */
+function solveZSpread(cashflows: TimedCashflow[], dirtyPrice: number): number {
+  return solveSpread(
+    spread => cashflows.reduce((pv, cf) => pv + cf.point.amount * cf.discountFactor * Math.exp(-spread * cf.time), 0),
+    dirtyPrice
+  );
+}
+
+/**
+ * Ho-Lee short rate lattice fitted to the curve's discount factors from settlement
+ */
+interface ShortRateLattice {
+  steps: number;
+  dt: number;
+  drift: number[]; // Central rate at each step
+  volatility: number;
+}
+
+function buildLattice(cashflows: TimedCashflow[], curve: YieldCurve, asOf: Date, settlement: Date, volatility: number): ShortRateLattice {
+  const maturity = cashflows[cashflows.length - 1].time;
+  const steps = Math.max(1, Math.ceil(maturity * LATTICE_STEPS_PER_YEAR));
+  const dt = maturity / steps;
+  const spacing = volatility * Math.sqrt(dt);
+  const start = yearsBetween(asOf, settlement);
+  const settlementDf = curve.discountFactor(start);
+
+  // Forward induction on Arrow-Debreu prices, choosing each step's drift to match the curve
+  const drift: number[] = [];
+  let prices = [1];
+  for (let n = 0; n < steps; n++) {
+    const target = curve.discountFactor(start + (n + 1) * dt) / settlementDf;
+    const unshifted = prices.reduce((sum, price, i) => sum + price * Math.exp(-spacing * (2 * i - n) * dt), 0);
+    drift.push(Math.log(unshifted / target) / dt);
+
+    const next = new Array(n + 2).fill(0);
+    prices.forEach((price, i) => {
+      const discounted = 0.5 * price * Math.exp(-(drift[n] + spacing * (2 * i - n)) * dt);
+      next[i] += discounted;
+      next[i + 1] += discounted;
+    });
+    prices = next;
+  }
+
+  return { steps, dt, drift, volatility };
+}
+
+/**
+ * Dirty price of the bond on the lattice at a spread over the short rate.
+ * The issuer calls when the bond is worth more than the call price; the
+ * coupon due on the call date is paid either way.
+ */
+function latticePrice(
+  lattice: ShortRateLattice,
+  flows: number[],
+  callPrices: (number | undefined)[],
+  spread: number
+): number {
+  const { steps, dt, drift } = lattice;
+  const spacing = lattice.volatility * Math.sqrt(dt);
+  let values = new Array(steps + 1).fill(0);
+
+  for (let n = steps; n >= 0; n--) {
+    if (n < steps) {
+      const rolled = new Array(n + 1);
+      for (let i = 0; i <= n; i++) {
+        rolled[i] = 0.5 * (values[i] + values[i + 1]) * Math.exp(-(drift[n] + spacing * (2 * i - n) + spread) * dt);
+      }
+      values = rolled;
+    }
+
+    const callPrice = callPrices[n];
+    for (let i = 0; i <= n; i++) {
+      if (callPrice !== undefined) values[i] = Math.min(values[i], callPrice);
+      values[i] += flows[n];
+    }
+  }
+
+  return values[0];
+}
+
+/**
+ * Option-adjusted spread (decimal) of a callable bond on a Ho-Lee lattice.
+ * Calls are exercisable on the coupon date on or after their date, as for
+ * the yield to worst.
+ */
+function solveOas(
+  bond: Bond,
+  cashflows: TimedCashflow[],
+  curve: YieldCurve,
+  asOf: Date,
+  settlement: Date,
+  dirtyPrice: number,
+  volatility: number
+): number {
+  const lattice = buildLattice(cashflows, curve, asOf, settlement, volatility);
+  const stepOf = (time: number) => Math.min(lattice.steps, Math.max(0, Math.round(time / lattice.dt)));
+
+  const flows = new Array(lattice.steps + 1).fill(0);
+  cashflows.forEach(cf => {
+    flows[stepOf(cf.time)] += cf.point.amount;
+  });
+
+  const callPrices: (number | undefined)[] = new Array(lattice.steps + 1).fill(undefined);
+  (bond.callSchedule ?? []).forEach(call => {
+    const callDate = toDate(call.date).getTime();
+    const exercise = cashflows.find(cf => cf.point.date.getTime() >= callDate);
+    if (!exercise || exercise === cashflows[cashflows.length - 1]) return;
+
+    const step = stepOf(exercise.time);
+    callPrices[step] = Math.min(callPrices[step] ?? Infinity, call.price);
+  });
+
+  return solveSpread(spread => latticePrice(lattice, flows, callPrices, spread), dirtyPrice);
+}
+
+/**
+ * Z-spread, par and proceeds asset swap spreads and OAS of a bond at a
+ * dirty price over a swap curve dated `asOf`. The asset swap's floating
+ * leg runs from settlement on the bond's coupon dates. Undefined once the
+ * bond has no cashflows left.
+ */
+export function bondSpreads(
+  bond: Bond,
+  dirtyPrice: number,
+  curve: YieldCurve,
+  asOf: Date,
+  settlement: Date,
+  volatility: number = DEFAULT_SHORT_RATE_VOL
+): BondSpreads | undefined {
+  const settle = toDate(settlement);
+  const points = bondCashflowPoints(bond, settle);
+  if (points.length === 0 || dirtyPrice <= 0) return undefined;
+
+  const cashflows = timedCashflows(points, curve, toDate(asOf), settle);
+  const zSpread = solveZSpread(cashflows, dirtyPrice);
+
+  let curvePrice = 0;
+  let annuity = 0;
+  let previousPeriods = 0;
+  cashflows.forEach(cf => {
+    curvePrice += cf.point.amount * cf.discountFactor;
+    annuity += cf.point.accrualFactor * Math.min(1, cf.point.periods - previousPeriods) * cf.discountFactor;
+    previousPeriods = cf.point.periods;
+  });
+  const assetSwapSpread = annuity > 0 ? (curvePrice - dirtyPrice) / (100 * annuity) : 0;
+
+  const callable = (bond.callSchedule ?? []).some(call => {
+    const callDate = toDate(call.date).getTime();
+    return callDate > settle.getTime() && callDate < toDate(bond.maturityDate).getTime();
+  });
+  const oasSpread = callable
+    ? solveOas(bond, cashflows, curve, toDate(asOf), settle, dirtyPrice, volatility)
+    : zSpread;
+
+  return {
+    zSpread: zSpread * 10000,
+    assetSwapSpread: assetSwapSpread * 10000,
+    proceedsAssetSwapSpread: (assetSwapSpread * 10000 * 100) / dirtyPrice,
+    oasSpread: oasSpread * 10000,
+  };
+}
+
+/**
+ * Write the spreads at a dirty price, the bond's current one by default,
+ * onto the bond
+ */
+export function updateBondSpreadAnalytics(
+  bond: Bond,
+  curve: YieldCurve,
+  asOf: Date,
+  settlement: Date,
+  dirtyPrice: number = bond.dirtyPrice
+): void {
+  const spreads = bondSpreads(bond, dirtyPrice, curve, asOf, settlement);
+  if (!spreads) return;
+
+  bond.zSpread = parseFloat(spreads.zSpread.toFixed(2));
+  bond.assetSwapSpread = parseFloat(spreads.assetSwapSpread.toFixed(2));
+  bond.proceedsAssetSwapSpread = parseFloat(spreads.proceedsAssetSwapSpread.toFixed(2));
+  bond.oasSpread = parseFloat(spreads.oasSpread.toFixed(2));
+}
@@ -0,0 +1,103 @@
+import { BusinessDayConvention } from '../models/enums';
+import { addDays, formatDate, toDate } from './dates';
+
+/**
+ * Holiday calendar definition as stored in the calendar data files
+ */
+export interface CalendarDefinition {
+  name: string; // Calendar code, e.g. "USNY"
+  city?: string;
+  currencies: string[]; // Currencies settling on this calendar
+  description?: string;
+  weekendDays?: number[]; // UTC days of week (0 = Sunday); defaults to Saturday and Sunday
+  holidays: string[]; // ISO dates
+}
+
+/**
+ * Business-day calendar: weekends plus a list of holidays
+ */
+export class HolidayCalendar {
+  readonly name: string;
+  private weekendDays: Set<number>;
+  private holidays: Set<string>;
+
+  constructor(private definition: CalendarDefinition) {
+    this.name = definition.name;
+    this.weekendDays = new Set(definition.weekendDays ?? [0, 6]);
+    this.holidays = new Set(definition.holidays.map(holiday => formatDate(toDate(holiday))));
+  }
+
+  getDefinition(): CalendarDefinition {
+    return this.definition;
+  }
+
+  isWeekend(date: Date): boolean {
+    return this.weekendDays.has(toDate(date).getUTCDay());
+  }
+
+  isHoliday(date: Date): boolean {
+    return this.holidays.has(formatDate(toDate(date)));
+  }
+
+  isBusinessDay(date: Date): boolean {
+    return !this.isWeekend(date) && !this.isHoliday(date);
+  }
+
+  /**
+   * Holidays (excluding weekends) falling within [from, to]
+   */
+  holidaysBetween(from: Date, to: Date): string[] {
+    const start = formatDate(toDate(from));
+    const end = formatDate(toDate(to));
+    return Array.from(this.holidays)
+      .filter(holiday => holiday >= start && holiday <= end)
+      .sort();
+  }
+
+  /**
+   * Roll a date onto a business day
+   */
+  adjust(date: Date, convention: BusinessDayConvention): Date {
+    const start = toDate(date);
+
+    switch (convention) {
+      case BusinessDayConvention.UNADJUSTED:
+        return start;
+      case BusinessDayConvention.FOLLOWING:
+        return this.roll(start, 1);
+      case BusinessDayConvention.PRECEDING:
+        return this.roll(start, -1);
+      case BusinessDayConvention.MODIFIED_FOLLOWING: {
+        // Roll forward unless that crosses into the next month
+        const following = this.roll(start, 1);
+        return following.getUTCMonth() === start.getUTCMonth() ? following : this.roll(start, -1);
+      }
+      default:
+        throw new Error(`Unsupported business day convention: ${convention}`);
+    }
+  }
+
+  /**
+   * Move a number of business days forward (or backward when negative).
+   * With zero days the date is rolled to the following business day.
+   */
+  addBusinessDays(date: Date, days: number): Date {
+    let result = toDate(date);
+    if (days === 0) return this.roll(result, 1);
+
+    const step = days > 0 ? 1 : -1;
+    for (let remaining = Math.abs(days); remaining > 0; ) {
+      result = addDays(result, step);
+      if (this.isBusinessDay(result)) remaining--;
+    }
+    return result;
+  }
+
+  private roll(date: Date, step: 1 | -1): Date {
+    let result = date;
+    while (!this.isBusinessDay(result)) {
+      result = addDays(result, step);
+    }
+    return result;
+  }
+}
@@ -0,0 +1,159 @@
+import { Bond } from '../models/bond';
+import { InterestRateSwap } from '../models/interestRateSwap';
+import { DayCountConvention, SwapDirection } from '../models/enums';
+import { yearsBetween } from './curve';
+import { bondAccruedInterest, bondAnalytics, bondCashflowPoints } from './bondMath';
+import { swapCashflows } from './cashflows';
+import { addMonths, daysBetween, toDate } from './dates';
+import { yearFraction } from './dayCount';
+import { SwapValuationContext, swapMtm, valueSwap } from './swapPricing';
+
+/**
+ * Horizons carry and roll-down are quoted over
+ */
+export const CARRY_HORIZONS = ['1M', '3M', '6M', '1Y'];
+
+/**
+ * Expected return of holding a position to a horizon with the curve
+ * unchanged, in currency on the notional
+ */
+export interface CarryRoll {
+  income: number; // Coupon accrued over the horizon; for swaps the net of both legs
+  fundingCost: number; // Repo interest on the dirty price; zero for swaps
+  fundingRate: number; // Percent
+  carry: number; // Income less funding cost
+  rollDown: number; // Change in clean value from ageing along the unchanged curve
+  total: number;
+  dv01: number; // Value change for a +1bp parallel move
+  carryBp: number; // Carry as a yield move against the DV01
+  rollDownBp: number;
+}
+
+/**
+ * Inputs for a bond's carry and roll-down. Yields in percent.
+ */
+export interface BondCarryContext {
+  settlement: Date; // Spot settlement today
+  horizonSettlement: Date; // Spot settlement on the horizon date
+  yieldPct: number;
+  horizonYieldPct: number; // Yield for the shorter remaining life off the unchanged curve
+  repoRate: number; // Simple percent rate the position is financed at
+  repoBasis: number; // Repo day-count basis, 360 or 365
+}
+
+/**
+ * Date a horizon such as 3M or 1Y runs to. Undefined for other horizons.
+ */
+export function carryHorizonDate(asOf: Date, horizon: string): Date | undefined {
+  if (!CARRY_HORIZONS.includes(horizon)) return undefined;
+  const count = parseInt(horizon, 10);
+  return addMonths(toDate(asOf), horizon.endsWith('Y') ? count * 12 : count);
+}
+
+function inBasisPoints(amount: number, dv01: number): number {
+  return dv01 !== 0 ? amount / Math.abs(dv01) : 0;
+}
+
+/**
+ * Carry and roll-down of a long bond position financed in repo. Coupons
+ * paid before the horizon count as income; a bond maturing first is
+ * funded to maturity and redeems at par. Undefined once it has matured.
+ */
+export function bondCarryRoll(bond: Bond, context: BondCarryContext): CarryRoll | undefined {
+  const { settlement, horizonSettlement } = context;
+  const maturity = toDate(bond.maturityDate);
+  if (settlement.getTime() >= maturity.getTime()) return undefined;
+
+  const today = bondAnalytics(bond, context.yieldPct, settlement);
+  const matures = horizonSettlement.getTime() >= maturity.getTime();
+  const end = matures ? maturity : horizonSettlement;
+
+  // Per 100 face
+  const coupons = bondCashflowPoints(bond, settlement)
+    .filter(point => point.date.getTime() <= end.getTime())
+    .reduce((sum, point) => sum + point.coupon, 0);
+  const horizonAccrued = matures ? 0 : bondAccruedInterest(bond, horizonSettlement);
+  const income = coupons + horizonAccrued - today.accrued;
+  const fundingCost = (today.dirtyPrice * context.repoRate * daysBetween(settlement, end)) / (100 * context.repoBasis);
+  const horizonClean = matures ? 100 : bondAnalytics(bond, context.horizonYieldPct, horizonSettlement).cleanPrice;
+
+  const faceUnits = bond.notionalAmount / 100;
+  const carry = (income - fundingCost) * faceUnits;
+  const rollDown = (horizonClean - today.cleanPrice) * faceUnits;
+
+  return {
+    income: income * faceUnits,
+    fundingCost: fundingCost * faceUnits,
+    fundingRate: context.repoRate,
+    carry,
+    rollDown,
+    total: carry + rollDown,
+    dv01: -today.dv01,
+    carryBp: inBasisPoints(carry, today.dv01),
+    rollDownBp: inBasisPoints(rollDown, today.dv01),
+  };
+}
+
+/**
+ * Swap value less the net interest accrued in its running periods
+ */
+function cleanSwapValue(swap: InterestRateSwap, context: SwapValuationContext): number {
+  const asOf = toDate(context.asOf);
+  const receiveFloating = swap.direction === SwapDirection.PAY_FIXED;
+
+  const accrued = swapCashflows(swap, context).reduce((sum, cashflow) => {
+    if (!cashflow.accrualStart || !cashflow.accrualEnd) return sum;
+    const start = toDate(cashflow.accrualStart);
+    const end = toDate(cashflow.accrualEnd);
+    if (start.getTime() > asOf.getTime() || end.getTime() <= asOf.getTime()) return sum;
+
+    const amount = (cashflow.amount * daysBetween(start, asOf)) / daysBetween(start, end);
+    const received = (cashflow.leg === 'FLOATING') === receiveFloating;
+    return sum + (received ? amount : -amount);
+  }, 0);
+
+  return swapMtm(swap, context) - accrued;
+}
+
+/**
+ * Carry and roll-down of a swap to a horizon date. Carry is the net of
+ * the fixed accrual and the floating accrual at the forward rate over the
+ * horizon; roll-down revalues the swap on the horizon date off the same
+ * curves, with both ends off the curves alone so the difference is the
+ * roll. Undefined once the swap has matured.
+ */
+export function swapCarryRoll(swap: InterestRateSwap, context: SwapValuationContext, horizonDate: Date): CarryRoll | undefined {
+  const asOf = toDate(context.asOf);
+  const maturity = toDate(swap.maturityDate);
+  if (maturity.getTime() <= asOf.getTime()) return undefined;
+
+  const curvesOnly: SwapValuationContext = { ...context, asOf, fixings: undefined };
+  const effective = toDate(swap.effectiveDate);
+  const start = effective.getTime() > asOf.getTime() ? effective : asOf;
+  const end = horizonDate.getTime() < maturity.getTime() ? toDate(horizonDate) : maturity;
+
+  let income = 0;
+  if (end.getTime() > start.getTime()) {
+    const forwardCurve = context.forwardCurve;
+    const growth = forwardCurve.discountFactor(yearsBetween(asOf, start)) / forwardCurve.discountFactor(yearsBetween(asOf, end));
+    const floatingFactor = yearFraction(start, end, context.floatingDayCount ?? DayCountConvention.ACT_360);
+    const floating = swap.notionalAmount * (growth - 1 + (swap.floatingRateSpread / 100) * floatingFactor);
+    const fixed = swap.notionalAmount * (swap.fixedRate / 100) * yearFraction(start, end, swap.dayCountConvention);
+    income = swap.direction === SwapDirection.PAY_FIXED ? floating - fixed : fixed - floating;
+  }
+
+  const dv01 = valueSwap(swap, curvesOnly).dv01;
+  const rollDown = cleanSwapValue(swap, { ...curvesOnly, asOf: toDate(horizonDate) }) - cleanSwapValue(swap, curvesOnly);
+
+  return {
+    income,
+    fundingCost: 0,
+    fundingRate: 0,
+    carry: income,
+    rollDown,
+    total: income + rollDown,
+    dv01,
+    carryBp: inBasisPoints(income, dv01),
+    rollDownBp: inBasisPoints(rollDown, dv01),
+  };
+}
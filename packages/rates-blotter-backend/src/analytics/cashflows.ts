@@ -0,0 +1,235 @@
+import { BusinessDayConvention, DayCountConvention, StubType } from '../models/enums';
+import { Bond } from '../models/bond';
+import { InterestRateSwap } from '../models/interestRateSwap';
+import { HolidayCalendar } from './calendar';
+import { YieldCurve, yearsBetween } from './curve';
+import { formatDate, isEndOfMonth, toDate } from './dates';
+import { yearFraction } from './dayCount';
+import { SchedulePeriod, generateSchedule } from './schedule';
+import { FixingLookup, compoundOvernightRate } from './overnightCompounding';
+import { moneyMarketBasis } from './moneyMarket';
+
+export type CashflowLeg = 'FIXED' | 'FLOATING' | 'PRINCIPAL';
+
+/**
+ * A single dated payment. Rates are in percent, amounts in the
+ * instrument's notional currency.
+ */
+export interface Cashflow {
+  leg: CashflowLeg;
+  paymentDate: string;
+  accrualStart?: string;
+  accrualEnd?: string;
+  accrualFactor: number;
+  rate: number; // Coupon or projected floating rate including spread
+  notional: number;
+  amount: number;
+  isStub: boolean;
+  projected: boolean; // Floating amounts projected off the forward curve
+  discountFactor?: number; // Only for payments after the valuation date
+  presentValue?: number;
+}
+
+export interface CashflowOptions {
+  asOf: Date; // Valuation date; earlier payments are dropped unless includePast
+  calendar?: HolidayCalendar;
+  stub?: StubType;
+  discountCurve?: YieldCurve;
+  forwardCurve?: YieldCurve; // Projection curve; floating flows are only emitted with one
+  floatingDayCount?: DayCountConvention; // Floating leg basis, ACT/360 by default
+  fixings?: FixingLookup; // Published index fixings; with a calendar, days already run compound these
+  includePast?: boolean;
+}
+
+/**
+ * Coupons and redemption of a fixed coupon bond on its notional amount.
+ * Coupons accrue on unadjusted dates and pay on the following business day.
+ */
+export function bondCashflows(bond: Bond, options: CashflowOptions): Cashflow[] {
+  const maturity = toDate(bond.maturityDate);
+  const periods = generateSchedule({
+    effectiveDate: toDate(bond.issueDate),
+    maturityDate: maturity,
+    frequency: bond.couponFrequency,
+    stub: options.stub,
+    calendar: options.calendar,
+    accrualConvention: BusinessDayConvention.UNADJUSTED,
+    paymentConvention: BusinessDayConvention.FOLLOWING,
+  });
+
+  const notional = bond.notionalAmount;
+  const cashflows: Cashflow[] = periods.map(period => {
+    const accrualFactor = periodYearFraction(period, period.startDate, period.endDate, bond.dayCountConvention, bond.couponFrequency);
+    return createCashflow('FIXED', period, period.startDate, period.endDate, accrualFactor, bond.coupon, notional, false);
+  });
+
+  const last = periods[periods.length - 1];
+  cashflows.push({
+    leg: 'PRINCIPAL',
+    paymentDate: formatDate(last.paymentDate),
+    accrualFactor: 0,
+    rate: 0,
+    notional,
+    amount: notional,
+    isStub: false,
+    projected: false,
+  });
+
+  return finalize(cashflows, options);
+}
+
+/**
+ * Fixed and projected floating cashflows of a swap. Both legs pay at the
+ * swap's payment frequency on modified-following adjusted dates; the fixed
+ * leg uses the swap's day count and the floating leg the index basis.
+ */
+export function swapCashflows(swap: InterestRateSwap, options: CashflowOptions): Cashflow[] {
+  const periods = generateSchedule({
+    effectiveDate: toDate(swap.effectiveDate),
+    maturityDate: toDate(swap.maturityDate),
+    frequency: swap.paymentFrequency,
+    stub: options.stub,
+    calendar: options.calendar,
+    accrualConvention: BusinessDayConvention.MODIFIED_FOLLOWING,
+  });
+
+  const notional = swap.notionalAmount;
+  const floatingDayCount = options.floatingDayCount ?? DayCountConvention.ACT_360;
+  const asOf = toDate(options.asOf);
+  const cashflows: Cashflow[] = [];
+
+  periods.forEach(period => {
+    const start = period.adjustedStartDate;
+    const end = period.adjustedEndDate;
+
+    const fixedFactor = periodYearFraction(period, start, end, swap.dayCountConvention, swap.paymentFrequency);
+    cashflows.push(createCashflow('FIXED', period, start, end, fixedFactor, swap.fixedRate, notional, false));
+
+    // Settled periods are only emitted when their fixings are known
+    const floating = floatingPeriodRate(swap, options, asOf, start, end, floatingDayCount);
+    if (!floating) return;
+
+    const floatingFactor = periodYearFraction(period, start, end, floatingDayCount, swap.paymentFrequency);
+    cashflows.push(
+      createCashflow('FLOATING', period, start, end, floatingFactor, floating.rate + swap.floatingRateSpread, notional, floating.projected)
+    );
+  });
+
+  return finalize(cashflows, options);
+}
+
+/**
+ * Floating rate in percent for an accrual period: fixings compounded in
+ * arrears over the days already run, and the forward curve over the rest
+ */
+function floatingPeriodRate(
+  swap: InterestRateSwap,
+  options: CashflowOptions,
+  asOf: Date,
+  start: Date,
+  end: Date,
+  dayCount: DayCountConvention
+): { rate: number; projected: boolean } | undefined {
+  const realised = options.fixings && options.calendar && start.getTime() < asOf.getTime()
+    ? compoundOvernightRate({
+      start,
+      end,
+      calendar: options.calendar,
+      dayCountBasis: moneyMarketBasis(dayCount),
+      conventions: swap.compounding,
+      accrueTo: asOf,
+    }, options.fixings)
+    : undefined;
+
+  if (end.getTime() <= asOf.getTime()) {
+    return realised && { rate: realised.rate, projected: false };
+  }
+
+  const forward = projectFloatingRate(options.forwardCurve, asOf, start, end, dayCount);
+  if (forward === undefined) return undefined;
+  if (!realised) return { rate: forward, projected: true };
+
+  const forwardGrowth = 1 + (forward / 100) * yearFraction(asOf, end, dayCount);
+  return { rate: ((realised.growth * forwardGrowth - 1) / yearFraction(start, end, dayCount)) * 100, projected: true };
+}
+
+/**
+ * Simply compounded forward rate in percent for an accrual period. Periods
+ * that have already started are projected over their remaining part.
+ */
+function projectFloatingRate(
+  curve: YieldCurve | undefined,
+  asOf: Date,
+  start: Date,
+  end: Date,
+  dayCount: DayCountConvention
+): number | undefined {
+  if (!curve || end.getTime() <= asOf.getTime()) return undefined;
+
+  const from = start.getTime() > asOf.getTime() ? start : asOf;
+  const accrual = yearFraction(from, end, dayCount);
+
+  const growth = curve.discountFactor(yearsBetween(asOf, from)) / curve.discountFactor(yearsBetween(asOf, end));
+  return ((growth - 1) / accrual) * 100;
+}
+
+function periodYearFraction(
+  period: SchedulePeriod,
+  start: Date,
+  end: Date,
+  convention: DayCountConvention,
+  frequency: number
+): number {
+  return yearFraction(start, end, convention, {
+    frequency,
+    referenceStart: period.referenceStart,
+    referenceEnd: period.referenceEnd,
+    endOfMonth: isEndOfMonth(period.referenceEnd),
+  });
+}
+
+function createCashflow(
+  leg: CashflowLeg,
+  period: SchedulePeriod,
+  accrualStart: Date,
+  accrualEnd: Date,
+  accrualFactor: number,
+  rate: number,
+  notional: number,
+  projected: boolean
+): Cashflow {
+  return {
+    leg,
+    paymentDate: formatDate(period.paymentDate),
+    accrualStart: formatDate(accrualStart),
+    accrualEnd: formatDate(accrualEnd),
+    accrualFactor: parseFloat(accrualFactor.toFixed(10)),
+    rate: parseFloat(rate.toFixed(6)),
+    notional,
+    amount: parseFloat(((notional * rate) / 100 * accrualFactor).toFixed(2)),
+    isStub: period.isStub,
+    projected,
+  };
+}
+
+/**
+ * Drop settled payments and attach discount factors to the rest
+ */
+function finalize(cashflows: Cashflow[], options: CashflowOptions): Cashflow[] {
+  const asOf = toDate(options.asOf);
+
+  return cashflows
+    .filter(cashflow => options.includePast || toDate(cashflow.paymentDate).getTime() > asOf.getTime())
+    .map(cashflow => {
+      const paymentDate = toDate(cashflow.paymentDate);
+      if (!options.discountCurve || paymentDate.getTime() <= asOf.getTime()) {
+        return cashflow;
+      }
+      const discountFactor = options.discountCurve.discountFactor(yearsBetween(asOf, paymentDate));
+      return {
+        ...cashflow,
+        discountFactor: parseFloat(discountFactor.toFixed(10)),
+        presentValue: parseFloat((cashflow.amount * discountFactor).toFixed(2)),
+      };
+    });
+}
@@ -0,0 +1,181 @@
+import { Currency, ReferenceRateIndex } from '../models/enums';
+
+/**
+ * A single node of a bootstrapped curve
+ */
+export interface CurvePillar {
+  tenor: string; // Tenor label of the quote that produced the pillar (e.g. "5Y")
+  time: number; // Time in years from the curve date
+  discountFactor: number;
+}
+
+/**
+ * A dated cashflow expressed in curve time
+ */
+export interface CurveCashflow {
+  time: number;
+  amount: number;
+}
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Convert a tenor label ("ON", "1W", "3M", "10Y") into a year fraction
+ */
+export function tenorToYears(tenor: string): number {
+  const label = tenor.trim().toUpperCase();
+  if (label === 'ON' || label === 'TN') {
+    return 1 / DAYS_PER_YEAR;
+  }
+
+  const match = /^(\d+)([DWMY])$/.exec(label);
+  if (!match) {
+    throw new Error(`Invalid tenor: ${tenor}`);
+  }
+
+  const amount = parseInt(match[1], 10);
+  switch (match[2]) {
+    case 'D':
+      return amount / DAYS_PER_YEAR;
+    case 'W':
+      return (amount * 7) / DAYS_PER_YEAR;
+    case 'M':
+      return amount / 12;
+    default:
+      return amount;
+  }
+}
+
+/**
+ * Time in years (ACT/365) between two dates
+ */
+export function yearsBetween(from: Date, to: Date): number {
+  return (to.getTime() - from.getTime()) / (DAYS_PER_YEAR * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Payment times of a regular schedule running backwards from maturity,
+ * so any short stub falls at the front
+ */
+export function paymentTimes(start: number, maturity: number, frequency: number): number[] {
+  const step = 1 / frequency;
+  const times: number[] = [];
+  for (let t = maturity; t > start + 1e-9; t -= step) {
+    times.unshift(t);
+  }
+  return times;
+}
+
+/**
+ * Discount curve built from pillar discount factors.
+ * Interpolation is log-linear in discount factors (piecewise flat forwards),
+ * with the last forward rate extrapolated beyond the final pillar.
+ * All rates are returned as decimals (0.045 = 4.5%).
+ */
+export class YieldCurve {
+  private readonly times: number[];
+  private readonly logDiscountFactors: number[];
+
+  constructor(
+    readonly currency: Currency,
+    readonly index: ReferenceRateIndex,
+    readonly pillars: CurvePillar[]
+  ) {
+    if (pillars.length === 0) {
+      throw new Error(`Curve ${currency}/${index} has no pillars`);
+    }
+    this.times = pillars.map(p => p.time);
+    this.logDiscountFactors = pillars.map(p => Math.log(p.discountFactor));
+  }
+
+  discountFactor(time: number): number {
+    if (time <= 0) return 1;
+
+    const times = this.times;
+    const logDfs = this.logDiscountFactors;
+    const last = times.length - 1;
+
+    if (time <= times[0]) {
+      return Math.exp((logDfs[0] * time) / times[0]);
+    }
+
+    if (time >= times[last]) {
+      const slope = last === 0
+        ? logDfs[0] / times[0]
+        : (logDfs[last] - logDfs[last - 1]) / (times[last] - times[last - 1]);
+      return Math.exp(logDfs[last] + slope * (time - times[last]));
+    }
+
+    let i = 1;
+    while (times[i] < time) i++;
+    const weight = (time - times[i - 1]) / (times[i] - times[i - 1]);
+    return Math.exp(logDfs[i - 1] + weight * (logDfs[i] - logDfs[i - 1]));
+  }
+
+  /**
+   * Continuously compounded zero rate
+   */
+  zeroRate(time: number): number {
+    const t = Math.max(time, 1e-6);
+    return -Math.log(this.discountFactor(t)) / t;
+  }
+
+  /**
+   * Simply compounded forward rate between two times
+   */
+  forwardRate(start: number, end: number): number {
+    if (end <= start) {
+      throw new Error('Forward period end must be after its start');
+    }
+    return (this.discountFactor(start) / this.discountFactor(end) - 1) / (end - start);
+  }
+
+  /**
+   * Sum of accrual-weighted discount factors for a fixed leg
+   */
+  annuity(start: number, maturity: number, frequency: number): number {
+    let previous = start;
+    let annuity = 0;
+    for (const time of paymentTimes(start, maturity, frequency)) {
+      annuity += (time - previous) * this.discountFactor(time);
+      previous = time;
+    }
+    return annuity;
+  }
+
+  /**
+   * Par rate of a fixed leg paying `frequency` times a year, starting at `start`
+   */
+  parRate(maturity: number, frequency: number, start = 0): number {
+    const annuity = this.annuity(start, maturity, frequency);
+    if (annuity <= 0) return this.zeroRate(maturity);
+    return (this.discountFactor(start) - this.discountFactor(maturity)) / annuity;
+  }
+
+  /**
+   * Copy of the curve with every continuously compounded zero rate moved
+   * by `shiftBp` basis points
+   */
+  shift(shiftBp: number): YieldCurve {
+    return this.shiftBy(() => shiftBp);
+  }
+
+  /**
+   * Copy of the curve with each pillar's zero rate moved by a
+   * time-dependent amount in basis points
+   */
+  shiftBy(shiftBp: (time: number) => number): YieldCurve {
+    return new YieldCurve(
+      this.currency,
+      this.index,
+      this.pillars.map(pillar => ({
+        ...pillar,
+        discountFactor: pillar.discountFactor * Math.exp((-shiftBp(pillar.time) / 10000) * pillar.time),
+      }))
+    );
+  }
+
+  presentValue(cashflows: CurveCashflow[]): number {
+    return cashflows.reduce((pv, cf) => pv + cf.amount * this.discountFactor(cf.time), 0);
+  }
+}
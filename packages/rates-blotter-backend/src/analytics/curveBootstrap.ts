@@ -0,0 +1,154 @@
+import { Currency, ReferenceRateIndex } from '../models/enums';
+import { CurvePillar, YieldCurve, paymentTimes, tenorToYears } from './curve';
+
+/**
+ * Money-market deposit quote, rate in percent
+ */
+export interface DepositQuote {
+  type: 'DEPOSIT';
+  tenor: string;
+  rate: number;
+}
+
+/**
+ * Short-term interest rate future quote (price = 100 - rate)
+ */
+export interface FutureQuote {
+  type: 'FUTURE';
+  startTenor: string;
+  endTenor: string;
+  price: number;
+}
+
+/**
+ * Par swap quote, rate in percent
+ */
+export interface SwapQuote {
+  type: 'SWAP';
+  tenor: string;
+  rate: number;
+  fixedFrequency: number; // Fixed leg payments per year
+}
+
+export type CurveQuote = DepositQuote | FutureQuote | SwapQuote;
+
+/**
+ * Everything needed to bootstrap a curve for one reference rate index
+ */
+export interface CurveDefinition {
+  currency: Currency;
+  index: ReferenceRateIndex;
+  dayCountBasis: 360 | 365; // Money-market day count denominator
+  quotes: CurveQuote[];
+}
+
+const MAX_ITERATIONS = 100;
+const TOLERANCE = 1e-14;
+
+/**
+ * Time in years of the pillar a quote produces
+ */
+export function quoteMaturity(quote: CurveQuote): number {
+  return tenorToYears(quote.type === 'FUTURE' ? quote.endTenor : quote.tenor);
+}
+
+/**
+ * Tenor label of the pillar a quote produces
+ */
+export function quoteTenor(quote: CurveQuote): string {
+  return quote.type === 'FUTURE' ? quote.endTenor : quote.tenor;
+}
+
+/**
+ * Rate implied by a quote, in percent
+ */
+export function quoteRate(quote: CurveQuote): number {
+  return quote.type === 'FUTURE' ? 100 - quote.price : quote.rate;
+}
+
+/**
+ * Bootstrap a discount curve from deposits, futures and par swaps.
+ * Quotes are processed in maturity order; each one adds a pillar whose
+ * discount factor reprices that quote exactly on the curve built so far.
+ */
+export function bootstrapCurve(definition: CurveDefinition): YieldCurve {
+  const { currency, index, dayCountBasis } = definition;
+  const quotes = [...definition.quotes].sort((a, b) => quoteMaturity(a) - quoteMaturity(b));
+  const pillars: CurvePillar[] = [];
+  const moneyMarketScale = 365 / dayCountBasis;
+
+  const curveWith = (extra?: CurvePillar) =>
+    new YieldCurve(currency, index, extra ? [...pillars, extra] : pillars);
+
+  for (const quote of quotes) {
+    const time = quoteMaturity(quote);
+    const tenor = quoteTenor(quote);
+
+    if (pillars.length > 0 && time <= pillars[pillars.length - 1].time) {
+      throw new Error(`Duplicate or unordered pillar ${tenor} on ${currency}/${index} curve`);
+    }
+
+    let discountFactor: number;
+
+    switch (quote.type) {
+      case 'DEPOSIT': {
+        const accrual = time * moneyMarketScale;
+        discountFactor = 1 / (1 + (quote.rate / 100) * accrual);
+        break;
+      }
+      case 'FUTURE': {
+        const start = tenorToYears(quote.startTenor);
+        const accrual = (time - start) * moneyMarketScale;
+        const forward = (100 - quote.price) / 100;
+        const startDiscount = pillars.length > 0 ? curveWith().discountFactor(start) : 1;
+        discountFactor = startDiscount / (1 + forward * accrual);
+        break;
+      }
+      case 'SWAP':
+        discountFactor = solveSwapPillar(quote, time, pillars.length > 0 ? curveWith : undefined);
+        break;
+    }
+
+    pillars.push({ tenor, time, discountFactor });
+  }
+
+  return curveWith();
+}
+
+/**
+ * Solve for the maturity discount factor that prices a par swap at zero.
+ * Intermediate coupon dates beyond the last known pillar depend on the
+ * unknown through interpolation, so iterate to a fixed point.
+ */
+function solveSwapPillar(
+  quote: SwapQuote,
+  maturity: number,
+  curveWith?: (extra?: CurvePillar) => YieldCurve
+): number {
+  const rate = quote.rate / 100;
+  const times = paymentTimes(0, maturity, quote.fixedFrequency);
+  const finalAccrual = times.length > 1 ? maturity - times[times.length - 2] : maturity;
+
+  let guess = 1 / (1 + rate * maturity);
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const curve = curveWith
+      ? curveWith({ tenor: quote.tenor, time: maturity, discountFactor: guess })
+      : undefined;
+
+    let previous = 0;
+    let knownAnnuity = 0;
+    for (const time of times.slice(0, -1)) {
+      const discount = curve ? curve.discountFactor(time) : Math.pow(guess, time / maturity);
+      knownAnnuity += (time - previous) * discount;
+      previous = time;
+    }
+
+    const next = (1 - rate * knownAnnuity) / (1 + rate * finalAccrual);
+    if (Math.abs(next - guess) < TOLERANCE) {
+      return next;
+    }
+    guess = next;
+  }
+
+  return guess;
+}
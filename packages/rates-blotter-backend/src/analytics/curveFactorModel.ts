@@ -0,0 +1,105 @@
+/**
+ * Level, slope and curvature of a curve's deviation from where the
+ * simulation started, in basis points
+ */
+export interface CurveFactors {
+  level: number;
+  slope: number; // Short end less long end
+  curvature: number; // Belly against the wings
+}
+
+export type CurveFactor = keyof CurveFactors;
+
+export interface CurveFactorModelParameters {
+  volatility: CurveFactors; // Standard deviation of one step's shock, basis points
+  meanReversion: number; // Share of each factor's deviation pulled back per step
+  globalCorrelation: CurveFactors; // Correlation of each factor's shocks across currencies
+  levelSlopeCorrelation: number; // Negative: rallies steepen, sell-offs flatten
+  decay: number; // Nelson-Siegel decay of the slope and curvature loadings, per year
+}
+
+export const DEFAULT_CURVE_FACTOR_PARAMETERS: CurveFactorModelParameters = {
+  volatility: { level: 1.0, slope: 0.6, curvature: 0.4 },
+  meanReversion: 0.0002,
+  globalCorrelation: { level: 0.7, slope: 0.5, curvature: 0.3 },
+  levelSlopeCorrelation: -0.3,
+  decay: 0.6,
+};
+
+const FACTORS: CurveFactor[] = ['level', 'slope', 'curvature'];
+
+/**
+ * Nelson-Siegel loadings of the three factors at a time in years: level
+ * moves the whole curve, slope fades from one at the short end to zero at
+ * the long end and curvature peaks in the belly
+ */
+export function factorLoadings(time: number, decay: number = DEFAULT_CURVE_FACTOR_PARAMETERS.decay): CurveFactors {
+  const x = Math.max(time, 1e-6) * decay;
+  const slope = (1 - Math.exp(-x)) / x;
+  return { level: 1, slope, curvature: slope - Math.exp(-x) };
+}
+
+/**
+ * Move in basis points at a time in years for a change in the factors
+ */
+export function factorShift(factors: CurveFactors, time: number, decay?: number): number {
+  const loadings = factorLoadings(time, decay);
+  return FACTORS.reduce((shift, factor) => shift + factors[factor] * loadings[factor], 0);
+}
+
+/**
+ * Three-factor model of each currency's curve: level, slope and curvature
+ * follow mean-reverting random walks whose shocks share a global component
+ * across currencies, so curves co-move within and across currencies
+ */
+export class CurveFactorModel {
+  private factors: Map<string, CurveFactors> = new Map();
+
+  constructor(
+    private normal: () => number,
+    private parameters: CurveFactorModelParameters = DEFAULT_CURVE_FACTOR_PARAMETERS
+  ) {}
+
+  getParameters(): CurveFactorModelParameters {
+    return this.parameters;
+  }
+
+  getFactors(currency: string): CurveFactors {
+    return { ...(this.factors.get(currency) ?? { level: 0, slope: 0, curvature: 0 }) };
+  }
+
+  reset(): void {
+    this.factors.clear();
+  }
+
+  /**
+   * Advance every currency's factors one step, with shocks scaled by
+   * `scale`, and return each currency's change in factors
+   */
+  step(currencies: string[], scale: number = 1): Map<string, CurveFactors> {
+    const { volatility, meanReversion, globalCorrelation, levelSlopeCorrelation } = this.parameters;
+    const global: CurveFactors = { level: this.normal(), slope: this.normal(), curvature: this.normal() };
+    const moves: Map<string, CurveFactors> = new Map();
+
+    currencies.forEach(currency => {
+      const shock = {} as CurveFactors;
+      FACTORS.forEach(factor => {
+        const rho = globalCorrelation[factor];
+        shock[factor] = Math.sqrt(rho) * global[factor] + Math.sqrt(1 - rho) * this.normal();
+      });
+      shock.slope = levelSlopeCorrelation * shock.level + Math.sqrt(1 - levelSlopeCorrelation ** 2) * shock.slope;
+
+      const current = this.getFactors(currency);
+      const move = {} as CurveFactors;
+      FACTORS.forEach(factor => {
+        move[factor] = -meanReversion * current[factor] + shock[factor] * volatility[factor] * scale;
+        current[factor] += move[factor];
+      });
+
+      this.factors.set(currency, current);
+      moves.set(currency, move);
+    });
+
+    return moves;
+  }
+}
@@ -0,0 +1,63 @@
+import { tenorToYears } from './curve';
+
+export type CurveShockShape = 'parallel' | 'twist' | 'butterfly';
+
+export const CURVE_SHOCK_SHAPES: CurveShockShape[] = ['parallel', 'twist', 'butterfly'];
+
+/**
+ * A stylised curve move in basis points. A twist widens the spread from
+ * the short to the long tenor by `bp`, turning about the pivot; a
+ * butterfly lifts the belly at the pivot by `bp` against the two wings.
+ */
+export interface CurveShock {
+  shape: CurveShockShape;
+  bp: number;
+  shortTenor?: string; // Defaults to 2Y
+  longTenor?: string; // Defaults to 10Y
+  pivotTenor?: string; // Defaults to halfway between the short and long tenors
+}
+
+export const DEFAULT_SHOCK_TENORS = { short: '2Y', long: '10Y' };
+
+/**
+ * Check a shock's shape and tenors, throwing on anything that would not
+ * produce a sensible move
+ */
+export function validateCurveShock(shock: CurveShock): void {
+  if (!CURVE_SHOCK_SHAPES.includes(shock.shape)) {
+    throw new Error(`Invalid curve shock shape: ${shock.shape}`);
+  }
+  if (!Number.isFinite(shock.bp)) {
+    throw new Error(`Invalid curve shock size: ${shock.bp}`);
+  }
+  const { short, long, pivot } = shockTimes(shock);
+  if (long <= short) {
+    throw new Error('Curve shock long tenor must be after the short tenor');
+  }
+  if (pivot <= short || pivot >= long) {
+    throw new Error('Curve shock pivot tenor must lie between the short and long tenors');
+  }
+}
+
+function shockTimes(shock: CurveShock): { short: number; long: number; pivot: number } {
+  const short = tenorToYears(shock.shortTenor ?? DEFAULT_SHOCK_TENORS.short);
+  const long = tenorToYears(shock.longTenor ?? DEFAULT_SHOCK_TENORS.long);
+  const pivot = shock.pivotTenor ? tenorToYears(shock.pivotTenor) : (short + long) / 2;
+  return { short, long, pivot };
+}
+
+/**
+ * Move in basis points at a time in years. Twists and butterflies are
+ * linear between the tenors and flat beyond them.
+ */
+export function curveShockBp(shock: CurveShock, time: number): number {
+  if (shock.shape === 'parallel') return shock.bp;
+
+  const { short, long, pivot } = shockTimes(shock);
+  const clamp = (x: number) => Math.min(1, Math.max(0, x));
+
+  if (shock.shape === 'twist') {
+    return shock.bp * (clamp((time - short) / (long - short)) - (pivot - short) / (long - short));
+  }
+  return shock.bp * (time <= pivot ? clamp((time - short) / (pivot - short)) : clamp((long - time) / (long - pivot)));
+}
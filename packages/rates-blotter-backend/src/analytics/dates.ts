@@ -0,0 +1,61 @@
+/**
+ * Calendar-date helpers. Dates are handled as UTC midnights so that
+ * day arithmetic is unaffected by the host time zone or DST.
+ */
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an ISO date ("2033-03-31") or a Date into a UTC midnight
+ */
+export function toDate(value: string | Date): Date {
+  const date = typeof value === 'string' ? new Date(value) : value;
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid date: ${String(value)}`);
+  }
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+/**
+ * Format a date as an ISO calendar date ("2033-03-31")
+ */
+export function formatDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export function addDays(date: Date, days: number): Date {
+  return new Date(date.getTime() + days * MS_PER_DAY);
+}
+
+/**
+ * Actual number of days between two dates
+ */
+export function daysBetween(start: Date, end: Date): number {
+  return Math.round((toDate(end).getTime() - toDate(start).getTime()) / MS_PER_DAY);
+}
+
+export function isLeapYear(year: number): boolean {
+  return (year % 4 === 0 && year % 100 !== 0) || year % 400 === 0;
+}
+
+export function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
+
+export function isEndOfMonth(date: Date): boolean {
+  return date.getUTCDate() === daysInMonth(date.getUTCFullYear(), date.getUTCMonth());
+}
+
+/**
+ * Add calendar months, clamping to the last day of shorter months.
+ * With `endOfMonth`, a month-end start always rolls to a month end.
+ */
+export function addMonths(date: Date, months: number, endOfMonth = false): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const targetYear = year + Math.floor(month / 12);
+  const targetMonth = ((month % 12) + 12) % 12;
+  const lastDay = daysInMonth(targetYear, targetMonth);
+  const day = endOfMonth && isEndOfMonth(date) ? lastDay : Math.min(date.getUTCDate(), lastDay);
+  return new Date(Date.UTC(targetYear, targetMonth, day));
+}
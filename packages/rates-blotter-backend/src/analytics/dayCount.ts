@@ -0,0 +1,203 @@
+import { DayCountConvention } from '../models/enums';
+import { addMonths, daysBetween, isEndOfMonth, isLeapYear, toDate } from './dates';
+
+/**
+ * Extra inputs some conventions need
+ */
+export interface DayCountOptions {
+  frequency?: number; // Coupons per year, required by ACT/ACT ICMA
+  referenceStart?: Date; // ICMA reference (regular coupon) period start
+  referenceEnd?: Date; // ICMA reference (regular coupon) period end
+  endOfMonth?: boolean; // Apply the 30/360 end-of-February rules
+}
+
+/**
+ * Year fraction between two dates under a day-count convention
+ */
+export function yearFraction(
+  start: Date,
+  end: Date,
+  convention: DayCountConvention,
+  options: DayCountOptions = {}
+): number {
+  const d1 = toDate(start);
+  const d2 = toDate(end);
+
+  if (d2.getTime() < d1.getTime()) {
+    return -yearFraction(d2, d1, convention, options);
+  }
+
+  switch (convention) {
+    case DayCountConvention.ACT_360:
+      return daysBetween(d1, d2) / 360;
+    case DayCountConvention.ACT_365:
+      return daysBetween(d1, d2) / 365;
+    case DayCountConvention.THIRTY_360:
+      return thirty360Days(d1, d2, options.endOfMonth ?? false) / 360;
+    case DayCountConvention.ACT_ACT_ISDA:
+      return actActIsda(d1, d2);
+    case DayCountConvention.ACT_ACT_ICMA:
+      return actActIcma(d1, d2, options);
+    default:
+      throw new Error(`Unsupported day count convention: ${convention}`);
+  }
+}
+
+/**
+ * Day count numerator: actual days, or 30/360 days for THIRTY_360
+ */
+export function dayCount(
+  start: Date,
+  end: Date,
+  convention: DayCountConvention,
+  endOfMonth = false
+): number {
+  return convention === DayCountConvention.THIRTY_360
+    ? thirty360Days(toDate(start), toDate(end), endOfMonth)
+    : daysBetween(start, end);
+}
+
+/**
+ * 30/360 US (bond basis) day count. With `endOfMonth`, the last day of
+ * February is treated as the 30th, following the SIA end-of-month rule.
+ */
+function thirty360Days(start: Date, end: Date, endOfMonth: boolean): number {
+  const y1 = start.getUTCFullYear();
+  const y2 = end.getUTCFullYear();
+  const m1 = start.getUTCMonth();
+  const m2 = end.getUTCMonth();
+  let day1 = start.getUTCDate();
+  let day2 = end.getUTCDate();
+
+  const startIsFebEnd = m1 === 1 && isEndOfMonth(start);
+  const endIsFebEnd = m2 === 1 && isEndOfMonth(end);
+
+  if (endOfMonth && startIsFebEnd && endIsFebEnd) day2 = 30;
+  if (endOfMonth && startIsFebEnd) day1 = 30;
+  if (day2 === 31 && day1 >= 30) day2 = 30;
+  if (day1 === 31) day1 = 30;
+
+  return 360 * (y2 - y1) + 30 * (m2 - m1) + (day2 - day1);
+}
+
+/**
+ * ACT/ACT ISDA: days falling in leap years over 366, the rest over 365
+ */
+function actActIsda(start: Date, end: Date): number {
+  let fraction = 0;
+  let cursor = start;
+
+  while (cursor.getTime() < end.getTime()) {
+    const year = cursor.getUTCFullYear();
+    const nextYear = new Date(Date.UTC(year + 1, 0, 1));
+    const periodEnd = nextYear.getTime() < end.getTime() ? nextYear : end;
+    fraction += daysBetween(cursor, periodEnd) / (isLeapYear(year) ? 366 : 365);
+    cursor = periodEnd;
+  }
+
+  return fraction;
+}
+
+/**
+ * ACT/ACT ICMA: accrued days over the days in the reference coupon period,
+ * divided by the coupon frequency. Periods longer than the reference period
+ * are split across notional (quasi-coupon) periods. Without explicit
+ * reference dates the reference period is the regular period ending at `end`.
+ */
+function actActIcma(start: Date, end: Date, options: DayCountOptions): number {
+  const frequency = options.frequency;
+  if (!frequency || frequency <= 0) {
+    throw new Error('ACT/ACT ICMA requires a coupon frequency');
+  }
+
+  const months = 12 / frequency;
+  const refEnd = options.referenceEnd ? toDate(options.referenceEnd) : end;
+  const refStart = options.referenceStart ? toDate(options.referenceStart) : addMonths(refEnd, -months);
+
+  const within = (from: Date, to: Date, periodStart: Date, periodEnd: Date) =>
+    daysBetween(from, to) / (frequency * daysBetween(periodStart, periodEnd));
+
+  if (start.getTime() >= refStart.getTime() && end.getTime() <= refEnd.getTime()) {
+    return within(start, end, refStart, refEnd);
+  }
+
+  if (start.getTime() < refStart.getTime()) {
+    const previousRef = addMonths(refStart, -months);
+    if (end.getTime() <= refStart.getTime()) {
+      return actActIcma(start, end, { frequency, referenceStart: previousRef, referenceEnd: refStart });
+    }
+    return (
+      actActIcma(start, refStart, { frequency, referenceStart: previousRef, referenceEnd: refStart }) +
+      actActIcma(refStart, end, { frequency, referenceStart: refStart, referenceEnd: refEnd })
+    );
+  }
+
+  const nextRef = addMonths(refEnd, months);
+  if (start.getTime() >= refEnd.getTime()) {
+    return actActIcma(start, end, { frequency, referenceStart: refEnd, referenceEnd: nextRef });
+  }
+  return (
+    actActIcma(start, refEnd, { frequency, referenceStart: refStart, referenceEnd: refEnd }) +
+    actActIcma(refEnd, end, { frequency, referenceStart: refEnd, referenceEnd: nextRef })
+  );
+}
+
+/**
+ * Regular coupon period containing a settlement date, found by rolling
+ * back from maturity. The first period starts no earlier than issue.
+ */
+export function couponPeriod(
+  settlement: Date,
+  maturity: Date,
+  frequency: number,
+  issueDate?: Date
+): { previous: Date; next: Date } | undefined {
+  const settle = toDate(settlement);
+  const end = toDate(maturity);
+  if (frequency <= 0 || settle.getTime() >= end.getTime()) return undefined;
+
+  const months = 12 / frequency;
+  const endOfMonth = isEndOfMonth(end);
+  let next = end;
+  let previous = addMonths(end, -months, endOfMonth);
+
+  for (let k = 2; previous.getTime() > settle.getTime(); k++) {
+    next = previous;
+    previous = addMonths(end, -k * months, endOfMonth);
+  }
+
+  if (issueDate && previous.getTime() < toDate(issueDate).getTime()) {
+    previous = toDate(issueDate);
+  }
+
+  return { previous, next };
+}
+
+export interface AccruedInterestParams {
+  couponRate: number; // Annual coupon in percent
+  frequency: number;
+  previousCouponDate: Date;
+  nextCouponDate: Date;
+  settlementDate: Date;
+  convention: DayCountConvention;
+  faceValue?: number; // Defaults to 100, i.e. accrued per 100 face
+}
+
+/**
+ * Interest accrued from the last coupon date up to settlement
+ */
+export function accruedInterest(params: AccruedInterestParams): number {
+  const { couponRate, frequency, previousCouponDate, nextCouponDate, settlementDate, convention } = params;
+  const faceValue = params.faceValue ?? 100;
+
+  if (settlementDate.getTime() <= previousCouponDate.getTime()) return 0;
+
+  const fraction = yearFraction(previousCouponDate, settlementDate, convention, {
+    frequency,
+    referenceStart: addMonths(nextCouponDate, -12 / frequency, isEndOfMonth(nextCouponDate)),
+    referenceEnd: nextCouponDate,
+    endOfMonth: isEndOfMonth(nextCouponDate),
+  });
+
+  return (couponRate / 100) * faceValue * fraction;
+}
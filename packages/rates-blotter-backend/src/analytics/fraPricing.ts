@@ -0,0 +1,64 @@
+import { DayCountConvention, SwapDirection } from '../models/enums';
+import { ForwardRateAgreement } from '../models/fra';
+import { YieldCurve, yearsBetween } from './curve';
+import { toDate } from './dates';
+import { yearFraction } from './dayCount';
+
+/**
+ * Curves and conventions an FRA is valued with
+ */
+export interface FraValuationContext {
+  asOf: Date;
+  discountCurve: YieldCurve;
+  forwardCurve: YieldCurve;
+  dayCount?: DayCountConvention; // Index basis, ACT/360 by default
+}
+
+export interface FraValuation {
+  forwardRate: number; // Percent
+  accrualFactor: number;
+  settlementAmount: number; // Paid at start to the FRA buyer if the fixing equals the forward
+  mtm: number; // Value to the desk
+  dv01: number; // MTM change for a +1bp parallel move
+}
+
+const BUMP_BP = 1;
+
+function fraValues(fra: ForwardRateAgreement, context: FraValuationContext) {
+  const asOf = toDate(context.asOf);
+  const start = toDate(fra.startDate);
+  const end = toDate(fra.endDate);
+  const accrualFactor = yearFraction(start, end, context.dayCount ?? DayCountConvention.ACT_360);
+
+  const startTime = yearsBetween(asOf, start);
+  const endTime = yearsBetween(asOf, end);
+  const forwardCurve = context.forwardCurve;
+  const forward = (forwardCurve.discountFactor(startTime) / forwardCurve.discountFactor(endTime) - 1) / accrualFactor;
+
+  // Buyer's settlement: the rate difference paid at start, discounted over the period at the fixing
+  const settlementAmount =
+    (fra.notionalAmount * (forward - fra.contractRate / 100) * accrualFactor) / (1 + forward * accrualFactor);
+  const sign = fra.direction === SwapDirection.PAY_FIXED ? 1 : -1;
+
+  return {
+    forwardRate: forward * 100,
+    accrualFactor,
+    settlementAmount,
+    mtm: sign * settlementAmount * context.discountCurve.discountFactor(startTime),
+  };
+}
+
+/**
+ * Forward rate, settlement amount and discounted value of an FRA that has
+ * not yet settled, with DV01 from curves shifted up by one basis point
+ */
+export function valueFra(fra: ForwardRateAgreement, context: FraValuationContext): FraValuation {
+  const base = fraValues(fra, context);
+  const bumped = fraValues(fra, {
+    ...context,
+    discountCurve: context.discountCurve.shift(BUMP_BP),
+    forwardCurve: context.forwardCurve.shift(BUMP_BP),
+  });
+
+  return { ...base, dv01: (bumped.mtm - base.mtm) / BUMP_BP };
+}
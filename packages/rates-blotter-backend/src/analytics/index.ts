@@ -0,0 +1,21 @@
+export * from './curve';
+export * from './curveBootstrap';
+export * from './bondMath';
+export * from './dates';
+export * from './dayCount';
+export * from './calendar';
+export * from './schedule';
+export * from './cashflows';
+export * from './swapPricing';
+export * from './optionPricing';
+export * from './volSurface';
+export * from './moneyMarket';
+export * from './fraPricing';
+export * from './bondFutures';
+export * from './overnightCompounding';
+export * from './keyRateRisk';
+export * from './bondSpreads';
+export * from './carryRoll';
+export * from './curveFactorModel';
+export * from './curveShocks';
+export * from './quotes';
@@ -0,0 +1,116 @@
+import { Instrument } from '../models/instrument';
+import { YieldCurve, tenorToYears } from './curve';
+
+/**
+ * Tenors interest rate risk is bucketed into
+ */
+export const KEY_RATE_TENORS = ['3M', '6M', '1Y', '2Y', '5Y', '10Y', '30Y'];
+
+/**
+ * Value change in currency for a +1bp move of each key rate, by tenor
+ */
+export type KeyRateDv01 = Record<string, number>;
+
+/**
+ * Value of a position off a discount and a projection curve
+ */
+export type CurvePricer = (discountCurve: YieldCurve, forwardCurve: YieldCurve) => number;
+
+/**
+ * Aggregated key-rate risk of a group of instruments
+ */
+export interface RiskLadderRow {
+  book?: string;
+  trader?: string;
+  currency?: string;
+  instruments: string[];
+  keyRateDv01: KeyRateDv01;
+  total: number; // Sum over the buckets, roughly the parallel DV01
+}
+
+export type RiskLadderDimension = 'book' | 'trader' | 'currency';
+
+const BUMP_BP = 1;
+const KEY_RATE_TIMES = KEY_RATE_TENORS.map(tenorToYears);
+
+/**
+ * Weight of one key rate's bump at a time: one at its tenor, falling
+ * linearly to zero at the neighbouring key tenors and flat before the
+ * first and after the last. The weights of all key rates sum to one.
+ */
+export function keyRateWeight(keyIndex: number, time: number, keyTimes: number[] = KEY_RATE_TIMES): number {
+  const key = keyTimes[keyIndex];
+  const previous = keyTimes[keyIndex - 1];
+  const next = keyTimes[keyIndex + 1];
+
+  if (time <= key) {
+    if (previous === undefined) return 1;
+    return time <= previous ? 0 : (time - previous) / (key - previous);
+  }
+  if (next === undefined) return 1;
+  return time >= next ? 0 : (next - time) / (next - key);
+}
+
+/**
+ * Key-rate DV01s from re-valuing with the pillars of both curves bumped
+ * up one basis point around each key tenor in turn
+ */
+export function keyRateDv01(pricer: CurvePricer, discountCurve: YieldCurve, forwardCurve: YieldCurve): KeyRateDv01 {
+  const base = pricer(discountCurve, forwardCurve);
+  const risk: KeyRateDv01 = {};
+
+  KEY_RATE_TENORS.forEach((tenor, i) => {
+    const bump = (time: number) => BUMP_BP * keyRateWeight(i, time);
+    risk[tenor] = (pricer(discountCurve.shiftBy(bump), forwardCurve.shiftBy(bump)) - base) / BUMP_BP;
+  });
+
+  return risk;
+}
+
+/**
+ * Sum the key-rate DV01s of instruments grouped by book, trader and/or
+ * currency. Instruments without key-rate risk are left out.
+ */
+export function aggregateRiskLadder(
+  instruments: Instrument[],
+  dimensions: RiskLadderDimension[] = ['book', 'trader', 'currency']
+): RiskLadderRow[] {
+  const rows: Map<string, RiskLadderRow> = new Map();
+
+  instruments.forEach(instrument => {
+    if (!instrument.keyRateDv01) return;
+
+    const group: Record<RiskLadderDimension, string> = {
+      book: instrument.book,
+      trader: instrument.trader,
+      currency: instrument.notionalCurrency,
+    };
+    const key = dimensions.map(dimension => group[dimension]).join('|');
+
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        ...Object.fromEntries(dimensions.map(dimension => [dimension, group[dimension]])),
+        instruments: [],
+        keyRateDv01: Object.fromEntries(KEY_RATE_TENORS.map(tenor => [tenor, 0])),
+        total: 0,
+      };
+      rows.set(key, row);
+    }
+
+    row.instruments.push(instrument.instrumentId);
+    KEY_RATE_TENORS.forEach(tenor => {
+      row!.keyRateDv01[tenor] += instrument.keyRateDv01![tenor] ?? 0;
+    });
+  });
+
+  return Array.from(rows.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([, row]) => {
+      KEY_RATE_TENORS.forEach(tenor => {
+        row.keyRateDv01[tenor] = parseFloat(row.keyRateDv01[tenor].toFixed(2));
+      });
+      row.total = parseFloat(KEY_RATE_TENORS.reduce((sum, tenor) => sum + row.keyRateDv01[tenor], 0).toFixed(2));
+      return row;
+    });
+}
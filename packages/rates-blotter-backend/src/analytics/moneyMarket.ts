@@ -0,0 +1,149 @@
+import { DayCountConvention, MoneyMarketType, RepoDirection } from '../models/enums';
+import { MoneyMarketInstrument } from '../models/moneyMarket';
+import { Repo } from '../models/repo';
+import { daysBetween, toDate } from './dates';
+
+/**
+ * Day basis for simple money-market interest: 365 for ACT/365, else 360
+ */
+export function moneyMarketBasis(convention: DayCountConvention): number {
+  return convention === DayCountConvention.ACT_365 ? 365 : 360;
+}
+
+/**
+ * Bond-equivalent (semi-annual, ACT/365) yield in percent of a zero
+ * coupon instrument priced per 100 redemption. Terms beyond half a year
+ * compound once, as in the US Treasury bill convention.
+ */
+export function bondEquivalentYield(price: number, days: number): number {
+  if (days <= 0 || price <= 0) return 0;
+  const t = days / 365;
+  if (days <= 182) {
+    return ((100 - price) / price / t) * 100;
+  }
+  const a = 2 * t - 1;
+  return ((-2 * t + 2 * Math.sqrt(t * t - a * (1 - 100 / price))) / a) * 100;
+}
+
+/**
+ * Amount paid at maturity per 100 face: face plus any interest
+ */
+function redemptionAmount(instrument: MoneyMarketInstrument, basis: number): number {
+  if (instrument.moneyMarketType !== MoneyMarketType.CD || !instrument.couponRate) return 100;
+  const term = daysBetween(toDate(instrument.issueDate), toDate(instrument.maturityDate));
+  return 100 * (1 + (instrument.couponRate / 100) * term / basis);
+}
+
+export interface MoneyMarketAnalytics {
+  price: number; // Per 100 face
+  discountRate: number; // Percent
+  moneyMarketYield: number; // Percent
+  bondEquivalentYield: number; // Percent
+  daysToMaturity: number;
+  dv01: number; // On the face amount
+}
+
+/**
+ * Simple yield in percent implied by a price per 100 face at settlement
+ */
+export function moneyMarketYield(instrument: MoneyMarketInstrument, price: number, settlement: Date): number {
+  const basis = moneyMarketBasis(instrument.dayCountConvention);
+  const days = daysBetween(toDate(settlement), toDate(instrument.maturityDate));
+  if (days <= 0 || price <= 0) return 0;
+  return (redemptionAmount(instrument, basis) / price - 1) * (basis / days) * 100;
+}
+
+/**
+ * Price, quoted rates and DV01 from a simple money-market yield in percent
+ */
+export function moneyMarketAnalytics(
+  instrument: MoneyMarketInstrument,
+  yieldPct: number,
+  settlement: Date
+): MoneyMarketAnalytics {
+  const basis = moneyMarketBasis(instrument.dayCountConvention);
+  const days = Math.max(0, daysBetween(toDate(settlement), toDate(instrument.maturityDate)));
+  const redemption = redemptionAmount(instrument, basis);
+  const priceAt = (y: number) => redemption / (1 + (y / 100) * days / basis);
+
+  const price = priceAt(yieldPct);
+  const perHundred = (price * 100) / redemption;
+
+  return {
+    price,
+    discountRate: days > 0 ? (1 - perHundred / 100) * (basis / days) * 100 : 0,
+    moneyMarketYield: yieldPct,
+    bondEquivalentYield: bondEquivalentYield(perHundred, days),
+    daysToMaturity: days,
+    dv01: ((priceAt(yieldPct - 0.005) - priceAt(yieldPct + 0.005)) * instrument.faceValue) / 100,
+  };
+}
+
+/**
+ * Write price, discount rate, yields and DV01 for a yield onto the
+ * instrument. Nothing changes once it has matured.
+ */
+export function updateMoneyMarketAnalytics(instrument: MoneyMarketInstrument, yieldPct: number, settlement: Date): void {
+  if (toDate(settlement).getTime() >= toDate(instrument.maturityDate).getTime()) return;
+
+  const analytics = moneyMarketAnalytics(instrument, yieldPct, settlement);
+  instrument.currentPrice = parseFloat(analytics.price.toFixed(6));
+  instrument.discountRate = parseFloat(analytics.discountRate.toFixed(4));
+  instrument.moneyMarketYield = parseFloat(analytics.moneyMarketYield.toFixed(4));
+  instrument.bondEquivalentYield = parseFloat(analytics.bondEquivalentYield.toFixed(4));
+  instrument.daysToMaturity = analytics.daysToMaturity;
+  instrument.dv01 = parseFloat(analytics.dv01.toFixed(2));
+}
+
+export interface RepoValuation {
+  accruedInterest: number;
+  repurchaseAmount: number;
+  collateralValue: number;
+  marginExcess: number;
+  mtm: number; // Value to the desk of the contract rate against the market rate
+  dv01: number; // MTM change for +1bp in the market rate
+}
+
+/**
+ * Cash lender's value of a repo: the contract rate's excess over the market
+ * rate for the remaining term, paid at the end date and discounted at the
+ * market rate
+ */
+function lenderValue(cash: number, repoRatePct: number, marketRatePct: number, remainingDays: number, basis: number): number {
+  const remaining = remainingDays / basis;
+  return (cash * ((repoRatePct - marketRatePct) / 100) * remaining) / (1 + (marketRatePct / 100) * remaining);
+}
+
+/**
+ * Accrual, collateral margin and mark-to-market of a term repo
+ */
+export function valueRepo(repo: Repo, collateralDirtyPrice: number, marketRatePct: number, asOf: Date): RepoValuation {
+  const basis = moneyMarketBasis(repo.dayCountConvention);
+  const start = toDate(repo.startDate);
+  const end = toDate(repo.endDate);
+  const valuationDate = toDate(asOf);
+
+  const term = daysBetween(start, end);
+  const elapsed = Math.min(term, Math.max(0, daysBetween(start, valuationDate)));
+  const remaining = term - elapsed;
+
+  const cash = repo.notionalAmount;
+  const rate = repo.repoRate / 100;
+  const accruedInterest = cash * rate * elapsed / basis;
+  const repurchaseAmount = cash * (1 + rate * term / basis);
+  const collateralValue = (repo.collateralNominal * collateralDirtyPrice) / 100;
+  const cashOwed = cash + accruedInterest;
+
+  const sign = repo.direction === RepoDirection.REVERSE_REPO ? 1 : -1;
+  const mtm = sign * lenderValue(cash, repo.repoRate, marketRatePct, remaining, basis);
+  const bumped = sign * lenderValue(cash, repo.repoRate, marketRatePct + 0.01, remaining, basis);
+
+  return {
+    accruedInterest,
+    repurchaseAmount,
+    collateralValue,
+    marginExcess: collateralValue * (1 - repo.haircut / 100) - cashOwed,
+    mtm,
+    dv01: bumped - mtm,
+  };
+}
@@ -0,0 +1,242 @@
+import { OptionPricingModel } from '../models/enums';
+import { Option } from '../models/option';
+
+export type OptionType = 'call' | 'put';
+
+/**
+ * Inputs for a European option on a futures price
+ */
+export interface OptionInputs {
+  model: OptionPricingModel;
+  optionType: OptionType;
+  forward: number; // Underlying futures price
+  strike: number;
+  timeToExpiry: number; // Years
+  volatility: number; // Lognormal (Black) as a decimal, absolute price units per year (Bachelier)
+  rate: number; // Continuously compounded discount rate to expiry, decimal
+}
+
+/**
+ * Premium and closed-form sensitivities. Greeks are raw derivatives:
+ * vega per 1.0 of volatility, theta per year of calendar time, rho per
+ * 1.0 of rate.
+ */
+export interface OptionValuation {
+  price: number;
+  delta: number;
+  gamma: number;
+  vega: number;
+  theta: number;
+  rho: number;
+}
+
+const MAX_VOL_ITERATIONS = 100;
+const VOL_TOLERANCE = 1e-10;
+
+/**
+ * Standard normal density
+ */
+export function normalPdf(x: number): number {
+  return Math.exp(-0.5 * x * x) / Math.sqrt(2 * Math.PI);
+}
+
+/**
+ * Standard normal cumulative distribution (Hart's double precision
+ * approximation as given by West, 2005)
+ */
+export function normalCdf(x: number): number {
+  const z = Math.abs(x);
+  if (z > 37) return x > 0 ? 1 : 0;
+
+  const e = Math.exp(-z * z / 2);
+  let tail: number;
+  if (z < 7.07106781186547) {
+    const numerator =
+      ((((((0.0352624965998911 * z + 0.700383064443688) * z + 6.37396220353165) * z + 33.912866078383) * z +
+        112.079291497871) * z + 221.213596169931) * z + 220.206867912376);
+    const denominator =
+      (((((((0.0883883476483184 * z + 1.75566716318264) * z + 16.064177579207) * z + 86.7807322029461) * z +
+        296.564248779674) * z + 637.333633378831) * z + 793.826512519948) * z + 440.413735824752);
+    tail = (e * numerator) / denominator;
+  } else {
+    const continued = z + 1 / (z + 2 / (z + 3 / (z + 4 / (z + 0.65))));
+    tail = e / continued / 2.506628274631;
+  }
+
+  return x > 0 ? 1 - tail : tail;
+}
+
+function intrinsicValue(optionType: OptionType, forward: number, strike: number): number {
+  return optionType === 'call' ? Math.max(0, forward - strike) : Math.max(0, strike - forward);
+}
+
+/**
+ * Value at or after expiry, or with zero volatility: discounted intrinsic
+ * value with a step delta
+ */
+function expiredValuation(inputs: OptionInputs, discount: number): OptionValuation {
+  const { optionType, forward, strike } = inputs;
+  const inTheMoney = intrinsicValue(optionType, forward, strike) > 0;
+  const price = discount * intrinsicValue(optionType, forward, strike);
+  return {
+    price,
+    delta: inTheMoney ? (optionType === 'call' ? discount : -discount) : 0,
+    gamma: 0,
+    vega: 0,
+    theta: inputs.rate * price,
+    rho: -Math.max(0, inputs.timeToExpiry) * price,
+  };
+}
+
+/**
+ * Black-76: lognormal futures price
+ */
+function black76(inputs: OptionInputs, discount: number): OptionValuation {
+  const { optionType, forward, strike, timeToExpiry: t, volatility: vol, rate } = inputs;
+  const stdDev = vol * Math.sqrt(t);
+  const d1 = (Math.log(forward / strike) + 0.5 * stdDev * stdDev) / stdDev;
+  const d2 = d1 - stdDev;
+  const sign = optionType === 'call' ? 1 : -1;
+
+  const price = discount * sign * (forward * normalCdf(sign * d1) - strike * normalCdf(sign * d2));
+  const density = normalPdf(d1);
+
+  return {
+    price,
+    delta: discount * sign * normalCdf(sign * d1),
+    gamma: (discount * density) / (forward * stdDev),
+    vega: discount * forward * density * Math.sqrt(t),
+    theta: -(discount * forward * density * vol) / (2 * Math.sqrt(t)) + rate * price,
+    rho: -t * price,
+  };
+}
+
+/**
+ * Bachelier: normally distributed futures price
+ */
+function bachelier(inputs: OptionInputs, discount: number): OptionValuation {
+  const { optionType, forward, strike, timeToExpiry: t, volatility: vol, rate } = inputs;
+  const stdDev = vol * Math.sqrt(t);
+  const d = (forward - strike) / stdDev;
+  const sign = optionType === 'call' ? 1 : -1;
+
+  const density = normalPdf(d);
+  const price = discount * (sign * (forward - strike) * normalCdf(sign * d) + stdDev * density);
+
+  return {
+    price,
+    delta: discount * sign * normalCdf(sign * d),
+    gamma: (discount * density) / stdDev,
+    vega: discount * Math.sqrt(t) * density,
+    theta: -(discount * vol * density) / (2 * Math.sqrt(t)) + rate * price,
+    rho: -t * price,
+  };
+}
+
+/**
+ * Premium and greeks of a European option on a future under the chosen model
+ */
+export function priceOption(inputs: OptionInputs): OptionValuation {
+  const discount = Math.exp(-inputs.rate * Math.max(0, inputs.timeToExpiry));
+  if (inputs.timeToExpiry <= 0 || inputs.volatility <= 0) {
+    return expiredValuation(inputs, discount);
+  }
+  if (inputs.model === OptionPricingModel.BACHELIER) {
+    return bachelier(inputs, discount);
+  }
+  if (inputs.forward <= 0 || inputs.strike <= 0) {
+    throw new Error('Black-76 needs a positive forward and strike');
+  }
+  return black76(inputs, discount);
+}
+
+/**
+ * Volatility that reprices the option to `price`. Newton steps on vega,
+ * falling back to bisection if Newton leaves the bracket. Undefined when
+ * the price is outside the no-arbitrage bounds or the option has expired.
+ */
+export function impliedVolatility(price: number, inputs: Omit<OptionInputs, 'volatility'>): number | undefined {
+  if (inputs.timeToExpiry <= 0) return undefined;
+
+  const discount = Math.exp(-inputs.rate * inputs.timeToExpiry);
+  const lower = discount * intrinsicValue(inputs.optionType, inputs.forward, inputs.strike);
+  const upper = discount * (inputs.optionType === 'call' ? inputs.forward : inputs.strike);
+  if (price <= lower || (inputs.model === OptionPricingModel.BLACK_76 && price >= upper)) return undefined;
+
+  const valueAt = (volatility: number) => priceOption({ ...inputs, volatility });
+
+  // Bracket: premiums increase with volatility
+  let low = 0;
+  let high = inputs.model === OptionPricingModel.BACHELIER ? Math.max(inputs.forward, 1) * 0.1 : 1;
+  while (valueAt(high).price < price) {
+    high *= 2;
+    if (high > 1e6) return undefined;
+  }
+
+  // Start from the at-the-money approximation
+  let vol = Math.min(high / 2, (price / discount) * Math.sqrt((2 * Math.PI) / inputs.timeToExpiry) /
+    (inputs.model === OptionPricingModel.BACHELIER ? 1 : inputs.forward));
+
+  for (let i = 0; i < MAX_VOL_ITERATIONS; i++) {
+    const valuation = valueAt(vol);
+    const error = valuation.price - price;
+    if (Math.abs(error) < VOL_TOLERANCE) return vol;
+
+    if (error > 0) high = vol;
+    else low = vol;
+
+    const next = valuation.vega > 0 ? vol - error / valuation.vega : NaN;
+    vol = next > low && next < high ? next : (low + high) / 2;
+  }
+
+  return vol;
+}
+
+/**
+ * Scale of the quoted `impliedVol` field relative to the model volatility:
+ * Black vols are quoted in percent, Bachelier vols in price points
+ */
+export function volQuoteScale(model: OptionPricingModel): number {
+  return model === OptionPricingModel.BACHELIER ? 1 : 0.01;
+}
+
+/**
+ * Quote a lognormal (Black) vol in the units of the option's model. Normal
+ * vols use the geometric-mean approximation sigma_N = sigma_B * sqrt(F * K).
+ */
+export function quotedVolFromBlack(model: OptionPricingModel, blackVol: number, forward: number, strike: number): number {
+  const normalised = model === OptionPricingModel.BACHELIER ? blackVol * Math.sqrt(forward * strike) : blackVol;
+  return normalised / volQuoteScale(model);
+}
+
+/**
+ * Reprice an option from its underlying futures price and quoted vol and
+ * write premium, greeks and intrinsic/time value back onto it. Vega is per
+ * unit of quoted vol, theta per calendar day and rho per basis point.
+ */
+export function updateOptionAnalytics(
+  option: Option,
+  underlyingPrice: number,
+  timeToExpiry: number,
+  rate: number
+): void {
+  const scale = volQuoteScale(option.pricingModel);
+  const valuation = priceOption({
+    model: option.pricingModel,
+    optionType: option.optionType,
+    forward: underlyingPrice,
+    strike: option.strikePrice,
+    timeToExpiry,
+    volatility: option.impliedVol * scale,
+    rate,
+  });
+
+  option.currentPrice = Math.max(0, parseFloat(valuation.price.toFixed(4)));
+  option.delta = parseFloat(valuation.delta.toFixed(4));
+  option.gamma = parseFloat(valuation.gamma.toFixed(4));
+  option.vega = parseFloat((valuation.vega * scale).toFixed(4));
+  option.theta = parseFloat((valuation.theta / 365).toFixed(4));
+  option.rho = parseFloat((valuation.rho * 1e-4).toFixed(6));
+  option.intrinsicValue = parseFloat(intrinsicValue(option.optionType, underlyingPrice, option.strikePrice).toFixed(4));
+  option.timeValue = Math.max(0, parseFloat((option.currentPrice - option.intrinsicValue).toFixed(4)));
+}
@@ -0,0 +1,118 @@
+import { BusinessDayConvention } from '../models/enums';
+import { OvernightCompounding } from '../models/interestRateSwap';
+import { HolidayCalendar } from './calendar';
+import { daysBetween, formatDate, toDate } from './dates';
+
+/**
+ * Published overnight fixing in percent for a date, or undefined when
+ * there is none
+ */
+export type FixingLookup = (date: Date) => number | undefined;
+
+/**
+ * Conventions a period compounds with
+ */
+export interface CompoundingPeriod {
+  start: Date; // Accrual start
+  end: Date; // Accrual end
+  calendar: HolidayCalendar; // Fixing calendar of the index
+  dayCountBasis: number; // 360 or 365
+  conventions?: OvernightCompounding;
+  accrueTo?: Date; // Only compound days before this date; the period end by default
+}
+
+/**
+ * One day's fixing in a compounded rate
+ */
+export interface CompoundingObservation {
+  date: string; // Business day the weight runs from (an observation day under a shift)
+  fixingDate: string; // Date of the fixing applied
+  rate: number; // Percent
+  days: number; // Calendar days the fixing is weighted by
+}
+
+export interface CompoundedRate {
+  rate: number; // Simple annualised rate over the days compounded, percent
+  growth: number; // Product of the daily growth factors
+  days: number; // Calendar days compounded
+  observations: CompoundingObservation[];
+}
+
+const NO_COMPOUNDING: OvernightCompounding = { lookbackDays: 0, lockoutDays: 0, observationShift: false };
+
+/**
+ * Business days in [start, end)
+ */
+function businessDays(calendar: HolidayCalendar, start: Date, end: Date): Date[] {
+  const days: Date[] = [];
+  for (let day = calendar.adjust(start, BusinessDayConvention.FOLLOWING); day.getTime() < end.getTime();
+    day = calendar.addBusinessDays(day, 1)) {
+    days.push(day);
+  }
+  return days;
+}
+
+/**
+ * Compound daily overnight fixings over a period in arrears.
+ *
+ * - Lookback: each accrual day uses the fixing `lookbackDays` business
+ *   days earlier, weighted by the accrual day's calendar days.
+ * - Observation shift: the whole observation period moves back by
+ *   `lookbackDays` and fixings are weighted by their own calendar days.
+ * - Lockout: the last `lockoutDays` business days reuse the fixing of the
+ *   first locked-out day.
+ *
+ * Undefined when a fixing the period needs has not been published.
+ */
+export function compoundOvernightRate(period: CompoundingPeriod, fixing: FixingLookup): CompoundedRate | undefined {
+  const { calendar, dayCountBasis } = period;
+  const conventions = period.conventions ?? NO_COMPOUNDING;
+  const start = toDate(period.start);
+  const end = toDate(period.end);
+  const lag = conventions.lookbackDays;
+  const shiftBack = (date: Date) => (lag > 0 ? calendar.addBusinessDays(date, -lag) : date);
+
+  // Days whose calendar-day weights the rate is compounded over
+  const weightStart = conventions.observationShift ? shiftBack(start) : start;
+  const weightEnd = conventions.observationShift ? shiftBack(end) : end;
+  const weightDays = businessDays(calendar, weightStart, weightEnd);
+
+  const fixingDates = conventions.observationShift ? weightDays : weightDays.map(shiftBack);
+  const lockoutFrom = conventions.lockoutDays > 0 ? Math.max(0, fixingDates.length - conventions.lockoutDays) : fixingDates.length;
+
+  // Accrued interest stops at accrueTo, carried onto the observation timeline under a shift
+  const cutoff = period.accrueTo
+    ? (conventions.observationShift ? shiftBack(toDate(period.accrueTo)) : toDate(period.accrueTo))
+    : weightEnd;
+
+  const observations: CompoundingObservation[] = [];
+  let growth = 1;
+  let days = 0;
+
+  for (let i = 0; i < weightDays.length; i++) {
+    const day = weightDays[i];
+    if (day.getTime() >= cutoff.getTime()) break;
+
+    const next = i + 1 < weightDays.length ? weightDays[i + 1] : weightEnd;
+    const weight = daysBetween(day, next.getTime() < cutoff.getTime() ? next : cutoff);
+    const fixingDate = fixingDates[Math.min(i, lockoutFrom)];
+    const rate = fixing(fixingDate);
+    if (rate === undefined) return undefined;
+
+    growth *= 1 + (rate / 100) * weight / dayCountBasis;
+    days += weight;
+    observations.push({
+      date: formatDate(day),
+      fixingDate: formatDate(fixingDate),
+      rate,
+      days: weight,
+    });
+  }
+
+  return {
+    rate: days > 0 ? ((growth - 1) * dayCountBasis / days) * 100 : 0,
+    growth,
+    days,
+    observations,
+  };
+}
@@ -0,0 +1,35 @@
+/**
+ * A two-way price, in whatever units the instrument is quoted in
+ */
+export interface TwoWayQuote {
+  bid: number;
+  ask: number;
+}
+
+/**
+ * Bid and ask `ticks` ticks apart on the tick grid, with the mid between
+ * them. A mid off the grid is bracketed by the ticks either side of it; a
+ * mid on a tick is straddled as evenly as the tick count allows.
+ */
+export function quoteAroundMid(mid: number, ticks: number, tickSize: number): TwoWayQuote {
+  if (!(tickSize > 0)) {
+    throw new Error(`Invalid tick size: ${tickSize}`);
+  }
+  const width = Math.max(1, Math.round(ticks));
+  const units = mid / tickSize;
+  const below = Math.floor(units + 1e-9);
+  const onTick = units - below < 1e-9;
+  const bidTicks = below - Math.floor((onTick ? width : width - 1) / 2);
+
+  return {
+    bid: parseFloat((bidTicks * tickSize).toFixed(8)),
+    ask: parseFloat(((bidTicks + width) * tickSize).toFixed(8)),
+  };
+}
+
+/**
+ * Round a size to whole lots, keeping at least one lot
+ */
+export function roundToLot(size: number, lotSize: number): number {
+  return Math.max(lotSize, Math.round(size / lotSize) * lotSize);
+}
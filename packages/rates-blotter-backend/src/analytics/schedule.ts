@@ -0,0 +1,113 @@
+import { BusinessDayConvention, StubType } from '../models/enums';
+import { HolidayCalendar } from './calendar';
+import { addMonths, isEndOfMonth, toDate } from './dates';
+
+/**
+ * Inputs for generating a regular payment schedule
+ */
+export interface ScheduleParams {
+  effectiveDate: Date;
+  maturityDate: Date;
+  frequency: number; // Payments per year
+  stub?: StubType; // Defaults to a short front stub
+  endOfMonth?: boolean; // Roll month-end anchors to month ends
+  calendar?: HolidayCalendar; // Without a calendar dates are left unadjusted
+  accrualConvention?: BusinessDayConvention; // Defaults to MODIFIED_FOLLOWING
+  paymentConvention?: BusinessDayConvention; // Defaults to the accrual convention
+}
+
+/**
+ * One accrual period of a schedule
+ */
+export interface SchedulePeriod {
+  startDate: Date; // Unadjusted accrual start
+  endDate: Date; // Unadjusted accrual end
+  adjustedStartDate: Date;
+  adjustedEndDate: Date;
+  paymentDate: Date;
+  referenceStart: Date; // Regular period the accrual is measured against (ACT/ACT ICMA)
+  referenceEnd: Date;
+  isStub: boolean;
+}
+
+/**
+ * Generate the accrual periods between effective and maturity date.
+ * Front stubs roll backwards from maturity, back stubs forwards from the
+ * effective date; long stubs merge the short stub into its neighbour.
+ */
+export function generateSchedule(params: ScheduleParams): SchedulePeriod[] {
+  const effective = toDate(params.effectiveDate);
+  const maturity = toDate(params.maturityDate);
+  const frequency = params.frequency;
+
+  if (frequency <= 0 || 12 % frequency !== 0) {
+    throw new Error(`Unsupported payment frequency: ${frequency}`);
+  }
+  if (maturity.getTime() <= effective.getTime()) {
+    throw new Error('Maturity date must be after the effective date');
+  }
+
+  const months = 12 / frequency;
+  const stub = params.stub ?? StubType.SHORT_FRONT;
+  const backward = stub === StubType.SHORT_FRONT || stub === StubType.LONG_FRONT;
+  const anchor = backward ? maturity : effective;
+  const endOfMonth = (params.endOfMonth ?? true) && isEndOfMonth(anchor);
+  const direction = backward ? -1 : 1;
+
+  // Unadjusted roll dates from the anchor towards the other end, keyed
+  // by their number of periods from the anchor
+  const rolls = new Map<number, number>([[anchor.getTime(), 0]]);
+  const dates: Date[] = [anchor];
+  for (let k = 1; ; k++) {
+    const date = addMonths(anchor, direction * k * months, endOfMonth);
+    // Registered before the bounds check: the far end is a roll date when there is no stub
+    rolls.set(date.getTime(), k);
+    if (backward ? date.getTime() <= effective.getTime() : date.getTime() >= maturity.getTime()) break;
+    dates.push(date);
+  }
+  dates.push(backward ? effective : maturity);
+  if (backward) dates.reverse();
+
+  const isRegular = (start: Date, end: Date) => {
+    const k1 = rolls.get(start.getTime());
+    const k2 = rolls.get(end.getTime());
+    return k1 !== undefined && k2 !== undefined && Math.abs(k1 - k2) === 1;
+  };
+
+  // Merge a short stub into the adjacent regular period
+  if (dates.length > 2) {
+    if (stub === StubType.LONG_FRONT && !isRegular(dates[0], dates[1])) {
+      dates.splice(1, 1);
+    } else if (stub === StubType.LONG_BACK && !isRegular(dates[dates.length - 2], dates[dates.length - 1])) {
+      dates.splice(dates.length - 2, 1);
+    }
+  }
+
+  const accrualConvention = params.accrualConvention ?? BusinessDayConvention.MODIFIED_FOLLOWING;
+  const paymentConvention = params.paymentConvention ?? accrualConvention;
+  const adjust = (date: Date, convention: BusinessDayConvention) =>
+    params.calendar ? params.calendar.adjust(date, convention) : date;
+
+  const periods: SchedulePeriod[] = [];
+  for (let i = 0; i < dates.length - 1; i++) {
+    const startDate = dates[i];
+    const endDate = dates[i + 1];
+    const isStub = !isRegular(startDate, endDate);
+    // Stubs accrue against the regular period adjoining the rest of the schedule
+    const referenceStart = isStub && backward ? addMonths(endDate, -months, endOfMonth) : startDate;
+    const referenceEnd = isStub && !backward ? addMonths(startDate, months, endOfMonth) : endDate;
+
+    periods.push({
+      startDate,
+      endDate,
+      adjustedStartDate: adjust(startDate, accrualConvention),
+      adjustedEndDate: adjust(endDate, accrualConvention),
+      paymentDate: adjust(endDate, paymentConvention),
+      referenceStart,
+      referenceEnd,
+      isStub,
+    });
+  }
+
+  return periods;
+}
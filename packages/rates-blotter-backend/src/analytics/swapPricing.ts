@@ -0,0 +1,147 @@
+import { BusinessDayConvention, DayCountConvention, SwapDirection } from '../models/enums';
+import { InterestRateSwap } from '../models/interestRateSwap';
+import { CashflowOptions, swapCashflows } from './cashflows';
+import { YieldCurve } from './curve';
+import { formatDate, toDate } from './dates';
+import { moneyMarketBasis } from './moneyMarket';
+import { CompoundingObservation, compoundOvernightRate } from './overnightCompounding';
+import { generateSchedule } from './schedule';
+
+/**
+ * Curves and conventions a swap is valued with
+ */
+export interface SwapValuationContext extends Omit<CashflowOptions, 'includePast'> {
+  discountCurve: YieldCurve;
+  forwardCurve: YieldCurve;
+}
+
+export interface SwapValuation {
+  fixedLegPv: number;
+  floatingLegPv: number; // Includes the floating spread
+  annuity: number; // PV of 1 unit of fixed rate (in decimal) on the notional
+  parRate: number; // Percent; fixed rate that sets MTM to zero
+  mtm: number; // Receive leg PV less pay leg PV
+  fixedLegDv01: number; // Fall in fixed leg PV for a +1bp parallel move
+  floatingLegDv01: number; // Rise in floating leg PV for a +1bp parallel move
+  dv01: number; // MTM change for a +1bp parallel move
+}
+
+const BUMP_BP = 1;
+
+/**
+ * Present values of both legs off the given curves. Unsettled cashflows
+ * are discounted from the valuation date.
+ */
+function legValues(swap: InterestRateSwap, context: SwapValuationContext) {
+  let fixedLegPv = 0;
+  let floatingLegPv = 0;
+  let annuity = 0;
+
+  swapCashflows(swap, context).forEach(cashflow => {
+    const pv = cashflow.presentValue ?? 0;
+    if (cashflow.leg === 'FIXED') {
+      fixedLegPv += pv;
+      annuity += cashflow.notional * cashflow.accrualFactor * (cashflow.discountFactor ?? 0);
+    } else if (cashflow.leg === 'FLOATING') {
+      floatingLegPv += pv;
+    }
+  });
+
+  return { fixedLegPv, floatingLegPv, annuity };
+}
+
+function signedMtm(direction: SwapDirection, fixedLegPv: number, floatingLegPv: number): number {
+  return direction === SwapDirection.PAY_FIXED ? floatingLegPv - fixedLegPv : fixedLegPv - floatingLegPv;
+}
+
+/**
+ * Receive leg PV less pay leg PV off the context's curves, without risk
+ */
+export function swapMtm(swap: InterestRateSwap, context: SwapValuationContext): number {
+  const { fixedLegPv, floatingLegPv } = legValues(swap, context);
+  return signedMtm(swap.direction, fixedLegPv, floatingLegPv);
+}
+
+/**
+ * Discounted valuation of a fixed/floating swap with leg DV01s from
+ * re-valuing against curves shifted up by one basis point
+ */
+export function valueSwap(swap: InterestRateSwap, context: SwapValuationContext): SwapValuation {
+  const base = legValues(swap, context);
+  const bumped = legValues(swap, {
+    ...context,
+    discountCurve: context.discountCurve.shift(BUMP_BP),
+    forwardCurve: context.forwardCurve.shift(BUMP_BP),
+  });
+
+  const mtm = signedMtm(swap.direction, base.fixedLegPv, base.floatingLegPv);
+  const bumpedMtm = signedMtm(swap.direction, bumped.fixedLegPv, bumped.floatingLegPv);
+
+  return {
+    fixedLegPv: base.fixedLegPv,
+    floatingLegPv: base.floatingLegPv,
+    annuity: base.annuity,
+    parRate: base.annuity > 0 ? (base.floatingLegPv / base.annuity) * 100 : 0,
+    mtm,
+    fixedLegDv01: (base.fixedLegPv - bumped.fixedLegPv) / BUMP_BP,
+    floatingLegDv01: (bumped.floatingLegPv - base.floatingLegPv) / BUMP_BP,
+    dv01: (bumpedMtm - mtm) / BUMP_BP,
+  };
+}
+
+/**
+ * Interest accrued so far in a swap's running floating period
+ */
+export interface FloatingAccrual {
+  periodStart: string;
+  periodEnd: string; // Next reset
+  paymentDate: string;
+  compoundedRate: number; // Percent, before spread
+  spread: number; // Percent
+  accrualDays: number;
+  accruedAmount: number; // On the notional, including spread
+  observations: CompoundingObservation[];
+}
+
+/**
+ * Compound the published fixings of the running floating period up to
+ * the valuation date. Undefined before the first or after the last
+ * period, or when a fixing is missing.
+ */
+export function accruedFloatingCoupon(swap: InterestRateSwap, context: SwapValuationContext): FloatingAccrual | undefined {
+  if (!context.fixings || !context.calendar) return undefined;
+
+  const asOf = toDate(context.asOf);
+  const period = generateSchedule({
+    effectiveDate: toDate(swap.effectiveDate),
+    maturityDate: toDate(swap.maturityDate),
+    frequency: swap.paymentFrequency,
+    stub: context.stub,
+    calendar: context.calendar,
+    accrualConvention: BusinessDayConvention.MODIFIED_FOLLOWING,
+  }).find(p => p.adjustedStartDate.getTime() <= asOf.getTime() && asOf.getTime() < p.adjustedEndDate.getTime());
+  if (!period) return undefined;
+
+  const basis = moneyMarketBasis(context.floatingDayCount ?? DayCountConvention.ACT_360);
+  const compounded = compoundOvernightRate({
+    start: period.adjustedStartDate,
+    end: period.adjustedEndDate,
+    calendar: context.calendar,
+    dayCountBasis: basis,
+    conventions: swap.compounding,
+    accrueTo: asOf,
+  }, context.fixings);
+  if (!compounded) return undefined;
+
+  const spread = swap.floatingRateSpread;
+  return {
+    periodStart: formatDate(period.adjustedStartDate),
+    periodEnd: formatDate(period.adjustedEndDate),
+    paymentDate: formatDate(period.paymentDate),
+    compoundedRate: compounded.rate,
+    spread,
+    accrualDays: compounded.days,
+    accruedAmount: swap.notionalAmount * (compounded.growth - 1 + (spread / 100) * compounded.days / basis),
+    observations: compounded.observations,
+  };
+}
@@ -0,0 +1,255 @@
+/**
+ * Smile models a volatility surface slice can be fitted with
+ */
+export type SmileModel = 'SABR' | 'SVI';
+
+/**
+ * Market implied volatility at a strike, decimal lognormal (Black)
+ */
+export interface VolQuote {
+  strike: number;
+  vol: number;
+}
+
+/**
+ * Hagan et al. SABR parameters
+ */
+export interface SabrParameters {
+  alpha: number;
+  beta: number;
+  rho: number;
+  nu: number;
+}
+
+/**
+ * Raw SVI parameterisation of total implied variance in log-moneyness
+ */
+export interface SviParameters {
+  a: number;
+  b: number;
+  rho: number;
+  m: number;
+  sigma: number;
+}
+
+/**
+ * A fitted smile at one expiry
+ */
+export interface SmileSlice {
+  time: number; // Years to expiry
+  forward: number; // Forward the smile was fitted at
+  model: SmileModel;
+  parameters: SabrParameters | SviParameters;
+  rmse: number; // Fit error, decimal vol
+}
+
+const MAX_FIT_ITERATIONS = 2000;
+const FIT_TOLERANCE = 1e-12;
+const FIT_RESTARTS = 3;
+
+/**
+ * Hagan's lognormal SABR implied volatility expansion
+ */
+export function sabrVolatility(forward: number, strike: number, time: number, params: SabrParameters): number {
+  const { alpha, beta, rho, nu } = params;
+  const oneMinusBeta = 1 - beta;
+  const logFK = Math.log(forward / strike);
+  const fkBeta = Math.pow(forward * strike, oneMinusBeta / 2);
+
+  const z = (nu / alpha) * fkBeta * logFK;
+  const zOverX = Math.abs(z) < 1e-12
+    ? 1
+    : z / Math.log((Math.sqrt(1 - 2 * rho * z + z * z) + z - rho) / (1 - rho));
+
+  const denominator = fkBeta * (1 + (oneMinusBeta ** 2 / 24) * logFK ** 2 + (oneMinusBeta ** 4 / 1920) * logFK ** 4);
+  const correction = 1 + time * (
+    (oneMinusBeta ** 2 / 24) * (alpha * alpha) / (fkBeta * fkBeta) +
+    (rho * beta * nu * alpha) / (4 * fkBeta) +
+    ((2 - 3 * rho * rho) / 24) * nu * nu
+  );
+
+  return (alpha / denominator) * zOverX * correction;
+}
+
+/**
+ * Implied volatility from raw SVI total variance at log-moneyness ln(K/F)
+ */
+export function sviVolatility(forward: number, strike: number, time: number, params: SviParameters): number {
+  const { a, b, rho, m, sigma } = params;
+  const k = Math.log(strike / forward) - m;
+  const variance = a + b * (rho * k + Math.sqrt(k * k + sigma * sigma));
+  return Math.sqrt(Math.max(variance, 0) / Math.max(time, 1e-6));
+}
+
+/**
+ * Vol of a fitted slice at a strike, with the smile moved to `forward`
+ */
+export function smileVolatility(slice: SmileSlice, strike: number, forward = slice.forward): number {
+  // Sticky moneyness: the strike is read off the smile at the same ratio to the forward
+  const scaledStrike = (strike * slice.forward) / forward;
+  return slice.model === 'SABR'
+    ? sabrVolatility(slice.forward, scaledStrike, slice.time, slice.parameters as SabrParameters)
+    : sviVolatility(slice.forward, scaledStrike, slice.time, slice.parameters as SviParameters);
+}
+
+/**
+ * Nelder-Mead simplex minimisation of an unconstrained function, restarted
+ * from the best point found so the simplex cannot collapse early
+ */
+function minimize(objective: (x: number[]) => number, start: number[], steps: number[]): number[] {
+  let best = start;
+  for (let restart = 0; restart < FIT_RESTARTS; restart++) {
+    best = nelderMead(objective, best, steps);
+  }
+  return best;
+}
+
+function nelderMead(objective: (x: number[]) => number, start: number[], steps: number[]): number[] {
+  const n = start.length;
+  let simplex = [start, ...start.map((_, i) => start.map((value, j) => (i === j ? value + steps[i] : value)))];
+  let values = simplex.map(objective);
+
+  for (let iteration = 0; iteration < MAX_FIT_ITERATIONS; iteration++) {
+    const order = values.map((_, i) => i).sort((i, j) => values[i] - values[j]);
+    simplex = order.map(i => simplex[i]);
+    values = order.map(i => values[i]);
+    if (Math.abs(values[n] - values[0]) < FIT_TOLERANCE) break;
+
+    const centroid = start.map((_, j) => simplex.slice(0, n).reduce((sum, point) => sum + point[j], 0) / n);
+    const towards = (factor: number) => centroid.map((c, j) => c + factor * (simplex[n][j] - c));
+
+    const reflected = towards(-1);
+    const reflectedValue = objective(reflected);
+    if (reflectedValue < values[0]) {
+      const expanded = towards(-2);
+      const expandedValue = objective(expanded);
+      [simplex[n], values[n]] = expandedValue < reflectedValue ? [expanded, expandedValue] : [reflected, reflectedValue];
+    } else if (reflectedValue < values[n - 1]) {
+      [simplex[n], values[n]] = [reflected, reflectedValue];
+    } else {
+      const contracted = towards(reflectedValue < values[n] ? -0.5 : 0.5);
+      const contractedValue = objective(contracted);
+      if (contractedValue < Math.min(reflectedValue, values[n])) {
+        [simplex[n], values[n]] = [contracted, contractedValue];
+      } else {
+        // Shrink towards the best point
+        simplex = simplex.map(point => point.map((value, j) => simplex[0][j] + 0.5 * (value - simplex[0][j])));
+        values = simplex.map(objective);
+      }
+    }
+  }
+
+  return simplex[values.indexOf(Math.min(...values))];
+}
+
+function rootMeanSquare(quotes: VolQuote[], volatility: (strike: number) => number): number {
+  const sum = quotes.reduce((total, quote) => total + (volatility(quote.strike) - quote.vol) ** 2, 0);
+  return Math.sqrt(sum / quotes.length);
+}
+
+function atmQuote(forward: number, quotes: VolQuote[]): VolQuote {
+  return quotes.reduce((best, quote) =>
+    Math.abs(quote.strike - forward) < Math.abs(best.strike - forward) ? quote : best
+  );
+}
+
+/**
+ * Fit SABR alpha, rho and nu to a smile for a fixed beta
+ */
+export function fitSabr(forward: number, time: number, quotes: VolQuote[], beta = 0.5): SmileSlice {
+  // Unconstrained coordinates: alpha = exp(x0), rho = tanh(x1), nu = exp(x2)
+  const toParameters = (x: number[]): SabrParameters => ({
+    alpha: Math.exp(x[0]),
+    beta,
+    rho: Math.tanh(x[1]),
+    nu: Math.exp(x[2]),
+  });
+  const volatility = (params: SabrParameters) => (strike: number) => sabrVolatility(forward, strike, time, params);
+  const objective = (x: number[]) => {
+    const rmse = rootMeanSquare(quotes, volatility(toParameters(x)));
+    return Number.isFinite(rmse) ? rmse : Number.MAX_VALUE;
+  };
+
+  const alphaGuess = atmQuote(forward, quotes).vol * Math.pow(forward, 1 - beta);
+  const parameters = toParameters(minimize(objective, [Math.log(alphaGuess), 0, Math.log(0.5)], [0.2, 0.2, 0.2]));
+
+  return {
+    time,
+    forward,
+    model: 'SABR',
+    parameters,
+    rmse: rootMeanSquare(quotes, volatility(parameters)),
+  };
+}
+
+/**
+ * Fit raw SVI to a smile, penalising parameters that allow negative variance
+ */
+export function fitSvi(forward: number, time: number, quotes: VolQuote[]): SmileSlice {
+  // Unconstrained coordinates: b = exp(x1), rho = tanh(x2), sigma = exp(x4)
+  const toParameters = (x: number[]): SviParameters => ({
+    a: x[0],
+    b: Math.exp(x[1]),
+    rho: Math.tanh(x[2]),
+    m: x[3],
+    sigma: Math.exp(x[4]),
+  });
+  const volatility = (params: SviParameters) => (strike: number) => sviVolatility(forward, strike, time, params);
+  const objective = (x: number[]) => {
+    const params = toParameters(x);
+    const minimumVariance = params.a + params.b * params.sigma * Math.sqrt(1 - params.rho * params.rho);
+    const penalty = minimumVariance < 0 ? -minimumVariance * 100 : 0;
+    const rmse = rootMeanSquare(quotes, volatility(params));
+    return Number.isFinite(rmse) ? rmse + penalty : Number.MAX_VALUE;
+  };
+
+  const atmVariance = atmQuote(forward, quotes).vol ** 2 * time;
+  const start = [atmVariance * 0.5, Math.log(atmVariance), 0, 0, Math.log(0.05)];
+  const parameters = toParameters(minimize(objective, start, [atmVariance * 0.5, 0.5, 0.3, 0.02, 0.5]));
+
+  return {
+    time,
+    forward,
+    model: 'SVI',
+    parameters,
+    rmse: rootMeanSquare(quotes, volatility(parameters)),
+  };
+}
+
+/**
+ * Fitted smiles across expiries for one underlying. Between expiries total
+ * variance is interpolated linearly in time at constant moneyness; vols are
+ * flat beyond the first and last expiry.
+ */
+export class VolSurface {
+  readonly slices: SmileSlice[];
+
+  constructor(readonly underlying: string, readonly forward: number, slices: SmileSlice[]) {
+    if (slices.length === 0) {
+      throw new Error(`Vol surface ${underlying} has no expiries`);
+    }
+    this.slices = [...slices].sort((a, b) => a.time - b.time);
+  }
+
+  /**
+   * Decimal lognormal vol for a strike and time to expiry, read at the
+   * strike's moneyness against `forward`
+   */
+  volatility(strike: number, time: number, forward = this.forward): number {
+    const slices = this.slices;
+    const first = slices[0];
+    const last = slices[slices.length - 1];
+
+    if (time <= first.time) return smileVolatility(first, strike, forward);
+    if (time >= last.time) return smileVolatility(last, strike, forward);
+
+    let i = 1;
+    while (slices[i].time < time) i++;
+    const before = slices[i - 1];
+    const after = slices[i];
+    const varianceBefore = smileVolatility(before, strike, forward) ** 2 * before.time;
+    const varianceAfter = smileVolatility(after, strike, forward) ** 2 * after.time;
+    const weight = (time - before.time) / (after.time - before.time);
+    return Math.sqrt((varianceBefore + weight * (varianceAfter - varianceBefore)) / time);
+  }
+}
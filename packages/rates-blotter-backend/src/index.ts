@@ -17,7 +17,19 @@ async function main() {
       marketScenario: (process.env.MARKET_SCENARIO as any) || 'normal',
       volatilityMultiplier: parseFloat(process.env.VOLATILITY_MULTIPLIER || '1.0'),
       maxUpdatesPerSecond: parseInt(process.env.MAX_UPDATES_PER_SECOND || '10'),
-      bucketSize: parseInt(process.env.BUCKET_SIZE || '20')
+      bucketSize: parseInt(process.env.BUCKET_SIZE || '20'),
+      calendarDirectory: process.env.CALENDAR_DIR,
+      fixingsDirectory: process.env.FIXINGS_DIR,
+      simulationSeed: process.env.SIMULATION_SEED ? Number(process.env.SIMULATION_SEED) : undefined,
+      simulationStartTime: process.env.SIMULATION_START_TIME,
+      fastForwardTicks: parseInt(process.env.FAST_FORWARD_TICKS || '0'),
+      replayFile: process.env.REPLAY_FILE,
+      replaySpeed: parseFloat(process.env.REPLAY_SPEED || '1'),
+      replayLoop: process.env.REPLAY_LOOP === 'true',
+      scenarioFile: process.env.SCENARIO_FILE,
+      closeTimes: process.env.EOD_CLOSE_TIMES,
+      orderBookLevels: process.env.ORDER_BOOK_LEVELS ? parseInt(process.env.ORDER_BOOK_LEVELS) : undefined,
+      tradeHistorySize: process.env.TRADE_HISTORY_SIZE ? parseInt(process.env.TRADE_HISTORY_SIZE) : undefined
     };
 
     // Create server instance
@@ -1,9 +1,17 @@
-import { Instrument } from './instrument';
+import { Instrument, FixedIncomeSensitivityMetrics, SpreadMetrics } from './instrument';
+
+/**
+ * A date on which the issuer may redeem the bond, and the price it pays
+ */
+export interface CallFeature {
+  date: string;
+  price: number; // Per 100 face
+}
 
 /**
  * Interface for Bond instruments
  */
-export interface Bond extends Instrument {
+export interface Bond extends Instrument, FixedIncomeSensitivityMetrics, SpreadMetrics {
   issuer: string;
   maturityDate: string;
   coupon: number;
@@ -16,4 +24,11 @@ export interface Bond extends Instrument {
   bondType: string;
   issueDate: string;
   nextCouponDate: string;
+  accrued: number; // Accrued interest per 100 face at settlement
+  dirtyPrice: number; // Clean price plus accrued interest
+  macaulayDuration: number; // Years
+  callSchedule?: CallFeature[]; // Only for callable bonds
+  yieldToWorst: number; // Lowest of yield to maturity and yields to call
+  workoutDate: string; // Redemption date the yield to worst assumes
+  proceedsAssetSwapSpread: number; // Asset swap spread on the dirty price, basis points
 }
\ No newline at end of file
@@ -77,6 +77,67 @@ export enum DayCountConvention {
   ACT_ACT_ICMA = 'ACT_ACT_ICMA'
 }
 
+/**
+ * Rules for rolling a date that falls on a non-business day
+ */
+export enum BusinessDayConvention {
+  UNADJUSTED = 'UNADJUSTED',
+  FOLLOWING = 'FOLLOWING',
+  MODIFIED_FOLLOWING = 'MODIFIED_FOLLOWING',
+  PRECEDING = 'PRECEDING'
+}
+
+/**
+ * Side of the fixed leg of a swap
+ */
+export enum SwapDirection {
+  PAY_FIXED = 'PAY_FIXED',
+  RECEIVE_FIXED = 'RECEIVE_FIXED'
+}
+
+/**
+ * Short-dated instruments traded on the money-market desk
+ */
+export enum MoneyMarketType {
+  TBILL = 'TBILL',
+  CD = 'CD', // Certificate of deposit, interest paid at maturity
+  COMMERCIAL_PAPER = 'COMMERCIAL_PAPER'
+}
+
+/**
+ * How a money-market instrument is quoted
+ */
+export enum RateBasis {
+  DISCOUNT = 'DISCOUNT', // Discount to face value (bills, commercial paper)
+  YIELD = 'YIELD' // Simple add-on yield (CDs)
+}
+
+/**
+ * Side of a repo from the desk's point of view
+ */
+export enum RepoDirection {
+  REPO = 'REPO', // Sell collateral, borrow cash
+  REVERSE_REPO = 'REVERSE_REPO' // Buy collateral, lend cash
+}
+
+/**
+ * Placement of an irregular period in a payment schedule
+ */
+export enum StubType {
+  SHORT_FRONT = 'SHORT_FRONT',
+  LONG_FRONT = 'LONG_FRONT',
+  SHORT_BACK = 'SHORT_BACK',
+  LONG_BACK = 'LONG_BACK'
+}
+
+/**
+ * Volatility model used to price options on futures
+ */
+export enum OptionPricingModel {
+  BLACK_76 = 'BLACK_76', // Lognormal futures price
+  BACHELIER = 'BACHELIER' // Normal futures price
+}
+
 /**
  * Reference rate indices for floating rate instruments
  */
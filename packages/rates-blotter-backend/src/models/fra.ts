@@ -0,0 +1,18 @@
+import { Instrument } from './instrument';
+import { SwapDirection } from './enums';
+
+/**
+ * Interface for Forward Rate Agreement instruments. PAY_FIXED is the FRA
+ * buyer, who gains when the fixing is above the contract rate.
+ */
+export interface ForwardRateAgreement extends Instrument {
+  fixingDate: string;
+  startDate: string; // Accrual start, settled on this date
+  endDate: string; // Accrual end
+  contractRate: number; // Percent
+  direction: SwapDirection;
+  forwardRate: number; // Percent; projected index rate for the period
+  accrualFactor: number; // Index day count fraction of the period
+  settlementAmount: number; // Amount paid at start if fixed at the forward rate
+  dv01: number; // MTM change for a +1bp parallel curve move
+}
@@ -13,4 +13,11 @@ export interface Future extends Instrument {
   volume: number;
   lastTradeDate: string;
   priceChangeToday: number;
+  underlyingTenor: number; // Tenor in years of the notional deliverable bond
+  impliedRate: number; // Forward par yield implied by the discount curve
+  deliverableInstruments: string[]; // Bonds in the delivery basket
+  cheapestToDeliver: string; // Deliverable with the highest implied repo rate
+  conversionFactor: number; // Cheapest-to-deliver's conversion factor
+  basisToSpot: number; // Cheapest-to-deliver's gross basis, price points
+  impliedRepoRate: number; // Cheapest-to-deliver's implied repo rate, percent
 }
\ No newline at end of file
@@ -25,8 +25,10 @@ export interface Instrument {
   spread: number; // Spread to benchmark (for floating rate instruments)
   dayCountConvention: DayCountConvention; // Day count convention for interest calculations
   paymentFrequency: number; // Frequency of interest payments
-  settlementDays: number; // Settlement period in days
+  settlementDays: number; // Settlement period in business days
+  settlementDate: Date; // Settlement date of the last trade on the currency's calendar
   currentMtm: number; // Current mark-to-market value
+  keyRateDv01?: Record<string, number>; // Value change for a +1bp move at each key tenor, for curve-valued instruments
   isin: string; // ISIN code
   cusip: string; // CUSIP code
   sedol: string; // SEDOL code
@@ -1,4 +1,14 @@
 import { Instrument } from './instrument';
+import { SwapDirection } from './enums';
+
+/**
+ * How daily overnight fixings compound into a floating coupon paid in arrears
+ */
+export interface OvernightCompounding {
+  lookbackDays: number; // Business days before each accrual day that its fixing is observed
+  lockoutDays: number; // Business days before the period end from which the rate is frozen
+  observationShift: boolean; // Weight fixings by the lookback-shifted observation period
+}
 
 /**
  * Interface for Interest Rate Swap instruments
@@ -7,11 +17,20 @@ export interface InterestRateSwap extends Instrument {
   notionalAmount: number;
   effectiveDate: string;
   maturityDate: string;
-  fixedRate: number;
+  fixedRate: number; // Contractual fixed rate
   floatingRateIndex: string;
   floatingRateSpread: number;
   paymentFrequency: number;
-  currentMtm: number;
-  fixedLegDv01: number;
-  floatingLegDv01: number;
-}
\ No newline at end of file
+  direction: SwapDirection;
+  compounding?: OvernightCompounding; // Overnight indices; plain compounding in arrears when absent
+  swapRate: number; // Par swap rate from the curves
+  currentMtm: number; // Value to us: receive leg PV less pay leg PV
+  fixedLegPv: number;
+  floatingLegPv: number;
+  fixedLegDv01: number; // Fall in fixed leg PV for a +1bp parallel curve move
+  floatingLegDv01: number; // Rise in floating leg PV for a +1bp parallel curve move
+  dv01: number; // MTM change for a +1bp parallel curve move
+  currentFloatingRate: number; // Rate compounded so far in the running floating period, percent
+  accruedFloatingCoupon: number; // Floating interest accrued so far in the running period, including spread
+  nextResetDate: string; // End of the running floating period
+}
@@ -0,0 +1,21 @@
+import { Instrument } from './instrument';
+import { MoneyMarketType, RateBasis } from './enums';
+
+/**
+ * Interface for T-bills, CDs and commercial paper
+ */
+export interface MoneyMarketInstrument extends Instrument {
+  moneyMarketType: MoneyMarketType;
+  rateBasis: RateBasis;
+  issuer: string;
+  issueDate: string;
+  maturityDate: string;
+  faceValue: number;
+  couponRate: number; // Interest paid at maturity, percent; zero for discount instruments
+  currentPrice: number; // Per 100 face, including accrued interest for CDs
+  discountRate: number; // Percent; quoted rate for discount instruments
+  moneyMarketYield: number; // Simple add-on yield, percent
+  bondEquivalentYield: number; // Percent, ACT/365
+  daysToMaturity: number;
+  dv01: number; // Price change of the face amount for a +1bp yield move
+}
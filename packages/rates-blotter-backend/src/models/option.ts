@@ -1,4 +1,5 @@
 import { Instrument } from './instrument';
+import { OptionPricingModel } from './enums';
 
 /**
  * Interface for Option instruments
@@ -9,11 +10,13 @@ export interface Option extends Instrument {
   strikePrice: number;
   expirationDate: string;
   currentPrice: number;
-  impliedVol: number;
+  pricingModel: OptionPricingModel;
+  impliedVol: number; // Percent (Black-76) or price points (Bachelier), annualised
   delta: number;
   gamma: number;
-  theta: number;
-  vega: number;
+  theta: number; // Premium change per calendar day
+  vega: number; // Premium change per unit of impliedVol
+  rho: number; // Premium change per +1bp discount rate
   openInterest: number;
   volume: number;
   intrinsicValue: number;
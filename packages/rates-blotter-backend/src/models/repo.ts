@@ -0,0 +1,22 @@
+import { Instrument } from './instrument';
+import { RepoDirection } from './enums';
+
+/**
+ * Interface for Repo instruments. The notional amount is the cash leg.
+ */
+export interface Repo extends Instrument {
+  direction: RepoDirection;
+  startDate: string;
+  endDate: string;
+  repoRate: number; // Contract rate, percent
+  marketRepoRate: number; // Current rate for the remaining term, percent
+  collateralId: string; // Instrument ID of the collateral
+  collateralNominal: number; // Face amount of collateral delivered
+  collateralPrice: number; // Dirty price per 100 face
+  collateralValue: number; // Market value of the collateral
+  haircut: number; // Percent of collateral value not lent against
+  accruedInterest: number; // Repo interest accrued to date
+  repurchaseAmount: number; // Cash returned at the end date
+  marginExcess: number; // Haircut-adjusted collateral value less cash owed; negative means a margin call
+  dv01: number; // MTM change for a +1bp move in the market repo rate
+}
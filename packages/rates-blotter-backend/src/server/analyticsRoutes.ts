@@ -0,0 +1,279 @@
+import { FastifyInstance } from "fastify";
+import { InstrumentManager } from "./instrumentManager";
+import { CurveManager } from "./curveManager";
+import { FixingsManager } from "./fixingsManager";
+import { SecurityType } from "../models/instrument";
+import { StubType } from "../models/enums";
+import { Bond } from "../models/bond";
+import { InterestRateSwap } from "../models/interestRateSwap";
+import { Cashflow, bondCashflows, swapCashflows } from "../analytics/cashflows";
+import { formatDate, toDate } from "../analytics/dates";
+import { CARRY_HORIZONS, carryHorizonDate } from "../analytics/carryRoll";
+import { InstrumentCarryRoll, instrumentCarryRoll } from "./valuation";
+
+const DEFAULT_CARRY_HORIZON = "3M";
+
+/**
+ * Configure REST routes exposing per-instrument analytics, valued as of
+ * `now`: the simulator's time
+ */
+export function configureAnalyticsRoutes(
+  fastify: FastifyInstance,
+  instrumentManager: InstrumentManager,
+  curveManager: CurveManager,
+  now: () => Date,
+  fixingsManager?: FixingsManager
+): void {
+  // Future (or, with includePast, all) cashflows of a bond or swap
+  fastify.get<{
+    Params: { instrumentId: string };
+    Querystring: { stub?: string; includePast?: boolean };
+  }>(
+    "/api/instruments/:instrumentId/cashflows",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: {
+            instrumentId: { type: "string" },
+          },
+          required: ["instrumentId"],
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            stub: { type: "string" },
+            includePast: { type: "boolean" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { instrumentId } = request.params;
+      const instrument = instrumentManager.getInstrument(instrumentId);
+
+      if (!instrument) {
+        reply.code(404);
+        return {
+          success: false,
+          error: "Instrument not found",
+        };
+      }
+
+      // Validate stub type
+      const stub = request.query.stub?.toUpperCase() as StubType | undefined;
+      if (stub && !Object.values(StubType).includes(stub)) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Invalid stub type",
+          data: { validStubTypes: Object.values(StubType) },
+        };
+      }
+
+      const currency = instrument.notionalCurrency;
+      const asOf = toDate(now());
+      const options = {
+        asOf,
+        stub,
+        includePast: request.query.includePast ?? false,
+        calendar: instrumentManager
+          .getCalendarManager()
+          .getCalendarForCurrency(currency),
+        discountCurve: curveManager.getDiscountCurve(currency),
+      };
+
+      let cashflows: Cashflow[];
+      switch (instrument.securityType) {
+        case SecurityType.GOVERNMENT_BOND:
+        case SecurityType.CORPORATE_BOND:
+          cashflows = bondCashflows(instrument as Bond, options);
+          break;
+        case SecurityType.INTEREST_RATE_SWAP: {
+          const swap = instrument as InterestRateSwap;
+          cashflows = swapCashflows(swap, {
+            ...options,
+            forwardCurve: curveManager.getForwardCurve(swap.floatingRateIndex, currency),
+            floatingDayCount: curveManager.getIndexDayCount(swap.floatingRateIndex, currency),
+            fixings: fixingsManager?.lookup(swap.floatingRateIndex),
+          });
+          break;
+        }
+        default:
+          reply.code(400);
+          return {
+            success: false,
+            error: "Cashflows are only available for bonds and swaps",
+          };
+      }
+
+      const upcoming = cashflows.find(
+        (cashflow) =>
+          cashflow.leg !== "PRINCIPAL" &&
+          toDate(cashflow.paymentDate).getTime() > asOf.getTime()
+      );
+
+      // Present value of each leg, before any pay/receive sign
+      const legPresentValues: Record<string, number> = {};
+      cashflows.forEach((cashflow) => {
+        legPresentValues[cashflow.leg] = parseFloat(
+          ((legPresentValues[cashflow.leg] ?? 0) + (cashflow.presentValue ?? 0)).toFixed(2)
+        );
+      });
+
+      return {
+        instrumentId,
+        securityType: instrument.securityType,
+        currency,
+        asOf: formatDate(asOf),
+        nextPaymentDate: upcoming?.paymentDate ?? null,
+        legPresentValues,
+        cashflows,
+        count: cashflows.length,
+      };
+    }
+  );
+
+  // Carry and roll-down of a bond or swap to a horizon on unchanged curves
+  fastify.get<{
+    Params: { instrumentId: string };
+    Querystring: { horizon?: string; repoRate?: number };
+  }>(
+    "/api/instruments/:instrumentId/carry-roll",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: {
+            instrumentId: { type: "string" },
+          },
+          required: ["instrumentId"],
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            horizon: { type: "string" },
+            repoRate: { type: "number" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { instrumentId } = request.params;
+      const instrument = instrumentManager.getInstrument(instrumentId);
+
+      if (!instrument) {
+        reply.code(404);
+        return {
+          success: false,
+          error: "Instrument not found",
+        };
+      }
+
+      const horizon = (request.query.horizon ?? DEFAULT_CARRY_HORIZON).toUpperCase();
+      const asOf = now();
+      if (!carryHorizonDate(asOf, horizon)) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Invalid horizon",
+          data: { validHorizons: CARRY_HORIZONS },
+        };
+      }
+
+      const carryRoll = instrumentCarryRoll(
+        instrument,
+        instrumentManager,
+        curveManager,
+        horizon,
+        asOf,
+        fixingsManager,
+        request.query.repoRate
+      );
+      if (!carryRoll) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Carry and roll-down are only available for live bonds and swaps",
+        };
+      }
+
+      return carryRoll;
+    }
+  );
+
+  // Carry and roll-down of every bond and swap in a book
+  fastify.get<{
+    Params: { book: string };
+    Querystring: { horizon?: string };
+  }>(
+    "/api/books/:book/carry-roll",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: {
+            book: { type: "string" },
+          },
+          required: ["book"],
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            horizon: { type: "string" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const book = request.params.book.toUpperCase();
+      const horizon = (request.query.horizon ?? DEFAULT_CARRY_HORIZON).toUpperCase();
+      const asOf = now();
+      const horizonDate = carryHorizonDate(asOf, horizon);
+
+      if (!horizonDate) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Invalid horizon",
+          data: { validHorizons: CARRY_HORIZONS },
+        };
+      }
+
+      const instruments = instrumentManager
+        .getAllInstruments()
+        .filter((instrument) => instrument.book.toUpperCase() === book);
+      if (instruments.length === 0) {
+        reply.code(404);
+        return {
+          success: false,
+          error: "Book not found",
+        };
+      }
+
+      const positions = instruments
+        .map((instrument) =>
+          instrumentCarryRoll(instrument, instrumentManager, curveManager, horizon, asOf, fixingsManager)
+        )
+        .filter((carryRoll): carryRoll is InstrumentCarryRoll => carryRoll !== undefined);
+
+      // Totals per currency, as positions in different currencies do not add up
+      const totals: Record<string, { carry: number; rollDown: number; total: number }> = {};
+      positions.forEach((position) => {
+        const total = (totals[position.currency] ??= { carry: 0, rollDown: 0, total: 0 });
+        total.carry = parseFloat((total.carry + position.carry).toFixed(2));
+        total.rollDown = parseFloat((total.rollDown + position.rollDown).toFixed(2));
+        total.total = parseFloat((total.total + position.total).toFixed(2));
+      });
+
+      return {
+        book: instruments[0].book,
+        horizon,
+        horizonDate: formatDate(horizonDate),
+        positions,
+        totals,
+        count: positions.length,
+      };
+    }
+  );
+}
@@ -0,0 +1,93 @@
+import fs from 'fs';
+import path from 'path';
+import { BusinessDayConvention } from '../models/enums';
+import { CalendarDefinition, HolidayCalendar } from '../analytics/calendar';
+
+/**
+ * Directory holding one JSON calendar definition per file
+ */
+export const DEFAULT_CALENDAR_DIRECTORY = path.resolve(__dirname, '../../data/calendars');
+
+/**
+ * Calendar used for currencies without a calendar file: weekends only
+ */
+const WEEKEND_CALENDAR = new HolidayCalendar({
+  name: 'WEEKENDS',
+  currencies: [],
+  description: 'Saturdays and Sundays only',
+  holidays: [],
+});
+
+/**
+ * Loads holiday calendars from local files and maps currencies onto them
+ */
+export class CalendarManager {
+  private calendars: Map<string, HolidayCalendar> = new Map();
+  private currencyCalendars: Map<string, HolidayCalendar> = new Map();
+
+  constructor(directory: string = DEFAULT_CALENDAR_DIRECTORY) {
+    this.loadDirectory(directory);
+  }
+
+  /**
+   * Load (or reload) every *.json calendar in a directory
+   */
+  loadDirectory(directory: string): void {
+    if (!fs.existsSync(directory)) {
+      throw new Error(`Calendar directory not found: ${directory}`);
+    }
+
+    fs.readdirSync(directory)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .forEach(file => {
+        const definition = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8')) as CalendarDefinition;
+        this.addCalendar(definition);
+      });
+  }
+
+  addCalendar(definition: CalendarDefinition): HolidayCalendar {
+    if (!definition.name || !Array.isArray(definition.holidays)) {
+      throw new Error('Calendar definitions need a name and a holidays list');
+    }
+
+    const calendar = new HolidayCalendar(definition);
+    this.calendars.set(calendar.name.toUpperCase(), calendar);
+    (definition.currencies ?? []).forEach(currency => {
+      this.currencyCalendars.set(currency.toUpperCase(), calendar);
+    });
+    return calendar;
+  }
+
+  getCalendarNames(): string[] {
+    return Array.from(this.calendars.keys());
+  }
+
+  getCalendar(name: string): HolidayCalendar | undefined {
+    return this.calendars.get(name.toUpperCase());
+  }
+
+  /**
+   * Look a calendar up by its code, or by a currency it settles
+   */
+  resolveCalendar(nameOrCurrency: string): HolidayCalendar | undefined {
+    return this.getCalendar(nameOrCurrency) ?? this.currencyCalendars.get(nameOrCurrency.toUpperCase());
+  }
+
+  /**
+   * Settlement calendar for a currency, falling back to weekends only
+   */
+  getCalendarForCurrency(currency: string): HolidayCalendar {
+    return this.currencyCalendars.get(currency.toUpperCase()) ?? WEEKEND_CALENDAR;
+  }
+
+  /**
+   * Settlement date for a trade: the trade date rolled onto a business day,
+   * then moved forward by `settlementDays` business days
+   */
+  settlementDate(currency: string, tradeDate: Date, settlementDays: number): Date {
+    const calendar = this.getCalendarForCurrency(currency);
+    const businessTradeDate = calendar.adjust(tradeDate, BusinessDayConvention.FOLLOWING);
+    return calendar.addBusinessDays(businessTradeDate, settlementDays);
+  }
+}
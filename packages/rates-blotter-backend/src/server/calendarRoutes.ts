@@ -0,0 +1,169 @@
+import { FastifyInstance } from "fastify";
+import { CalendarManager } from "./calendarManager";
+import { BusinessDayConvention } from "../models/enums";
+import { formatDate, toDate } from "../analytics/dates";
+
+/**
+ * Configure REST routes exposing holiday calendars and date adjustment
+ */
+export function configureCalendarRoutes(
+  fastify: FastifyInstance,
+  calendarManager: CalendarManager
+): void {
+  // List the loaded calendars
+  fastify.get("/api/calendars", async () => {
+    const calendars = calendarManager.getCalendarNames().map((name) => {
+      const definition = calendarManager.getCalendar(name)!.getDefinition();
+      return {
+        name,
+        city: definition.city,
+        currencies: definition.currencies,
+        description: definition.description,
+        holidayCount: definition.holidays.length,
+      };
+    });
+    return {
+      calendars,
+      count: calendars.length,
+      businessDayConventions: Object.values(BusinessDayConvention),
+    };
+  });
+
+  // Holidays of one calendar, optionally restricted to a date range
+  fastify.get<{
+    Params: { calendar: string };
+    Querystring: { from?: string; to?: string };
+  }>(
+    "/api/calendars/:calendar",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: {
+            calendar: { type: "string" },
+          },
+          required: ["calendar"],
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            from: { type: "string" },
+            to: { type: "string" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const calendar = calendarManager.resolveCalendar(request.params.calendar);
+
+      if (!calendar) {
+        reply.code(404);
+        return {
+          success: false,
+          error: "Calendar not found",
+          data: { validCalendars: calendarManager.getCalendarNames() },
+        };
+      }
+
+      const from = parseDate(request.query.from ?? "1900-01-01");
+      const to = parseDate(request.query.to ?? "2999-12-31");
+      if (!from || !to) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Invalid date, expected YYYY-MM-DD",
+        };
+      }
+
+      const definition = calendar.getDefinition();
+      return {
+        name: calendar.name,
+        city: definition.city,
+        currencies: definition.currencies,
+        description: definition.description,
+        holidays: calendar.holidaysBetween(from, to),
+      };
+    }
+  );
+
+  // Roll a date onto a business day of the calendar
+  fastify.get<{
+    Params: { calendar: string };
+    Querystring: { date: string; convention?: string };
+  }>(
+    "/api/calendars/:calendar/adjust",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: {
+            calendar: { type: "string" },
+          },
+          required: ["calendar"],
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            date: { type: "string" },
+            convention: { type: "string" },
+          },
+          required: ["date"],
+        },
+      },
+    },
+    async (request, reply) => {
+      const calendar = calendarManager.resolveCalendar(request.params.calendar);
+
+      if (!calendar) {
+        reply.code(404);
+        return {
+          success: false,
+          error: "Calendar not found",
+          data: { validCalendars: calendarManager.getCalendarNames() },
+        };
+      }
+
+      const date = parseDate(request.query.date);
+      if (!date) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Invalid date, expected YYYY-MM-DD",
+        };
+      }
+
+      // Validate convention
+      const convention = (
+        request.query.convention ?? BusinessDayConvention.FOLLOWING
+      ).toUpperCase() as BusinessDayConvention;
+      if (!Object.values(BusinessDayConvention).includes(convention)) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Invalid business day convention",
+          data: { validConventions: Object.values(BusinessDayConvention) },
+        };
+      }
+
+      return {
+        calendar: calendar.name,
+        date: formatDate(date),
+        convention,
+        isBusinessDay: calendar.isBusinessDay(date),
+        adjustedDate: formatDate(calendar.adjust(date, convention)),
+      };
+    }
+  );
+}
+
+/**
+ * Parse a YYYY-MM-DD query parameter, undefined when malformed
+ */
+export function parseDate(value: string): Date | undefined {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return undefined;
+  try {
+    return toDate(value);
+  } catch {
+    return undefined;
+  }
+}
@@ -0,0 +1,54 @@
+import { FastifyInstance } from "fastify";
+import { CloseStore } from "./closeStore";
+import { parseDate } from "./calendarRoutes";
+
+/**
+ * Configure REST routes exposing end-of-day closes
+ */
+export function configureCloseRoutes(fastify: FastifyInstance, closeStore: CloseStore): void {
+  // Closes taken on a date, by default the latest date closed
+  fastify.get<{ Querystring: { date?: string; region?: string } }>(
+    "/api/closes",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            date: { type: "string" },
+            region: { type: "string" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { date, region } = request.query;
+
+      if (date !== undefined && !parseDate(date)) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Invalid date, expected YYYY-MM-DD",
+        };
+      }
+
+      const closes = closeStore
+        .getCloses(date)
+        .filter((close) => !region || close.region === region.toUpperCase());
+
+      if (date !== undefined && closes.length === 0) {
+        reply.code(404);
+        return {
+          success: false,
+          error: `No closes for ${date}${region ? ` in ${region}` : ""}`,
+          data: { dates: closeStore.getDates() },
+        };
+      }
+
+      return {
+        date: closes[0]?.date ?? null,
+        closes,
+        count: closes.length,
+      };
+    }
+  );
+}
@@ -0,0 +1,146 @@
+import { Instrument, SecurityType } from '../models/instrument';
+import { Bond } from '../models/bond';
+import { Future } from '../models/future';
+import { MoneyMarketInstrument } from '../models/moneyMarket';
+import { instrumentMarketValue, quotedLevel } from './valuation';
+
+/**
+ * A trading region whose instruments are closed out together at a local
+ * time each business day
+ */
+export interface CloseRegion {
+  name: string; // e.g. "AMERICAS"
+  timeZone: string; // IANA zone the close time is in
+  closeTime: string; // Local "HH:MM"
+  currencies: string[]; // Instruments closed with the region, by notional currency
+}
+
+export const DEFAULT_CLOSE_REGIONS: CloseRegion[] = [
+  { name: 'AMERICAS', timeZone: 'America/New_York', closeTime: '17:00', currencies: ['USD', 'CAD'] },
+  { name: 'EMEA', timeZone: 'Europe/London', closeTime: '16:30', currencies: ['GBP', 'EUR', 'CHF'] },
+  { name: 'APAC', timeZone: 'Asia/Tokyo', closeTime: '15:00', currencies: ['JPY', 'AUD', 'NZD'] },
+];
+
+/**
+ * Closing levels of one instrument. `price` is what the instrument is
+ * quoted in: the price of bonds, futures, options and bills, the rate of
+ * swaps, FRAs and repos.
+ */
+export interface InstrumentClose {
+  instrumentId: string;
+  securityType: SecurityType;
+  currency: string;
+  book: string;
+  price: number;
+  yield?: number;
+  mtm: number;
+}
+
+/**
+ * Snapshot of a region's instruments at its close
+ */
+export interface RegionClose {
+  region: string;
+  date: string; // Local business date closed
+  closedAt: string; // Simulation time of the close
+  instruments: InstrumentClose[];
+}
+
+/**
+ * Override the close times of the default regions from "REGION=HH:MM"
+ * pairs, e.g. "AMERICAS=16:00,EMEA=17:30"
+ */
+export function closeRegionsFromTimes(times?: string): CloseRegion[] {
+  const regions = DEFAULT_CLOSE_REGIONS.map(region => ({ ...region }));
+  if (!times) return regions;
+
+  times.split(',').forEach(entry => {
+    const [name, closeTime] = entry.split('=').map(part => part.trim());
+    const region = regions.find(r => r.name === name?.toUpperCase());
+    if (!region) {
+      throw new Error(`Unknown close region: ${name}`);
+    }
+    if (!/^([01]\d|2[0-3]):[0-5]\d$/.test(closeTime ?? '')) {
+      throw new Error(`Invalid close time for ${region.name}: ${closeTime}`);
+    }
+    region.closeTime = closeTime;
+  });
+  return regions;
+}
+
+/**
+ * Local calendar date ("2024-06-03") and time ("17:00") of an instant in
+ * a time zone
+ */
+export function localDateTime(instant: Date, timeZone: string): { date: string; time: string } {
+  const parts = new Intl.DateTimeFormat('en-CA', {
+    timeZone,
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(instant);
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? '';
+  return { date: `${part('year')}-${part('month')}-${part('day')}`, time: `${part('hour')}:${part('minute')}` };
+}
+
+function closingYield(instrument: Instrument): number | undefined {
+  switch (instrument.securityType) {
+    case SecurityType.GOVERNMENT_BOND:
+    case SecurityType.CORPORATE_BOND:
+      return (instrument as Bond).yieldToMaturity;
+    case SecurityType.MONEY_MARKET:
+      return (instrument as MoneyMarketInstrument).moneyMarketYield;
+    case SecurityType.FUTURE:
+      return (instrument as Future).impliedRate;
+    default:
+      return undefined;
+  }
+}
+
+export function snapshotClose(instrument: Instrument): InstrumentClose {
+  return {
+    instrumentId: instrument.instrumentId,
+    securityType: instrument.securityType,
+    currency: instrument.notionalCurrency,
+    book: instrument.book,
+    price: quotedLevel(instrument),
+    yield: closingYield(instrument),
+    mtm: parseFloat(instrumentMarketValue(instrument).toFixed(2)),
+  };
+}
+
+/**
+ * End-of-day closes by date and region, and the latest close of each
+ * instrument that day-over-day changes are measured from
+ */
+export class CloseStore {
+  private closes: Map<string, RegionClose[]> = new Map(); // By date
+  private latest: Map<string, InstrumentClose> = new Map(); // By instrument
+
+  add(close: RegionClose): void {
+    const closes = (this.closes.get(close.date) ?? []).filter(c => c.region !== close.region);
+    closes.push(close);
+    this.closes.set(close.date, closes.sort((a, b) => a.region.localeCompare(b.region)));
+    close.instruments.forEach(instrument => this.latest.set(instrument.instrumentId, instrument));
+  }
+
+  getDates(): string[] {
+    return Array.from(this.closes.keys()).sort();
+  }
+
+  /**
+   * Closes taken on a date, or on the latest date closed
+   */
+  getCloses(date?: string): RegionClose[] {
+    const dates = this.getDates();
+    const key = date ?? dates[dates.length - 1];
+    return (key && this.closes.get(key)) || [];
+  }
+
+  previousClose(instrumentId: string): InstrumentClose | undefined {
+    return this.latest.get(instrumentId);
+  }
+}
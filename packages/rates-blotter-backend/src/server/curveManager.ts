@@ -0,0 +1,266 @@
+import { Currency, DayCountConvention, ReferenceRateIndex } from '../models/enums';
+import { YieldCurve, tenorToYears } from '../analytics/curve';
+import {
+  CurveDefinition,
+  CurveQuote,
+  bootstrapCurve,
+  quoteMaturity,
+  quoteTenor,
+} from '../analytics/curveBootstrap';
+import { Clock, systemClock } from '../utils/clock';
+
+/**
+ * Tenors reported by curve snapshots
+ */
+export const STANDARD_TENORS = ['1M', '3M', '6M', '1Y', '2Y', '3Y', '5Y', '7Y', '10Y', '15Y', '20Y', '30Y'];
+
+/**
+ * Overnight index used to discount cashflows in each currency
+ */
+export const DISCOUNT_INDEX: Partial<Record<Currency, ReferenceRateIndex>> = {
+  [Currency.USD]: ReferenceRateIndex.SOFR,
+  [Currency.EUR]: ReferenceRateIndex.ESTR,
+  [Currency.GBP]: ReferenceRateIndex.SONIA,
+  [Currency.JPY]: ReferenceRateIndex.TONAR,
+  [Currency.CAD]: ReferenceRateIndex.CORRA,
+};
+
+export interface CurveSnapshotPoint {
+  tenor: string;
+  time: number;
+  zeroRate: number; // Continuously compounded, percent
+  discountFactor: number;
+  forwardRate: number; // 3M simple forward starting at the tenor, percent
+}
+
+export interface CurveSnapshot {
+  currency: Currency;
+  index: ReferenceRateIndex;
+  role: 'discount' | 'forward';
+  asOf: string;
+  pillars: { tenor: string; time: number; quote: number; discountFactor: number }[];
+  points: CurveSnapshotPoint[];
+}
+
+/**
+ * Owns the market quotes for every reference rate index and the curves
+ * bootstrapped from them. Quotes can be moved and curves rebuilt at runtime;
+ * snapshots are stamped with the time on `clock` the curves were last built,
+ * the simulation's clock when the simulator moves them.
+ */
+export class CurveManager {
+  private definitions: Map<ReferenceRateIndex, CurveDefinition> = new Map();
+  private curves: Map<ReferenceRateIndex, YieldCurve> = new Map();
+  private lastBuilt: Date;
+
+  constructor(definitions: CurveDefinition[] = createDefaultCurveDefinitions(), private clock: Clock = systemClock) {
+    this.lastBuilt = clock.now();
+    definitions.forEach(definition => {
+      this.definitions.set(definition.index, JSON.parse(JSON.stringify(definition)));
+    });
+    this.rebuild();
+  }
+
+  /**
+   * Rebuild one curve, or every curve when no index is given
+   */
+  rebuild(index?: ReferenceRateIndex): void {
+    const indices = index ? [index] : Array.from(this.definitions.keys());
+    indices.forEach(i => {
+      const definition = this.definitions.get(i);
+      if (definition) {
+        this.curves.set(i, bootstrapCurve(definition));
+      }
+    });
+    this.lastBuilt = this.clock.now();
+  }
+
+  getIndices(): ReferenceRateIndex[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  getCurrencies(): Currency[] {
+    return Array.from(new Set(Array.from(this.definitions.values()).map(d => d.currency)));
+  }
+
+  getDefinition(index: ReferenceRateIndex): CurveDefinition | undefined {
+    return this.definitions.get(index);
+  }
+
+  getQuotes(index: ReferenceRateIndex): CurveQuote[] {
+    return this.definitions.get(index)?.quotes ?? [];
+  }
+
+  getCurve(index: ReferenceRateIndex): YieldCurve | undefined {
+    return this.curves.get(index);
+  }
+
+  getDiscountCurve(currency: Currency): YieldCurve | undefined {
+    const index = DISCOUNT_INDEX[currency];
+    return index ? this.curves.get(index) : undefined;
+  }
+
+  /**
+   * Resolve the projection curve for an instrument's floating index,
+   * falling back to the currency's discount curve for unknown indices
+   */
+  getForwardCurve(indexName: string, currency: Currency): YieldCurve | undefined {
+    const index = resolveIndex(indexName);
+    const curve = index ? this.curves.get(index) : undefined;
+    return curve && curve.currency === currency ? curve : this.getDiscountCurve(currency);
+  }
+
+  /**
+   * Money-market day count the floating index accrues on
+   */
+  getIndexDayCount(indexName: string, currency: Currency): DayCountConvention {
+    const curve = this.getForwardCurve(indexName, currency);
+    const definition = curve ? this.definitions.get(curve.index) : undefined;
+    return definition?.dayCountBasis === 365 ? DayCountConvention.ACT_365 : DayCountConvention.ACT_360;
+  }
+
+  /**
+   * Move every quote of a curve by a tenor-dependent amount in basis points
+   * and rebuild it. Futures move in price, so a rate rise lowers the price.
+   */
+  shiftQuotes(index: ReferenceRateIndex, shiftBp: (time: number, quote: CurveQuote) => number): void {
+    const definition = this.definitions.get(index);
+    if (!definition) return;
+
+    definition.quotes.forEach(quote => {
+      const shift = shiftBp(quoteMaturity(quote), quote) / 100;
+      if (quote.type === 'FUTURE') {
+        quote.price = parseFloat((quote.price - shift).toFixed(6));
+      } else {
+        quote.rate = parseFloat((quote.rate + shift).toFixed(6));
+      }
+    });
+
+    this.rebuild(index);
+  }
+
+  /**
+   * Zero rates, discount factors and forwards at the standard tenors
+   */
+  getCurveSnapshot(currency: Currency, indexName?: string): CurveSnapshot | undefined {
+    const discountIndex = DISCOUNT_INDEX[currency];
+    const index = indexName ? resolveIndex(indexName) : discountIndex;
+    if (!index) return undefined;
+
+    const definition = this.definitions.get(index);
+    const curve = this.curves.get(index);
+    if (!definition || !curve || curve.currency !== currency) return undefined;
+
+    return {
+      currency,
+      index,
+      role: index === discountIndex ? 'discount' : 'forward',
+      asOf: this.lastBuilt.toISOString(),
+      pillars: definition.quotes.map(quote => {
+        const time = quoteMaturity(quote);
+        return {
+          tenor: quoteTenor(quote),
+          time: round(time),
+          quote: quote.type === 'FUTURE' ? quote.price : quote.rate,
+          discountFactor: round(curve.discountFactor(time)),
+        };
+      }),
+      points: STANDARD_TENORS.map(tenor => {
+        const time = tenorToYears(tenor);
+        return {
+          tenor,
+          time: round(time),
+          zeroRate: round(curve.zeroRate(time) * 100),
+          discountFactor: round(curve.discountFactor(time)),
+          forwardRate: round(curve.forwardRate(time, time + 0.25) * 100),
+        };
+      }),
+    };
+  }
+}
+
+/**
+ * Map a free-form index name (e.g. "SOFR") onto the enum
+ */
+export function resolveIndex(indexName: string): ReferenceRateIndex | undefined {
+  const name = indexName.trim().toUpperCase();
+  return Object.values(ReferenceRateIndex).find(index => index === name);
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(8));
+}
+
+const SWAP_TENORS = ['1Y', '2Y', '3Y', '5Y', '7Y', '10Y', '15Y', '20Y', '30Y'];
+const DEPOSIT_TENORS = ['ON', '1M', '3M', '6M'];
+
+function depositQuotes(rates: number[], tenors = DEPOSIT_TENORS): CurveQuote[] {
+  return rates.map((rate, i) => ({ type: 'DEPOSIT', tenor: tenors[i], rate }));
+}
+
+function swapQuotes(rates: number[]): CurveQuote[] {
+  return rates.map((rate, i) => ({ type: 'SWAP', tenor: SWAP_TENORS[i], rate, fixedFrequency: 1 }));
+}
+
+/**
+ * Example market quotes for each supported index
+ */
+export function createDefaultCurveDefinitions(): CurveDefinition[] {
+  return [
+    {
+      currency: Currency.USD,
+      index: ReferenceRateIndex.SOFR,
+      dayCountBasis: 360,
+      quotes: [
+        ...depositQuotes([5.05, 5.08, 5.15, 5.2]),
+        { type: 'FUTURE', startTenor: '6M', endTenor: '9M', price: 94.88 },
+        ...swapQuotes([5.05, 4.72, 4.45, 4.2, 4.1, 4.05, 4.02, 3.95, 3.75]),
+      ],
+    },
+    {
+      currency: Currency.EUR,
+      index: ReferenceRateIndex.ESTR,
+      dayCountBasis: 360,
+      quotes: [
+        ...depositQuotes([3.15, 3.2, 3.3, 3.45]),
+        ...swapQuotes([3.55, 3.4, 3.15, 2.95, 2.88, 2.85, 2.85, 2.75, 2.55]),
+      ],
+    },
+    {
+      currency: Currency.EUR,
+      index: ReferenceRateIndex.EURIBOR,
+      dayCountBasis: 360,
+      quotes: [
+        ...depositQuotes([3.7, 3.9], ['3M', '6M']),
+        ...swapQuotes([3.95, 3.7, 3.45, 3.2, 3.12, 3.1, 3.1, 3.0, 2.8]),
+      ],
+    },
+    {
+      currency: Currency.GBP,
+      index: ReferenceRateIndex.SONIA,
+      dayCountBasis: 365,
+      quotes: [
+        ...depositQuotes([4.93, 4.95, 5.05, 5.25]),
+        ...swapQuotes([5.35, 5.1, 4.8, 4.45, 4.3, 4.2, 4.2, 4.15, 3.95]),
+      ],
+    },
+    {
+      currency: Currency.JPY,
+      index: ReferenceRateIndex.TONAR,
+      dayCountBasis: 365,
+      quotes: [
+        ...depositQuotes([-0.07, -0.05, -0.04, -0.02]),
+        ...swapQuotes([0.0, 0.08, 0.15, 0.3, 0.45, 0.65, 0.95, 1.15, 1.35]),
+      ],
+    },
+    {
+      currency: Currency.CAD,
+      index: ReferenceRateIndex.CORRA,
+      dayCountBasis: 365,
+      quotes: [
+        ...depositQuotes([4.92, 4.95, 5.0, 5.05]),
+        ...swapQuotes([5.0, 4.7, 4.35, 3.95, 3.75, 3.65, 3.6, 3.5, 3.3]),
+      ],
+    },
+  ];
+}
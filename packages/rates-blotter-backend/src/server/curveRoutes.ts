@@ -0,0 +1,120 @@
+import { FastifyInstance } from "fastify";
+import { CurveManager, DISCOUNT_INDEX, resolveIndex } from "./curveManager";
+import { Currency } from "../models/instrument";
+
+/**
+ * Configure REST routes exposing the bootstrapped yield curves
+ */
+export function configureCurveRoutes(
+  fastify: FastifyInstance,
+  curveManager: CurveManager
+): void {
+  // List the available curves
+  fastify.get("/api/curves", async () => {
+    const curves = curveManager.getIndices().map((index) => {
+      const definition = curveManager.getDefinition(index)!;
+      return {
+        currency: definition.currency,
+        index,
+        role:
+          DISCOUNT_INDEX[definition.currency] === index ? "discount" : "forward",
+        quoteCount: definition.quotes.length,
+      };
+    });
+    return { curves, count: curves.length };
+  });
+
+  // Zero rates, discount factors and forwards at standard tenors
+  fastify.get<{ Params: { currency: string }; Querystring: { index?: string } }>(
+    "/api/curves/:currency",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: {
+            currency: { type: "string" },
+          },
+          required: ["currency"],
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            index: { type: "string" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const currency = request.params.currency.toUpperCase();
+      const { index } = request.query;
+
+      // Validate currency
+      if (!Object.values(Currency).includes(currency as Currency)) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Invalid currency",
+          data: { validCurrencies: Object.values(Currency) },
+        };
+      }
+
+      const snapshot = curveManager.getCurveSnapshot(currency as Currency, index);
+
+      if (!snapshot) {
+        reply.code(404);
+        return {
+          success: false,
+          error: index
+            ? `No ${index} curve for ${currency}`
+            : `No curve for ${currency}`,
+        };
+      }
+
+      return snapshot;
+    }
+  );
+
+  // Market quotes the curve is bootstrapped from
+  fastify.get<{ Params: { currency: string }; Querystring: { index?: string } }>(
+    "/api/curves/:currency/quotes",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: {
+            currency: { type: "string" },
+          },
+          required: ["currency"],
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            index: { type: "string" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const currency = request.params.currency.toUpperCase() as Currency;
+      const index = request.query.index
+        ? resolveIndex(request.query.index)
+        : DISCOUNT_INDEX[currency];
+      const definition = index ? curveManager.getDefinition(index) : undefined;
+
+      if (!definition || definition.currency !== currency) {
+        reply.code(404);
+        return {
+          success: false,
+          error: "Curve not found",
+        };
+      }
+
+      return {
+        currency,
+        index,
+        dayCountBasis: definition.dayCountBasis,
+        quotes: definition.quotes,
+      };
+    }
+  );
+}
@@ -0,0 +1,145 @@
+import fs from 'fs';
+import path from 'path';
+import { ReferenceRateIndex } from '../models/enums';
+import { FixingLookup } from '../analytics/overnightCompounding';
+import { formatDate, toDate } from '../analytics/dates';
+import { resolveIndex } from './curveManager';
+
+/**
+ * Directory holding one JSON fixing history per index
+ */
+export const DEFAULT_FIXINGS_DIRECTORY = path.resolve(__dirname, '../../data/fixings');
+
+/**
+ * A published rate for a date, in percent
+ */
+export interface Fixing {
+  date: string;
+  rate: number;
+}
+
+/**
+ * A fixing as announced when it is published
+ */
+export interface PublishedFixing extends Fixing {
+  index: ReferenceRateIndex;
+}
+
+/**
+ * Fixing history of one index as stored in the fixings data files
+ */
+export interface FixingSeriesDefinition {
+  index: string; // e.g. "SOFR"
+  description?: string;
+  fixings: Fixing[];
+}
+
+/**
+ * Historical rate fixings per index, loaded from local files and extended
+ * as new fixings are published
+ */
+export class FixingsManager {
+  private series: Map<ReferenceRateIndex, Fixing[]> = new Map(); // Sorted by date
+
+  constructor(directory: string = DEFAULT_FIXINGS_DIRECTORY) {
+    this.loadDirectory(directory);
+  }
+
+  /**
+   * Load (or reload) every *.json fixing history in a directory
+   */
+  loadDirectory(directory: string): void {
+    if (!fs.existsSync(directory)) {
+      throw new Error(`Fixings directory not found: ${directory}`);
+    }
+
+    fs.readdirSync(directory)
+      .filter(file => file.endsWith('.json'))
+      .sort()
+      .forEach(file => {
+        const definition = JSON.parse(fs.readFileSync(path.join(directory, file), 'utf8')) as FixingSeriesDefinition;
+        this.addFixings(definition.index, definition.fixings);
+      });
+  }
+
+  /**
+   * Add or overwrite fixings of an index. Returns the number stored.
+   */
+  addFixings(indexName: string, fixings: Fixing[]): number {
+    const index = resolveIndex(indexName);
+    if (!index) {
+      throw new Error(`Unknown index: ${indexName}`);
+    }
+    if (!Array.isArray(fixings)) {
+      throw new Error('Fixings must be a list of { date, rate }');
+    }
+
+    const byDate = new Map((this.series.get(index) ?? []).map(fixing => [fixing.date, fixing.rate]));
+    fixings.forEach(fixing => {
+      if (typeof fixing.rate !== 'number' || !Number.isFinite(fixing.rate)) {
+        throw new Error(`Invalid rate for ${index} on ${fixing.date}`);
+      }
+      byDate.set(formatDate(toDate(fixing.date)), fixing.rate);
+    });
+
+    this.series.set(
+      index,
+      Array.from(byDate.entries())
+        .map(([date, rate]) => ({ date, rate }))
+        .sort((a, b) => a.date.localeCompare(b.date))
+    );
+    return fixings.length;
+  }
+
+  getIndices(): ReferenceRateIndex[] {
+    return Array.from(this.series.keys());
+  }
+
+  /**
+   * Fixings of an index within [from, to], oldest first
+   */
+  getFixings(indexName: string, from?: Date, to?: Date): Fixing[] {
+    const index = resolveIndex(indexName);
+    const fixings = (index && this.series.get(index)) || [];
+    const start = from ? formatDate(toDate(from)) : '';
+    const end = to ? formatDate(toDate(to)) : '9999-12-31';
+    return fixings.filter(fixing => fixing.date >= start && fixing.date <= end);
+  }
+
+  /**
+   * Fixing published for exactly this date
+   */
+  getFixing(indexName: string, date: Date): number | undefined {
+    const key = formatDate(toDate(date));
+    return this.getFixings(indexName).find(fixing => fixing.date === key)?.rate;
+  }
+
+  latestFixing(indexName: string): Fixing | undefined {
+    const fixings = this.getFixings(indexName);
+    return fixings[fixings.length - 1];
+  }
+
+  /**
+   * Lookup that falls back to the latest fixing on or before a date, as
+   * when a publication is missed
+   */
+  lookup(indexName: string): FixingLookup {
+    const fixings = this.getFixings(indexName);
+    return (date: Date) => {
+      const key = formatDate(toDate(date));
+      let low = 0;
+      let high = fixings.length - 1;
+      let rate: number | undefined;
+      while (low <= high) {
+        const mid = (low + high) >> 1;
+        if (fixings[mid].date <= key) {
+          rate = fixings[mid].rate;
+          low = mid + 1;
+        } else {
+          high = mid - 1;
+        }
+      }
+      return rate;
+    };
+  }
+}
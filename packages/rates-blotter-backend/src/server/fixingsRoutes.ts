@@ -0,0 +1,211 @@
+import { FastifyInstance } from "fastify";
+import { InstrumentManager } from "./instrumentManager";
+import { CurveManager, resolveIndex } from "./curveManager";
+import { Fixing, FixingsManager } from "./fixingsManager";
+import { swapValuationContext } from "./valuation";
+import { SecurityType } from "../models/instrument";
+import { InterestRateSwap } from "../models/interestRateSwap";
+import { accruedFloatingCoupon } from "../analytics/swapPricing";
+import { parseDate } from "./calendarRoutes";
+
+/**
+ * Configure REST routes exposing rate fixings and the floating coupons
+ * accrued from them as of `now`: the simulator's time
+ */
+export function configureFixingsRoutes(
+  fastify: FastifyInstance,
+  instrumentManager: InstrumentManager,
+  curveManager: CurveManager,
+  fixingsManager: FixingsManager,
+  now: () => Date
+): void {
+  // List the indices with fixings and the range each covers
+  fastify.get("/api/fixings", async () => {
+    const indices = fixingsManager.getIndices().map((index) => {
+      const fixings = fixingsManager.getFixings(index);
+      return {
+        index,
+        count: fixings.length,
+        first: fixings[0]?.date ?? null,
+        latest: fixings[fixings.length - 1] ?? null,
+      };
+    });
+    return { indices, count: indices.length };
+  });
+
+  // Fixings of one index, optionally within a date range
+  fastify.get<{ Params: { index: string }; Querystring: { from?: string; to?: string } }>(
+    "/api/fixings/:index",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: {
+            index: { type: "string" },
+          },
+          required: ["index"],
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            from: { type: "string" },
+            to: { type: "string" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const index = resolveIndex(request.params.index);
+
+      if (!index || fixingsManager.getFixings(index).length === 0) {
+        reply.code(404);
+        return {
+          success: false,
+          error: `No fixings for ${request.params.index}`,
+        };
+      }
+
+      const from = parseDate(request.query.from ?? "1900-01-01");
+      const to = parseDate(request.query.to ?? "2999-12-31");
+      if (!from || !to) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Invalid date, expected YYYY-MM-DD",
+        };
+      }
+
+      const fixings = fixingsManager.getFixings(index, from, to);
+      return { index, fixings, count: fixings.length };
+    }
+  );
+
+  // Add or correct fixings of an index (admin operation)
+  fastify.post<{ Params: { index: string }; Body: { fixings: Fixing[] } }>(
+    "/api/admin/fixings/:index",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: {
+            index: { type: "string" },
+          },
+          required: ["index"],
+        },
+        body: {
+          type: "object",
+          properties: {
+            fixings: {
+              type: "array",
+              minItems: 1,
+              items: {
+                type: "object",
+                properties: {
+                  date: { type: "string" },
+                  rate: { type: "number" },
+                },
+                required: ["date", "rate"],
+              },
+            },
+          },
+          required: ["fixings"],
+        },
+      },
+    },
+    async (request, reply) => {
+      const index = resolveIndex(request.params.index);
+
+      if (!index) {
+        reply.code(400);
+        return {
+          success: false,
+          error: `Unknown index: ${request.params.index}`,
+        };
+      }
+
+      const invalid = request.body.fixings.find((fixing) => !parseDate(fixing.date));
+      if (invalid) {
+        reply.code(400);
+        return {
+          success: false,
+          error: `Invalid date ${invalid.date}, expected YYYY-MM-DD`,
+        };
+      }
+
+      const stored = fixingsManager.addFixings(index, request.body.fixings);
+
+      reply.code(201);
+      return {
+        success: true,
+        data: {
+          index,
+          stored,
+          latest: fixingsManager.latestFixing(index),
+        },
+      };
+    }
+  );
+
+  // Floating interest accrued so far in a swap's running period, with the fixings compounded
+  fastify.get<{ Params: { instrumentId: string } }>(
+    "/api/instruments/:instrumentId/floating-accrual",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: {
+            instrumentId: { type: "string" },
+          },
+          required: ["instrumentId"],
+        },
+      },
+    },
+    async (request, reply) => {
+      const { instrumentId } = request.params;
+      const instrument = instrumentManager.getInstrument(instrumentId);
+
+      if (!instrument) {
+        reply.code(404);
+        return {
+          success: false,
+          error: "Instrument not found",
+        };
+      }
+
+      if (instrument.securityType !== SecurityType.INTEREST_RATE_SWAP) {
+        reply.code(400);
+        return {
+          success: false,
+          error: `${instrumentId} is not a swap`,
+        };
+      }
+
+      const swap = instrument as InterestRateSwap;
+      const context = swapValuationContext(
+        swap,
+        curveManager,
+        instrumentManager.getCalendarManager(),
+        now(),
+        fixingsManager
+      );
+      const accrual = context && accruedFloatingCoupon(swap, context);
+
+      if (!accrual) {
+        reply.code(404);
+        return {
+          success: false,
+          error: `No running floating period with published fixings for ${instrumentId}`,
+        };
+      }
+
+      return {
+        instrumentId,
+        floatingRateIndex: swap.floatingRateIndex,
+        compounding: swap.compounding ?? null,
+        ...accrual,
+        compoundedRate: parseFloat(accrual.compoundedRate.toFixed(6)),
+        accruedAmount: parseFloat(accrual.accruedAmount.toFixed(2)),
+      };
+    }
+  );
+}
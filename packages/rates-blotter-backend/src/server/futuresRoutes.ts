@@ -0,0 +1,119 @@
+import { FastifyInstance } from "fastify";
+import { InstrumentManager } from "./instrumentManager";
+import { CurveManager } from "./curveManager";
+import { futureDeliveryBasket } from "./valuation";
+import { SecurityType } from "../models/instrument";
+import { TradingStatus } from "../models/enums";
+import { Future } from "../models/future";
+import { formatDate, toDate } from "../analytics/dates";
+
+function round(value: number, decimals: number): number {
+  return parseFloat(value.toFixed(decimals));
+}
+
+/**
+ * Configure REST routes exposing bond futures delivery analytics as of
+ * `now`: the simulator's time
+ */
+export function configureFuturesRoutes(
+  fastify: FastifyInstance,
+  instrumentManager: InstrumentManager,
+  curveManager: CurveManager,
+  now: () => Date
+): void {
+  // Deliverable bonds with conversion factor, basis and implied repo, cheapest to deliver flagged
+  fastify.get<{ Params: { instrumentId: string } }>(
+    "/api/futures/:instrumentId/deliverables",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: {
+            instrumentId: { type: "string" },
+          },
+          required: ["instrumentId"],
+        },
+      },
+    },
+    async (request, reply) => {
+      const { instrumentId } = request.params;
+      const instrument = instrumentManager.getInstrument(instrumentId);
+
+      if (!instrument) {
+        reply.code(404);
+        return {
+          success: false,
+          error: "Instrument not found",
+        };
+      }
+
+      if (instrument.securityType !== SecurityType.FUTURE) {
+        reply.code(400);
+        return {
+          success: false,
+          error: `${instrumentId} is not a future`,
+        };
+      }
+
+      const future = instrument as Future;
+      const asOf = now();
+      const lastTradeDate = future.lastTradeDate || future.expirationDate;
+      if (future.status === TradingStatus.EXPIRED || toDate(lastTradeDate).getTime() < toDate(asOf).getTime()) {
+        reply.code(409);
+        return {
+          success: false,
+          error: `${instrumentId} expired on ${lastTradeDate}`,
+        };
+      }
+
+      const basket = futureDeliveryBasket(future, instrumentManager, curveManager, asOf);
+
+      if (!basket) {
+        reply.code(404);
+        return {
+          success: false,
+          error: `No delivery rules for ${instrumentId}`,
+        };
+      }
+
+      const { context, deliverables } = basket;
+      if (context.settlement.getTime() >= context.deliveryDate.getTime()) {
+        reply.code(400);
+        return {
+          success: false,
+          error: `Settlement on ${formatDate(context.settlement)} is not before the last delivery date ${formatDate(context.deliveryDate)}`,
+        };
+      }
+
+      return {
+        instrumentId,
+        contract: basket.contract.code,
+        futurePrice: context.futurePrice,
+        deliveryMonth: formatDate(basket.deliveryMonth).slice(0, 7),
+        settlementDate: formatDate(context.settlement),
+        deliveryDate: formatDate(context.deliveryDate),
+        repoRate: round(context.repoRate, 4),
+        cheapestToDeliver: deliverables.find((d) => d.isCheapestToDeliver)?.instrumentId ?? null,
+        deliverables: deliverables.map((d) => ({
+          instrumentId: d.instrumentId,
+          description: d.description,
+          coupon: d.coupon,
+          maturityDate: d.maturityDate,
+          conversionFactor: d.conversionFactor,
+          cleanPrice: d.cleanPrice,
+          accrued: round(d.accrued, 6),
+          accruedAtDelivery: round(d.accruedAtDelivery, 6),
+          invoicePrice: round(d.invoicePrice, 6),
+          grossBasis: round(d.grossBasis, 6),
+          grossBasis32nds: round(d.grossBasis * 32, 2),
+          carry: round(d.carry, 6),
+          netBasis: round(d.netBasis, 6),
+          netBasis32nds: round(d.netBasis * 32, 2),
+          impliedRepoRate: d.impliedRepoRate !== undefined ? round(d.impliedRepoRate, 4) : null,
+          isCheapestToDeliver: d.isCheapestToDeliver,
+        })),
+        count: deliverables.length,
+      };
+    }
+  );
+}
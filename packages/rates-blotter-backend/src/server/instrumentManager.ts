@@ -6,11 +6,37 @@ import {
 } from "../models/instrument";
 import { generateDeltaUpdate } from "../utils/deltaUpdates";
 import { DeltaUpdate } from "../types";
-import { CreditRating, DayCountConvention } from "../models/enums";
+import {
+  BusinessDayConvention,
+  CreditRating,
+  DayCountConvention,
+  MoneyMarketType,
+  OptionPricingModel,
+  RateBasis,
+  RepoDirection,
+  SwapDirection,
+} from "../models/enums";
 import { Option } from "../models/option";
 import { Future } from "../models/future";
 import { Bond } from "../models/bond";
 import { InterestRateSwap } from "../models/interestRateSwap";
+import { ForwardRateAgreement } from "../models/fra";
+import { Repo } from "../models/repo";
+import { MoneyMarketInstrument } from "../models/moneyMarket";
+import { bondYieldFromPrice, updateBondAnalytics } from "../analytics/bondMath";
+import { addDays, addMonths, formatDate } from "../analytics/dates";
+import { CalendarManager } from "./calendarManager";
+
+/**
+ * Fields whose change means the settlement date must be recomputed
+ */
+const SETTLEMENT_FIELDS = [
+  "lastTradeTime",
+  "lastTradePrice",
+  "lastTradeSize",
+  "settlementDays",
+  "notionalCurrency",
+];
 
 /**
  * Manages the collection of financial instruments
@@ -20,13 +46,14 @@ export class InstrumentManager {
   private instruments: Map<string, Instrument> = new Map();
   private previousStates: Map<string, Instrument> = new Map();
 
-  constructor() {}
+  constructor(private calendarManager: CalendarManager = new CalendarManager()) {}
 
   /**
    * Initialize with a set of instruments
    */
   initialize(instruments: Instrument[]): void {
     instruments.forEach((instrument) => {
+      this.assignSettlementDate(instrument);
       this.instruments.set(instrument.instrumentId, instrument);
       // Deep clone for previous state
       this.previousStates.set(
@@ -81,6 +108,7 @@ export class InstrumentManager {
    * Add a new instrument
    */
   addInstrument(instrument: Instrument): void {
+    this.assignSettlementDate(instrument);
     this.instruments.set(instrument.instrumentId, instrument);
     this.previousStates.set(
       instrument.instrumentId,
@@ -110,9 +138,71 @@ export class InstrumentManager {
     // Apply updates
     Object.assign(instrument, updates);
 
+    // A new trade (or new settlement terms) moves the settlement date
+    if (
+      !("settlementDate" in updates) &&
+      SETTLEMENT_FIELDS.some((field) => field in updates)
+    ) {
+      this.assignSettlementDate(instrument);
+    }
+
     return instrument;
   }
 
+  /**
+   * Record a trade, updating the last trade fields and settlement date.
+   * The previous state is left alone so the trade goes out with the next
+   * delta update alongside the rest of the tick's changes.
+   */
+  recordTrade(
+    instrumentId: string,
+    price: number,
+    size: number,
+    time: Date = new Date()
+  ): Instrument | undefined {
+    const instrument = this.instruments.get(instrumentId);
+
+    if (!instrument) {
+      return undefined;
+    }
+
+    instrument.lastTradePrice = price;
+    instrument.lastTradeSize = size;
+    instrument.lastTradeTime = time;
+    this.assignSettlementDate(instrument);
+
+    return instrument;
+  }
+
+  /**
+   * Settlement date for a trade in the instrument done at `tradeDate`,
+   * e.g. spot settlement when dealing today
+   */
+  spotSettlementDate(instrument: Instrument, tradeDate: Date = new Date()): Date {
+    return this.calendarManager.settlementDate(
+      instrument.notionalCurrency,
+      tradeDate,
+      instrument.settlementDays
+    );
+  }
+
+  getCalendarManager(): CalendarManager {
+    return this.calendarManager;
+  }
+
+  /**
+   * Settle the instrument's last trade (its creation if never traded)
+   */
+  private assignSettlementDate(instrument: Instrument): void {
+    const tradeDate = instrument.lastTradeTime
+      ? new Date(instrument.lastTradeTime)
+      : new Date();
+    instrument.settlementDate = this.spotSettlementDate(
+      instrument,
+      isNaN(tradeDate.getTime()) ? new Date() : tradeDate
+    );
+  }
+
   /**
    * Remove an instrument
    */
@@ -122,9 +212,9 @@ export class InstrumentManager {
   }
 
   /**
-   * Generate delta updates for all changed instruments
+   * Generate delta updates for all changed instruments, stamped with `time`
    */
-  generateDeltaUpdates(): DeltaUpdate[] {
+  generateDeltaUpdates(time: Date = new Date()): DeltaUpdate[] {
     const updates: DeltaUpdate[] = [];
 
     for (const [instrumentId, instrument] of this.instruments.entries()) {
@@ -136,7 +226,7 @@ export class InstrumentManager {
         if (delta && Object.keys(delta.fields).length > 0) {
           updates.push({
             instrumentId: instrumentId,
-            timestamp: Date.now(),
+            timestamp: time.getTime(),
             fields: delta.fields,
           });
 
@@ -153,11 +243,10 @@ export class InstrumentManager {
   }
 
   /**
-   * Create example instruments for testing
+   * Create example instruments for testing, last traded around `now`
    */
-  createExampleInstruments(): Instrument[] {
+  createExampleInstruments(now: Date = new Date()): Instrument[] {
     const instruments: Instrument[] = [];
-    const now = new Date();
 
     // Create some US Treasury bonds
     const bond1: Bond = {
@@ -202,6 +291,17 @@ export class InstrumentManager {
       bondType: "Treasury",
       issueDate: "2023-03-31",
       nextCouponDate: "2023-09-30",
+      accrued: 0,
+      dirtyPrice: 98.75,
+      macaulayDuration: 8.84,
+      dv01: 8542.5,
+      pv01: 8128.4,
+      yieldToWorst: 4.42,
+      workoutDate: "2033-03-31",
+      zSpread: 0,
+      oasSpread: 0,
+      assetSwapSpread: 0,
+      proceedsAssetSwapSpread: 0,
       fixedRate: 4.25,
       floatingRateIndex: "",
       floatingRateSpread: 0,
@@ -209,6 +309,7 @@ export class InstrumentManager {
       dayCountConvention: DayCountConvention.THIRTY_360,
       paymentFrequency: 2,
       settlementDays: 2,
+      settlementDate: now, // Rolled onto the settlement calendar in initialize()
       currentMtm: 0,
       isin: "US912828YJ43",
       cusip: "912828YJ4",
@@ -259,6 +360,17 @@ export class InstrumentManager {
       bondType: "Treasury",
       issueDate: "2023-03-31",
       nextCouponDate: "2023-09-30",
+      accrued: 0,
+      dirtyPrice: 99.85,
+      macaulayDuration: 1.97,
+      dv01: 958.6,
+      pv01: 951.2,
+      yieldToWorst: 4.89,
+      workoutDate: "2025-03-31",
+      zSpread: 0,
+      oasSpread: 0,
+      assetSwapSpread: 0,
+      proceedsAssetSwapSpread: 0,
       fixedRate: 4.85,
       floatingRateIndex: "",
       floatingRateSpread: 0,
@@ -266,6 +378,7 @@ export class InstrumentManager {
       dayCountConvention: DayCountConvention.THIRTY_360,
       paymentFrequency: 2,
       settlementDays: 2,
+      settlementDate: now,
       currentMtm: 0,
       isin: "US912828YK16",
       cusip: "912828YK1",
@@ -274,6 +387,220 @@ export class InstrumentManager {
       ric: "US2YT=RR",
     };
 
+    // Older notes that, with the 10-year, make up the 10-year futures delivery basket
+    const bond4: Bond = {
+      instrumentId: "US7Y",
+      securityType: SecurityType.GOVERNMENT_BOND,
+      description: "US 7-Year Treasury",
+      notionalCurrency: Currency.USD,
+      notionalAmount: 10000000,
+      notional: "10M",
+      trader: "TRADER1",
+      book: "US_RATES",
+      counterparty: "CENTRAL_BANK",
+      // Market data
+      bidPrice: 96.88,
+      askPrice: 96.92,
+      bidYield: 4.17,
+      askYield: 4.16,
+      bidSize: 20000000,
+      offerSize: 20000000,
+      lastTradePrice: 96.9,
+      lastTradeSize: 5000000,
+      lastTradeTime: new Date(now.getTime() - 45000), // 45 seconds ago
+      // Reference data
+      changeFromPrevClose: -0.09,
+      percentageChange: -0.09,
+      status: TradingStatus.ACTIVE,
+      marketSector: "Government",
+      rating: CreditRating.AAA,
+      liquidityScore: 9.0,
+      // Metadata
+      lastUpdate: now,
+      // Bond-specific properties
+      issuer: "U.S. Treasury",
+      maturityDate: "2030-03-31",
+      coupon: 3.625,
+      couponFrequency: 2,
+      faceValue: 100,
+      currentPrice: 96.9,
+      yieldToMaturity: 4.16,
+      duration: 5.9,
+      convexity: 0.4,
+      bondType: "Treasury",
+      issueDate: "2023-03-31",
+      nextCouponDate: "2023-09-30",
+      accrued: 0,
+      dirtyPrice: 96.9,
+      macaulayDuration: 6.02,
+      dv01: 5805.6,
+      pv01: 5580.2,
+      yieldToWorst: 4.16,
+      workoutDate: "2030-03-31",
+      zSpread: 0,
+      oasSpread: 0,
+      assetSwapSpread: 0,
+      proceedsAssetSwapSpread: 0,
+      fixedRate: 3.625,
+      floatingRateIndex: "",
+      floatingRateSpread: 0,
+      spread: 0,
+      dayCountConvention: DayCountConvention.THIRTY_360,
+      paymentFrequency: 2,
+      settlementDays: 2,
+      settlementDate: now,
+      currentMtm: 0,
+      isin: "US91282CGS44",
+      cusip: "91282CGS4",
+      sedol: "",
+      bbid: "US7Y",
+      ric: "US7YT=RR",
+    };
+
+    const bond5: Bond = {
+      instrumentId: "UST-AUG31",
+      securityType: SecurityType.GOVERNMENT_BOND,
+      description: "US Treasury 1.25% Aug-2031",
+      notionalCurrency: Currency.USD,
+      notionalAmount: 10000000,
+      notional: "10M",
+      trader: "TRADER1",
+      book: "US_RATES",
+      counterparty: "CENTRAL_BANK",
+      // Market data
+      bidPrice: 80.28,
+      askPrice: 80.33,
+      bidYield: 4.19,
+      askYield: 4.18,
+      bidSize: 10000000,
+      offerSize: 15000000,
+      lastTradePrice: 80.3,
+      lastTradeSize: 2000000,
+      lastTradeTime: new Date(now.getTime() - 60000), // 60 seconds ago
+      // Reference data
+      changeFromPrevClose: -0.1,
+      percentageChange: -0.12,
+      status: TradingStatus.ACTIVE,
+      marketSector: "Government",
+      rating: CreditRating.AAA,
+      liquidityScore: 8.2,
+      // Metadata
+      lastUpdate: now,
+      // Bond-specific properties
+      issuer: "U.S. Treasury",
+      maturityDate: "2031-08-15",
+      coupon: 1.25,
+      couponFrequency: 2,
+      faceValue: 100,
+      currentPrice: 80.3,
+      yieldToMaturity: 4.18,
+      duration: 7.4,
+      convexity: 0.62,
+      bondType: "Treasury",
+      issueDate: "2021-08-15",
+      nextCouponDate: "2024-02-15",
+      accrued: 0,
+      dirtyPrice: 80.3,
+      macaulayDuration: 7.55,
+      dv01: 5942.2,
+      pv01: 5820.4,
+      yieldToWorst: 4.18,
+      workoutDate: "2031-08-15",
+      zSpread: 0,
+      oasSpread: 0,
+      assetSwapSpread: 0,
+      proceedsAssetSwapSpread: 0,
+      fixedRate: 1.25,
+      floatingRateIndex: "",
+      floatingRateSpread: 0,
+      spread: 0,
+      dayCountConvention: DayCountConvention.THIRTY_360,
+      paymentFrequency: 2,
+      settlementDays: 2,
+      settlementDate: now,
+      currentMtm: 0,
+      isin: "US91282CCS89",
+      cusip: "91282CCS8",
+      sedol: "",
+      bbid: "",
+      ric: "",
+    };
+
+    // Add a callable corporate bond
+    const bond3: Bond = {
+      instrumentId: "ACME32",
+      securityType: SecurityType.CORPORATE_BOND,
+      description: "Acme Corp 5.75% 2032 Callable",
+      notionalCurrency: Currency.USD,
+      notionalAmount: 5000000,
+      notional: "5M",
+      trader: "TRADER2",
+      book: "US_CREDIT",
+      counterparty: "GOLDMAN_SACHS",
+      // Market data
+      bidPrice: 101.1,
+      askPrice: 101.4,
+      bidYield: 5.52,
+      askYield: 5.47,
+      bidSize: 2000000,
+      offerSize: 1500000,
+      lastTradePrice: 101.25,
+      lastTradeSize: 1000000,
+      lastTradeTime: new Date(now.getTime() - 600000), // 10 minutes ago
+      // Reference data
+      changeFromPrevClose: 0.08,
+      percentageChange: 0.08,
+      status: TradingStatus.ACTIVE,
+      marketSector: "Corporate",
+      rating: CreditRating.BBB_PLUS,
+      liquidityScore: 6.5,
+      // Metadata
+      lastUpdate: now,
+      // Bond-specific properties
+      issuer: "Acme Corp",
+      maturityDate: "2032-06-15",
+      coupon: 5.75,
+      couponFrequency: 2,
+      faceValue: 100,
+      currentPrice: 101.25,
+      yieldToMaturity: 5.49,
+      duration: 4.61,
+      convexity: 26.4,
+      bondType: "Corporate",
+      issueDate: "2022-06-15",
+      nextCouponDate: "2023-06-15",
+      accrued: 0,
+      dirtyPrice: 101.25,
+      macaulayDuration: 4.74,
+      dv01: 2334.1,
+      pv01: 2207.9,
+      callSchedule: [
+        { date: "2027-06-15", price: 102.875 },
+        { date: "2028-06-15", price: 101.4375 },
+        { date: "2029-06-15", price: 100 },
+      ],
+      yieldToWorst: 5.49,
+      workoutDate: "2032-06-15",
+      zSpread: 0,
+      oasSpread: 0,
+      assetSwapSpread: 0,
+      proceedsAssetSwapSpread: 0,
+      fixedRate: 5.75,
+      floatingRateIndex: "",
+      floatingRateSpread: 0,
+      spread: 0,
+      dayCountConvention: DayCountConvention.THIRTY_360,
+      paymentFrequency: 2,
+      settlementDays: 2,
+      settlementDate: now,
+      currentMtm: 0,
+      isin: "US000000AC32",
+      cusip: "000000AC3",
+      sedol: "",
+      bbid: "ACME32",
+      ric: "ACME32=",
+    };
+
     // Add an Interest Rate Swap
     const swap1: InterestRateSwap = {
       instrumentId: "USD5YIRS",
@@ -309,15 +636,25 @@ export class InstrumentManager {
       effectiveDate: "2023-04-01",
       maturityDate: "2028-04-01",
       fixedRate: 4.35,
+      direction: SwapDirection.PAY_FIXED,
+      swapRate: 4.35, // Revalued off the curves by the market simulator
       floatingRateIndex: "SOFR",
       floatingRateSpread: 0.15,
       paymentFrequency: 4,
+      compounding: { lookbackDays: 2, lockoutDays: 0, observationShift: true },
       currentMtm: 250000,
+      fixedLegPv: 0,
+      floatingLegPv: 0,
       fixedLegDv01: 4850,
       floatingLegDv01: 4825,
+      dv01: 25,
+      currentFloatingRate: 0, // Compounded from fixings by the market simulator
+      accruedFloatingCoupon: 0,
+      nextResetDate: "",
       spread: 0,
       dayCountConvention: DayCountConvention.THIRTY_360,
       settlementDays: 0,
+      settlementDate: now,
       isin: "",
       cusip: "",
       sedol: "",
@@ -366,6 +703,13 @@ export class InstrumentManager {
       volume: 525000,
       lastTradeDate: "2023-09-19",
       priceChangeToday: -0.375,
+      underlyingTenor: 10,
+      impliedRate: 0,
+      deliverableInstruments: [],
+      cheapestToDeliver: "",
+      conversionFactor: 0,
+      basisToSpot: 0,
+      impliedRepoRate: 0,
       fixedRate: 0,
       floatingRateIndex: "",
       floatingRateSpread: 0,
@@ -373,6 +717,7 @@ export class InstrumentManager {
       dayCountConvention: DayCountConvention.THIRTY_360,
       paymentFrequency: 0,
       settlementDays: 0,
+      settlementDate: now,
       currentMtm: 0,
       isin: "",
       cusip: "",
@@ -418,11 +763,13 @@ export class InstrumentManager {
       strikePrice: 114.0,
       expirationDate: "2023-09-15",
       currentPrice: 1.75,
+      pricingModel: OptionPricingModel.BLACK_76,
       impliedVol: 22.5,
       delta: -0.35,
       gamma: 0.08,
       theta: -0.03,
       vega: 0.15,
+      rho: 0,
       openInterest: 85000,
       volume: 12500,
       intrinsicValue: 1.75,
@@ -434,6 +781,250 @@ export class InstrumentManager {
       dayCountConvention: DayCountConvention.THIRTY_360,
       paymentFrequency: 0,
       settlementDays: 0,
+      settlementDate: now,
+      currentMtm: 0,
+      isin: "",
+      cusip: "",
+      sedol: "",
+      bbid: "",
+      ric: "",
+    };
+
+    // Short-end instruments are dated from today so the desk always has live positions
+    const usdCalendar = this.calendarManager.getCalendarForCurrency(Currency.USD);
+    const spot = this.calendarManager.settlementDate(Currency.USD, now, 2);
+    const shortDate = (date: Date) => formatDate(usdCalendar.adjust(date, BusinessDayConvention.MODIFIED_FOLLOWING));
+
+    // Add a 3-month Treasury bill
+    const bill1: MoneyMarketInstrument = {
+      instrumentId: "US3MBILL",
+      securityType: SecurityType.MONEY_MARKET,
+      description: "US 3-Month Treasury Bill",
+      notionalCurrency: Currency.USD,
+      notionalAmount: 25000000,
+      notional: "25M",
+      trader: "TRADER5",
+      book: "MONEY_MARKETS",
+      counterparty: "PRIMARY_DEALER",
+      // Market data
+      bidPrice: 98.78,
+      askPrice: 98.79,
+      bidYield: 5.21,
+      askYield: 5.2,
+      bidSize: 100000000,
+      offerSize: 75000000,
+      lastTradePrice: 98.785,
+      lastTradeSize: 25000000,
+      lastTradeTime: new Date(now.getTime() - 45000), // 45 seconds ago
+      // Reference data
+      changeFromPrevClose: 0.01,
+      percentageChange: 0.01,
+      status: TradingStatus.ACTIVE,
+      marketSector: "Money Market",
+      rating: CreditRating.AAA,
+      liquidityScore: 9.8,
+      // Metadata
+      lastUpdate: now,
+      // Money-market properties
+      moneyMarketType: MoneyMarketType.TBILL,
+      rateBasis: RateBasis.DISCOUNT,
+      issuer: "U.S. Treasury",
+      issueDate: formatDate(addDays(now, -7)),
+      maturityDate: shortDate(addDays(now, 84)),
+      faceValue: 25000000,
+      couponRate: 0,
+      currentPrice: 98.787,
+      discountRate: 5.2,
+      moneyMarketYield: 5.27,
+      bondEquivalentYield: 5.35,
+      daysToMaturity: 84,
+      dv01: 575,
+      fixedRate: 0,
+      floatingRateIndex: "",
+      floatingRateSpread: 0,
+      spread: 0,
+      dayCountConvention: DayCountConvention.ACT_360,
+      paymentFrequency: 0,
+      settlementDays: 1,
+      settlementDate: now,
+      currentMtm: 0,
+      isin: "",
+      cusip: "",
+      sedol: "",
+      bbid: "B 0 3M",
+      ric: "US3MT=RR",
+    };
+
+    // Add a 6-month bank certificate of deposit
+    const cd1: MoneyMarketInstrument = {
+      instrumentId: "JPM6MCD",
+      securityType: SecurityType.MONEY_MARKET,
+      description: "JPMorgan 6-Month CD",
+      notionalCurrency: Currency.USD,
+      notionalAmount: 10000000,
+      notional: "10M",
+      trader: "TRADER5",
+      book: "MONEY_MARKETS",
+      counterparty: "JPMORGAN",
+      // Market data
+      bidPrice: 100.05,
+      askPrice: 100.07,
+      bidYield: 5.42,
+      askYield: 5.39,
+      bidSize: 20000000,
+      offerSize: 15000000,
+      lastTradePrice: 100.06,
+      lastTradeSize: 5000000,
+      lastTradeTime: new Date(now.getTime() - 600000), // 10 minutes ago
+      // Reference data
+      changeFromPrevClose: 0,
+      percentageChange: 0,
+      status: TradingStatus.ACTIVE,
+      marketSector: "Money Market",
+      rating: CreditRating.A_PLUS,
+      liquidityScore: 6.5,
+      // Metadata
+      lastUpdate: now,
+      // Money-market properties
+      moneyMarketType: MoneyMarketType.CD,
+      rateBasis: RateBasis.YIELD,
+      issuer: "JPMorgan Chase Bank",
+      issueDate: formatDate(addDays(now, -30)),
+      maturityDate: shortDate(addDays(now, 152)),
+      faceValue: 10000000,
+      couponRate: 5.45,
+      currentPrice: 100.48,
+      discountRate: 0,
+      moneyMarketYield: 5.4,
+      bondEquivalentYield: 5.5,
+      daysToMaturity: 152,
+      dv01: 420,
+      fixedRate: 5.45,
+      floatingRateIndex: "",
+      floatingRateSpread: 0,
+      spread: 0,
+      dayCountConvention: DayCountConvention.ACT_360,
+      paymentFrequency: 0,
+      settlementDays: 2,
+      settlementDate: now,
+      currentMtm: 0,
+      isin: "",
+      cusip: "",
+      sedol: "",
+      bbid: "",
+      ric: "",
+    };
+
+    // Add a USD 3x6 FRA on SOFR
+    const fraStart = shortDate(addMonths(spot, 3));
+    const fra1: ForwardRateAgreement = {
+      instrumentId: "USD3X6FRA",
+      securityType: SecurityType.FRA,
+      description: "USD 3x6 FRA",
+      notionalCurrency: Currency.USD,
+      notionalAmount: 50000000,
+      notional: "50M",
+      trader: "TRADER5",
+      book: "STIR",
+      counterparty: "CITI",
+      // Market data
+      bidPrice: 5.08,
+      askPrice: 5.1,
+      bidYield: 0,
+      askYield: 0,
+      bidSize: 100000000,
+      offerSize: 100000000,
+      lastTradePrice: 5.09,
+      lastTradeSize: 50000000,
+      lastTradeTime: new Date(now.getTime() - 900000), // 15 minutes ago
+      // Reference data
+      changeFromPrevClose: -0.01,
+      percentageChange: -0.2,
+      status: TradingStatus.ACTIVE,
+      marketSector: "Interest Rate",
+      rating: CreditRating.NOT_RATED,
+      liquidityScore: 8.0,
+      // Metadata
+      lastUpdate: now,
+      // FRA-specific properties
+      fixingDate: formatDate(usdCalendar.addBusinessDays(new Date(fraStart), -2)),
+      startDate: fraStart,
+      endDate: shortDate(addMonths(spot, 6)),
+      contractRate: 5.1,
+      direction: SwapDirection.PAY_FIXED,
+      forwardRate: 5.1,
+      accrualFactor: 0.25,
+      settlementAmount: 0,
+      dv01: 1250,
+      fixedRate: 5.1,
+      floatingRateIndex: "SOFR",
+      floatingRateSpread: 0,
+      spread: 0,
+      dayCountConvention: DayCountConvention.ACT_360,
+      paymentFrequency: 0,
+      settlementDays: 2,
+      settlementDate: now,
+      currentMtm: 0,
+      isin: "",
+      cusip: "",
+      sedol: "",
+      bbid: "",
+      ric: "",
+    };
+
+    // Add a term reverse repo lending cash against the 10-year
+    const repo1: Repo = {
+      instrumentId: "UST10Y-RR1M",
+      securityType: SecurityType.REPO,
+      description: "1M Reverse Repo vs US 10Y",
+      notionalCurrency: Currency.USD,
+      notionalAmount: 25000000,
+      notional: "25M",
+      trader: "TRADER5",
+      book: "REPO",
+      counterparty: "HEDGE_FUND_A",
+      // Market data
+      bidPrice: 5.32,
+      askPrice: 5.28,
+      bidYield: 0,
+      askYield: 0,
+      bidSize: 50000000,
+      offerSize: 50000000,
+      lastTradePrice: 5.3,
+      lastTradeSize: 25000000,
+      lastTradeTime: new Date(now.getTime() - 7 * 86400000), // 1 week ago
+      // Reference data
+      changeFromPrevClose: 0,
+      percentageChange: 0,
+      status: TradingStatus.ACTIVE,
+      marketSector: "Repo",
+      rating: CreditRating.NOT_RATED,
+      liquidityScore: 7.0,
+      // Metadata
+      lastUpdate: now,
+      // Repo-specific properties
+      direction: RepoDirection.REVERSE_REPO,
+      startDate: formatDate(addDays(now, -7)),
+      endDate: shortDate(addDays(now, 23)),
+      repoRate: 5.3,
+      marketRepoRate: 5.3,
+      collateralId: "US10Y",
+      collateralNominal: 26000000,
+      collateralPrice: 98.75,
+      collateralValue: 25675000,
+      haircut: 2,
+      accruedInterest: 0,
+      repurchaseAmount: 25000000,
+      marginExcess: 0,
+      dv01: 0,
+      fixedRate: 5.3,
+      floatingRateIndex: "",
+      floatingRateSpread: 0,
+      spread: 0,
+      dayCountConvention: DayCountConvention.ACT_360,
+      paymentFrequency: 0,
+      settlementDays: 0,
+      settlementDate: now,
       currentMtm: 0,
       isin: "",
       cusip: "",
@@ -442,7 +1033,15 @@ export class InstrumentManager {
       ric: "",
     };
 
-    instruments.push(bond1, bond2, swap1, future1, option1);
+    // Yield, accrued and risk consistent with the seeded clean price at spot settlement
+    [bond1, bond2, bond3, bond4, bond5].forEach((bond) => {
+      const settlement = this.spotSettlementDate(bond, now);
+      if (settlement.getTime() >= new Date(bond.maturityDate).getTime()) return;
+      const yieldPct = bondYieldFromPrice(bond, bond.currentPrice, settlement);
+      updateBondAnalytics(bond, yieldPct, settlement);
+    });
+
+    instruments.push(bond1, bond2, bond3, bond4, bond5, swap1, future1, option1, bill1, cd1, fra1, repo1);
 
     // Initialize our manager with these instruments
     this.initialize(instruments);
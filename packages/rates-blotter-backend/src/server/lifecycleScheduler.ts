@@ -0,0 +1,132 @@
+import { Instrument, SecurityType, TradingStatus } from '../models/instrument';
+import { Bond } from '../models/bond';
+import { Future } from '../models/future';
+import { Option } from '../models/option';
+import { InterestRateSwap } from '../models/interestRateSwap';
+import { MoneyMarketInstrument } from '../models/moneyMarket';
+import { ForwardRateAgreement } from '../models/fra';
+import { Repo } from '../models/repo';
+import { formatDate, toDate } from '../analytics/dates';
+import { couponPeriod } from '../analytics/dayCount';
+
+export type LifecycleEventType = 'COUPON_PAID' | 'MATURED' | 'EXPIRED';
+
+/**
+ * Something that happened to an instrument because a date in its terms
+ * came round
+ */
+export interface LifecycleEvent {
+  type: LifecycleEventType;
+  instrumentId: string;
+  securityType: SecurityType;
+  date: string; // Date the event fell due
+  status: TradingStatus; // Status after the event
+  couponAmount?: number; // Coupon paid on the notional
+  nextCouponDate?: string; // Coupon date rolled on to
+  timestamp: string;
+}
+
+/**
+ * Date an instrument stops existing: bonds, swaps, bills and CDs at
+ * maturity, repos at their end date and FRAs when they settle at the start
+ * of their accrual period
+ */
+function maturityDate(instrument: Instrument): string | undefined {
+  switch (instrument.securityType) {
+    case SecurityType.GOVERNMENT_BOND:
+    case SecurityType.CORPORATE_BOND:
+    case SecurityType.INTEREST_RATE_SWAP:
+    case SecurityType.MONEY_MARKET:
+      return (instrument as Bond | InterestRateSwap | MoneyMarketInstrument).maturityDate;
+    case SecurityType.REPO:
+      return (instrument as Repo).endDate;
+    case SecurityType.FRA:
+      return (instrument as ForwardRateAgreement).startDate;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Last day a listed contract trades: a future's last trade date and an
+ * option's expiration date
+ */
+function lastTradingDate(instrument: Instrument): string | undefined {
+  switch (instrument.securityType) {
+    case SecurityType.FUTURE: {
+      const future = instrument as Future;
+      return future.lastTradeDate || future.expirationDate;
+    }
+    case SecurityType.OPTION:
+      return (instrument as Option).expirationDate;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Pay each bond coupon that has fallen due, rolling the next coupon date
+ * on along the schedule back from maturity
+ */
+function payCoupons(bond: Bond, today: Date, timestamp: string): LifecycleEvent[] {
+  const events: LifecycleEvent[] = [];
+  if (!bond.nextCouponDate || !(bond.couponFrequency > 0)) return events;
+
+  const maturity = toDate(bond.maturityDate);
+  let due = toDate(bond.nextCouponDate);
+  while (due.getTime() <= today.getTime() && due.getTime() <= maturity.getTime()) {
+    const next = couponPeriod(due, maturity, bond.couponFrequency, toDate(bond.issueDate))?.next;
+    if (next) {
+      bond.nextCouponDate = formatDate(next);
+    }
+    events.push({
+      type: 'COUPON_PAID',
+      instrumentId: bond.instrumentId,
+      securityType: bond.securityType,
+      date: formatDate(due),
+      status: bond.status,
+      couponAmount: parseFloat(((bond.coupon / bond.couponFrequency) * (bond.notionalAmount / 100)).toFixed(2)),
+      nextCouponDate: bond.nextCouponDate,
+      timestamp,
+    });
+    if (!next) break;
+    due = next;
+  }
+  return events;
+}
+
+/**
+ * Move an instrument through whatever in its terms has fallen due by
+ * `now`: pay and roll bond coupons, mature it on its maturity date and
+ * expire listed contracts the day after they last trade. Instruments
+ * already matured or expired are left alone. Returns the events in the
+ * order they happened.
+ */
+export function runInstrumentLifecycle(instrument: Instrument, now: Date): LifecycleEvent[] {
+  if (instrument.status === TradingStatus.MATURED || instrument.status === TradingStatus.EXPIRED) return [];
+
+  const today = toDate(now);
+  const timestamp = now.toISOString();
+  const events: LifecycleEvent[] = [];
+
+  if (instrument.securityType === SecurityType.GOVERNMENT_BOND || instrument.securityType === SecurityType.CORPORATE_BOND) {
+    events.push(...payCoupons(instrument as Bond, today, timestamp));
+  }
+
+  const maturity = maturityDate(instrument);
+  if (maturity && toDate(maturity).getTime() <= today.getTime()) {
+    instrument.status = TradingStatus.MATURED;
+    events.push({ type: 'MATURED', instrumentId: instrument.instrumentId, securityType: instrument.securityType, date: maturity, status: instrument.status, timestamp });
+  }
+
+  const lastTraded = lastTradingDate(instrument);
+  if (lastTraded && toDate(lastTraded).getTime() < today.getTime()) {
+    instrument.status = TradingStatus.EXPIRED;
+    events.push({ type: 'EXPIRED', instrumentId: instrument.instrumentId, securityType: instrument.securityType, date: lastTraded, status: instrument.status, timestamp });
+  }
+
+  if (events.length > 0) {
+    instrument.lastUpdate = now;
+  }
+  return events;
+}
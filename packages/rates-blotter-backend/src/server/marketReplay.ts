@@ -0,0 +1,246 @@
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Directory searched first for recorded market data files
+ */
+export const DEFAULT_REPLAY_DIRECTORY = path.resolve(__dirname, '../../data/replays');
+
+/**
+ * One recorded change to an instrument's fields
+ */
+export interface ReplayRecord {
+  timestamp: number; // Epoch milliseconds
+  instrumentId: string;
+  fields: Record<string, unknown>;
+}
+
+export interface ReplayOptions {
+  speed: number; // Recorded time replayed per unit of real time
+  loop: boolean; // Start again from the beginning after the last record
+  paused: boolean;
+}
+
+export type ReplayStatus = 'playing' | 'paused' | 'finished';
+
+/**
+ * Where a replay has got to
+ */
+export interface ReplayState {
+  source?: string;
+  status: ReplayStatus;
+  speed: number;
+  loop: boolean;
+  startTime: string;
+  endTime: string;
+  currentTime: string;
+  position: number; // Records replayed
+  records: number;
+}
+
+function parseTimestamp(value: unknown): number {
+  const time = typeof value === 'number' ? value : new Date(String(value)).getTime();
+  if (!Number.isFinite(time)) {
+    throw new Error(`Invalid replay timestamp: ${value}`);
+  }
+  return time;
+}
+
+function parseCsvValue(value: string): unknown {
+  if (value === 'true' || value === 'false') return value === 'true';
+  const number = Number(value);
+  return Number.isFinite(number) ? number : value;
+}
+
+function sortRecords(records: ReplayRecord[]): ReplayRecord[] {
+  // Stable, so records with the same timestamp keep their file order
+  return records
+    .map((record, i) => ({ record, i }))
+    .sort((a, b) => a.record.timestamp - b.record.timestamp || a.i - b.i)
+    .map(({ record }) => record);
+}
+
+/**
+ * Parse recorded market data as CSV: a header of `timestamp`,
+ * `instrumentId` and one column per field, then one row per update.
+ * Empty cells leave a field unchanged; values do not contain commas.
+ */
+export function parseReplayCsv(text: string): ReplayRecord[] {
+  const [header, ...rows] = text.split(/\r?\n/).filter(line => line.trim() !== '');
+  if (!header) return [];
+
+  const columns = header.split(',').map(column => column.trim());
+  const timestampColumn = columns.indexOf('timestamp');
+  const instrumentColumn = columns.indexOf('instrumentId');
+  if (timestampColumn < 0 || instrumentColumn < 0) {
+    throw new Error('Replay CSV needs timestamp and instrumentId columns');
+  }
+
+  return sortRecords(rows.map(row => {
+    const cells = row.split(',').map(cell => cell.trim());
+    const fields: Record<string, unknown> = {};
+    columns.forEach((column, i) => {
+      if (i === timestampColumn || i === instrumentColumn || cells[i] === undefined || cells[i] === '') return;
+      fields[column] = parseCsvValue(cells[i]);
+    });
+    return { timestamp: parseTimestamp(cells[timestampColumn]), instrumentId: cells[instrumentColumn], fields };
+  }));
+}
+
+/**
+ * Parse recorded market data as JSON lines of
+ * `{ timestamp, instrumentId, fields }`, timestamps in ISO or epoch milliseconds
+ */
+export function parseReplayJsonl(text: string): ReplayRecord[] {
+  return sortRecords(text
+    .split(/\r?\n/)
+    .filter(line => line.trim() !== '')
+    .map(line => {
+      const record = JSON.parse(line) as { timestamp: unknown; instrumentId: string; fields?: Record<string, unknown> };
+      if (!record.instrumentId) {
+        throw new Error(`Replay record without an instrumentId: ${line}`);
+      }
+      return { timestamp: parseTimestamp(record.timestamp), instrumentId: record.instrumentId, fields: record.fields ?? {} };
+    }));
+}
+
+/**
+ * Load a .csv or .jsonl recording, by name from the replay directory or
+ * by path
+ */
+export function loadReplayFile(file: string, directory: string = DEFAULT_REPLAY_DIRECTORY): ReplayRecord[] {
+  const inDirectory = path.resolve(directory, file);
+  const resolved = fs.existsSync(inDirectory) ? inDirectory : path.resolve(file);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Replay file not found: ${file}`);
+  }
+
+  const text = fs.readFileSync(resolved, 'utf8');
+  switch (path.extname(resolved).toLowerCase()) {
+    case '.csv':
+      return parseReplayCsv(text);
+    case '.jsonl':
+      return parseReplayJsonl(text);
+    default:
+      throw new Error(`Unsupported replay file type: ${file}`);
+  }
+}
+
+/**
+ * Recordings in a directory
+ */
+export function listReplayFiles(directory: string = DEFAULT_REPLAY_DIRECTORY): string[] {
+  if (!fs.existsSync(directory)) return [];
+  return fs.readdirSync(directory).filter(file => /\.(csv|jsonl)$/i.test(file)).sort();
+}
+
+/**
+ * Cursor over recorded market data, moving through recorded time at a
+ * multiple of real time
+ */
+export class MarketReplay {
+  private options: ReplayOptions;
+  private cursor = 0;
+  private currentTime: number;
+
+  constructor(private records: ReplayRecord[], options: Partial<ReplayOptions> = {}, private source?: string) {
+    if (records.length === 0) {
+      throw new Error('Replay has no records');
+    }
+    this.options = {
+      speed: options.speed ?? 1,
+      loop: options.loop ?? false,
+      paused: options.paused ?? false,
+    };
+    this.setSpeed(this.options.speed);
+    this.currentTime = this.startTime();
+  }
+
+  startTime(): number {
+    return this.records[0].timestamp;
+  }
+
+  endTime(): number {
+    return this.records[this.records.length - 1].timestamp;
+  }
+
+  now(): Date {
+    return new Date(this.currentTime);
+  }
+
+  isFinished(): boolean {
+    return this.cursor >= this.records.length && !this.options.loop;
+  }
+
+  pause(): void {
+    this.options.paused = true;
+  }
+
+  resume(): void {
+    this.options.paused = false;
+  }
+
+  setSpeed(speed: number): void {
+    if (!(speed > 0)) {
+      throw new Error(`Invalid replay speed: ${speed}`);
+    }
+    this.options.speed = speed;
+  }
+
+  setLoop(loop: boolean): void {
+    this.options.loop = loop;
+  }
+
+  /**
+   * Move on by an amount of real time and return the records now due.
+   * After the last record a looping replay starts again: `restarted` is
+   * set and the records are those due at the start.
+   */
+  advance(milliseconds: number): { records: ReplayRecord[]; restarted: boolean } {
+    if (this.options.paused || this.isFinished()) {
+      return { records: [], restarted: false };
+    }
+    if (this.cursor >= this.records.length) {
+      return { records: this.seek(this.startTime()), restarted: true };
+    }
+
+    this.currentTime = Math.min(this.endTime(), this.currentTime + milliseconds * this.options.speed);
+    return { records: this.take(), restarted: false };
+  }
+
+  /**
+   * Jump to a time within the recording and return every record up to it,
+   * from the beginning, to be replayed onto the instruments as they were
+   * when the replay started
+   */
+  seek(time: number): ReplayRecord[] {
+    this.cursor = 0;
+    this.currentTime = Math.min(this.endTime(), Math.max(this.startTime(), time));
+    return this.take();
+  }
+
+  getState(): ReplayState {
+    let status: ReplayStatus = this.options.paused ? 'paused' : 'playing';
+    if (this.isFinished()) status = 'finished';
+
+    return {
+      source: this.source,
+      status,
+      speed: this.options.speed,
+      loop: this.options.loop,
+      startTime: new Date(this.startTime()).toISOString(),
+      endTime: new Date(this.endTime()).toISOString(),
+      currentTime: this.now().toISOString(),
+      position: this.cursor,
+      records: this.records.length,
+    };
+  }
+
+  private take(): ReplayRecord[] {
+    const due: ReplayRecord[] = [];
+    while (this.cursor < this.records.length && this.records[this.cursor].timestamp <= this.currentTime) {
+      due.push(this.records[this.cursor++]);
+    }
+    return due;
+  }
+}
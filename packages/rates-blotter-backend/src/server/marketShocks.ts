@@ -0,0 +1,94 @@
+import { Instrument } from '../models/instrument';
+import { CurveShock } from '../analytics/curveShocks';
+import { instrumentMarketValue } from './valuation';
+
+/**
+ * Instruments a shock applies to. Each list narrows the selection; an
+ * empty filter selects every live instrument.
+ */
+export interface ShockFilter {
+  notionalCurrency?: string[];
+  securityType?: string[];
+  marketSector?: string[];
+  instrumentIds?: string[];
+}
+
+/**
+ * Change in mark-to-market value of a book's positions in one currency
+ */
+export interface BookMtmChange {
+  book: string;
+  currency: string;
+  mtmBefore: number;
+  mtmAfter: number;
+  mtmChange: number;
+  instruments: number;
+}
+
+/**
+ * What a shock did. `curves` shocks moved the currencies' curves, so
+ * everything priced off them moved; `instruments` shocks moved only the
+ * selected instruments' pricing curves.
+ */
+export interface ShockResult {
+  shock: CurveShock;
+  scope: 'curves' | 'instruments';
+  instrumentIds: string[]; // Instruments selected by the filter
+  books: BookMtmChange[];
+  totals: Record<string, number>; // MTM change per currency
+  timestamp: string;
+}
+
+export function matchesShockFilter(instrument: Instrument, filter: ShockFilter): boolean {
+  return (
+    (!filter.notionalCurrency?.length || filter.notionalCurrency.includes(instrument.notionalCurrency)) &&
+    (!filter.securityType?.length || filter.securityType.includes(instrument.securityType)) &&
+    (!filter.marketSector?.length || filter.marketSector.includes(instrument.marketSector)) &&
+    (!filter.instrumentIds?.length || filter.instrumentIds.includes(instrument.instrumentId))
+  );
+}
+
+/**
+ * Whether a filter selects whole currencies, so the shock is a market move
+ * of their curves rather than of particular instruments
+ */
+export function isCurveShock(filter: ShockFilter): boolean {
+  return !filter.securityType?.length && !filter.marketSector?.length && !filter.instrumentIds?.length;
+}
+
+export function marketValues(instruments: Instrument[]): Map<string, number> {
+  return new Map(instruments.map(instrument => [instrument.instrumentId, instrumentMarketValue(instrument)]));
+}
+
+/**
+ * Sum the change in market value from `before` to now by book and
+ * currency, leaving out books that did not move
+ */
+export function mtmChangeByBook(before: Map<string, number>, instruments: Instrument[]): BookMtmChange[] {
+  const books = new Map<string, BookMtmChange>();
+
+  instruments.forEach(instrument => {
+    const previous = before.get(instrument.instrumentId);
+    if (previous === undefined) return;
+
+    const key = `${instrument.book}|${instrument.notionalCurrency}`;
+    let row = books.get(key);
+    if (!row) {
+      row = { book: instrument.book, currency: instrument.notionalCurrency, mtmBefore: 0, mtmAfter: 0, mtmChange: 0, instruments: 0 };
+      books.set(key, row);
+    }
+    row.mtmBefore += previous;
+    row.mtmAfter += instrumentMarketValue(instrument);
+    row.instruments += 1;
+  });
+
+  return Array.from(books.values())
+    .map(row => ({
+      ...row,
+      mtmBefore: parseFloat(row.mtmBefore.toFixed(2)),
+      mtmAfter: parseFloat(row.mtmAfter.toFixed(2)),
+      mtmChange: parseFloat((row.mtmAfter - row.mtmBefore).toFixed(2)),
+    }))
+    .filter(row => row.mtmChange !== 0)
+    .sort((a, b) => a.book.localeCompare(b.book) || a.currency.localeCompare(b.currency));
+}
@@ -1,24 +1,87 @@
 import { InstrumentManager } from './instrumentManager';
 import { DeltaUpdate } from '../types';
-import { Instrument, SecurityType, TradingStatus } from '../models/instrument';
+import { RandomSource } from '../utils/random';
+import { Clock, systemClock } from '../utils/clock';
+import { Currency, DayCountConvention, Instrument, SecurityType, TradingStatus } from '../models/instrument';
+import { BusinessDayConvention, RateBasis } from '../models/enums';
 import { Bond } from '../models/bond';
 import { InterestRateSwap } from '../models/interestRateSwap';
 import { Future } from '../models/future';
 import { Option } from '../models/option';
+import { ForwardRateAgreement } from '../models/fra';
+import { Repo } from '../models/repo';
+import { MoneyMarketInstrument } from '../models/moneyMarket';
+import { CurveManager, DISCOUNT_INDEX, resolveIndex } from './curveManager';
+import { FixingsManager, PublishedFixing } from './fixingsManager';
+import { VolSurfaceManager } from './volSurfaceManager';
+import { MarketReplay, ReplayOptions, ReplayRecord, ReplayState } from './marketReplay';
+import { ScenarioRun, ScenarioScript, ScenarioScriptState, ScenarioStep } from './scenarioScript';
+import { LifecycleEvent, runInstrumentLifecycle } from './lifecycleScheduler';
+import { DEFAULT_ORDER_BOOK_LEVELS, Fill, OrderBook, OrderBookDepth, OrderFlow } from './orderBook';
+import { TradePrint, TradeTape } from './tradeTape';
+import { CloseRegion, CloseStore, DEFAULT_CLOSE_REGIONS, localDateTime, snapshotClose } from './closeStore';
+import { ShockFilter, ShockResult, isCurveShock, marketValues, matchesShockFilter, mtmChangeByBook } from './marketShocks';
+import { YieldCurve, yearsBetween } from '../analytics/curve';
+import { CurveFactorModel, factorShift } from '../analytics/curveFactorModel';
+import { CurveShock, curveShockBp, validateCurveShock } from '../analytics/curveShocks';
+import { bondAccruedInterest, bondYieldFromPrice, priceFromYield, updateBondAnalytics } from '../analytics/bondMath';
+import { updateBondSpreadAnalytics } from '../analytics/bondSpreads';
+import { accruedFloatingCoupon, valueSwap } from '../analytics/swapPricing';
+import { valueFra } from '../analytics/fraPricing';
+import { moneyMarketAnalytics, moneyMarketYield, updateMoneyMarketAnalytics, valueRepo } from '../analytics/moneyMarket';
+import { TwoWayQuote, quoteAroundMid } from '../analytics/quotes';
+import { addDays, daysBetween, formatDate, toDate } from '../analytics/dates';
+import { quotedVolFromBlack, updateOptionAnalytics } from '../analytics/optionPricing';
+import { updateFutureDeliveryAnalytics } from '../analytics/bondFutures';
+import {
+  bondCurveYield,
+  fraValuationContext,
+  futureDeliveryBasket,
+  instrumentKeyRateDv01,
+  quotedLevel,
+  simpleCurveRate,
+  swapValuationContext,
+} from './valuation';
 
 // ---------------------------------------------------------------------------
 // Scenario / configuration types
 // ---------------------------------------------------------------------------
 
-export type MarketScenario = 'normal' | 'highVolatility' | 'trending' | 'flashEvent';
+export type MarketScenario = 'normal' | 'highVolatility' | 'trending' | 'flashEvent' | 'factorModel';
 
 export interface MarketSimulatorOptions {
   updateInterval: number;
   scenario: MarketScenario;
   volatilityMultiplier: number;
+  random: RandomSource; // Every random draw; seed it for a reproducible tick stream
+  clock: Clock; // Simulation time; a manual clock moves one update interval per tick
+  closeRegions: CloseRegion[]; // Regions closed out at the end of each business day
+  orderBookLevels: number; // Price levels simulated on each side of every order book
+}
+
+/**
+ * Regime the simulator is running in, as shown to operators and clients
+ */
+export interface SimulatorState {
+  running: boolean; // Ticking on a timer
+  paused: boolean; // Timer running but ticks held
+  mode: 'simulating' | 'replaying';
+  scenario: MarketScenario;
+  volatilityMultiplier: number;
+  updateInterval: number;
+  flashEvent: boolean;
+  flashEventEnd?: string;
+  scenarioScript?: string; // Name of the scenario script being played out
+  replay?: ReplayState; // Where the replay has got to, while replaying
+  time: string; // Simulation time the state was taken at
 }
 
 type UpdateCallback = (updates: DeltaUpdate[]) => void;
+type FixingCallback = (fixing: PublishedFixing) => void;
+type StateCallback = (state: SimulatorState) => void;
+type LifecycleCallback = (event: LifecycleEvent) => void;
+type DepthCallback = (depth: OrderBookDepth[]) => void;
+type TradeCallback = (prints: TradePrint[]) => void;
 
 // ---------------------------------------------------------------------------
 // Scenario presets
@@ -32,37 +95,131 @@ const SCENARIO_PRESETS: Record<
   highVolatility:  { volatility: 0.8, correlationStrength: 0.5, flashProbability: 0.01,  flashMagnitude: 5.0 },
   trending:        { volatility: 0.3, correlationStrength: 0.8, flashProbability: 0.002, flashMagnitude: 2.5 },
   flashEvent:      { volatility: 1.2, correlationStrength: 0.3, flashProbability: 0.1,   flashMagnitude: 8.0 },
+  factorModel:     { volatility: 0.2, correlationStrength: 0.7, flashProbability: 0.001, flashMagnitude: 3.0 },
 };
 
-// ---------------------------------------------------------------------------
-// Trend direction: re-randomised each flash event / scenario change, persistent between ticks
-// ---------------------------------------------------------------------------
+export const MARKET_SCENARIOS = Object.keys(SCENARIO_PRESETS) as MarketScenario[];
+
+/** Shortest tick interval the simulator can be set to, in milliseconds */
+export const MIN_UPDATE_INTERVAL = 50;
+
+/** Standard deviation of a one-tick curve move, in basis points, before volatility scaling */
+const CURVE_MOVE_BP = 1.0;
+
+/** Standard deviation of a one-tick vol surface move, in vol points, before volatility scaling */
+const VOL_MOVE_POINTS = 0.02;
+
+/**
+ * How each type of instrument is quoted by the most liquid names in a
+ * normal market: the bid/ask spread and tick in the quoted units (price,
+ * or rate in percent for swaps, FRAs and repos) and the lot sizes are
+ * rounded to
+ */
+const QUOTE_CONVENTIONS: Record<SecurityType, { spread: number; tickSize: number; lotSize: number }> = {
+  [SecurityType.GOVERNMENT_BOND]:    { spread: 1 / 32, tickSize: 1 / 128, lotSize: 1_000_000 },
+  [SecurityType.CORPORATE_BOND]:     { spread: 0.2,    tickSize: 0.01,    lotSize: 100_000 },
+  [SecurityType.INTEREST_RATE_SWAP]: { spread: 0.005,  tickSize: 0.001,   lotSize: 1_000_000 },
+  [SecurityType.FUTURE]:             { spread: 1 / 64, tickSize: 1 / 64,  lotSize: 1 },
+  [SecurityType.OPTION]:             { spread: 1 / 32, tickSize: 1 / 64,  lotSize: 1 },
+  [SecurityType.MONEY_MARKET]:       { spread: 0.0025, tickSize: 0.0005,  lotSize: 1_000_000 },
+  [SecurityType.FRA]:                { spread: 0.01,   tickSize: 0.001,   lotSize: 1_000_000 },
+  [SecurityType.REPO]:               { spread: 0.03,   tickSize: 0.01,    lotSize: 1_000_000 },
+};
+
+/** Limit orders per second joining each level of the most liquid books */
+const ORDER_ARRIVALS_PER_SECOND = 0.5;
+
+/** Share of resting orders cancelled per second in a normal market */
+const ORDER_CANCELS_PER_SECOND = 0.1;
+
+/** Market orders per second hitting each side of the most liquid books */
+const MARKET_ORDERS_PER_SECOND = 0.2;
+
+/** Longest stretch of order flow simulated in one tick, in milliseconds */
+const MAX_ORDER_FLOW_STEP = 5000;
+
+/** Time zone of the market open, lunch and close that shape intraday volatility */
+const MARKET_HOURS_TIME_ZONE = 'America/New_York';
+
+/** Notional coupon of the deliverable bond underlying treasury futures */
+const FUTURE_NOTIONAL_COUPON = 6;
 
 export class MarketSimulator {
   private options: MarketSimulatorOptions;
   private updateCallbacks: UpdateCallback[] = [];
+  private fixingCallbacks: FixingCallback[] = [];
+  private stateCallbacks: StateCallback[] = [];
+  private lifecycleCallbacks: LifecycleCallback[] = [];
+  private depthCallbacks: DepthCallback[] = [];
+  private tradeCallbacks: TradeCallback[] = [];
   private updateInterval: NodeJS.Timeout | null = null;
+  private paused = false;
   private flashEventActive = false;
-  private flashEventTimer: NodeJS.Timeout | null = null;
+  private flashEventEnd = 0;
 
-  /** Persistent trend direction per instrument: +1 / -1 */
+  /** Persistent trend direction per instrument and per curve index: +1 / -1 */
   private trendDirections: Map<string, number> = new Map();
 
-  /** Correlation matrix between instruments */
-  private correlationMatrix: Map<string, Map<string, number>> = new Map();
+  /** Calendar day fixings were last published for */
+  private lastFixingDay = '';
+
+  /** Ratio between each future's quoted price and its curve-implied notional bond price */
+  private futureBasis: Map<string, number> = new Map();
+
+  /** Level, slope and curvature of each currency's curves in the factorModel scenario */
+  private curveFactorModel = new CurveFactorModel(() => this.normalRandom());
+
+  /** Recorded market data played back instead of simulated ticks */
+  private replay: MarketReplay | null = null;
+
+  /** Instruments as they were when the replay started */
+  private replayBaseline: Map<string, Instrument> = new Map();
+
+  /** Scripted market events being played out */
+  private scenarioRun: ScenarioRun | null = null;
 
-  /** Track previous percentage change per instrument for correlation calculations */
-  private lastPercentageChange: Map<string, number> = new Map();
+  /** What each timed script event replaced, keyed by its position in the script, to put back when it ends */
+  private scenarioRestore: Map<number, () => void> = new Map();
+
+  /** Shocks applied to particular instruments, moving the curves they alone are priced off */
+  private curveOverlays: Map<string, CurveShock[]> = new Map();
+
+  /** Typical size at the top of each instrument's book, from its seeded quote */
+  private quoteSizes: Map<string, number> = new Map();
+
+  /** Simulated limit order book of each trading instrument */
+  private orderBooks: Map<string, OrderBook> = new Map();
+
+  /** Trades done this tick, published with its updates */
+  private pendingTrades: TradePrint[] = [];
+
+  /** Trades printed since the simulator started, numbering each one */
+  private tradeCount = 0;
+
+  /** Local date each region was last closed for */
+  private lastCloseDates: Map<string, string> = new Map();
 
   constructor(
     private instrumentManager: InstrumentManager,
-    options: Partial<MarketSimulatorOptions> = {}
+    options: Partial<MarketSimulatorOptions> = {},
+    private curveManager: CurveManager = new CurveManager(),
+    private volSurfaceManager: VolSurfaceManager = new VolSurfaceManager(),
+    private fixingsManager: FixingsManager = new FixingsManager(),
+    private closeStore: CloseStore = new CloseStore(),
+    private tradeTape: TradeTape = new TradeTape()
   ) {
     this.options = {
       updateInterval: options.updateInterval ?? 1000,
       scenario:       options.scenario ?? 'normal',
       volatilityMultiplier: options.volatilityMultiplier ?? 1.0,
+      random: options.random ?? Math.random,
+      clock: options.clock ?? systemClock,
+      closeRegions: options.closeRegions ?? DEFAULT_CLOSE_REGIONS,
+      orderBookLevels: options.orderBookLevels ?? DEFAULT_ORDER_BOOK_LEVELS,
     };
+    if (!Number.isInteger(this.options.orderBookLevels) || this.options.orderBookLevels < 1) {
+      throw new Error(`Invalid order book depth: ${this.options.orderBookLevels}`);
+    }
   }
 
   // ---------------------------------------------------------------------------
@@ -70,16 +227,29 @@ export class MarketSimulator {
   // ---------------------------------------------------------------------------
 
   async initialize(): Promise<void> {
+    const now = this.options.clock.now();
     if (this.instrumentManager.getAllInstruments().length === 0) {
-      this.instrumentManager.createExampleInstruments();
+      this.instrumentManager.createExampleInstruments(now);
     }
-    this.rebuildCorrelationMatrix();
+    this.runLifecycle(now);
     this.initTrendDirections();
+    this.buildVolSurfaces();
+    this.publishFixings(now);
+    this.calibrateToCurves(now);
+
+    // A region already past its close today was closed before we started
+    this.options.closeRegions.forEach(region => {
+      const local = localDateTime(now, region.timeZone);
+      if (local.time >= region.closeTime) this.lastCloseDates.set(region.name, local.date);
+    });
   }
 
   start(): void {
     if (this.updateInterval !== null) return;
-    this.updateInterval = setInterval(() => this.updateMarketData(), this.options.updateInterval);
+    this.updateInterval = setInterval(() => {
+      if (!this.paused) this.tick();
+    }, this.options.updateInterval);
+    this.publishState();
   }
 
   stop(): void {
@@ -87,61 +257,795 @@ export class MarketSimulator {
       clearInterval(this.updateInterval);
       this.updateInterval = null;
     }
-    if (this.flashEventTimer !== null) {
-      clearTimeout(this.flashEventTimer);
-      this.flashEventTimer = null;
-      this.flashEventActive = false;
+    this.flashEventActive = false;
+    this.paused = false;
+    this.publishState();
+  }
+
+  /**
+   * Hold ticks, and with them simulation time, without stopping the timer
+   */
+  pause(): void {
+    this.paused = true;
+    this.publishState();
+  }
+
+  resume(): void {
+    this.paused = false;
+    this.publishState();
+  }
+
+  /**
+   * Tick every `interval` milliseconds from now on, restarting the timer
+   * if it is running
+   */
+  setUpdateInterval(interval: number): void {
+    if (!(interval >= MIN_UPDATE_INTERVAL)) {
+      throw new Error(`Update interval must be at least ${MIN_UPDATE_INTERVAL}ms`);
+    }
+    this.options.updateInterval = interval;
+    if (this.updateInterval !== null) {
+      clearInterval(this.updateInterval);
+      this.updateInterval = null;
+      this.start();
+    } else {
+      this.publishState();
     }
   }
 
+  setVolatilityMultiplier(multiplier: number): void {
+    if (!(multiplier >= 0)) {
+      throw new Error(`Invalid volatility multiplier: ${multiplier}`);
+    }
+    this.options.volatilityMultiplier = multiplier;
+    this.publishState();
+  }
+
+  /**
+   * Start a flash event now, lasting `duration` milliseconds or a random
+   * 10-30s
+   */
+  triggerFlashEvent(duration?: number): void {
+    if (duration !== undefined && !(duration > 0)) {
+      throw new Error(`Invalid flash event duration: ${duration}`);
+    }
+    const now = this.options.clock.now();
+    this.startFlashEvent(now, duration);
+  }
+
+  endFlashEvent(): void {
+    if (!this.flashEventActive) return;
+    console.log('[MarketSimulator] Flash event ended');
+    this.flashEventActive = false;
+    this.publishState();
+  }
+
+  getState(): SimulatorState {
+    const scriptState = this.scenarioRun?.getState();
+    return {
+      running: this.updateInterval !== null,
+      paused: this.paused,
+      mode: this.replay ? 'replaying' : 'simulating',
+      scenario: this.options.scenario,
+      volatilityMultiplier: this.options.volatilityMultiplier,
+      updateInterval: this.options.updateInterval,
+      flashEvent: this.flashEventActive,
+      flashEventEnd: this.flashEventActive ? new Date(this.flashEventEnd).toISOString() : undefined,
+      scenarioScript: scriptState?.name,
+      replay: this.getReplayState(),
+      time: this.now().toISOString(),
+    };
+  }
+
+  /**
+   * Run ticks back to back without timers, publishing their updates as
+   * usual. Returns the number of instrument updates published.
+   */
+  fastForward(ticks: number): number {
+    let published = 0;
+    for (let i = 0; i < ticks; i++) {
+      published += this.tick();
+    }
+    return published;
+  }
+
+  /**
+   * Current simulation time, or the recorded time while replaying
+   */
+  now(): Date {
+    return this.replay ? this.replay.now() : this.options.clock.now();
+  }
+
+  /**
+   * Full depth of an instrument's order book, once it has been quoted
+   */
+  getDepth(instrumentId: string): OrderBookDepth | undefined {
+    return this.orderBooks.get(instrumentId)?.depth();
+  }
+
   onUpdate(callback: UpdateCallback): void {
     this.updateCallbacks.push(callback);
   }
 
+  /**
+   * Called with each overnight fixing the simulator publishes
+   */
+  onFixing(callback: FixingCallback): void {
+    this.fixingCallbacks.push(callback);
+  }
+
+  /**
+   * Called with the simulator's state whenever its regime changes: started
+   * or stopped, scenario, volatility, tick interval, flash events, replays
+   * and scenario scripts
+   */
+  onStateChange(callback: StateCallback): void {
+    this.stateCallbacks.push(callback);
+  }
+
+  /**
+   * Called with each coupon payment, maturity and expiry as the instrument's
+   * date comes round
+   */
+  onLifecycleEvent(callback: LifecycleCallback): void {
+    this.lifecycleCallbacks.push(callback);
+  }
+
+  /**
+   * Called after each tick with the full depth of every order book
+   */
+  onDepthUpdate(callback: DepthCallback): void {
+    this.depthCallbacks.push(callback);
+  }
+
+  /**
+   * Called after each tick with the trades done in it, in the order they
+   * traded
+   */
+  onTradePrint(callback: TradeCallback): void {
+    this.tradeCallbacks.push(callback);
+  }
+
+  private publishState(): void {
+    if (this.stateCallbacks.length === 0) return;
+    const state = this.getState();
+    this.stateCallbacks.forEach(cb => cb(state));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Replay of recorded market data
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Play recorded market data back in place of the simulation, from its
+   * first record. Updates go out through the onUpdate callbacks exactly as
+   * simulated ones do; instruments not in the recording keep their fields.
+   */
+  startReplay(records: ReplayRecord[], options: Partial<ReplayOptions> = {}, source?: string): ReplayState {
+    const replay = new MarketReplay(records, options, source);
+    if (this.replay) {
+      this.restoreReplayBaseline();
+    }
+
+    this.replay = replay;
+    this.replayBaseline = new Map(
+      this.instrumentManager.getAllInstruments().map(instrument => [instrument.instrumentId, structuredClone(instrument)])
+    );
+    this.publishState();
+    return replay.getState();
+  }
+
+  /**
+   * Stop replaying, put the instruments back as they were before and carry
+   * on simulating
+   */
+  stopReplay(): void {
+    if (!this.replay) return;
+    this.restoreReplayBaseline();
+    this.replay = null;
+    this.replayBaseline.clear();
+    this.publishUpdates(this.options.clock.now());
+    this.publishState();
+  }
+
+  pauseReplay(): ReplayState | undefined {
+    this.replay?.pause();
+    return this.replayChanged();
+  }
+
+  resumeReplay(): ReplayState | undefined {
+    this.replay?.resume();
+    return this.replayChanged();
+  }
+
+  setReplaySpeed(speed: number): ReplayState | undefined {
+    this.replay?.setSpeed(speed);
+    return this.replayChanged();
+  }
+
+  setReplayLoop(loop: boolean): ReplayState | undefined {
+    this.replay?.setLoop(loop);
+    return this.replayChanged();
+  }
+
+  /**
+   * Jump to a recorded time, publishing the instruments as they stood then
+   */
+  seekReplay(time: Date): ReplayState | undefined {
+    if (!this.replay) return undefined;
+    this.restoreReplayBaseline();
+    this.applyReplayRecords(this.replay.seek(time.getTime()), this.replay.now());
+    return this.replayChanged();
+  }
+
+  getReplayState(): ReplayState | undefined {
+    return this.replay?.getState();
+  }
+
+  private replayChanged(): ReplayState | undefined {
+    if (this.replay) this.publishState();
+    return this.getReplayState();
+  }
+
+  private stepReplay(replay: MarketReplay): number {
+    const { records, restarted } = replay.advance(this.options.updateInterval);
+    if (restarted) {
+      this.restoreReplayBaseline();
+    }
+    return records.length > 0 || restarted ? this.applyReplayRecords(records, replay.now()) : 0;
+  }
+
+  private applyReplayRecords(records: ReplayRecord[], time: Date): number {
+    records.forEach(record => {
+      const instrument = this.instrumentManager.getInstrument(record.instrumentId);
+      if (instrument) {
+        Object.assign(instrument, record.fields, { lastUpdate: time });
+      }
+    });
+    return this.publishUpdates(time);
+  }
+
+  private restoreReplayBaseline(): void {
+    this.replayBaseline.forEach((baseline, instrumentId) => {
+      const instrument = this.instrumentManager.getInstrument(instrumentId);
+      if (instrument) {
+        Object.assign(instrument, structuredClone(baseline));
+      }
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Scenario scripts
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Play out a scripted timeline of market events from the current
+   * simulation time, replacing any script already running. Scripts run
+   * alongside the simulation, not during a replay.
+   */
+  loadScenarioScript(script: ScenarioScript, source?: string): ScenarioScriptState {
+    script.events.forEach(event => {
+      if (event.action === 'setScenario' && !MARKET_SCENARIOS.includes(event.scenario as MarketScenario)) {
+        throw new Error(`Unknown market scenario: ${event.scenario}`);
+      }
+      if (event.action === 'shiftCurve' && event.currency && !this.curveManager.getCurrencies().some(c => c === event.currency)) {
+        throw new Error(`No curves for currency: ${event.currency}`);
+      }
+      if ((event.action === 'suspend' || event.action === 'resume') && !this.instrumentManager.getInstrument(event.instrumentId)) {
+        throw new Error(`Unknown instrument: ${event.instrumentId}`);
+      }
+    });
+
+    this.stopScenarioScript();
+    this.scenarioRun = new ScenarioRun(script, this.options.clock.now().getTime(), source);
+    this.publishState();
+    return this.scenarioRun.getState();
+  }
+
+  /**
+   * Stop the running script, undoing its timed events that have not yet
+   * run their course. Curve shifts already made stay.
+   */
+  stopScenarioScript(): void {
+    if (!this.scenarioRun) return;
+    this.scenarioRun.pending().forEach(step => this.applyScenarioStep(step, this.options.clock.now()));
+    this.scenarioRun = null;
+    this.scenarioRestore.clear();
+    this.publishState();
+  }
+
+  getScenarioScriptState(): ScenarioScriptState | undefined {
+    return this.scenarioRun?.getState();
+  }
+
+  private runScenarioScript(now: Date): void {
+    if (!this.scenarioRun) return;
+    this.scenarioRun.advance(now.getTime()).forEach(step => this.applyScenarioStep(step, now));
+    if (this.scenarioRun.isFinished()) {
+      console.log(`[MarketSimulator] Scenario script ${this.scenarioRun.getScript().name} finished`);
+      this.scenarioRun = null;
+      this.publishState();
+    }
+  }
+
+  private applyScenarioStep(step: ScenarioStep, now: Date): void {
+    const { event, index } = step;
+    if (step.ends) {
+      this.scenarioRestore.get(index)?.();
+      this.scenarioRestore.delete(index);
+      return;
+    }
+
+    switch (event.action) {
+      case 'shiftCurve': {
+        const indices = this.curveManager.getIndices().filter(i =>
+          event.index ? i === resolveIndex(event.index) : this.curveManager.getCurve(i)?.currency === event.currency
+        );
+        indices.forEach(i => this.curveManager.shiftQuotes(i, time => curveShockBp(event.shock, time) * step.fraction));
+        break;
+      }
+      case 'suspend': {
+        const instrument = this.instrumentManager.getInstrument(event.instrumentId);
+        if (!instrument || this.isExpired(instrument)) break;
+        const previous = instrument.status;
+        instrument.status = TradingStatus.SUSPENDED;
+        instrument.lastUpdate = now;
+        this.scenarioRestore.set(index, () => {
+          if (instrument.status === TradingStatus.SUSPENDED) instrument.status = previous;
+        });
+        break;
+      }
+      case 'resume': {
+        const instrument = this.instrumentManager.getInstrument(event.instrumentId);
+        if (instrument?.status === TradingStatus.SUSPENDED) {
+          instrument.status = TradingStatus.ACTIVE;
+          instrument.lastUpdate = now;
+        }
+        break;
+      }
+      case 'setScenario': {
+        const previous = this.options.scenario;
+        this.updateScenario(event.scenario as MarketScenario);
+        this.scenarioRestore.set(index, () => this.updateScenario(previous));
+        break;
+      }
+      case 'setVolatility': {
+        const previous = this.options.volatilityMultiplier;
+        this.setVolatilityMultiplier(event.multiplier);
+        this.scenarioRestore.set(index, () => this.setVolatilityMultiplier(previous));
+        break;
+      }
+      case 'flashEvent':
+        this.startFlashEvent(now, event.duration);
+        break;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Market shocks
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Apply an instantaneous shock and publish the repriced instruments. A
+   * filter on currencies alone moves those currencies' curves (all of them
+   * with no filter); narrower filters move only the selected instruments'
+   * pricing curves, which stay shocked until cleared.
+   */
+  applyShock(shock: CurveShock, filter: ShockFilter = {}): ShockResult {
+    validateCurveShock(shock);
+    const now = this.options.clock.now();
+    const instruments = this.instrumentManager.getAllInstruments();
+    const selected = instruments.filter(
+      instrument => !this.isExpired(instrument) && matchesShockFilter(instrument, filter)
+    );
+    if (selected.length === 0) {
+      throw new Error('No live instruments match the shock filter');
+    }
+
+    // Value everything at this moment first, so the change is the shock's alone
+    this.repriceInstruments(now);
+    const before = marketValues(instruments);
+    const curveShock = isCurveShock(filter);
+    if (curveShock) {
+      const currencies = new Set(selected.map(instrument => instrument.notionalCurrency));
+      this.curveManager.getIndices()
+        .filter(index => currencies.has(this.curveManager.getCurve(index)?.currency as Currency))
+        .forEach(index => this.curveManager.shiftQuotes(index, time => curveShockBp(shock, time)));
+    } else {
+      selected.forEach(instrument => {
+        this.curveOverlays.set(instrument.instrumentId, [...(this.curveOverlays.get(instrument.instrumentId) ?? []), shock]);
+      });
+    }
+
+    this.repriceInstruments(now);
+    this.publishUpdates(now);
+
+    const books = mtmChangeByBook(before, instruments);
+    const totals: Record<string, number> = {};
+    books.forEach(row => {
+      totals[row.currency] = parseFloat(((totals[row.currency] ?? 0) + row.mtmChange).toFixed(2));
+    });
+
+    return {
+      shock,
+      scope: curveShock ? 'curves' : 'instruments',
+      instrumentIds: selected.map(instrument => instrument.instrumentId),
+      books,
+      totals,
+      timestamp: now.toISOString(),
+    };
+  }
+
+  /**
+   * Take the shocks off every instrument shocked on its own and publish
+   * them repriced. Curve shocks are market moves and stay. Returns the
+   * number of instruments cleared.
+   */
+  clearShocks(): number {
+    const cleared = this.curveOverlays.size;
+    if (cleared === 0) return 0;
+
+    const now = this.options.clock.now();
+    this.curveOverlays.clear();
+    this.repriceInstruments(now);
+    this.publishUpdates(now);
+    return cleared;
+  }
+
+  /**
+   * The curve an instrument is priced off, moved by any shocks applied to
+   * it alone
+   */
+  private instrumentCurve(instrument: Instrument, curve: YieldCurve): YieldCurve {
+    const shocks = this.curveOverlays.get(instrument.instrumentId);
+    if (!shocks) return curve;
+    return curve.shiftBy(time => shocks.reduce((bp, shock) => bp + curveShockBp(shock, time), 0));
+  }
+
+  private isExpired(instrument: Instrument): boolean {
+    return instrument.status === TradingStatus.MATURED || instrument.status === TradingStatus.EXPIRED;
+  }
+
   updateScenario(scenario: MarketScenario): void {
     this.options.scenario = scenario;
     this.initTrendDirections(); // re-randomise trend directions on scenario change
-    this.rebuildCorrelationMatrix();
+    this.curveFactorModel.reset(); // factors revert towards the curves as they stand
+    this.publishState();
   }
 
   // ---------------------------------------------------------------------------
   // Core update loop
   // ---------------------------------------------------------------------------
 
-  private updateMarketData(): void {
-    const instruments = this.instrumentManager.getAllInstruments();
+  /**
+   * One timer tick: the next step of a replay when one is loaded,
+   * otherwise a simulated update. Returns the number of updates published.
+   */
+  private tick(): number {
+    return this.replay ? this.stepReplay(this.replay) : this.updateMarketData();
+  }
+
+  private publishUpdates(now: Date): number {
+    const updates = this.instrumentManager.generateDeltaUpdates(now);
+    if (updates.length > 0) {
+      this.updateCallbacks.forEach(cb => cb(updates));
+    }
+    if (this.depthCallbacks.length > 0 && this.orderBooks.size > 0) {
+      const depth = Array.from(this.orderBooks.values()).map(book => book.depth());
+      this.depthCallbacks.forEach(cb => cb(depth));
+    }
+    if (this.pendingTrades.length > 0) {
+      const prints = this.pendingTrades;
+      this.pendingTrades = [];
+      this.tradeCallbacks.forEach(cb => cb(prints));
+    }
+    return updates.length;
+  }
+
+  private updateMarketData(): number {
+    this.options.clock.advance(this.options.updateInterval);
+    const now = this.options.clock.now();
+    if (this.flashEventActive && now.getTime() >= this.flashEventEnd) {
+      this.endFlashEvent();
+    }
+
+    this.runScenarioScript(now);
+    this.runLifecycle(now);
+    this.publishFixings(now);
+    this.updateCurveData(now);
+    this.updateVolSurfaces(now);
+
+    this.repriceInstruments(now, true);
+    this.runCloses(now);
+    const published = this.publishUpdates(now);
+
+    // Possibly start a flash event in highVolatility scenario
+    const preset = SCENARIO_PRESETS[this.options.scenario];
+    if (!this.flashEventActive && this.options.random() < preset.flashProbability) {
+      this.startFlashEvent(now);
+    }
+    return published;
+  }
 
-    instruments.forEach(instrument => {
-      if (instrument.status === TradingStatus.SUSPENDED || instrument.status === TradingStatus.MATURED) return;
+  /**
+   * Reprice every trading instrument off the curves and surfaces as they
+   * stand. Only a timed `tick` runs order flow through the books; repricing
+   * between ticks, as shocks do, moves quotes with their mids and draws
+   * nothing from the random source.
+   */
+  private repriceInstruments(now: Date, tick = false): void {
+    const quoteScale = this.quoteScale(now);
+    this.instrumentManager.getAllInstruments().forEach(instrument => {
+      if (instrument.status === TradingStatus.SUSPENDED || this.isExpired(instrument)) return;
 
       switch (instrument.securityType) {
         case SecurityType.GOVERNMENT_BOND:
         case SecurityType.CORPORATE_BOND:
-          this.updateBondData(instrument as Bond);
+          this.updateBondData(instrument as Bond, now);
           break;
         case SecurityType.INTEREST_RATE_SWAP:
-          this.updateSwapData(instrument as InterestRateSwap);
+          this.revalueSwap(instrument as InterestRateSwap, now);
           break;
         case SecurityType.FUTURE:
-          this.updateFutureData(instrument as Future);
+          this.updateFutureData(instrument as Future, now);
           break;
         case SecurityType.OPTION:
-          this.updateOptionData(instrument as Option);
+          // Premium and greeks follow from the underlying future's price and the surface vol
+          this.repriceOption(instrument as Option, now);
+          break;
+        case SecurityType.MONEY_MARKET:
+          this.updateMoneyMarketData(instrument as MoneyMarketInstrument, now);
+          break;
+        case SecurityType.FRA:
+          this.revalueFra(instrument as ForwardRateAgreement, now);
+          break;
+        case SecurityType.REPO:
+          this.revalueRepo(instrument as Repo, now);
           break;
       }
 
-      instrument.lastUpdate = new Date();
+      if (tick) {
+        if (instrument.securityType === SecurityType.FUTURE) this.updateOpenInterest(instrument as Future);
+        this.updateQuote(instrument, now, quoteScale);
+      } else {
+        this.recentreQuote(instrument, now);
+      }
+      this.updateDayChange(instrument);
+      this.updateKeyRateRisk(instrument, now);
+      instrument.lastUpdate = now;
     });
+  }
 
-    const updates = this.instrumentManager.generateDeltaUpdates();
-    if (updates.length > 0) {
-      this.updateCallbacks.forEach(cb => cb(updates));
+  /**
+   * Pay coupons and mature or expire instruments whose dates have come
+   * round. Matured and expired instruments are no longer repriced; their
+   * new status goes out with the next delta updates.
+   */
+  private runLifecycle(now: Date): void {
+    this.instrumentManager.getAllInstruments().forEach(instrument => {
+      runInstrumentLifecycle(instrument, now).forEach(event => {
+        if (event.type !== 'COUPON_PAID') {
+          this.curveOverlays.delete(instrument.instrumentId);
+          this.orderBooks.delete(instrument.instrumentId);
+          console.log(`[MarketSimulator] ${instrument.instrumentId} ${event.status.toLowerCase()} on ${event.date}`);
+        }
+        this.lifecycleCallbacks.forEach(cb => cb(event));
+      });
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // End of day
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Close each region whose close time has come round: snapshot the
+   * instruments of its currencies having a business day into the close
+   * store and start their next trading day
+   */
+  private runCloses(now: Date): void {
+    this.options.closeRegions.forEach(region => {
+      const local = localDateTime(now, region.timeZone);
+      if (local.time < region.closeTime || this.lastCloseDates.get(region.name) === local.date) return;
+      this.lastCloseDates.set(region.name, local.date);
+
+      // Each currency keeps its own holidays, e.g. Canada Day is a New York business day
+      const calendars = this.instrumentManager.getCalendarManager();
+      const currencies = region.currencies.filter(currency =>
+        calendars.getCalendarForCurrency(currency).isBusinessDay(toDate(local.date))
+      );
+      if (currencies.length === 0) return;
+
+      const instruments = this.instrumentManager
+        .getAllInstruments()
+        .filter(instrument => currencies.includes(instrument.notionalCurrency) && !this.isExpired(instrument));
+      this.closeStore.add({
+        region: region.name,
+        date: local.date,
+        closedAt: now.toISOString(),
+        instruments: instruments.map(snapshotClose),
+      });
+      instruments.forEach(instrument => this.resetDailyFields(instrument));
+      console.log(`[MarketSimulator] ${region.name} closed for ${local.date}`);
+    });
+  }
+
+  private resetDailyFields(instrument: Instrument): void {
+    instrument.changeFromPrevClose = 0;
+    instrument.percentageChange = 0;
+    if (instrument.securityType === SecurityType.FUTURE) {
+      const future = instrument as Future;
+      future.priceChangeToday = 0;
+      future.volume = 0;
+    } else if (instrument.securityType === SecurityType.OPTION) {
+      (instrument as Option).volume = 0;
     }
+  }
 
-    // Possibly start a flash event in highVolatility scenario
-    const preset = SCENARIO_PRESETS[this.options.scenario];
-    if (!this.flashEventActive && Math.random() < preset.flashProbability) {
-      this.startFlashEvent();
+  /**
+   * Measure the day's change from the instrument's last close, once it has
+   * one
+   */
+  private updateDayChange(instrument: Instrument): void {
+    const close = this.closeStore.previousClose(instrument.instrumentId);
+    if (!close) return;
+
+    const change = quotedLevel(instrument) - close.price;
+    instrument.changeFromPrevClose = parseFloat(change.toFixed(4));
+    instrument.percentageChange = close.price !== 0 ? parseFloat(((change / close.price) * 100).toFixed(2)) : 0;
+    if (instrument.securityType === SecurityType.FUTURE) {
+      (instrument as Future).priceChangeToday = instrument.changeFromPrevClose;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Two-way quotes
+  // ---------------------------------------------------------------------------
+
+  /**
+   * How far spreads are widened, and sizes cut, by the market's volatility
+   * against a normal market
+   */
+  private quoteScale(now: Date): number {
+    return Math.sqrt(Math.max(0.25, this.getVolatilityFactor(now) / SCENARIO_PRESETS.normal.volatility));
+  }
+
+  /**
+   * Quote the instrument around its mid: a spread of whole ticks, wider in
+   * volatile markets and for less liquid names. The quote sets the inside
+   * of the instrument's order book and the top of the book, after this
+   * tick's order flow, is what the instrument shows.
+   */
+  private updateQuote(instrument: Instrument, now: Date, scale: number): void {
+    const convention = QUOTE_CONVENTIONS[instrument.securityType];
+    const tickSize = this.quoteTickSize(instrument);
+    const liquidity = Math.min(10, Math.max(1, instrument.liquidityScore || 1));
+    const spread = convention.spread * scale * (10 / liquidity) * (0.8 + 0.4 * this.options.random());
+    const inside = this.insideQuote(instrument, spread / tickSize, tickSize);
+    const inverted = instrument.securityType === SecurityType.REPO;
+
+    let book = this.orderBooks.get(instrument.instrumentId);
+    if (!book) {
+      book = new OrderBook(instrument.instrumentId, this.options.orderBookLevels, this.options.random, inverted);
+      this.orderBooks.set(instrument.instrumentId, book);
+    }
+    const seconds = Math.min(this.options.updateInterval, MAX_ORDER_FLOW_STEP) / 1000;
+    const fills = book.step(inside, tickSize, this.orderFlow(instrument, convention.lotSize, liquidity, scale), seconds, now.getTime());
+    this.printTrades(instrument, fills);
+
+    const top = book.top();
+    instrument.bidPrice = top.bid?.price ?? inside.bid;
+    instrument.askPrice = top.ask?.price ?? inside.ask;
+    instrument.bidSize = top.bid?.size ?? 0;
+    instrument.offerSize = top.ask?.size ?? 0;
+    this.updateQuoteYields(instrument, now);
+  }
+
+  /**
+   * Move the instrument's quote with its mid between ticks, keeping its
+   * spread and sizes. Its book catches up on the next tick.
+   */
+  private recentreQuote(instrument: Instrument, now: Date): void {
+    const tickSize = this.quoteTickSize(instrument);
+    const inside = this.insideQuote(instrument, Math.abs(instrument.askPrice - instrument.bidPrice) / tickSize, tickSize);
+    instrument.bidPrice = inside.bid;
+    instrument.askPrice = inside.ask;
+    this.updateQuoteYields(instrument, now);
+  }
+
+  private quoteTickSize(instrument: Instrument): number {
+    const convention = QUOTE_CONVENTIONS[instrument.securityType];
+    return instrument.securityType === SecurityType.FUTURE ? (instrument as Future).tickSize || convention.tickSize : convention.tickSize;
+  }
+
+  /**
+   * Bid and ask `ticks` apart around the instrument's mid; repos are bid at
+   * the higher rate
+   */
+  private insideQuote(instrument: Instrument, ticks: number, tickSize: number): TwoWayQuote {
+    const quote = quoteAroundMid(quotedLevel(instrument), ticks, tickSize);
+    return instrument.securityType === SecurityType.REPO
+      ? { bid: quote.ask, ask: quote.bid }
+      : { bid: Math.max(0, quote.bid), ask: quote.ask };
+  }
+
+  /**
+   * Order flow into an instrument's book. Liquid names see more orders;
+   * volatile markets see more of everything, with cancellations rising
+   * fastest so books thin out. Orders average a fifth of the instrument's
+   * typical top-of-book size.
+   */
+  private orderFlow(instrument: Instrument, lotSize: number, liquidity: number, scale: number): OrderFlow {
+    let typical = this.quoteSizes.get(instrument.instrumentId);
+    if (typical === undefined) {
+      typical = (instrument.bidSize + instrument.offerSize) / 2 || lotSize;
+      this.quoteSizes.set(instrument.instrumentId, typical);
+    }
+    const activity = scale * scale;
+    return {
+      arrivalRate: ORDER_ARRIVALS_PER_SECOND * (liquidity / 10) * scale,
+      cancelRate: ORDER_CANCELS_PER_SECOND * activity,
+      marketOrderRate: MARKET_ORDERS_PER_SECOND * (liquidity / 10) * activity,
+      orderSize: typical / 5,
+      lotSize,
+    };
+  }
+
+  /**
+   * Print the fills of the market orders that traded in the instrument's
+   * book onto the tape, and take its last trade and day's volume from them
+   */
+  private printTrades(instrument: Instrument, fills: Fill[]): void {
+    if (fills.length === 0) return;
+
+    const prints = fills.map((fill): TradePrint => ({
+      tradeId: `T${++this.tradeCount}`,
+      instrumentId: instrument.instrumentId,
+      price: fill.price,
+      size: fill.size,
+      aggressor: fill.side === 'bid' ? 'SELL' : 'BUY',
+      timestamp: new Date(fill.timestamp).toISOString(),
+    }));
+    prints.forEach(print => this.tradeTape.record(print));
+    this.pendingTrades.push(...prints);
+
+    const last = fills[fills.length - 1];
+    this.instrumentManager.recordTrade(instrument.instrumentId, last.price, last.size, new Date(last.timestamp));
+
+    if (instrument.securityType === SecurityType.FUTURE || instrument.securityType === SecurityType.OPTION) {
+      const traded = fills.reduce((sum, fill) => sum + fill.size, 0);
+      (instrument as Future | Option).volume += traded;
+    }
+  }
+
+  /**
+   * Yields at the bid and ask prices of bonds and money-market instruments,
+   * so the bid yields more than the ask
+   */
+  private updateQuoteYields(instrument: Instrument, now: Date): void {
+    switch (instrument.securityType) {
+      case SecurityType.GOVERNMENT_BOND:
+      case SecurityType.CORPORATE_BOND: {
+        const bond = instrument as Bond;
+        const settlement = this.instrumentManager.spotSettlementDate(bond, now);
+        if (settlement.getTime() >= toDate(bond.maturityDate).getTime()) return;
+        bond.bidYield = parseFloat(bondYieldFromPrice(bond, bond.bidPrice, settlement).toFixed(4));
+        bond.askYield = parseFloat(bondYieldFromPrice(bond, bond.askPrice, settlement).toFixed(4));
+        break;
+      }
+      case SecurityType.MONEY_MARKET: {
+        const mm = instrument as MoneyMarketInstrument;
+        const settlement = this.instrumentManager.spotSettlementDate(mm, now);
+        if (settlement.getTime() >= toDate(mm.maturityDate).getTime()) return;
+        // Bills are quoted on their discount rate, CDs on their yield
+        const rate = (price: number) => {
+          const yieldPct = moneyMarketYield(mm, price, settlement);
+          return mm.rateBasis === RateBasis.DISCOUNT ? moneyMarketAnalytics(mm, yieldPct, settlement).discountRate : yieldPct;
+        };
+        mm.bidYield = parseFloat(rate(mm.bidPrice).toFixed(4));
+        mm.askYield = parseFloat(rate(mm.askPrice).toFixed(4));
+        break;
+      }
     }
   }
 
@@ -149,31 +1053,26 @@ export class MarketSimulator {
   // Flash events
   // ---------------------------------------------------------------------------
 
-  private startFlashEvent(): void {
+  private startFlashEvent(now: Date, duration: number = 10_000 + this.options.random() * 20_000): void {
     console.log('[MarketSimulator] Flash event started');
     this.flashEventActive = true;
-    const duration = 10_000 + Math.random() * 20_000;
-    this.flashEventTimer = setTimeout(() => {
-      console.log('[MarketSimulator] Flash event ended');
-      this.flashEventActive = false;
-      this.flashEventTimer = null;
-    }, duration);
+    this.flashEventEnd = now.getTime() + duration;
+    this.publishState();
   }
 
   // ---------------------------------------------------------------------------
   // Volatility calculation
   // ---------------------------------------------------------------------------
 
-  private getVolatilityFactor(): number {
+  private getVolatilityFactor(now: Date): number {
     const preset = SCENARIO_PRESETS[this.options.scenario];
     let factor = preset.volatility;
 
-    // Time-of-day effects
-    const hour = new Date().getHours();
-    const minute = new Date().getMinutes();
-    if ((hour === 9 && minute >= 30) || (hour === 16 && minute === 0)) {
+    // Time-of-day effects, in New York whatever the host's time zone
+    const { time } = localDateTime(now, MARKET_HOURS_TIME_ZONE);
+    if ((time >= '09:30' && time < '10:00') || time === '16:00') {
       factor *= 2.0; // Market open / close
-    } else if (hour >= 12 && hour <= 13) {
+    } else if (time >= '12:00' && time < '14:00') {
       factor *= 0.5; // Lunch
     }
 
@@ -191,12 +1090,12 @@ export class MarketSimulator {
 
   private normalRandom(): number {
     let r = 0;
-    for (let i = 0; i < 6; i++) r += Math.random();
+    for (let i = 0; i < 6; i++) r += this.options.random();
     return (r - 3) / 3; // Mean 0, StdDev ≈ 1
   }
 
-  private generatePriceMove(baseMove: number): number {
-    const volatility = this.getVolatilityFactor();
+  private generatePriceMove(baseMove: number, now: Date): number {
+    const volatility = this.getVolatilityFactor(now);
     let rand = this.normalRandom();
 
     // Apply persistent trend bias
@@ -209,169 +1108,405 @@ export class MarketSimulator {
   }
 
   // ---------------------------------------------------------------------------
-  // Correlation helpers
+  // Persistent trend directions
   // ---------------------------------------------------------------------------
 
-  private rebuildCorrelationMatrix(): void {
-    this.correlationMatrix.clear();
-    const instruments = this.instrumentManager.getAllInstruments();
-    const preset = SCENARIO_PRESETS[this.options.scenario];
+  private initTrendDirections(): void {
+    this.instrumentManager.getAllInstruments().forEach(i => {
+      this.trendDirections.set(i.instrumentId, this.options.random() > 0.5 ? 1 : -1);
+    });
+    this.curveManager.getIndices().forEach(index => {
+      this.trendDirections.set(index, this.options.random() > 0.5 ? 1 : -1);
+    });
+  }
 
-    instruments.forEach(i1 => {
-      if (!this.correlationMatrix.has(i1.instrumentId)) {
-        this.correlationMatrix.set(i1.instrumentId, new Map());
+  // ---------------------------------------------------------------------------
+  // Curves
+  // ---------------------------------------------------------------------------
+
+  /**
+   * Anchor instruments to the curves: bond yields are solved from the seeded
+   * price and keep that spread to the curve, swaps are valued against their contract rate, futures keep
+   * their seeded basis and options are priced off their vol surface. Money-market instruments and
+   * repos keep the spread of their seeded yield or rate to the discount curve.
+   */
+  private calibrateToCurves(now: Date): void {
+
+    this.instrumentManager.getAllInstruments().forEach(instrument => {
+      switch (instrument.securityType) {
+        case SecurityType.GOVERNMENT_BOND:
+        case SecurityType.CORPORATE_BOND: {
+          const bond = instrument as Bond;
+          const parYield = this.bondParYield(bond, now);
+          if (parYield !== undefined) {
+            const settlement = this.instrumentManager.spotSettlementDate(bond, now);
+            bond.yieldToMaturity = parseFloat(bondYieldFromPrice(bond, bond.currentPrice, settlement).toFixed(4));
+            bond.spread = parseFloat(((bond.yieldToMaturity - parYield) * 100).toFixed(2));
+            this.updateCorporateSpreads(bond, now, settlement, bond.currentPrice + bondAccruedInterest(bond, settlement));
+          }
+          break;
+        }
+        case SecurityType.INTEREST_RATE_SWAP:
+          this.revalueSwap(instrument as InterestRateSwap, now);
+          break;
+        case SecurityType.FUTURE: {
+          const future = instrument as Future;
+          const impliedRate = this.futureImpliedRate(future, now);
+          if (impliedRate !== undefined) {
+            future.impliedRate = parseFloat(impliedRate.toFixed(4));
+            const notionalPrice = priceFromYield(impliedRate, FUTURE_NOTIONAL_COUPON, future.underlyingTenor, 2);
+            this.futureBasis.set(future.instrumentId, future.currentPrice / notionalPrice);
+          }
+          this.updateDeliveryBasket(future, now);
+          break;
+        }
+        case SecurityType.OPTION:
+          this.repriceOption(instrument as Option, now);
+          break;
+        case SecurityType.MONEY_MARKET: {
+          const mm = instrument as MoneyMarketInstrument;
+          const curveYield = this.simpleCurveRate(mm, now, mm.maturityDate, mm.dayCountConvention);
+          if (curveYield !== undefined) {
+            const settlement = this.instrumentManager.spotSettlementDate(mm, now);
+            const seededYield = moneyMarketYield(mm, mm.currentPrice, settlement);
+            mm.spread = parseFloat(((seededYield - curveYield) * 100).toFixed(2));
+            updateMoneyMarketAnalytics(mm, seededYield, settlement);
+          }
+          break;
+        }
+        case SecurityType.FRA:
+          this.revalueFra(instrument as ForwardRateAgreement, now);
+          break;
+        case SecurityType.REPO: {
+          const repo = instrument as Repo;
+          const curveRate = this.simpleCurveRate(repo, now, repo.endDate, repo.dayCountConvention);
+          if (curveRate !== undefined) {
+            repo.spread = parseFloat(((repo.marketRepoRate - curveRate) * 100).toFixed(2));
+            this.revalueRepo(repo, now);
+          }
+          break;
+        }
       }
-      instruments.forEach(i2 => {
-        if (i1.instrumentId === i2.instrumentId) return;
-        const corr = this.computeCorrelation(i1, i2, preset.correlationStrength);
-        this.correlationMatrix.get(i1.instrumentId)!.set(i2.instrumentId, corr);
-      });
+
+      this.updateKeyRateRisk(instrument, now);
     });
   }
 
-  private computeCorrelation(i1: Instrument, i2: Instrument, strength: number): number {
-    let c = 0;
-    if (i1.securityType === i2.securityType) c += 0.3;
-    if (i1.marketSector === i2.marketSector) c += 0.4;
-    if (i1.notionalCurrency === i2.notionalCurrency) c += 0.2;
-    c += (Math.random() - 0.5) * 0.2; // small noise
-    return Math.max(-1, Math.min(1, c * strength));
+  /**
+   * Move every curve by a parallel and a slope factor. The parallel factor
+   * mixes a global shock with a per-curve shock using the scenario's
+   * correlation strength, so curves co-move without being identical.
+   */
+  private updateCurveData(now: Date): void {
+    if (this.options.scenario === 'factorModel') {
+      this.updateCurveFactors(now);
+      return;
+    }
+
+    const preset = SCENARIO_PRESETS[this.options.scenario];
+    const volatility = this.getVolatilityFactor(now);
+    const globalShock = this.normalRandom();
+    const rho = preset.correlationStrength;
+
+    this.curveManager.getIndices().forEach(index => {
+      const shock = Math.sqrt(rho) * globalShock + Math.sqrt(1 - rho) * this.normalRandom();
+      let parallel = shock * volatility * CURVE_MOVE_BP;
+
+      if (this.options.scenario === 'trending') {
+        const dir = this.trendDirections.get(index) ?? 1;
+        parallel += dir * 0.1 * volatility * CURVE_MOVE_BP;
+      }
+
+      // Slope: short and long ends move in opposite directions around 15Y
+      const slope = this.normalRandom() * volatility * CURVE_MOVE_BP * 0.3;
+      this.curveManager.shiftQuotes(index, time => parallel + slope * (Math.min(time, 30) / 15 - 1));
+    });
   }
 
-  private calculateCorrelatedMovement(id: string): number {
-    const correlations = this.correlationMatrix.get(id);
-    if (!correlations) return 0;
-    let movement = 0;
-    correlations.forEach((corr, otherId) => {
-      const otherMove = this.lastPercentageChange.get(otherId) ?? 0;
-      movement += corr * otherMove;
+  /**
+   * Step the factor model and move every curve of a currency by its
+   * currency's change in level, slope and curvature
+   */
+  private updateCurveFactors(now: Date): void {
+    const moves = this.curveFactorModel.step(this.curveManager.getCurrencies(), this.getVolatilityFactor(now) * CURVE_MOVE_BP);
+    const decay = this.curveFactorModel.getParameters().decay;
+
+    this.curveManager.getIndices().forEach(index => {
+      const currency = this.curveManager.getCurve(index)?.currency;
+      const move = currency && moves.get(currency);
+      if (move) {
+        this.curveManager.shiftQuotes(index, time => factorShift(move, time, decay));
+      }
     });
-    return movement * 0.3; // scale down influence
   }
 
-  // ---------------------------------------------------------------------------
-  // Persistent trend directions
-  // ---------------------------------------------------------------------------
+  /**
+   * Fit a vol surface for every underlying that is being simulated
+   */
+  private buildVolSurfaces(): void {
+    this.volSurfaceManager.getUnderlyings().forEach(underlying => {
+      const future = this.instrumentManager.getInstrument(underlying) as Future | undefined;
+      if (future) {
+        this.volSurfaceManager.build(underlying, future.currentPrice);
+      }
+    });
+  }
 
-  private initTrendDirections(): void {
-    this.instrumentManager.getAllInstruments().forEach(i => {
-      this.trendDirections.set(i.instrumentId, Math.random() > 0.5 ? 1 : -1);
+  /**
+   * Move each surface's vols by a small parallel shock and refit it at the
+   * underlying's latest price
+   */
+  private updateVolSurfaces(now: Date): void {
+    this.volSurfaceManager.getUnderlyings().forEach(underlying => {
+      const future = this.instrumentManager.getInstrument(underlying) as Future | undefined;
+      if (!future) return;
+      const shift = this.generatePriceMove(VOL_MOVE_POINTS, now);
+      this.volSurfaceManager.shiftVols(underlying, () => shift, future.currentPrice);
     });
   }
 
-  // ---------------------------------------------------------------------------
-  // Instrument-specific update logic
-  // ---------------------------------------------------------------------------
+  private bondParYield(bond: Bond, now: Date): number | undefined {
+    const curve = this.curveManager.getDiscountCurve(bond.notionalCurrency);
+    return curve && bondCurveYield(bond, this.instrumentCurve(bond, curve), now);
+  }
 
-  private updateBondData(bond: Bond): void {
-    const correlated = this.calculateCorrelatedMovement(bond.instrumentId);
-    const volatility = this.getVolatilityFactor();
-    let priceDelta = this.normalRandom() * volatility + correlated;
+  /**
+   * Z-spread, asset swap spreads and OAS of a corporate bond over its
+   * currency's swap curve
+   */
+  private updateCorporateSpreads(bond: Bond, now: Date, settlement: Date, dirtyPrice?: number): void {
+    if (bond.securityType !== SecurityType.CORPORATE_BOND) return;
+    const curve = this.curveManager.getDiscountCurve(bond.notionalCurrency);
+    if (!curve) return;
 
-    if (this.options.scenario === 'trending') {
-      const dir = this.trendDirections.get(bond.instrumentId) ?? 1;
-      priceDelta += dir * 0.1 * volatility;
+    updateBondSpreadAnalytics(bond, curve, now, settlement, dirtyPrice);
+  }
+
+  /**
+   * Discount both legs off the curves and write par rate, MTM and DV01s
+   * back onto the swap, unless it has matured or cannot be valued
+   */
+  private revalueSwap(swap: InterestRateSwap, now: Date): void {
+    if (new Date(swap.maturityDate).getTime() <= now.getTime()) return;
+    const calendarManager = this.instrumentManager.getCalendarManager();
+    const curveContext = swapValuationContext(swap, this.curveManager, calendarManager, now, this.fixingsManager);
+    if (!curveContext) return;
+    const context = {
+      ...curveContext,
+      discountCurve: this.instrumentCurve(swap, curveContext.discountCurve),
+      forwardCurve: this.instrumentCurve(swap, curveContext.forwardCurve),
+    };
+
+    const valuation = valueSwap(swap, context);
+    swap.swapRate = Math.max(0.0001, parseFloat(valuation.parRate.toFixed(4)));
+    swap.currentMtm = parseFloat(valuation.mtm.toFixed(2));
+    swap.fixedLegPv = parseFloat(valuation.fixedLegPv.toFixed(2));
+    swap.floatingLegPv = parseFloat(valuation.floatingLegPv.toFixed(2));
+    swap.fixedLegDv01 = parseFloat(valuation.fixedLegDv01.toFixed(2));
+    swap.floatingLegDv01 = parseFloat(valuation.floatingLegDv01.toFixed(2));
+    swap.dv01 = parseFloat(valuation.dv01.toFixed(2));
+
+    const accrual = accruedFloatingCoupon(swap, context);
+    if (accrual) {
+      swap.currentFloatingRate = parseFloat(accrual.compoundedRate.toFixed(6));
+      swap.accruedFloatingCoupon = parseFloat(accrual.accruedAmount.toFixed(2));
+      swap.nextResetDate = accrual.periodEnd;
     }
+  }
 
-    // Price: bonds trade near par; small percentage moves
-    const priceMove = priceDelta * 0.05;
-    bond.currentPrice = Math.max(50, parseFloat((bond.currentPrice + priceMove).toFixed(4)));
+  /**
+   * Publish each overnight index's fixing for every business day since its
+   * latest fixing, up to the business day before today, at the index
+   * curve's overnight rate
+   */
+  private publishFixings(now: Date): void {
+    const today = formatDate(toDate(now));
+    if (today === this.lastFixingDay) return;
+    this.lastFixingDay = today;
+
+    Object.values(DISCOUNT_INDEX).forEach(index => {
+      const curve = this.curveManager.getCurve(index);
+      const definition = this.curveManager.getDefinition(index);
+      if (!curve || !definition) return;
+
+      const calendar = this.instrumentManager.getCalendarManager().getCalendarForCurrency(definition.currency);
+      const lastDay = calendar.adjust(addDays(toDate(now), -1), BusinessDayConvention.PRECEDING);
+      const latest = this.fixingsManager.latestFixing(index);
+      let day = latest ? calendar.addBusinessDays(toDate(latest.date), 1) : lastDay;
+
+      for (; day.getTime() <= lastDay.getTime(); day = calendar.addBusinessDays(day, 1)) {
+        // Overnight rate to the next business day, simple on the index's basis
+        const days = daysBetween(day, calendar.addBusinessDays(day, 1));
+        const growth = 1 / curve.discountFactor(days / 365);
+        const fixing = { date: formatDate(day), rate: parseFloat(((growth - 1) * (definition.dayCountBasis / days) * 100).toFixed(4)) };
+
+        this.fixingsManager.addFixings(index, [fixing]);
+        this.fixingCallbacks.forEach(cb => cb({ index, ...fixing }));
+      }
+    });
+  }
 
-    // Yield: inverse relationship to price
-    const yieldChange = -priceDelta * 0.01;
-    bond.yieldToMaturity = Math.max(0.001, parseFloat((bond.yieldToMaturity + yieldChange).toFixed(4)));
+  /**
+   * Years to expiry and the continuously compounded discount rate to expiry
+   */
+  private optionTimeAndRate(option: Option, now: Date): { timeToExpiry: number; rate: number } {
+    const timeToExpiry = yearsBetween(now, new Date(option.expirationDate));
+    const curve = this.curveManager.getDiscountCurve(option.notionalCurrency);
+    const rate = curve && timeToExpiry > 0 ? this.instrumentCurve(option, curve).zeroRate(timeToExpiry) : 0;
+    return { timeToExpiry, rate };
+  }
 
-    // Duration: small drift with yield
-    const durationChange = yieldChange * 0.2;
-    bond.duration = Math.max(0.1, parseFloat((bond.duration - durationChange).toFixed(4)));
+  /**
+   * Simple money-market rate in percent on an instrument's discount curve from now to a date
+   */
+  private simpleCurveRate(instrument: Instrument, now: Date, endDate: string, dayCount: DayCountConvention): number | undefined {
+    const curve = this.curveManager.getDiscountCurve(instrument.notionalCurrency);
+    return curve && simpleCurveRate(this.instrumentCurve(instrument, curve), now, endDate, dayCount);
+  }
+
+  /**
+   * Bucket the instrument's curve risk into key-rate DV01s
+   */
+  private updateKeyRateRisk(instrument: Instrument, now: Date): void {
+    const risk = instrumentKeyRateDv01(instrument, this.instrumentManager, this.curveManager, now, this.fixingsManager);
+    if (!risk) return;
 
-    // Track for correlations
-    const pctChange = priceMove / bond.currentPrice;
-    this.lastPercentageChange.set(bond.instrumentId, pctChange);
+    instrument.keyRateDv01 = Object.fromEntries(
+      Object.entries(risk).map(([tenor, dv01]) => [tenor, parseFloat(dv01.toFixed(2))])
+    );
   }
 
-  private updateSwapData(swap: InterestRateSwap): void {
-    const correlated = this.calculateCorrelatedMovement(swap.instrumentId);
-    const volatility = this.getVolatilityFactor();
-    let rateDelta = this.normalRandom() * volatility * 2 / 100 + correlated / 100;
+  /**
+   * Project and discount an FRA off the curves until it starts, as the
+   * payment is then fixed
+   */
+  private revalueFra(fra: ForwardRateAgreement, now: Date): void {
+    if (new Date(fra.startDate).getTime() <= now.getTime()) return;
+    const curveContext = fraValuationContext(fra, this.curveManager, now);
+    if (!curveContext) return;
+    const context = {
+      ...curveContext,
+      discountCurve: this.instrumentCurve(fra, curveContext.discountCurve),
+      forwardCurve: this.instrumentCurve(fra, curveContext.forwardCurve),
+    };
 
-    if (this.options.scenario === 'trending') {
-      const dir = this.trendDirections.get(swap.instrumentId) ?? 1;
-      rateDelta += dir * 0.0002 * volatility;
+    const valuation = valueFra(fra, context);
+    fra.forwardRate = parseFloat(valuation.forwardRate.toFixed(4));
+    fra.accrualFactor = parseFloat(valuation.accrualFactor.toFixed(6));
+    fra.settlementAmount = parseFloat(valuation.settlementAmount.toFixed(2));
+    fra.currentMtm = parseFloat(valuation.mtm.toFixed(2));
+    fra.dv01 = parseFloat(valuation.dv01.toFixed(2));
+  }
+
+  /**
+   * Mark a repo to the market rate for its remaining term and its collateral
+   * to the collateral instrument's dirty price, until the end date
+   */
+  private revalueRepo(repo: Repo, now: Date): void {
+    const curveRate = this.simpleCurveRate(repo, now, repo.endDate, repo.dayCountConvention);
+    if (curveRate === undefined) return;
+
+    const collateral = this.instrumentManager.getInstrument(repo.collateralId) as Bond | undefined;
+    if (collateral?.dirtyPrice) {
+      repo.collateralPrice = collateral.dirtyPrice;
     }
 
-    swap.fixedRate = Math.max(0.0001, parseFloat((swap.fixedRate + rateDelta).toFixed(4)));
+    repo.marketRepoRate = parseFloat(Math.max(0, curveRate + repo.spread / 100).toFixed(4));
+    const valuation = valueRepo(repo, repo.collateralPrice, repo.marketRepoRate, now);
+    repo.accruedInterest = parseFloat(valuation.accruedInterest.toFixed(2));
+    repo.repurchaseAmount = parseFloat(valuation.repurchaseAmount.toFixed(2));
+    repo.collateralValue = parseFloat(valuation.collateralValue.toFixed(2));
+    repo.marginExcess = parseFloat(valuation.marginExcess.toFixed(2));
+    repo.currentMtm = parseFloat(valuation.mtm.toFixed(2));
+    repo.dv01 = parseFloat(valuation.dv01.toFixed(2));
+  }
 
-    // MTM: opposite direction to rate movement; DV01 * notional / 10000 per bp
-    const mtmChange = -rateDelta * swap.fixedLegDv01 * swap.notionalAmount / 100;
-    swap.currentMtm = parseFloat((swap.currentMtm + mtmChange).toFixed(2));
+  /**
+   * Forward par yield over the notional bond's life, starting at expiry
+   */
+  private futureImpliedRate(future: Future, now: Date): number | undefined {
+    const curve = this.curveManager.getDiscountCurve(future.notionalCurrency);
+    if (!curve || !future.underlyingTenor) return undefined;
+    const start = Math.max(0, yearsBetween(now, new Date(future.expirationDate)));
+    return this.instrumentCurve(future, curve).parRate(start + future.underlyingTenor, 2, start) * 100;
+  }
 
-    // DV01 drift
-    const dv01Change = rateDelta * 5;
-    swap.fixedLegDv01    = Math.max(0.01, parseFloat((swap.fixedLegDv01 - dv01Change).toFixed(2)));
-    swap.floatingLegDv01 = Math.max(0.01, parseFloat((swap.floatingLegDv01 + dv01Change).toFixed(2)));
+  // ---------------------------------------------------------------------------
+  // Instrument-specific update logic
+  // ---------------------------------------------------------------------------
+
+  private updateBondData(bond: Bond, now: Date): void {
+    const parYield = this.bondParYield(bond, now);
+    if (parYield === undefined) return;
 
-    this.lastPercentageChange.set(swap.instrumentId, rateDelta / swap.fixedRate);
+    // Yield is the driver: curve par yield plus the bond's spread to the curve.
+    // Price, accrued, duration, convexity and DV01 all follow from it.
+    const yieldPct = Math.max(0.001, parYield + bond.spread / 100);
+    const settlement = this.instrumentManager.spotSettlementDate(bond, now);
+    updateBondAnalytics(bond, yieldPct, settlement);
+    this.updateCorporateSpreads(bond, now, settlement);
   }
 
-  private updateFutureData(future: Future): void {
-    const correlated = this.calculateCorrelatedMovement(future.instrumentId);
+  private updateFutureData(future: Future, now: Date): void {
+    const impliedRate = this.futureImpliedRate(future, now);
+    if (impliedRate === undefined) return;
+
+    future.impliedRate = parseFloat(impliedRate.toFixed(4));
+
+    // Price: notional bond at the implied rate, scaled by the seeded basis and rounded to ticks
+    const basis = this.futureBasis.get(future.instrumentId) ?? 1;
     const tickSize = future.tickSize || 0.01;
-    const numTicks = Math.round(this.generatePriceMove(5) + correlated * 10);
-    const priceMove = numTicks * tickSize;
+    const theoretical = basis * priceFromYield(impliedRate, FUTURE_NOTIONAL_COUPON, future.underlyingTenor, 2);
+    const newPrice = Math.max(0.01, Math.round(theoretical / tickSize) * tickSize);
+    future.currentPrice = parseFloat(newPrice.toFixed(6));
 
-    future.currentPrice = Math.max(0.01, parseFloat((future.currentPrice + priceMove).toFixed(6)));
-    future.priceChangeToday = parseFloat((future.priceChangeToday + priceMove).toFixed(6));
+    this.updateDeliveryBasket(future, now);
+  }
 
-    // Open interest: slight upward drift plus noise
-    const oiChange = Math.round((Math.random() - 0.45) * 100);
+  /**
+   * Open interest: slight upward drift plus noise, tick by tick
+   */
+  private updateOpenInterest(future: Future): void {
+    const oiChange = Math.round((this.options.random() - 0.45) * 100);
     future.openInterest = Math.max(0, future.openInterest + oiChange);
+  }
+
+  /**
+   * Re-run the cheapest-to-deliver analysis against the latest bond prices
+   */
+  private updateDeliveryBasket(future: Future, now: Date): void {
+    const basket = futureDeliveryBasket(future, this.instrumentManager, this.curveManager, now);
+    if (basket) {
+      updateFutureDeliveryAnalytics(future, basket.deliverables);
+    }
+  }
 
-    // Volume: small random fluctuations
-    const volChange = Math.round(future.volume * 0.01 * (Math.random() - 0.5));
-    future.volume += volChange;
+  private updateMoneyMarketData(mm: MoneyMarketInstrument, now: Date): void {
+    const curveYield = this.simpleCurveRate(mm, now, mm.maturityDate, mm.dayCountConvention);
+    if (curveYield === undefined) return;
 
-    this.lastPercentageChange.set(future.instrumentId, priceMove / future.currentPrice);
+    // Yield is the driver, as for bonds: curve rate to maturity plus the issuer's spread
+    const yieldPct = Math.max(0.001, curveYield + mm.spread / 100);
+    updateMoneyMarketAnalytics(mm, yieldPct, this.instrumentManager.spotSettlementDate(mm, now));
   }
 
-  private updateOptionData(option: Option): void {
+  /**
+   * Take the option's vol from its underlying's surface and price it off the
+   * underlying future, when there is one
+   */
+  private repriceOption(option: Option, now: Date): void {
     const underlying = this.instrumentManager.getInstrument(option.underlyingAsset) as Future | undefined;
     if (!underlying) return;
 
-    // Underlying move drives delta P&L
-    const prevUnderlyingPct = this.lastPercentageChange.get(option.underlyingAsset) ?? 0;
-    const underlyingMove = underlying.currentPrice * prevUnderlyingPct;
-
-    const deltaPnL = option.delta * underlyingMove;
-    const gammaPnL = 0.5 * option.gamma * underlyingMove * underlyingMove;
-    const thetaPnL = -option.theta / 365; // daily decay
-
-    const noiseMove = this.generatePriceMove(0.05);
-    option.currentPrice = Math.max(0.01, parseFloat((option.currentPrice + deltaPnL + gammaPnL + thetaPnL + noiseMove).toFixed(4)));
-
-    // Implied vol: small random changes
-    const volChange = (Math.random() - 0.5) * 0.01;
-    option.impliedVol = Math.max(1, parseFloat((option.impliedVol + volChange).toFixed(2)));
-
-    // Greeks update
-    const deltaChange = underlyingMove * option.gamma;
-    if (option.optionType === 'call') {
-      option.delta = Math.min(1,  parseFloat((option.delta + deltaChange).toFixed(4)));
-    } else {
-      option.delta = Math.max(-1, parseFloat((option.delta + deltaChange).toFixed(4)));
-    }
-    option.gamma = Math.max(0.001, parseFloat((option.gamma - Math.abs(deltaChange) * 0.1).toFixed(4)));
-    option.theta = parseFloat((option.theta * 1.001).toFixed(4));
-    option.vega  = parseFloat((option.vega * (1 + volChange * 0.01)).toFixed(4));
-
-    // Intrinsic / time value
-    if (option.optionType === 'call') {
-      option.intrinsicValue = Math.max(0, parseFloat((underlying.currentPrice - option.strikePrice).toFixed(4)));
-    } else {
-      option.intrinsicValue = Math.max(0, parseFloat((option.strikePrice - underlying.currentPrice).toFixed(4)));
+    const { timeToExpiry, rate } = this.optionTimeAndRate(option, now);
+    const surface = this.volSurfaceManager.getSurface(option.underlyingAsset);
+    if (surface) {
+      const forward = underlying.currentPrice;
+      const blackVol = surface.volatility(option.strikePrice, timeToExpiry, forward);
+      const quoted = quotedVolFromBlack(option.pricingModel, blackVol, forward, option.strikePrice);
+      option.impliedVol = parseFloat(quoted.toFixed(4));
     }
-    option.timeValue = Math.max(0, parseFloat((option.currentPrice - option.intrinsicValue).toFixed(4)));
 
-    this.lastPercentageChange.set(option.instrumentId, (deltaPnL + noiseMove) / option.currentPrice);
+    updateOptionAnalytics(option, underlying.currentPrice, timeToExpiry, rate);
   }
 }
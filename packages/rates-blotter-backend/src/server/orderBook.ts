@@ -0,0 +1,234 @@
+import { TwoWayQuote, roundToLot } from '../analytics/quotes';
+import { RandomSource, poissonRandom } from '../utils/random';
+
+/** Price levels a book keeps on each side unless configured otherwise */
+export const DEFAULT_ORDER_BOOK_LEVELS = 10;
+
+/**
+ * Resting orders at one price
+ */
+export interface DepthLevel {
+  price: number;
+  size: number;
+  orders: number;
+}
+
+/**
+ * Full depth of an instrument's book, best prices first
+ */
+export interface OrderBookDepth {
+  instrumentId: string;
+  timestamp: number;
+  tickSize: number;
+  bids: DepthLevel[];
+  asks: DepthLevel[];
+}
+
+/**
+ * Rates of the Poisson processes driving a book. Arrivals and market
+ * orders are per second; cancellations are per resting order per second.
+ */
+export interface OrderFlow {
+  arrivalRate: number; // Limit orders joining each level
+  cancelRate: number;
+  marketOrderRate: number; // Market orders hitting each side
+  orderSize: number; // Mean order size
+  lotSize: number;
+}
+
+export type Side = 'bid' | 'ask';
+
+/**
+ * Part of a market order filled at one price. Orders taking bids are sells,
+ * those taking asks buys.
+ */
+export interface Fill {
+  side: Side; // Side of the book taken
+  price: number;
+  size: number;
+  timestamp: number;
+}
+
+interface RestingLevel {
+  size: number;
+  orders: number;
+}
+
+/**
+ * Simulated limit order book of one instrument. The inside prices follow
+ * the instrument's quote and the book holds a fixed number of tick-spaced
+ * levels behind them on each side; orders rest at each level, are
+ * cancelled and are taken out by market orders, all arriving as Poisson
+ * processes. Levels keep their orders for as long as their price stays in
+ * the book.
+ */
+export class OrderBook {
+  private bids: Map<number, RestingLevel> = new Map(); // By price in ticks
+  private asks: Map<number, RestingLevel> = new Map();
+  private tickSize = 1;
+  private timestamp = 0;
+
+  /**
+   * @param inverted Quoted in rate with the bid above the offer, as repos
+   * are, so deeper bids are at higher rates
+   */
+  constructor(
+    readonly instrumentId: string,
+    private levels: number,
+    private random: RandomSource,
+    private inverted = false
+  ) {
+    if (!(levels >= 1)) {
+      throw new Error(`Invalid order book depth: ${levels}`);
+    }
+  }
+
+  /**
+   * Move the book on by the `seconds` of order flow up to `timestamp`, its
+   * inside prices at the quote's bid and ask. Returns the fills of the
+   * market orders that arrived, in the order they traded.
+   */
+  step(inside: TwoWayQuote, tickSize: number, flow: OrderFlow, seconds: number, timestamp: number): Fill[] {
+    if (tickSize !== this.tickSize) {
+      this.bids.clear();
+      this.asks.clear();
+      this.tickSize = tickSize;
+    }
+    this.timestamp = timestamp;
+
+    const sides: Side[] = ['bid', 'ask'];
+    sides.forEach(side => {
+      const book = this.recentre(side, Math.round((side === 'bid' ? inside.bid : inside.ask) / tickSize), flow);
+      book.forEach(level => {
+        this.addOrders(level, poissonRandom(this.random, flow.arrivalRate * seconds), flow);
+        this.cancelOrders(level, poissonRandom(this.random, flow.cancelRate * level.orders * seconds), flow);
+      });
+
+      if (side === 'bid') this.bids = book;
+      else this.asks = book;
+    });
+
+    // Given how many arrive, Poisson arrivals are spread evenly over the step
+    const marketOrders: { side: Side; at: number }[] = [];
+    sides.forEach(side => {
+      const count = poissonRandom(this.random, flow.marketOrderRate * seconds);
+      for (let i = 0; i < count; i++) {
+        marketOrders.push({ side, at: this.random() * seconds });
+      }
+    });
+
+    const fills: Fill[] = [];
+    marketOrders
+      .sort((a, b) => a.at - b.at)
+      .forEach(({ side, at }) => {
+        const time = Math.round(timestamp - (seconds - at) * 1000);
+        this.takeLiquidity(side === 'bid' ? this.bids : this.asks, this.orderSize(flow), flow).forEach(({ price, size }) =>
+          fills.push({ side, price, size, timestamp: time })
+        );
+      });
+    return fills;
+  }
+
+  /**
+   * Best bid and offer with orders resting at them
+   */
+  top(): { bid?: DepthLevel; ask?: DepthLevel } {
+    const { bids, asks } = this.depth();
+    return { bid: bids[0], ask: asks[0] };
+  }
+
+  depth(): OrderBookDepth {
+    return {
+      instrumentId: this.instrumentId,
+      timestamp: this.timestamp,
+      tickSize: this.tickSize,
+      bids: this.sideDepth(this.bids),
+      asks: this.sideDepth(this.asks),
+    };
+  }
+
+  /**
+   * Levels of a side from its inside price outwards, keeping the orders of
+   * prices still in the book and seeding new prices at their steady state
+   */
+  private recentre(side: Side, insideTicks: number, flow: OrderFlow): Map<number, RestingLevel> {
+    const previous = side === 'bid' ? this.bids : this.asks;
+    const outwards = (side === 'bid') !== this.inverted ? -1 : 1;
+    const book = new Map<number, RestingLevel>();
+
+    for (let i = 0; i < this.levels; i++) {
+      const ticks = insideTicks + outwards * i;
+      if (ticks < 0) break;
+
+      let level = previous.get(ticks);
+      if (!level) {
+        level = { size: 0, orders: 0 };
+        const steadyState = flow.cancelRate > 0 ? flow.arrivalRate / flow.cancelRate : 0;
+        this.addOrders(level, poissonRandom(this.random, steadyState), flow);
+      }
+      book.set(ticks, level);
+    }
+    return book;
+  }
+
+  private orderSize(flow: OrderFlow): number {
+    const meanLots = Math.max(1, flow.orderSize / flow.lotSize);
+    return roundToLot(-Math.log(1 - this.random()) * meanLots * flow.lotSize, flow.lotSize);
+  }
+
+  private addOrders(level: RestingLevel, count: number, flow: OrderFlow): void {
+    for (let i = 0; i < count; i++) {
+      level.size += this.orderSize(flow);
+      level.orders++;
+    }
+  }
+
+  private cancelOrders(level: RestingLevel, count: number, flow: OrderFlow): void {
+    const cancelled = Math.min(level.orders, count);
+    if (cancelled === 0) return;
+
+    const remaining = level.orders - cancelled;
+    level.size = remaining > 0 ? roundToLot((level.size * remaining) / level.orders, flow.lotSize) : 0;
+    level.orders = remaining;
+  }
+
+  /**
+   * Fill a market order against the side's best levels, returning the size
+   * done at each price. Whatever the book cannot fill goes unfilled.
+   */
+  private takeLiquidity(book: Map<number, RestingLevel>, size: number, flow: OrderFlow): { price: number; size: number }[] {
+    const done: { price: number; size: number }[] = [];
+    let remaining = size;
+    for (const [ticks, level] of book) {
+      if (remaining <= 0) break;
+      if (level.size === 0) continue;
+
+      const filled = Math.min(remaining, level.size);
+      if (remaining >= level.size) {
+        level.size = 0;
+        level.orders = 0;
+      } else {
+        const left = level.size - remaining;
+        level.orders = Math.max(1, Math.round((level.orders * left) / level.size));
+        level.size = roundToLot(left, flow.lotSize);
+      }
+      remaining -= filled;
+      done.push({ price: this.price(ticks), size: filled });
+    }
+    return done;
+  }
+
+  private price(ticks: number): number {
+    return parseFloat((ticks * this.tickSize).toFixed(8));
+  }
+
+  private sideDepth(book: Map<number, RestingLevel>): DepthLevel[] {
+    return Array.from(book.entries())
+      .filter(([, level]) => level.size > 0)
+      .map(([ticks, level]) => ({
+        price: this.price(ticks),
+        size: level.size,
+        orders: level.orders,
+      }));
+  }
+}
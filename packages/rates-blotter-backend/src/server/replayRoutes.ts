@@ -0,0 +1,111 @@
+import { FastifyInstance, FastifyReply } from "fastify";
+import { MarketSimulator } from "./marketSimulator";
+import { listReplayFiles } from "./marketReplay";
+import { SimulatorCommand, applySimulatorCommand } from "./simulatorControl";
+
+/**
+ * Configure REST routes for replaying recorded market data while the
+ * server runs
+ */
+export function configureReplayRoutes(fastify: FastifyInstance, marketSimulator: MarketSimulator): void {
+  function run(reply: FastifyReply, command: SimulatorCommand, status = 200) {
+    try {
+      applySimulatorCommand(marketSimulator, command);
+      reply.code(status);
+      return { success: true, data: marketSimulator.getReplayState() ?? null };
+    } catch (error) {
+      reply.code(400);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  // Recordings in the replay directory and where the running replay has got to
+  fastify.get("/api/replays", async () => {
+    return {
+      available: listReplayFiles(),
+      active: marketSimulator.getReplayState() ?? null,
+    };
+  });
+
+  // Replay a recording in place of the simulation (admin operation)
+  fastify.post<{ Body: { file: string; speed?: number; loop?: boolean } }>(
+    "/api/admin/replay",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: {
+            file: { type: "string" },
+            speed: { type: "number" },
+            loop: { type: "boolean" },
+          },
+          required: ["file"],
+        },
+      },
+    },
+    async (request, reply) => {
+      const { file, speed, loop } = request.body;
+      return run(reply, { action: "startReplay", file, speed, loop }, 201);
+    }
+  );
+
+  // Hold or carry on playing the replay
+  fastify.post("/api/admin/replay/pause", async (request, reply) => run(reply, { action: "pauseReplay" }));
+  fastify.post("/api/admin/replay/resume", async (request, reply) => run(reply, { action: "resumeReplay" }));
+
+  // Jump to a recorded time
+  fastify.post<{ Body: { time: string } }>(
+    "/api/admin/replay/seek",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: {
+            time: { type: "string" },
+          },
+          required: ["time"],
+        },
+      },
+    },
+    async (request, reply) => run(reply, { action: "seekReplay", time: request.body.time })
+  );
+
+  // Change how fast recorded time plays, and whether it starts again at the end
+  fastify.put<{ Body: { speed: number } }>(
+    "/api/admin/replay/speed",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: {
+            speed: { type: "number" },
+          },
+          required: ["speed"],
+        },
+      },
+    },
+    async (request, reply) => run(reply, { action: "setReplaySpeed", speed: request.body.speed })
+  );
+
+  fastify.put<{ Body: { loop: boolean } }>(
+    "/api/admin/replay/loop",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: {
+            loop: { type: "boolean" },
+          },
+          required: ["loop"],
+        },
+      },
+    },
+    async (request, reply) => run(reply, { action: "setReplayLoop", loop: request.body.loop })
+  );
+
+  // Stop replaying and go back to simulating
+  fastify.delete("/api/admin/replay", async (request, reply) => run(reply, { action: "stopReplay" }));
+}
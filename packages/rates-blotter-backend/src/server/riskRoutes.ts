@@ -0,0 +1,69 @@
+import { FastifyInstance } from "fastify";
+import { InstrumentManager } from "./instrumentManager";
+import { Currency } from "../models/instrument";
+import { KEY_RATE_TENORS, aggregateRiskLadder } from "../analytics/keyRateRisk";
+
+/**
+ * Configure REST routes exposing bucketed interest rate risk
+ */
+export function configureRiskRoutes(
+  fastify: FastifyInstance,
+  instrumentManager: InstrumentManager
+): void {
+  // Key-rate DV01 ladder by book, trader and currency, with totals per currency
+  fastify.get<{ Querystring: { book?: string; trader?: string; currency?: string } }>(
+    "/api/risk/ladder",
+    {
+      schema: {
+        querystring: {
+          type: "object",
+          properties: {
+            book: { type: "string" },
+            trader: { type: "string" },
+            currency: { type: "string" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { book, trader } = request.query;
+      const currency = request.query.currency?.toUpperCase();
+
+      // Validate currency
+      if (currency && !Object.values(Currency).includes(currency as Currency)) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Invalid currency",
+          data: { validCurrencies: Object.values(Currency) },
+        };
+      }
+
+      const instruments = instrumentManager
+        .getAllInstruments()
+        .filter(
+          (instrument) =>
+            (!book || instrument.book === book) &&
+            (!trader || instrument.trader === trader) &&
+            (!currency || instrument.notionalCurrency === currency)
+        );
+
+      if (instruments.length === 0) {
+        reply.code(404);
+        return {
+          success: false,
+          error: "No instruments match the filters",
+        };
+      }
+
+      const ladder = aggregateRiskLadder(instruments);
+      return {
+        filters: { book: book ?? null, trader: trader ?? null, currency: currency ?? null },
+        tenors: KEY_RATE_TENORS,
+        ladder,
+        totals: aggregateRiskLadder(instruments, ["currency"]),
+        count: ladder.length,
+      };
+    }
+  );
+}
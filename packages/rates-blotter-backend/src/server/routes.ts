@@ -242,6 +242,7 @@ export function configureRoutes(
         dayCountConvention: requestData.dayCountConvention,
         paymentFrequency: requestData.paymentFrequency ?? 0,
         settlementDays: requestData.settlementDays ?? 2,
+        settlementDate: now, // Set from the settlement calendar by addInstrument
         currentMtm: requestData.currentMtm ?? 0,
         isin: requestData.isin ?? "",
         cusip: requestData.cusip ?? "",
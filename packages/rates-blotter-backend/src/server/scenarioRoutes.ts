@@ -0,0 +1,72 @@
+import { FastifyInstance } from "fastify";
+import { MarketSimulator } from "./marketSimulator";
+import { listScenarioFiles, loadScenarioFile, parseScenarioScript } from "./scenarioScript";
+
+/**
+ * Configure REST routes for loading scripted market scenarios while the
+ * simulator runs
+ */
+export function configureScenarioRoutes(fastify: FastifyInstance, marketSimulator: MarketSimulator): void {
+  // Scripts available in the scenario directory and the one running
+  fastify.get("/api/scenario-scripts", async () => {
+    return {
+      available: listScenarioFiles(),
+      active: marketSimulator.getScenarioScriptState() ?? null,
+    };
+  });
+
+  // Start a script, by file name or given inline (admin operation)
+  fastify.post<{ Body: { file?: string; script?: unknown } }>(
+    "/api/admin/scenario-scripts",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: {
+            file: { type: "string" },
+            script: { type: "object" },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { file, script } = request.body;
+      if (!file && !script) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Give a scenario file or an inline script",
+        };
+      }
+      // Only scripts in the scenario directory, never a path elsewhere on the host
+      if (file && !listScenarioFiles().includes(file)) {
+        reply.code(400);
+        return {
+          success: false,
+          error: `Unknown scenario file: ${file}`,
+        };
+      }
+
+      try {
+        const parsed = file ? loadScenarioFile(file) : parseScenarioScript(script);
+        const state = marketSimulator.loadScenarioScript(parsed, file);
+
+        reply.code(201);
+        return { success: true, data: state };
+      } catch (error) {
+        reply.code(400);
+        return {
+          success: false,
+          error: (error as Error).message,
+        };
+      }
+    }
+  );
+
+  // Stop the running script, undoing its timed events (admin operation)
+  fastify.post("/api/admin/scenario-scripts/stop", async () => {
+    const stopped = marketSimulator.getScenarioScriptState();
+    marketSimulator.stopScenarioScript();
+    return { success: true, data: stopped ?? null };
+  });
+}
@@ -0,0 +1,316 @@
+import fs from 'fs';
+import path from 'path';
+import { CurveShock, CurveShockShape, validateCurveShock } from '../analytics/curveShocks';
+import { resolveIndex } from './curveManager';
+
+/**
+ * Directory searched first for scenario scripts
+ */
+export const DEFAULT_SCENARIO_DIRECTORY = path.resolve(__dirname, '../../data/scenarios');
+
+/**
+ * Move the curves of a currency, or one curve index, by a shock. With
+ * `over` the move is spread evenly across that many milliseconds.
+ */
+export interface ShiftCurveEvent {
+  action: 'shiftCurve';
+  at: number; // Milliseconds after the script starts
+  currency?: string;
+  index?: string;
+  shock: CurveShock;
+  over: number;
+}
+
+export interface SuspendEvent {
+  action: 'suspend';
+  at: number;
+  instrumentId: string;
+  duration?: number; // Milliseconds until the instrument trades again
+}
+
+export interface ResumeEvent {
+  action: 'resume';
+  at: number;
+  instrumentId: string;
+}
+
+export interface SetScenarioEvent {
+  action: 'setScenario';
+  at: number;
+  scenario: string;
+  duration?: number; // Milliseconds until the previous scenario comes back
+}
+
+export interface SetVolatilityEvent {
+  action: 'setVolatility';
+  at: number;
+  multiplier: number;
+  duration?: number;
+}
+
+export interface FlashEventEvent {
+  action: 'flashEvent';
+  at: number;
+  duration?: number; // Random 10-30s when not given
+}
+
+export type ScenarioEvent =
+  | ShiftCurveEvent
+  | SuspendEvent
+  | ResumeEvent
+  | SetScenarioEvent
+  | SetVolatilityEvent
+  | FlashEventEvent;
+
+/**
+ * A timeline of market events, in the order they happen
+ */
+export interface ScenarioScript {
+  name: string;
+  description?: string;
+  events: ScenarioEvent[];
+}
+
+/**
+ * What a scenario script has to do on one tick. `fraction` is the share
+ * of a gradual curve shift due now; `ends` marks an event whose duration
+ * has run out and is to be undone.
+ */
+export interface ScenarioStep {
+  event: ScenarioEvent;
+  index: number; // Position of the event in the script
+  fraction: number;
+  ends: boolean;
+}
+
+export type ScenarioScriptStatus = 'running' | 'finished';
+
+export interface ScenarioScriptState {
+  name: string;
+  description?: string;
+  source?: string;
+  status: ScenarioScriptStatus;
+  startTime: string;
+  currentTime: string;
+  elapsed: number; // Milliseconds since the script started
+  events: number;
+  completed: number; // Events fully applied and, where timed, undone
+}
+
+const DURATION_UNITS: Record<string, number> = { ms: 1, s: 1000, m: 60_000, h: 3_600_000 };
+
+/**
+ * Parse a time offset such as `T+30s`, `5m`, `1m30s` or `250ms` into
+ * milliseconds. Plain numbers are seconds.
+ */
+export function parseScenarioDuration(value: unknown): number {
+  if (typeof value === 'number' && value >= 0) {
+    return value * 1000;
+  }
+  const text = typeof value === 'string' ? value.trim().replace(/^T\+/i, '') : '';
+  if (!/^(\d+(\.\d+)?(ms|s|m|h))+$/.test(text)) {
+    throw new Error(`Invalid scenario duration: ${value}`);
+  }
+
+  let total = 0;
+  for (const [, amount, , unit] of text.matchAll(/(\d+(\.\d+)?)(ms|s|m|h)/g)) {
+    total += parseFloat(amount) * DURATION_UNITS[unit];
+  }
+  return total;
+}
+
+function optionalDuration(value: unknown): number | undefined {
+  return value === undefined ? undefined : parseScenarioDuration(value);
+}
+
+function requireString(raw: Record<string, unknown>, field: string): string {
+  const value = raw[field];
+  if (typeof value !== 'string' || value.trim() === '') {
+    throw new Error(`${raw.action} needs ${field}`);
+  }
+  return value;
+}
+
+function parseEvent(raw: Record<string, unknown>): ScenarioEvent {
+  const at = parseScenarioDuration(raw.at ?? 0);
+
+  switch (raw.action) {
+    case 'shiftCurve': {
+      if (raw.currency === undefined && raw.index === undefined) {
+        throw new Error('shiftCurve needs a currency or an index');
+      }
+      if (raw.index !== undefined && !resolveIndex(String(raw.index))) {
+        throw new Error(`Unknown index: ${raw.index}`);
+      }
+      const shock: CurveShock = {
+        shape: (raw.shape ?? 'parallel') as CurveShockShape,
+        bp: Number(raw.bp),
+        shortTenor: raw.shortTenor as string | undefined,
+        longTenor: raw.longTenor as string | undefined,
+        pivotTenor: raw.pivotTenor as string | undefined,
+      };
+      validateCurveShock(shock);
+      return {
+        action: 'shiftCurve',
+        at,
+        currency: raw.currency as string | undefined,
+        index: raw.index as string | undefined,
+        shock,
+        over: parseScenarioDuration(raw.over ?? 0),
+      };
+    }
+    case 'suspend':
+      return { action: 'suspend', at, instrumentId: requireString(raw, 'instrumentId'), duration: optionalDuration(raw.for) };
+    case 'resume':
+      return { action: 'resume', at, instrumentId: requireString(raw, 'instrumentId') };
+    case 'setScenario':
+      return { action: 'setScenario', at, scenario: requireString(raw, 'scenario'), duration: optionalDuration(raw.for) };
+    case 'setVolatility': {
+      const multiplier = Number(raw.multiplier);
+      if (!(multiplier >= 0)) {
+        throw new Error(`Invalid volatility multiplier: ${raw.multiplier}`);
+      }
+      return { action: 'setVolatility', at, multiplier, duration: optionalDuration(raw.for) };
+    }
+    case 'flashEvent':
+      return { action: 'flashEvent', at, duration: optionalDuration(raw.for) };
+    default:
+      throw new Error(`Unknown scenario action: ${raw.action}`);
+  }
+}
+
+/**
+ * Parse a scenario script from its JSON form: a name and a list of events,
+ * each with an `action`, an `at` offset from the start of the script and
+ * the action's own fields. Timed actions take a `for` duration.
+ */
+export function parseScenarioScript(value: unknown): ScenarioScript {
+  const raw = value as { name?: unknown; description?: unknown; events?: unknown };
+  if (!raw || typeof raw.name !== 'string' || !Array.isArray(raw.events)) {
+    throw new Error('Scenario script needs a name and a list of events');
+  }
+
+  const events = raw.events.map((event, i) => {
+    try {
+      return parseEvent(event as Record<string, unknown>);
+    } catch (err) {
+      throw new Error(`Scenario event ${i + 1}: ${(err as Error).message}`);
+    }
+  });
+
+  return {
+    name: raw.name,
+    description: typeof raw.description === 'string' ? raw.description : undefined,
+    // Stable, so events at the same time keep their file order
+    events: events
+      .map((event, i) => ({ event, i }))
+      .sort((a, b) => a.event.at - b.event.at || a.i - b.i)
+      .map(({ event }) => event),
+  };
+}
+
+/**
+ * Load a .json scenario script, by name from the scenario directory or by
+ * path
+ */
+export function loadScenarioFile(file: string, directory: string = DEFAULT_SCENARIO_DIRECTORY): ScenarioScript {
+  const inDirectory = path.resolve(directory, file);
+  const resolved = fs.existsSync(inDirectory) ? inDirectory : path.resolve(file);
+  if (!fs.existsSync(resolved)) {
+    throw new Error(`Scenario file not found: ${file}`);
+  }
+  if (path.extname(resolved).toLowerCase() !== '.json') {
+    throw new Error(`Unsupported scenario file type: ${file}`);
+  }
+
+  return parseScenarioScript(JSON.parse(fs.readFileSync(resolved, 'utf8')));
+}
+
+/**
+ * Scenario scripts in a directory
+ */
+export function listScenarioFiles(directory: string = DEFAULT_SCENARIO_DIRECTORY): string[] {
+  if (!fs.existsSync(directory)) return [];
+  return fs.readdirSync(directory).filter(file => file.endsWith('.json')).sort();
+}
+
+/**
+ * Cursor over a scenario script's timeline, measured in simulation time
+ * from when the script was started
+ */
+export class ScenarioRun {
+  private progress: number[];
+  private ended: boolean[];
+  private currentTime: number;
+
+  constructor(private script: ScenarioScript, private startTime: number, private source?: string) {
+    this.progress = script.events.map(() => 0);
+    this.ended = script.events.map(event => !('duration' in event) || event.duration === undefined);
+    this.currentTime = startTime;
+  }
+
+  getScript(): ScenarioScript {
+    return this.script;
+  }
+
+  isFinished(): boolean {
+    return this.script.events.every((_, i) => this.isComplete(i));
+  }
+
+  /**
+   * Move the clock on to `now` and return what is due: the start of each
+   * event reached, the next share of each gradual shift under way and the
+   * end of each timed event that has run its course
+   */
+  advance(now: number): ScenarioStep[] {
+    this.currentTime = Math.max(this.currentTime, now);
+    const elapsed = this.currentTime - this.startTime;
+    const steps: ScenarioStep[] = [];
+
+    this.script.events.forEach((event, index) => {
+      if (elapsed < event.at) return;
+
+      const over = event.action === 'shiftCurve' ? event.over : 0;
+      const progress = over > 0 ? Math.min(1, (elapsed - event.at) / over) : 1;
+      if (progress > this.progress[index]) {
+        steps.push({ event, index, fraction: progress - this.progress[index], ends: false });
+        this.progress[index] = progress;
+      }
+
+      if (!this.ended[index] && 'duration' in event && event.duration !== undefined && elapsed >= event.at + event.duration) {
+        steps.push({ event, index, fraction: 0, ends: true });
+        this.ended[index] = true;
+      }
+    });
+
+    return steps;
+  }
+
+  /**
+   * Events started but not yet undone, to be undone if the script is
+   * stopped early
+   */
+  pending(): ScenarioStep[] {
+    return this.script.events
+      .map((event, index) => ({ event, index, fraction: 0, ends: true }))
+      .filter(step => this.progress[step.index] > 0 && !this.ended[step.index]);
+  }
+
+  getState(): ScenarioScriptState {
+    return {
+      name: this.script.name,
+      description: this.script.description,
+      source: this.source,
+      status: this.isFinished() ? 'finished' : 'running',
+      startTime: new Date(this.startTime).toISOString(),
+      currentTime: new Date(this.currentTime).toISOString(),
+      elapsed: this.currentTime - this.startTime,
+      events: this.script.events.length,
+      completed: this.script.events.filter((_, i) => this.isComplete(i)).length,
+    };
+  }
+
+  private isComplete(index: number): boolean {
+    return this.progress[index] >= 1 && this.ended[index];
+  }
+}
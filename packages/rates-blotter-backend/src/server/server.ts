@@ -5,9 +5,32 @@ import { Server } from 'socket.io';
 import { MarketSimulator } from './marketSimulator';
 import { InstrumentManager } from './instrumentManager';
 import { ClientManager } from './clientManager';
+import { CurveManager } from './curveManager';
+import { CalendarManager } from './calendarManager';
+import { VolSurfaceManager } from './volSurfaceManager';
 import { configureRoutes } from './routes';
+import { configureCurveRoutes } from './curveRoutes';
+import { configureCalendarRoutes } from './calendarRoutes';
+import { configureAnalyticsRoutes } from './analyticsRoutes';
+import { configureVolSurfaceRoutes } from './volSurfaceRoutes';
+import { configureFuturesRoutes } from './futuresRoutes';
+import { configureFixingsRoutes } from './fixingsRoutes';
+import { configureRiskRoutes } from './riskRoutes';
+import { configureScenarioRoutes } from './scenarioRoutes';
+import { configureSimulatorRoutes } from './simulatorRoutes';
+import { configureShockRoutes } from './shockRoutes';
+import { configureCloseRoutes } from './closeRoutes';
+import { FixingsManager } from './fixingsManager';
+import { CloseStore, closeRegionsFromTimes } from './closeStore';
+import { configureTradeRoutes } from './tradeRoutes';
+import { configureReplayRoutes } from './replayRoutes';
+import { TradeTape } from './tradeTape';
+import { loadReplayFile } from './marketReplay';
+import { loadScenarioFile } from './scenarioScript';
 import { configureSocketHandlers } from './socketHandlers';
 import { ServerConfig } from '../types';
+import { createSeededRandom } from '../utils/random';
+import { ManualClock, systemClock } from '../utils/clock';
 
 export class RatesBlotterServer {
   private fastify: FastifyInstance;
@@ -15,6 +38,12 @@ export class RatesBlotterServer {
   private marketSimulator: MarketSimulator;
   private instrumentManager: InstrumentManager;
   private clientManager: ClientManager;
+  private curveManager: CurveManager;
+  private calendarManager: CalendarManager;
+  private volSurfaceManager: VolSurfaceManager;
+  private fixingsManager: FixingsManager;
+  private closeStore: CloseStore;
+  private tradeTape: TradeTape;
 
   constructor(private config: ServerConfig) {
     // Initialize Fastify with logging configuration
@@ -31,15 +60,31 @@ export class RatesBlotterServer {
       },
     });
 
-    // Initialize core components
-    this.instrumentManager = new InstrumentManager();
+    // Initialize core components; curves and surfaces are stamped in simulation time
+    const clock = config.simulationStartTime ? new ManualClock(parseStartTime(config.simulationStartTime)) : systemClock;
+    this.calendarManager = new CalendarManager(config.calendarDirectory);
+    this.instrumentManager = new InstrumentManager(this.calendarManager);
+    this.curveManager = new CurveManager(undefined, clock);
+    this.volSurfaceManager = new VolSurfaceManager(undefined, clock);
+    this.fixingsManager = new FixingsManager(config.fixingsDirectory);
+    this.closeStore = new CloseStore();
+    this.tradeTape = new TradeTape(config.tradeHistorySize);
     this.marketSimulator = new MarketSimulator(
       this.instrumentManager,
       {
         updateInterval: config.marketUpdateInterval || 1000,
         scenario: config.marketScenario || 'normal',
         volatilityMultiplier: config.volatilityMultiplier || 1.0,
-      }
+        random: config.simulationSeed !== undefined ? createSeededRandom(checkSeed(config.simulationSeed)) : undefined,
+        clock,
+        closeRegions: closeRegionsFromTimes(config.closeTimes),
+        orderBookLevels: config.orderBookLevels,
+      },
+      this.curveManager,
+      this.volSurfaceManager,
+      this.fixingsManager,
+      this.closeStore,
+      this.tradeTape
     );
 
     this.clientManager = new ClientManager({
@@ -64,8 +109,22 @@ export class RatesBlotterServer {
     // Get Socket.IO instance
     this.io = this.fastify.io;
 
-    // Configure routes and socket handlers
+    // Configure routes and socket handlers; analytics are valued at simulation time
+    const now = () => this.marketSimulator.now();
     configureRoutes(this.fastify, this.instrumentManager);
+    configureCurveRoutes(this.fastify, this.curveManager);
+    configureCalendarRoutes(this.fastify, this.calendarManager);
+    configureAnalyticsRoutes(this.fastify, this.instrumentManager, this.curveManager, now, this.fixingsManager);
+    configureVolSurfaceRoutes(this.fastify, this.volSurfaceManager);
+    configureFuturesRoutes(this.fastify, this.instrumentManager, this.curveManager, now);
+    configureFixingsRoutes(this.fastify, this.instrumentManager, this.curveManager, this.fixingsManager, now);
+    configureRiskRoutes(this.fastify, this.instrumentManager);
+    configureScenarioRoutes(this.fastify, this.marketSimulator);
+    configureSimulatorRoutes(this.fastify, this.marketSimulator);
+    configureReplayRoutes(this.fastify, this.marketSimulator);
+    configureShockRoutes(this.fastify, this.marketSimulator);
+    configureCloseRoutes(this.fastify, this.closeStore);
+    configureTradeRoutes(this.fastify, this.instrumentManager, this.tradeTape);
     configureSocketHandlers(
       this.io,
       this.instrumentManager,
@@ -75,6 +134,19 @@ export class RatesBlotterServer {
 
     // Initialize market simulator
     await this.marketSimulator.initialize();
+    if (this.config.fastForwardTicks) {
+      this.marketSimulator.fastForward(this.config.fastForwardTicks);
+    }
+    if (this.config.replayFile) {
+      this.marketSimulator.startReplay(
+        loadReplayFile(this.config.replayFile),
+        { speed: this.config.replaySpeed, loop: this.config.replayLoop },
+        this.config.replayFile
+      );
+    }
+    if (this.config.scenarioFile) {
+      this.marketSimulator.loadScenarioScript(loadScenarioFile(this.config.scenarioFile), this.config.scenarioFile);
+    }
 
     this.fastify.log.info('Server initialized successfully');
   }
@@ -101,4 +173,19 @@ export class RatesBlotterServer {
     await this.fastify.close();
     this.fastify.log.info('Server stopped');
   }
-}
\ No newline at end of file
+}
+
+function checkSeed(value: number): number {
+  if (!Number.isSafeInteger(value)) {
+    throw new Error(`Invalid simulation seed: ${value}`);
+  }
+  return value;
+}
+
+function parseStartTime(value: string): Date {
+  const start = new Date(value);
+  if (isNaN(start.getTime())) {
+    throw new Error(`Invalid simulation start time: ${value}`);
+  }
+  return start;
+}
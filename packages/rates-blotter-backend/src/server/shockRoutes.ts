@@ -0,0 +1,83 @@
+import { FastifyInstance } from "fastify";
+import { MarketSimulator } from "./marketSimulator";
+import { ShockFilter } from "./marketShocks";
+import { CURVE_SHOCK_SHAPES, CurveShock } from "../analytics/curveShocks";
+
+interface ShockBody extends ShockFilter {
+  shape: CurveShock["shape"];
+  bp: number;
+  shortTenor?: string;
+  longTenor?: string;
+  pivotTenor?: string;
+}
+
+const SHOCK_BODY_PROPERTIES = {
+  shape: { type: "string" },
+  bp: { type: "number" },
+  shortTenor: { type: "string" },
+  longTenor: { type: "string" },
+  pivotTenor: { type: "string" },
+  notionalCurrency: { type: "array", items: { type: "string" } },
+  securityType: { type: "array", items: { type: "string" } },
+  marketSector: { type: "array", items: { type: "string" } },
+  instrumentIds: { type: "array", items: { type: "string" } },
+};
+
+/**
+ * Configure REST routes for shocking the market in risk drills
+ */
+export function configureShockRoutes(fastify: FastifyInstance, marketSimulator: MarketSimulator): void {
+  // Apply an instantaneous parallel, twist or butterfly shock and report the MTM change per book (admin operation)
+  fastify.post<{ Body: ShockBody }>(
+    "/api/admin/shocks",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: SHOCK_BODY_PROPERTIES,
+          required: ["shape", "bp"],
+        },
+      },
+    },
+    async (request, reply) => {
+      // A misspelt filter would otherwise leave an empty filter, shocking the whole market
+      const unknown = Object.keys(request.body).filter(key => !(key in SHOCK_BODY_PROPERTIES));
+      if (unknown.length > 0) {
+        reply.code(400);
+        return {
+          success: false,
+          error: `Unknown shock fields: ${unknown.join(", ")}`,
+          data: { validFields: Object.keys(SHOCK_BODY_PROPERTIES) },
+        };
+      }
+
+      const { shape, bp, shortTenor, longTenor, pivotTenor, ...filter } = request.body;
+
+      if (!CURVE_SHOCK_SHAPES.includes(shape)) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Invalid shock shape",
+          data: { validShapes: CURVE_SHOCK_SHAPES },
+        };
+      }
+
+      try {
+        const result = marketSimulator.applyShock({ shape, bp, shortTenor, longTenor, pivotTenor }, filter);
+        return { success: true, data: result };
+      } catch (error) {
+        reply.code(400);
+        return {
+          success: false,
+          error: (error as Error).message,
+        };
+      }
+    }
+  );
+
+  // Take shocks off the instruments shocked on their own (admin operation)
+  fastify.delete("/api/admin/shocks", async () => {
+    const cleared = marketSimulator.clearShocks();
+    return { success: true, data: { cleared } };
+  });
+}
@@ -0,0 +1,100 @@
+import { MARKET_SCENARIOS, MarketScenario, MarketSimulator, SimulatorState } from './marketSimulator';
+import { listReplayFiles, loadReplayFile } from './marketReplay';
+
+/**
+ * An operator's instruction to the running simulator, sent over REST or
+ * as a `simulator-control` socket event
+ */
+export type SimulatorCommand =
+  | { action: 'start' | 'stop' | 'pause' | 'resume' | 'endFlashEvent' }
+  | { action: 'setScenario'; scenario: string }
+  | { action: 'setVolatility'; multiplier: number }
+  | { action: 'setUpdateInterval'; interval: number } // Milliseconds
+  | { action: 'flashEvent'; duration?: number } // Milliseconds, random 10-30s when not given
+  | { action: 'startReplay'; file: string; speed?: number; loop?: boolean } // A recording in data/replays
+  | { action: 'pauseReplay' | 'resumeReplay' | 'stopReplay' }
+  | { action: 'seekReplay'; time: string } // ISO time within the recording
+  | { action: 'setReplaySpeed'; speed: number }
+  | { action: 'setReplayLoop'; loop: boolean };
+
+/**
+ * Carry out a command and return the simulator's new state. Throws on an
+ * unknown action or an invalid value.
+ */
+export function applySimulatorCommand(simulator: MarketSimulator, command: SimulatorCommand): SimulatorState {
+  switch (command?.action) {
+    case 'start':
+      simulator.start();
+      break;
+    case 'stop':
+      simulator.stop();
+      break;
+    case 'pause':
+      simulator.pause();
+      break;
+    case 'resume':
+      simulator.resume();
+      break;
+    case 'setScenario':
+      if (!MARKET_SCENARIOS.includes(command.scenario as MarketScenario)) {
+        throw new Error(`Unknown market scenario: ${command.scenario}`);
+      }
+      simulator.updateScenario(command.scenario as MarketScenario);
+      break;
+    case 'setVolatility':
+      simulator.setVolatilityMultiplier(command.multiplier);
+      break;
+    case 'setUpdateInterval':
+      simulator.setUpdateInterval(command.interval);
+      break;
+    case 'flashEvent':
+      simulator.triggerFlashEvent(command.duration);
+      break;
+    case 'endFlashEvent':
+      simulator.endFlashEvent();
+      break;
+    case 'startReplay':
+      if (!listReplayFiles().includes(command.file)) {
+        throw new Error(`Unknown replay file: ${command.file}`);
+      }
+      simulator.startReplay(loadReplayFile(command.file), { speed: command.speed, loop: command.loop }, command.file);
+      break;
+    case 'stopReplay':
+      simulator.stopReplay();
+      break;
+    case 'pauseReplay':
+      replaying(simulator);
+      simulator.pauseReplay();
+      break;
+    case 'resumeReplay':
+      replaying(simulator);
+      simulator.resumeReplay();
+      break;
+    case 'seekReplay': {
+      replaying(simulator);
+      const time = new Date(command.time);
+      if (isNaN(time.getTime())) {
+        throw new Error(`Invalid replay time: ${command.time}`);
+      }
+      simulator.seekReplay(time);
+      break;
+    }
+    case 'setReplaySpeed':
+      replaying(simulator);
+      simulator.setReplaySpeed(command.speed);
+      break;
+    case 'setReplayLoop':
+      replaying(simulator);
+      simulator.setReplayLoop(command.loop);
+      break;
+    default:
+      throw new Error(`Unknown simulator action: ${(command as { action?: string })?.action}`);
+  }
+  return simulator.getState();
+}
+
+function replaying(simulator: MarketSimulator): void {
+  if (!simulator.getReplayState()) {
+    throw new Error('No replay is running');
+  }
+}
@@ -0,0 +1,100 @@
+import { FastifyInstance, FastifyReply } from "fastify";
+import { MARKET_SCENARIOS, MarketScenario, MarketSimulator } from "./marketSimulator";
+import { SimulatorCommand, applySimulatorCommand } from "./simulatorControl";
+
+/**
+ * Configure REST routes for controlling the market simulator while it runs
+ */
+export function configureSimulatorRoutes(fastify: FastifyInstance, marketSimulator: MarketSimulator): void {
+  function run(reply: FastifyReply, command: SimulatorCommand) {
+    try {
+      return { success: true, data: applySimulatorCommand(marketSimulator, command) };
+    } catch (error) {
+      reply.code(400);
+      return {
+        success: false,
+        error: (error as Error).message,
+      };
+    }
+  }
+
+  // Current regime: running or paused, scenario, volatility, tick interval and flash event
+  fastify.get("/api/simulator", async () => {
+    return { ...marketSimulator.getState(), scenarios: MARKET_SCENARIOS };
+  });
+
+  // Start, stop, pause or resume ticking (admin operations)
+  (["start", "stop", "pause", "resume"] as const).forEach((action) => {
+    fastify.post(`/api/admin/simulator/${action}`, async (request, reply) => run(reply, { action }));
+  });
+
+  // Switch market scenario
+  fastify.put<{ Body: { scenario: string } }>(
+    "/api/admin/simulator/scenario",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: {
+            scenario: { type: "string" },
+          },
+          required: ["scenario"],
+        },
+      },
+    },
+    async (request, reply) => {
+      if (!MARKET_SCENARIOS.includes(request.body.scenario as MarketScenario)) {
+        reply.code(400);
+        return {
+          success: false,
+          error: "Invalid market scenario",
+          data: { validScenarios: MARKET_SCENARIOS },
+        };
+      }
+      return run(reply, { action: "setScenario", scenario: request.body.scenario });
+    }
+  );
+
+  // Change the volatility multiplier
+  fastify.put<{ Body: { multiplier: number } }>(
+    "/api/admin/simulator/volatility",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: {
+            multiplier: { type: "number" },
+          },
+          required: ["multiplier"],
+        },
+      },
+    },
+    async (request, reply) => run(reply, { action: "setVolatility", multiplier: request.body.multiplier })
+  );
+
+  // Change the tick interval, in milliseconds
+  fastify.put<{ Body: { interval: number } }>(
+    "/api/admin/simulator/update-interval",
+    {
+      schema: {
+        body: {
+          type: "object",
+          properties: {
+            interval: { type: "number" },
+          },
+          required: ["interval"],
+        },
+      },
+    },
+    async (request, reply) => run(reply, { action: "setUpdateInterval", interval: request.body.interval })
+  );
+
+  // Trigger a flash event, optionally lasting a given number of milliseconds
+  fastify.post<{ Body: { duration?: number } | undefined }>(
+    "/api/admin/simulator/flash-event",
+    async (request, reply) => run(reply, { action: "flashEvent", duration: request.body?.duration })
+  );
+
+  // End the flash event under way
+  fastify.delete("/api/admin/simulator/flash-event", async (request, reply) => run(reply, { action: "endFlashEvent" }));
+}
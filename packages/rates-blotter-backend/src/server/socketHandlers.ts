@@ -3,6 +3,7 @@ import { v4 as uuidv4 } from 'uuid';
 import { InstrumentManager } from './instrumentManager';
 import { MarketSimulator } from './marketSimulator';
 import { ClientManager } from './clientManager';
+import { SimulatorCommand, applySimulatorCommand } from './simulatorControl';
 import { SubscriptionRequest, DeltaUpdate, BatchUpdate } from '../types';
 import jsonLogic from 'json-logic-js';
 
@@ -59,6 +60,33 @@ export function configureSocketHandlers(
     }
   });
 
+  // Announce each overnight fixing as it is published
+  marketSimulator.onFixing((fixing) => {
+    io.emit('fixing', fixing);
+  });
+
+  // Announce coupon payments, maturities and expiries as they happen
+  marketSimulator.onLifecycleEvent((event) => {
+    io.emit('lifecycle-event', event);
+  });
+
+  // Send full order book depth to the clients watching each instrument
+  marketSimulator.onDepthUpdate((depth) => {
+    for (const book of depth) {
+      io.to(depthRoom(book.instrumentId)).emit('depth-update', book);
+    }
+  });
+
+  // Print every trade to every client, as time and sales
+  marketSimulator.onTradePrint((prints) => {
+    prints.forEach(print => io.emit('trade-print', print));
+  });
+
+  // Tell every client when the simulator's regime changes
+  marketSimulator.onStateChange((state) => {
+    io.emit('simulator-state', state);
+  });
+
   // Handle client connections
   io.on('connection', (socket: Socket) => {
     const clientId = socket.id;
@@ -66,6 +94,7 @@ export function configureSocketHandlers(
 
     // Register the client
     clientManager.registerClient(clientId);
+    socket.emit('simulator-state', marketSimulator.getState());
 
     // Handle subscription requests
     socket.on('subscribe', (request: SubscriptionRequest, callback) => {
@@ -144,10 +173,66 @@ export function configureSocketHandlers(
       }
     });
 
+    // Watch the full depth of instruments' order books, starting with their books as they stand
+    socket.on('subscribe-depth', (instrumentIds: string[], callback) => {
+      const ids = (Array.isArray(instrumentIds) ? instrumentIds : [instrumentIds]).filter(
+        id => instrumentManager.getInstrument(id) !== undefined
+      );
+      ids.forEach(id => {
+        socket.join(depthRoom(id));
+        const depth = marketSimulator.getDepth(id);
+        if (depth) {
+          socket.emit('depth-update', depth);
+        }
+      });
+
+      if (callback) {
+        callback({
+          success: true,
+          instrumentIds: ids,
+          message: `Watching depth of ${ids.length} instruments`
+        });
+      }
+    });
+
+    socket.on('unsubscribe-depth', (instrumentIds: string[], callback) => {
+      (Array.isArray(instrumentIds) ? instrumentIds : [instrumentIds]).forEach(id => socket.leave(depthRoom(id)));
+      if (callback) {
+        callback({
+          success: true,
+          message: 'Stopped watching depth'
+        });
+      }
+    });
+
+    // Operator control of the simulator; the new state goes to every client
+    socket.on('simulator-control', (command: SimulatorCommand, callback) => {
+      try {
+        const state = applySimulatorCommand(marketSimulator, command);
+        if (callback) {
+          callback({ success: true, state });
+        }
+      } catch (error) {
+        if (callback) {
+          callback({
+            success: false,
+            message: (error as Error).message
+          });
+        }
+      }
+    });
+
     // Handle client disconnection
     socket.on('disconnect', () => {
       console.log(`Client disconnected: ${clientId}`);
       clientManager.unregisterClient(clientId);
     });
   });
-}
\ No newline at end of file
+}
+
+/**
+ * Socket.IO room of the clients watching an instrument's order book
+ */
+function depthRoom(instrumentId: string): string {
+  return `depth:${instrumentId}`;
+}
@@ -0,0 +1,52 @@
+import { FastifyInstance } from "fastify";
+import { InstrumentManager } from "./instrumentManager";
+import { TradeTape } from "./tradeTape";
+
+/**
+ * Configure REST routes exposing the simulated trade tape
+ */
+export function configureTradeRoutes(
+  fastify: FastifyInstance,
+  instrumentManager: InstrumentManager,
+  tradeTape: TradeTape
+): void {
+  // Time and sales: an instrument's latest trades, newest first
+  fastify.get<{ Params: { instrumentId: string }; Querystring: { limit?: number } }>(
+    "/api/instruments/:instrumentId/trades",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: {
+            instrumentId: { type: "string" },
+          },
+          required: ["instrumentId"],
+        },
+        querystring: {
+          type: "object",
+          properties: {
+            limit: { type: "integer", minimum: 1 },
+          },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { instrumentId } = request.params;
+
+      if (!instrumentManager.getInstrument(instrumentId)) {
+        reply.code(404);
+        return {
+          success: false,
+          error: "Instrument not found",
+        };
+      }
+
+      const trades = tradeTape.getTrades(instrumentId, request.query.limit);
+      return {
+        instrumentId,
+        trades,
+        count: trades.length,
+      };
+    }
+  );
+}
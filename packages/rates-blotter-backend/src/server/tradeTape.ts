@@ -0,0 +1,48 @@
+import { RingBuffer } from '../utils/ringBuffer';
+
+/** Trades kept per instrument unless configured otherwise */
+export const DEFAULT_TRADE_HISTORY_SIZE = 500;
+
+/**
+ * A trade in an instrument's book: a seller hitting the bid or a buyer
+ * lifting the offer
+ */
+export interface TradePrint {
+  tradeId: string;
+  instrumentId: string;
+  price: number;
+  size: number;
+  aggressor: 'BUY' | 'SELL';
+  timestamp: string;
+}
+
+/**
+ * Time and sales: the latest trades in each instrument, each instrument's
+ * history a ring buffer so the oldest trades drop off
+ */
+export class TradeTape {
+  private trades: Map<string, RingBuffer<TradePrint>> = new Map();
+
+  constructor(private historySize: number = DEFAULT_TRADE_HISTORY_SIZE) {
+    if (!Number.isInteger(historySize) || historySize < 1) {
+      throw new Error(`Invalid trade history size: ${historySize}`);
+    }
+  }
+
+  record(print: TradePrint): void {
+    let history = this.trades.get(print.instrumentId);
+    if (!history) {
+      history = new RingBuffer<TradePrint>(this.historySize);
+      this.trades.set(print.instrumentId, history);
+    }
+    history.push(print);
+  }
+
+  /**
+   * An instrument's trades, newest first
+   */
+  getTrades(instrumentId: string, limit?: number): TradePrint[] {
+    const trades = this.trades.get(instrumentId)?.toArray().reverse() ?? [];
+    return limit !== undefined ? trades.slice(0, limit) : trades;
+  }
+}
@@ -0,0 +1,364 @@
+import { CurveManager, DISCOUNT_INDEX } from './curveManager';
+import { CalendarManager } from './calendarManager';
+import { InstrumentManager } from './instrumentManager';
+import { FixingsManager } from './fixingsManager';
+import { Instrument, SecurityType } from '../models/instrument';
+import { BusinessDayConvention, DayCountConvention } from '../models/enums';
+import { Bond } from '../models/bond';
+import { Future } from '../models/future';
+import { InterestRateSwap } from '../models/interestRateSwap';
+import { ForwardRateAgreement } from '../models/fra';
+import { MoneyMarketInstrument } from '../models/moneyMarket';
+import { Repo } from '../models/repo';
+import { SwapValuationContext, swapMtm } from '../analytics/swapPricing';
+import { FraValuationContext, valueFra } from '../analytics/fraPricing';
+import { bondAnalytics } from '../analytics/bondMath';
+import { moneyMarketAnalytics, moneyMarketBasis } from '../analytics/moneyMarket';
+import { KeyRateDv01, keyRateDv01 } from '../analytics/keyRateRisk';
+import { CarryRoll, bondCarryRoll, carryHorizonDate, swapCarryRoll } from '../analytics/carryRoll';
+import {
+  DeliverableAnalysis,
+  DeliveryContext,
+  DeliveryContract,
+  analyseDeliveryBasket,
+  deliveryContract,
+} from '../analytics/bondFutures';
+import { YieldCurve, yearsBetween } from '../analytics/curve';
+import { daysBetween, daysInMonth, formatDate, toDate } from '../analytics/dates';
+
+/**
+ * Curves, calendar, conventions and, when a fixings store is given, the
+ * floating index's fixings for valuing a swap as of a date. Undefined
+ * when the currency has no discount curve.
+ */
+export function swapValuationContext(
+  swap: InterestRateSwap,
+  curveManager: CurveManager,
+  calendarManager: CalendarManager,
+  asOf: Date,
+  fixingsManager?: FixingsManager
+): SwapValuationContext | undefined {
+  const currency = swap.notionalCurrency;
+  const discountCurve = curveManager.getDiscountCurve(currency);
+  const forwardCurve = curveManager.getForwardCurve(swap.floatingRateIndex, currency);
+  if (!discountCurve || !forwardCurve) return undefined;
+
+  return {
+    asOf: toDate(asOf),
+    calendar: calendarManager.getCalendarForCurrency(currency),
+    discountCurve,
+    forwardCurve,
+    floatingDayCount: curveManager.getIndexDayCount(swap.floatingRateIndex, currency),
+    fixings: fixingsManager?.lookup(swap.floatingRateIndex),
+  };
+}
+
+/**
+ * Curves and index day count for valuing an FRA as of a date.
+ * Undefined when the currency has no discount curve.
+ */
+export function fraValuationContext(
+  fra: ForwardRateAgreement,
+  curveManager: CurveManager,
+  asOf: Date
+): FraValuationContext | undefined {
+  const currency = fra.notionalCurrency;
+  const discountCurve = curveManager.getDiscountCurve(currency);
+  const forwardCurve = curveManager.getForwardCurve(fra.floatingRateIndex, currency);
+  if (!discountCurve || !forwardCurve) return undefined;
+
+  return {
+    asOf: toDate(asOf),
+    discountCurve,
+    forwardCurve,
+    dayCount: curveManager.getIndexDayCount(fra.floatingRateIndex, currency),
+  };
+}
+
+/**
+ * A future's delivery basket analysed against today's bond prices
+ */
+export interface FutureDeliveryBasket {
+  contract: DeliveryContract;
+  deliveryMonth: Date;
+  context: DeliveryContext;
+  deliverables: DeliverableAnalysis[];
+}
+
+/**
+ * Analyse the government bonds in the future's currency that are
+ * deliverable into it. Delivery is taken on the last business day of the
+ * contract month and financed at the discount curve's simple ACT/360 rate
+ * to delivery. Undefined for futures without delivery rules or a curve.
+ */
+export function futureDeliveryBasket(
+  future: Future,
+  instrumentManager: InstrumentManager,
+  curveManager: CurveManager,
+  asOf: Date
+): FutureDeliveryBasket | undefined {
+  const contract = deliveryContract(future);
+  const curve = curveManager.getDiscountCurve(future.notionalCurrency);
+  if (!contract || !curve) return undefined;
+
+  const deliveryMonth = toDate(future.expirationDate);
+  const monthEnd = new Date(Date.UTC(
+    deliveryMonth.getUTCFullYear(),
+    deliveryMonth.getUTCMonth(),
+    daysInMonth(deliveryMonth.getUTCFullYear(), deliveryMonth.getUTCMonth())
+  ));
+  const deliveryDate = instrumentManager
+    .getCalendarManager()
+    .getCalendarForCurrency(future.notionalCurrency)
+    .adjust(monthEnd, BusinessDayConvention.PRECEDING);
+
+  const bonds = instrumentManager
+    .getInstrumentsByType(SecurityType.GOVERNMENT_BOND)
+    .filter(bond => bond.notionalCurrency === future.notionalCurrency) as Bond[];
+  const settlement = bonds.length > 0 ? instrumentManager.spotSettlementDate(bonds[0], asOf) : toDate(asOf);
+
+  const days = daysBetween(settlement, deliveryDate);
+  const repoRate = days > 0
+    ? (1 / curve.discountFactor(yearsBetween(settlement, deliveryDate)) - 1) * (360 / days) * 100
+    : 0;
+
+  const context: DeliveryContext = { futurePrice: future.currentPrice, settlement, deliveryDate, repoRate };
+  return {
+    contract,
+    deliveryMonth,
+    context,
+    deliverables: analyseDeliveryBasket(bonds, contract, deliveryMonth, context),
+  };
+}
+
+/**
+ * Par yield in percent of a bond's remaining life on a curve, which the
+ * bond's yield is quoted as a spread to
+ */
+export function bondCurveYield(bond: Bond, curve: YieldCurve, asOf: Date): number | undefined {
+  const maturity = yearsBetween(asOf, new Date(bond.maturityDate));
+  if (maturity <= 0) return undefined;
+  return curve.parRate(maturity, bond.couponFrequency || 1) * 100;
+}
+
+/**
+ * Mark-to-market value of a position in currency: the MTM of swaps, FRAs
+ * and repos, and the price in percent of par on the notional for
+ * everything else, dirty for bonds
+ */
+export function instrumentMarketValue(instrument: Instrument): number {
+  switch (instrument.securityType) {
+    case SecurityType.INTEREST_RATE_SWAP:
+    case SecurityType.FRA:
+    case SecurityType.REPO:
+      return instrument.currentMtm ?? 0;
+    case SecurityType.GOVERNMENT_BOND:
+    case SecurityType.CORPORATE_BOND: {
+      const bond = instrument as Bond;
+      return ((bond.dirtyPrice || bond.currentPrice) * bond.notionalAmount) / 100;
+    }
+    default: {
+      const priced = instrument as Instrument & { currentPrice?: number };
+      return ((priced.currentPrice ?? 0) * instrument.notionalAmount) / 100;
+    }
+  }
+}
+
+/**
+ * Level an instrument is quoted at: the price of bonds, futures, options
+ * and bills, the rate of swaps, FRAs and repos
+ */
+export function quotedLevel(instrument: Instrument): number {
+  switch (instrument.securityType) {
+    case SecurityType.INTEREST_RATE_SWAP:
+      return (instrument as InterestRateSwap).swapRate;
+    case SecurityType.FRA:
+      return (instrument as ForwardRateAgreement).forwardRate;
+    case SecurityType.REPO:
+      return (instrument as Repo).marketRepoRate;
+    default:
+      return (instrument as Bond | Future | MoneyMarketInstrument).currentPrice;
+  }
+}
+
+/**
+ * Simple money-market rate in percent on a curve from a date to an end date
+ */
+export function simpleCurveRate(curve: YieldCurve, asOf: Date, endDate: string, dayCount: DayCountConvention): number | undefined {
+  const days = daysBetween(toDate(asOf), toDate(endDate));
+  if (days <= 0) return undefined;
+  const discountFactor = curve.discountFactor(yearsBetween(asOf, new Date(endDate)));
+  return (1 / discountFactor - 1) * (moneyMarketBasis(dayCount) / days) * 100;
+}
+
+/**
+ * Key-rate DV01s of a bond, money-market instrument, swap or FRA, revalued
+ * the way the simulator prices it: bonds and money-market instruments at
+ * their spread to the discount curve, swaps and FRAs off their discount
+ * and projection curves. Undefined for other instruments and once an
+ * instrument has matured or fixed.
+ */
+export function instrumentKeyRateDv01(
+  instrument: Instrument,
+  instrumentManager: InstrumentManager,
+  curveManager: CurveManager,
+  asOf: Date,
+  fixingsManager?: FixingsManager
+): KeyRateDv01 | undefined {
+  const discountCurve = curveManager.getDiscountCurve(instrument.notionalCurrency);
+  if (!discountCurve) return undefined;
+
+  switch (instrument.securityType) {
+    case SecurityType.GOVERNMENT_BOND:
+    case SecurityType.CORPORATE_BOND: {
+      const bond = instrument as Bond;
+      const settlement = instrumentManager.spotSettlementDate(bond, asOf);
+      if (settlement.getTime() >= toDate(bond.maturityDate).getTime()) return undefined;
+
+      return keyRateDv01(curve => {
+        const parYield = bondCurveYield(bond, curve, asOf) ?? 0;
+        const yieldPct = Math.max(0.001, parYield + bond.spread / 100);
+        return (bondAnalytics(bond, yieldPct, settlement).dirtyPrice * bond.notionalAmount) / 100;
+      }, discountCurve, discountCurve);
+    }
+    case SecurityType.MONEY_MARKET: {
+      const mm = instrument as MoneyMarketInstrument;
+      const settlement = instrumentManager.spotSettlementDate(mm, asOf);
+      if (simpleCurveRate(discountCurve, asOf, mm.maturityDate, mm.dayCountConvention) === undefined) return undefined;
+
+      return keyRateDv01(curve => {
+        const curveYield = simpleCurveRate(curve, asOf, mm.maturityDate, mm.dayCountConvention) ?? 0;
+        const yieldPct = Math.max(0.001, curveYield + mm.spread / 100);
+        return (moneyMarketAnalytics(mm, yieldPct, settlement).price * mm.faceValue) / 100;
+      }, discountCurve, discountCurve);
+    }
+    case SecurityType.INTEREST_RATE_SWAP: {
+      const swap = instrument as InterestRateSwap;
+      if (toDate(swap.maturityDate).getTime() <= toDate(asOf).getTime()) return undefined;
+      const context = swapValuationContext(swap, curveManager, instrumentManager.getCalendarManager(), asOf, fixingsManager);
+      if (!context) return undefined;
+
+      return keyRateDv01(
+        (discount, forward) => swapMtm(swap, { ...context, discountCurve: discount, forwardCurve: forward }),
+        context.discountCurve,
+        context.forwardCurve
+      );
+    }
+    case SecurityType.FRA: {
+      const fra = instrument as ForwardRateAgreement;
+      if (toDate(fra.startDate).getTime() <= toDate(asOf).getTime()) return undefined;
+      const context = fraValuationContext(fra, curveManager, asOf);
+      if (!context) return undefined;
+
+      return keyRateDv01(
+        (discount, forward) => valueFra(fra, { ...context, discountCurve: discount, forwardCurve: forward }).mtm,
+        context.discountCurve,
+        context.forwardCurve
+      );
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Carry and roll-down of one instrument to a horizon
+ */
+export interface InstrumentCarryRoll extends CarryRoll {
+  instrumentId: string;
+  securityType: SecurityType;
+  book: string;
+  trader: string;
+  currency: string;
+  horizon: string;
+  horizonDate: string;
+}
+
+/**
+ * Rate in percent a bond is financed at to a date: the market rate of a
+ * repo in the book against it, otherwise general collateral at the
+ * discount curve's simple rate
+ */
+function bondRepoRate(
+  bond: Bond,
+  instrumentManager: InstrumentManager,
+  curveManager: CurveManager,
+  curve: YieldCurve,
+  settlement: Date,
+  endDate: Date
+): { rate: number; dayCount: DayCountConvention } {
+  const dayCount = curveManager.getIndexDayCount(DISCOUNT_INDEX[bond.notionalCurrency] ?? '', bond.notionalCurrency);
+  const special = (instrumentManager.getInstrumentsByType(SecurityType.REPO) as Repo[]).find(
+    repo => repo.collateralId === bond.instrumentId && toDate(repo.endDate).getTime() > settlement.getTime()
+  );
+  if (special) return { rate: special.marketRepoRate, dayCount: special.dayCountConvention };
+
+  return { rate: simpleCurveRate(curve, settlement, formatDate(endDate), dayCount) ?? 0, dayCount };
+}
+
+/**
+ * Carry and roll-down of a bond or swap to a horizon such as 3M, on the
+ * curves as they stand. Bonds are priced at their spread to the discount
+ * curve at both ends and financed in repo, at `repoRate` when given.
+ * Undefined for other instruments, unknown horizons and once matured.
+ */
+export function instrumentCarryRoll(
+  instrument: Instrument,
+  instrumentManager: InstrumentManager,
+  curveManager: CurveManager,
+  horizon: string,
+  asOf: Date,
+  fixingsManager?: FixingsManager,
+  repoRate?: number
+): InstrumentCarryRoll | undefined {
+  const horizonDate = carryHorizonDate(asOf, horizon);
+  const curve = curveManager.getDiscountCurve(instrument.notionalCurrency);
+  if (!horizonDate || !curve) return undefined;
+
+  let carryRoll: CarryRoll | undefined;
+  switch (instrument.securityType) {
+    case SecurityType.GOVERNMENT_BOND:
+    case SecurityType.CORPORATE_BOND: {
+      const bond = instrument as Bond;
+      const settlement = instrumentManager.spotSettlementDate(bond, asOf);
+      const horizonSettlement = instrumentManager.spotSettlementDate(bond, horizonDate);
+      const parYield = bondCurveYield(bond, curve, asOf);
+      if (parYield === undefined) return undefined;
+
+      const funding = bondRepoRate(bond, instrumentManager, curveManager, curve, settlement, horizonSettlement);
+      carryRoll = bondCarryRoll(bond, {
+        settlement,
+        horizonSettlement,
+        yieldPct: Math.max(0.001, parYield + bond.spread / 100),
+        horizonYieldPct: Math.max(0.001, (bondCurveYield(bond, curve, horizonDate) ?? 0) + bond.spread / 100),
+        repoRate: repoRate ?? funding.rate,
+        repoBasis: moneyMarketBasis(funding.dayCount),
+      });
+      break;
+    }
+    case SecurityType.INTEREST_RATE_SWAP: {
+      const swap = instrument as InterestRateSwap;
+      const context = swapValuationContext(swap, curveManager, instrumentManager.getCalendarManager(), asOf, fixingsManager);
+      carryRoll = context && swapCarryRoll(swap, context, horizonDate);
+      break;
+    }
+    default:
+      return undefined;
+  }
+  if (!carryRoll) return undefined;
+
+  const rounded = Object.fromEntries(
+    Object.entries(carryRoll).map(([field, value]) => [field, parseFloat(value.toFixed(field === 'fundingRate' ? 4 : 2))])
+  ) as unknown as CarryRoll;
+
+  return {
+    instrumentId: instrument.instrumentId,
+    securityType: instrument.securityType,
+    book: instrument.book,
+    trader: instrument.trader,
+    currency: instrument.notionalCurrency,
+    horizon,
+    horizonDate: formatDate(horizonDate),
+    ...rounded,
+  };
+}
@@ -0,0 +1,192 @@
+import { tenorToYears } from '../analytics/curve';
+import {
+  SabrParameters,
+  SmileModel,
+  SmileSlice,
+  SviParameters,
+  VolSurface,
+  fitSabr,
+  fitSvi,
+  smileVolatility,
+} from '../analytics/volSurface';
+import { Clock, systemClock } from '../utils/clock';
+
+/**
+ * Tenors reported in the ATM term structure of a surface snapshot
+ */
+export const VOL_TENORS = ['1M', '2M', '3M', '6M', '9M', '1Y', '18M', '2Y'];
+
+/**
+ * Quoted smile at one expiry. Strikes are quoted relative to the
+ * underlying price so the smile travels with the market.
+ */
+export interface VolExpiryQuotes {
+  tenor: string;
+  quotes: { strikeOffset: number; vol: number }[]; // Strike less underlying price; Black vol in percent
+}
+
+/**
+ * Market vol quotes and smile model for one underlying
+ */
+export interface VolSurfaceDefinition {
+  underlying: string;
+  model: SmileModel;
+  beta?: number; // SABR backbone, 0.5 by default
+  expiries: VolExpiryQuotes[];
+}
+
+export interface VolSurfaceSnapshot {
+  underlying: string;
+  model: SmileModel;
+  forward: number;
+  asOf: string;
+  expiries: {
+    tenor: string;
+    time: number;
+    atmVol: number; // Percent
+    rmse: number; // Fit error, vol points
+    parameters: SabrParameters | SviParameters;
+    smile: { strike: number; strikeOffset: number; quotedVol: number; fittedVol: number }[];
+  }[];
+  termStructure: { tenor: string; time: number; atmVol: number }[];
+}
+
+/**
+ * Owns the vol quotes for every option underlying and the surfaces fitted
+ * to them. Surfaces are refitted at the underlying's latest price, and
+ * snapshots stamped with the time on `clock` they were last fitted.
+ */
+export class VolSurfaceManager {
+  private definitions: Map<string, VolSurfaceDefinition> = new Map();
+  private surfaces: Map<string, VolSurface> = new Map();
+  private lastBuilt: Date;
+
+  constructor(definitions: VolSurfaceDefinition[] = createDefaultVolSurfaceDefinitions(), private clock: Clock = systemClock) {
+    this.lastBuilt = clock.now();
+    definitions.forEach(definition => {
+      this.definitions.set(definition.underlying, JSON.parse(JSON.stringify(definition)));
+    });
+  }
+
+  getUnderlyings(): string[] {
+    return Array.from(this.definitions.keys());
+  }
+
+  getDefinition(underlying: string): VolSurfaceDefinition | undefined {
+    return this.definitions.get(underlying);
+  }
+
+  getSurface(underlying: string): VolSurface | undefined {
+    return this.surfaces.get(underlying);
+  }
+
+  /**
+   * Fit every expiry's smile at `forward` and store the surface
+   */
+  build(underlying: string, forward: number): VolSurface | undefined {
+    const definition = this.definitions.get(underlying);
+    if (!definition || forward <= 0) return undefined;
+
+    const slices = definition.expiries.map(expiry => {
+      const time = tenorToYears(expiry.tenor);
+      const quotes = expiry.quotes.map(quote => ({ strike: forward + quote.strikeOffset, vol: quote.vol / 100 }));
+      return definition.model === 'SABR'
+        ? fitSabr(forward, time, quotes, definition.beta ?? 0.5)
+        : fitSvi(forward, time, quotes);
+    });
+
+    const surface = new VolSurface(underlying, forward, slices);
+    this.surfaces.set(underlying, surface);
+    this.lastBuilt = this.clock.now();
+    return surface;
+  }
+
+  /**
+   * Move every vol quote by an amount in vol points and refit, at `forward`
+   * when given or else at the surface's current forward
+   */
+  shiftVols(underlying: string, shift: (time: number, strikeOffset: number) => number, forward?: number): void {
+    const definition = this.definitions.get(underlying);
+    const surface = this.surfaces.get(underlying);
+    if (!definition) return;
+
+    definition.expiries.forEach(expiry => {
+      const time = tenorToYears(expiry.tenor);
+      expiry.quotes.forEach(quote => {
+        quote.vol = Math.max(MIN_VOL, parseFloat((quote.vol + shift(time, quote.strikeOffset)).toFixed(6)));
+      });
+    });
+
+    const refitAt = forward ?? surface?.forward;
+    if (refitAt !== undefined) {
+      this.build(underlying, refitAt);
+    }
+  }
+
+  /**
+   * Quoted and fitted smiles per expiry plus the interpolated ATM term structure
+   */
+  getSnapshot(underlying: string): VolSurfaceSnapshot | undefined {
+    const definition = this.definitions.get(underlying);
+    const surface = this.surfaces.get(underlying);
+    if (!definition || !surface) return undefined;
+
+    const forward = surface.forward;
+    return {
+      underlying,
+      model: definition.model,
+      forward,
+      asOf: this.lastBuilt.toISOString(),
+      expiries: definition.expiries.map(expiry => {
+        const slice = surface.slices.find(s => s.time === tenorToYears(expiry.tenor)) as SmileSlice;
+        return {
+          tenor: expiry.tenor,
+          time: round(slice.time),
+          atmVol: round(smileVolatility(slice, forward) * 100),
+          rmse: round(slice.rmse * 100),
+          parameters: slice.parameters,
+          smile: expiry.quotes.map(quote => ({
+            strike: round(forward + quote.strikeOffset),
+            strikeOffset: quote.strikeOffset,
+            quotedVol: quote.vol,
+            fittedVol: round(smileVolatility(slice, forward + quote.strikeOffset) * 100),
+          })),
+        };
+      }),
+      termStructure: VOL_TENORS.map(tenor => {
+        const time = tenorToYears(tenor);
+        return { tenor, time: round(time), atmVol: round(surface.volatility(forward, time) * 100) };
+      }),
+    };
+  }
+}
+
+const MIN_VOL = 0.1;
+const STRIKE_OFFSETS = [-6, -4, -2, -1, 0, 1, 2, 4, 6];
+
+function smileQuotes(vols: number[]): { strikeOffset: number; vol: number }[] {
+  return vols.map((vol, i) => ({ strikeOffset: STRIKE_OFFSETS[i], vol }));
+}
+
+function round(value: number): number {
+  return parseFloat(value.toFixed(6));
+}
+
+/**
+ * Example vol quotes for each option underlying
+ */
+export function createDefaultVolSurfaceDefinitions(): VolSurfaceDefinition[] {
+  return [
+    {
+      underlying: 'ZN-U23',
+      model: 'SABR',
+      beta: 0.5,
+      expiries: [
+        { tenor: '1M', quotes: smileQuotes([7.9, 7.1, 6.45, 6.25, 6.1, 6.05, 6.1, 6.4, 6.9]) },
+        { tenor: '3M', quotes: smileQuotes([7.5, 6.9, 6.35, 6.15, 6.0, 5.95, 5.98, 6.2, 6.6]) },
+        { tenor: '6M', quotes: smileQuotes([7.1, 6.6, 6.15, 5.98, 5.85, 5.8, 5.82, 6.0, 6.3]) },
+        { tenor: '1Y', quotes: smileQuotes([6.8, 6.35, 5.95, 5.8, 5.7, 5.65, 5.66, 5.8, 6.05]) },
+      ],
+    },
+  ];
+}
@@ -0,0 +1,54 @@
+import { FastifyInstance } from "fastify";
+import { VolSurfaceManager } from "./volSurfaceManager";
+
+/**
+ * Configure REST routes exposing the fitted option vol surfaces
+ */
+export function configureVolSurfaceRoutes(
+  fastify: FastifyInstance,
+  volSurfaceManager: VolSurfaceManager
+): void {
+  // List the underlyings with a vol surface
+  fastify.get("/api/vol-surfaces", async () => {
+    const surfaces = volSurfaceManager.getUnderlyings().map((underlying) => {
+      const definition = volSurfaceManager.getDefinition(underlying)!;
+      return {
+        underlying,
+        model: definition.model,
+        expiries: definition.expiries.map((expiry) => expiry.tenor),
+        built: volSurfaceManager.getSurface(underlying) !== undefined,
+      };
+    });
+    return { surfaces, count: surfaces.length };
+  });
+
+  // Quoted and fitted smiles per expiry plus the ATM term structure
+  fastify.get<{ Params: { underlying: string } }>(
+    "/api/vol-surfaces/:underlying",
+    {
+      schema: {
+        params: {
+          type: "object",
+          properties: {
+            underlying: { type: "string" },
+          },
+          required: ["underlying"],
+        },
+      },
+    },
+    async (request, reply) => {
+      const underlying = request.params.underlying.toUpperCase();
+      const snapshot = volSurfaceManager.getSnapshot(underlying);
+
+      if (!snapshot) {
+        reply.code(404);
+        return {
+          success: false,
+          error: `No vol surface for ${underlying}`,
+        };
+      }
+
+      return snapshot;
+    }
+  );
+}
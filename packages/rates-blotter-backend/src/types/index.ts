@@ -5,10 +5,22 @@ export interface ServerConfig {
   logLevel?: 'debug' | 'info' | 'warn' | 'error';
   corsOrigins?: string | string[] | boolean;
   marketUpdateInterval?: number;
-  marketScenario?: 'normal' | 'highVolatility' | 'trending' | 'flashEvent';
+  marketScenario?: 'normal' | 'highVolatility' | 'trending' | 'flashEvent' | 'factorModel';
   volatilityMultiplier?: number;
   maxUpdatesPerSecond?: number;
   bucketSize?: number;
+  calendarDirectory?: string; // Directory of holiday calendar JSON files
+  fixingsDirectory?: string; // Directory of rate fixing history JSON files
+  simulationSeed?: number; // Seeds every random draw of the simulator for a reproducible tick stream
+  simulationStartTime?: string; // ISO time simulated time starts at; each tick then moves it one update interval
+  fastForwardTicks?: number; // Ticks run back to back at start-up, before real-time updates
+  replayFile?: string; // Recorded market data (.csv or .jsonl) to replay instead of simulating
+  replaySpeed?: number; // Recorded time played per unit of real time
+  replayLoop?: boolean; // Start the replay again after its last record
+  scenarioFile?: string; // Scenario script (.json) of market events to play out from start-up
+  closeTimes?: string; // Local end-of-day close time per region, e.g. "AMERICAS=17:00,EMEA=16:30"
+  orderBookLevels?: number; // Price levels simulated on each side of every instrument's order book
+  tradeHistorySize?: number; // Trades kept per instrument for time and sales
 }
 
 // Socket.IO related types
@@ -0,0 +1,40 @@
+/**
+ * Source of the current time for the market simulation
+ */
+export interface Clock {
+  now(): Date;
+
+  /**
+   * Move time on by one tick. The system clock moves by itself and
+   * ignores this.
+   */
+  advance(milliseconds: number): void;
+}
+
+/**
+ * Wall-clock time
+ */
+export const systemClock: Clock = {
+  now: () => new Date(),
+  advance: () => undefined,
+};
+
+/**
+ * Simulated time that starts at a given instant and only moves when
+ * advanced, so a run does not depend on when or how fast it executes
+ */
+export class ManualClock implements Clock {
+  private time: number;
+
+  constructor(start: Date) {
+    this.time = start.getTime();
+  }
+
+  now(): Date {
+    return new Date(this.time);
+  }
+
+  advance(milliseconds: number): void {
+    this.time += milliseconds;
+  }
+}
@@ -1,2 +1,5 @@
 export * from './deltaUpdates';
-export * from './tokenBucket';
\ No newline at end of file
+export * from './tokenBucket';
+export * from './random';
+export * from './clock';
+export * from './ringBuffer';
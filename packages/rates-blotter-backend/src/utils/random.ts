@@ -0,0 +1,43 @@
+/**
+ * Source of uniform random numbers in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+/**
+ * Seeded uniform random numbers (mulberry32). The same seed always gives
+ * the same sequence.
+ *
+ * @param seed Any integer; only the low 32 bits are used
+ */
+export function createSeededRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Number of events in a Poisson process with the given mean, e.g. order
+ * arrivals in an interval. Large means use the normal approximation.
+ */
+export function poissonRandom(random: RandomSource, mean: number): number {
+  if (!(mean > 0)) return 0;
+  if (mean > 30) {
+    const normal = Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+    return Math.max(0, Math.round(mean + Math.sqrt(mean) * normal));
+  }
+
+  const limit = Math.exp(-mean);
+  let count = 0;
+  let product = random();
+  while (product > limit) {
+    count++;
+    product *= random();
+  }
+  return count;
+}
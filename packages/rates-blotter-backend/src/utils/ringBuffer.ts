@@ -0,0 +1,40 @@
+/**
+ * Fixed-capacity buffer keeping the most recent items pushed to it; once
+ * full, each push overwrites the oldest item
+ */
+export class RingBuffer<T> {
+  private items: T[] = [];
+  private next = 0; // Slot the next push writes to once full
+
+  /**
+   * @param capacity Maximum number of items kept
+   */
+  constructor(readonly capacity: number) {
+    if (!Number.isInteger(capacity) || capacity < 1) {
+      throw new Error(`Invalid ring buffer capacity: ${capacity}`);
+    }
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  push(item: T): void {
+    if (this.items.length < this.capacity) {
+      this.items.push(item);
+    } else {
+      this.items[this.next] = item;
+    }
+    this.next = (this.next + 1) % this.capacity;
+  }
+
+  /**
+   * Items from the oldest kept to the newest
+   */
+  toArray(): T[] {
+    if (this.items.length < this.capacity) {
+      return this.items.slice();
+    }
+    return this.items.slice(this.next).concat(this.items.slice(0, this.next));
+  }
+}
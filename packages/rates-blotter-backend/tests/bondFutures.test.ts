@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import {
+  TREASURY_FUTURE_CONTRACTS,
+  analyseDeliverable,
+  analyseDeliveryBasket,
+  conversionFactor,
+  isDeliverable,
+  updateFutureDeliveryAnalytics,
+} from '../src/analytics/bondFutures';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { SecurityType } from '../src/models/instrument';
+import { Bond } from '../src/models/bond';
+import { Future } from '../src/models/future';
+import { date } from './helpers';
+
+describe('Bond futures delivery', () => {
+  const instrumentManager = new InstrumentManager();
+  instrumentManager.createExampleInstruments();
+  const bonds = instrumentManager.getInstrumentsByType(SecurityType.GOVERNMENT_BOND) as Bond[];
+  const future = { ...(instrumentManager.getInstrument('ZN-U23') as Future) };
+  const zn = TREASURY_FUTURE_CONTRACTS[10];
+  const zf = TREASURY_FUTURE_CONTRACTS[5];
+  const september = date('2023-09-19');
+
+  it('should price conversion factors at a 6% yield', () => {
+    expect(conversionFactor(6, date('2031-09-01'), date('2023-09-01'), 3)).toBe(1);
+    // 4% with exactly 7 years left: 2% coupons over 14 periods at 3%
+    expect(conversionFactor(4, date('2030-09-01'), date('2023-09-01'), 3)).toBe(0.887);
+    // Three months to the first coupon: discount half a period, less accrued
+    expect(conversionFactor(4, date('2030-12-01'), date('2023-09-01'), 3)).toBe(0.8837);
+  });
+
+  it('should round the term down to the contract month multiple', () => {
+    const quarterly = conversionFactor(4, date('2030-12-01'), date('2023-09-01'), 3);
+    expect(conversionFactor(4, date('2031-01-15'), date('2023-09-01'), 3)).toBe(quarterly);
+    expect(conversionFactor(4, date('2031-01-15'), date('2023-09-01'), 1)).not.toBe(quarterly);
+  });
+
+  it('should select the delivery basket by remaining and original term', () => {
+    const deliverable = bonds.filter(bond => isDeliverable(bond, zn, september)).map(bond => bond.instrumentId);
+    expect(deliverable.sort()).toEqual(['US10Y', 'US7Y', 'UST-AUG31']);
+
+    // The 7-year's original term is too long for the 5-year contract
+    const us7y = bonds.find(bond => bond.instrumentId === 'US7Y')!;
+    expect(isDeliverable({ ...us7y, maturityDate: '2028-08-31', issueDate: '2023-08-31' }, zf, september)).toBe(true);
+    expect(isDeliverable(us7y, zf, september)).toBe(false);
+  });
+
+  it('should have zero net basis when financing at the implied repo rate', () => {
+    const context = {
+      futurePrice: 110.5,
+      settlement: date('2023-06-01'),
+      deliveryDate: date('2023-09-29'),
+      repoRate: 5,
+    };
+    const us10y = bonds.find(bond => bond.instrumentId === 'US10Y')!;
+    const analysis = analyseDeliverable(us10y, zn, september, context);
+
+    expect(analysis.grossBasis).toBeCloseTo(us10y.currentPrice - 110.5 * analysis.conversionFactor, 10);
+    expect(analysis.netBasis).toBeCloseTo(analysis.grossBasis - analysis.carry, 10);
+
+    const atImpliedRepo = analyseDeliverable(us10y, zn, september, { ...context, repoRate: analysis.impliedRepoRate! });
+    expect(atImpliedRepo.netBasis).toBeCloseTo(0, 10);
+  });
+
+  it('should flag the deliverable with the highest implied repo as cheapest', () => {
+    const basket = analyseDeliveryBasket(bonds, zn, september, {
+      futurePrice: 110.5,
+      settlement: date('2023-06-01'),
+      deliveryDate: date('2023-09-29'),
+      repoRate: 5,
+    });
+    const cheapest = basket.filter(analysis => analysis.isCheapestToDeliver);
+    expect(cheapest).toHaveLength(1);
+    basket.forEach(analysis => expect(analysis.impliedRepoRate!).toBeLessThanOrEqual(cheapest[0].impliedRepoRate!));
+
+    updateFutureDeliveryAnalytics(future, basket);
+    expect(future.deliverableInstruments).toHaveLength(3);
+    expect(future.cheapestToDeliver).toBe(cheapest[0].instrumentId);
+    expect(future.conversionFactor).toBe(cheapest[0].conversionFactor);
+  });
+
+  it('should fall back to the lowest net basis with no time left to delivery', () => {
+    const basket = analyseDeliveryBasket(bonds, zn, september, {
+      futurePrice: 110.5,
+      settlement: date('2023-09-29'),
+      deliveryDate: date('2023-09-29'),
+      repoRate: 0,
+    });
+    const cheapest = basket.find(analysis => analysis.isCheapestToDeliver)!;
+    expect(cheapest.impliedRepoRate).toBeUndefined();
+    basket.forEach(analysis => expect(analysis.netBasis).toBeGreaterThanOrEqual(cheapest.netBasis));
+  });
+});
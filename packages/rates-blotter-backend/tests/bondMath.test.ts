@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bondAnalytics,
+  bondPriceFromYield,
+  bondYieldFromPrice,
+  bondYieldToWorst,
+} from '../src/analytics/bondMath';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { Bond } from '../src/models/bond';
+import { DayCountConvention } from '../src/models/enums';
+import { date } from './helpers';
+
+describe('Bond math', () => {
+  const instrumentManager = new InstrumentManager();
+  instrumentManager.createExampleInstruments();
+  const template = instrumentManager.getInstrument('US10Y') as Bond;
+
+  // 5% semi-annual 10 year bullet on 10M face
+  const bond: Bond = {
+    ...template,
+    coupon: 5,
+    couponFrequency: 2,
+    issueDate: '2024-01-15',
+    maturityDate: '2034-01-15',
+    dayCountConvention: DayCountConvention.THIRTY_360,
+    notionalAmount: 10000000,
+    callSchedule: undefined,
+  };
+
+  it('should price a bond at par when yield equals coupon on a coupon date', () => {
+    const { cleanPrice, accrued } = bondPriceFromYield(bond, 5, date('2024-01-15'));
+    expect(cleanPrice).toBeCloseTo(100, 10);
+    expect(accrued).toBe(0);
+  });
+
+  it('should compound the dirty price between coupon dates', () => {
+    // Half way through the first period under 30/360
+    const { cleanPrice, dirtyPrice, accrued } = bondPriceFromYield(bond, 5, date('2024-04-15'));
+    expect(dirtyPrice).toBeCloseTo(100 * Math.sqrt(1.025), 10);
+    expect(accrued).toBeCloseTo(1.25, 10);
+    expect(cleanPrice).toBeCloseTo(dirtyPrice - 1.25, 10);
+  });
+
+  it('should solve the yield back from a clean price', () => {
+    const settlement = date('2025-05-20');
+    [1, 3.25, 5, 8.5].forEach(yieldPct => {
+      const { cleanPrice } = bondPriceFromYield(bond, yieldPct, settlement);
+      expect(bondYieldFromPrice(bond, cleanPrice, settlement)).toBeCloseTo(yieldPct, 9);
+    });
+  });
+
+  it('should match the closed-form duration of a par bond', () => {
+    const analytics = bondAnalytics(bond, 5, date('2024-01-15'));
+    const modified = (1 / 0.05) * (1 - Math.pow(1.025, -20));
+    expect(analytics.modifiedDuration).toBeCloseTo(modified, 10);
+    expect(analytics.macaulayDuration).toBeCloseTo(modified * 1.025, 10);
+  });
+
+  it('should agree with bumped prices for DV01 and convexity', () => {
+    const settlement = date('2025-05-20');
+    const analytics = bondAnalytics(bond, 4.5, settlement);
+    const up = bondPriceFromYield(bond, 4.51, settlement).dirtyPrice;
+    const down = bondPriceFromYield(bond, 4.49, settlement).dirtyPrice;
+
+    const dv01 = ((down - up) / 2) * (bond.notionalAmount / 100);
+    expect(analytics.dv01).toBeCloseTo(dv01, 0);
+
+    const convexity = (up + down - 2 * analytics.dirtyPrice) / (analytics.dirtyPrice * 0.0001 * 0.0001);
+    expect(analytics.convexity).toBeCloseTo(convexity, 2);
+  });
+
+  it('should value a 1bp coupon stream for PV01', () => {
+    const analytics = bondAnalytics(bond, 5, date('2024-01-15'));
+    const annuity = 0.5 * (1 - Math.pow(1.025, -20)) / 0.025;
+    expect(analytics.pv01).toBeCloseTo(annuity * bond.notionalAmount * 0.0001, 6);
+  });
+
+  it('should take the lowest of yield to maturity and yields to call', () => {
+    const callable: Bond = {
+      ...bond,
+      callSchedule: [
+        { date: '2027-01-15', price: 101 },
+        { date: '2029-01-15', price: 100 },
+      ],
+    };
+    const settlement = date('2025-01-15');
+
+    // Trading well above the call prices the first call is the worst case
+    const premium = bondYieldToWorst(callable, 110, settlement);
+    expect(premium.workoutDate).toBe('2027-01-15');
+    expect(premium.redemptionPrice).toBe(101);
+    expect(premium.yield).toBeLessThan(bondYieldFromPrice(callable, 110, settlement));
+
+    // At a discount the bond is expected to run to maturity
+    const discount = bondYieldToWorst(callable, 92, settlement);
+    expect(discount.workoutDate).toBe('2034-01-15');
+    expect(discount.yield).toBeCloseTo(bondYieldFromPrice(callable, 92, settlement), 10);
+  });
+
+  it('should seed the example bonds consistently', () => {
+    const corporate = instrumentManager.getInstrument('ACME32') as Bond;
+    const settlement = instrumentManager.spotSettlementDate(corporate, corporate.lastTradeTime);
+    const { cleanPrice } = bondPriceFromYield(corporate, corporate.yieldToMaturity, settlement);
+    expect(cleanPrice).toBeCloseTo(corporate.currentPrice, 2);
+    expect(corporate.yieldToWorst).toBeLessThanOrEqual(corporate.yieldToMaturity);
+  });
+});
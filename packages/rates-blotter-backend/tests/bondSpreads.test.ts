@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import { bondSpreads } from '../src/analytics/bondSpreads';
+import { bondCashflowPoints } from '../src/analytics/bondMath';
+import { yearsBetween } from '../src/analytics/curve';
+import { CurveManager } from '../src/server/curveManager';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { Bond } from '../src/models/bond';
+import { Currency } from '../src/models/enums';
+
+const asOf = new Date('2024-03-01');
+const settlement = new Date('2024-03-05');
+
+describe('Bond spreads', () => {
+  const curve = new CurveManager().getDiscountCurve(Currency.USD)!;
+  const instrumentManager = new InstrumentManager();
+  instrumentManager.createExampleInstruments();
+  const callable = instrumentManager.getInstrument('ACME32') as Bond;
+  const bullet: Bond = { ...callable, callSchedule: undefined };
+
+  // Dirty price of the bond's flows on the curve shifted by a spread in basis points
+  function priceAtSpread(bond: Bond, spreadBp: number): number {
+    const shifted = curve.shift(spreadBp);
+    const settlementDf = shifted.discountFactor(yearsBetween(asOf, settlement));
+    return bondCashflowPoints(bond, settlement).reduce(
+      (price, point) => price + (point.amount * shifted.discountFactor(yearsBetween(asOf, point.date))) / settlementDf,
+      0
+    );
+  }
+
+  it('should have no spread when the bond prices off the curve', () => {
+    const spreads = bondSpreads(bullet, priceAtSpread(bullet, 0), curve, asOf, settlement)!;
+    expect(spreads.zSpread).toBeCloseTo(0, 6);
+    expect(spreads.assetSwapSpread).toBeCloseTo(0, 6);
+    expect(spreads.proceedsAssetSwapSpread).toBeCloseTo(0, 6);
+    expect(spreads.oasSpread).toBe(spreads.zSpread);
+  });
+
+  it('should recover a parallel shift of the zero curve as the Z-spread', () => {
+    const spreads = bondSpreads(bullet, priceAtSpread(bullet, 125), curve, asOf, settlement)!;
+    expect(spreads.zSpread).toBeCloseTo(125, 6);
+    // Cheap to the curve on an asset swap as well
+    expect(spreads.assetSwapSpread).toBeGreaterThan(100);
+  });
+
+  it('should scale the proceeds asset swap spread by the dirty price', () => {
+    const dirtyPrice = priceAtSpread(bullet, 80);
+    const spreads = bondSpreads(bullet, dirtyPrice, curve, asOf, settlement)!;
+    expect(dirtyPrice).toBeGreaterThan(100);
+    expect(spreads.proceedsAssetSwapSpread).toBeCloseTo((spreads.assetSwapSpread * 100) / dirtyPrice, 10);
+    expect(Math.abs(spreads.proceedsAssetSwapSpread)).toBeLessThan(Math.abs(spreads.assetSwapSpread));
+  });
+
+  it('should take the call option out of the OAS of a callable bond', () => {
+    const dirtyPrice = priceAtSpread(callable, 50);
+    const spreads = bondSpreads(callable, dirtyPrice, curve, asOf, settlement)!;
+    expect(spreads.zSpread).toBeCloseTo(50, 6);
+    expect(spreads.oasSpread).toBeLessThan(spreads.zSpread);
+
+    // More rate volatility makes the call worth more
+    const volatile = bondSpreads(callable, dirtyPrice, curve, asOf, settlement, 0.02)!;
+    expect(volatile.oasSpread).toBeLessThan(spreads.oasSpread);
+  });
+
+  it('should price a call that is never exercised back to the Z-spread', () => {
+    const outOfTheMoney: Bond = { ...callable, callSchedule: [{ date: '2027-06-15', price: 1000 }] };
+    const spreads = bondSpreads(outOfTheMoney, priceAtSpread(outOfTheMoney, 50), curve, asOf, settlement)!;
+    // Cashflows are rounded onto monthly lattice steps
+    expect(spreads.oasSpread).toBeCloseTo(50, 0);
+  });
+
+  it('should have no spreads once the bond has matured', () => {
+    expect(bondSpreads(bullet, 100, curve, asOf, new Date('2033-01-01'))).toBeUndefined();
+  });
+});
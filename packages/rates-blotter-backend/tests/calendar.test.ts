@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { HolidayCalendar } from '../src/analytics/calendar';
+import { formatDate } from '../src/analytics/dates';
+import { CalendarManager } from '../src/server/calendarManager';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { BusinessDayConvention, Currency } from '../src/models/enums';
+import { date } from './helpers';
+
+describe('Holiday calendars', () => {
+  const calendar = new HolidayCalendar({
+    name: 'TEST',
+    currencies: ['USD'],
+    holidays: ['2024-05-31', '2024-07-04'],
+  });
+
+  it('should treat weekends and holidays as non-business days', () => {
+    expect(calendar.isBusinessDay(date('2024-07-03'))).toBe(true);
+    expect(calendar.isBusinessDay(date('2024-07-04'))).toBe(false);
+    expect(calendar.isBusinessDay(date('2024-07-06'))).toBe(false);
+  });
+
+  it('should apply business day conventions', () => {
+    // Friday 31 May is a holiday, so Following crosses into June
+    expect(formatDate(calendar.adjust(date('2024-05-31'), BusinessDayConvention.FOLLOWING))).toBe('2024-06-03');
+    expect(formatDate(calendar.adjust(date('2024-05-31'), BusinessDayConvention.MODIFIED_FOLLOWING))).toBe('2024-05-30');
+    expect(formatDate(calendar.adjust(date('2024-05-31'), BusinessDayConvention.PRECEDING))).toBe('2024-05-30');
+    expect(formatDate(calendar.adjust(date('2024-05-31'), BusinessDayConvention.UNADJUSTED))).toBe('2024-05-31');
+    expect(formatDate(calendar.adjust(date('2024-06-01'), BusinessDayConvention.MODIFIED_FOLLOWING))).toBe('2024-06-03');
+  });
+
+  it('should add business days across weekends and holidays', () => {
+    expect(formatDate(calendar.addBusinessDays(date('2024-07-03'), 2))).toBe('2024-07-08');
+    expect(formatDate(calendar.addBusinessDays(date('2024-07-08'), -2))).toBe('2024-07-03');
+    expect(formatDate(calendar.addBusinessDays(date('2024-07-06'), 0))).toBe('2024-07-08');
+  });
+});
+
+describe('CalendarManager', () => {
+  const calendarManager = new CalendarManager();
+
+  it('should load the calendar files and map currencies onto them', () => {
+    expect(calendarManager.getCalendarNames()).toEqual(expect.arrayContaining(['USNY', 'GBLO', 'TARGET', 'JPTO']));
+    expect(calendarManager.getCalendarForCurrency(Currency.GBP).name).toBe('GBLO');
+    expect(calendarManager.resolveCalendar('eur')?.name).toBe('TARGET');
+    expect(calendarManager.resolveCalendar('XXX')).toBeUndefined();
+  });
+
+  it('should roll settlement over local holidays', () => {
+    // Christmas Eve 2024: T+2 skips Christmas and Boxing Day in London but only Christmas in New York
+    expect(formatDate(calendarManager.settlementDate(Currency.GBP, date('2024-12-24'), 2))).toBe('2024-12-30');
+    expect(formatDate(calendarManager.settlementDate(Currency.USD, date('2024-12-24'), 2))).toBe('2024-12-27');
+    // Trades on a weekend count from the next business day
+    expect(formatDate(calendarManager.settlementDate(Currency.USD, date('2024-06-15'), 1))).toBe('2024-06-18');
+  });
+
+  it('should fall back to a weekend-only calendar', () => {
+    const calendar = calendarManager.getCalendarForCurrency('XXX');
+    expect(calendar.isBusinessDay(date('2024-12-25'))).toBe(true);
+    expect(calendar.isBusinessDay(date('2024-12-28'))).toBe(false);
+  });
+});
+
+describe('Instrument settlement dates', () => {
+  it('should settle new instruments and trades on the currency calendar', () => {
+    const instrumentManager = new InstrumentManager();
+    instrumentManager.createExampleInstruments();
+
+    const bond = instrumentManager.getInstrument('US10Y')!;
+    expect(bond.settlementDate).toEqual(instrumentManager.spotSettlementDate(bond, bond.lastTradeTime));
+
+    instrumentManager.recordTrade('US10Y', 98.5, 1000000, date('2024-07-03T15:00:00Z'));
+    expect(formatDate(bond.settlementDate)).toBe('2024-07-08');
+    expect(bond.lastTradePrice).toBe(98.5);
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { bondCarryRoll, carryHorizonDate, swapCarryRoll } from '../src/analytics/carryRoll';
+import { bondAccruedInterest, bondAnalytics } from '../src/analytics/bondMath';
+import { CurveManager } from '../src/server/curveManager';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { instrumentCarryRoll, swapValuationContext } from '../src/server/valuation';
+import { Bond } from '../src/models/bond';
+import { InterestRateSwap } from '../src/models/interestRateSwap';
+import { SwapDirection } from '../src/models/enums';
+
+const asOf = new Date('2023-04-01');
+
+describe('Carry and roll-down', () => {
+  const curveManager = new CurveManager();
+  const instrumentManager = new InstrumentManager();
+  instrumentManager.createExampleInstruments();
+
+  it('should run horizons forward in months', () => {
+    expect(carryHorizonDate(asOf, '1M')).toEqual(new Date('2023-05-01'));
+    expect(carryHorizonDate(asOf, '6M')).toEqual(new Date('2023-10-01'));
+    expect(carryHorizonDate(asOf, '1Y')).toEqual(new Date('2024-04-01'));
+    expect(carryHorizonDate(asOf, '2M')).toBeUndefined();
+  });
+
+  it('should net the coupon accrual against the repo funding of a bond', () => {
+    const bond = instrumentManager.getInstrument('US10Y') as Bond;
+    const unfunded = instrumentCarryRoll(bond, instrumentManager, curveManager, '1M', asOf, undefined, 0)!;
+    const funded = instrumentCarryRoll(bond, instrumentManager, curveManager, '1M', asOf, undefined, 4)!;
+
+    // No coupon falls due within the month, so income is the change in accrued interest on 10M
+    const settlement = instrumentManager.spotSettlementDate(bond, asOf);
+    const horizonSettlement = instrumentManager.spotSettlementDate(bond, carryHorizonDate(asOf, '1M')!);
+    const accrual = bondAccruedInterest(bond, horizonSettlement) - bondAccruedInterest(bond, settlement);
+    expect(unfunded.fundingCost).toBe(0);
+    expect(unfunded.income).toBeCloseTo(accrual * 100000, 1);
+    expect(unfunded.carry).toBe(unfunded.income);
+    expect(funded.carry).toBeCloseTo(funded.income - funded.fundingCost, 1);
+    expect(funded.total).toBeCloseTo(funded.carry + funded.rollDown, 1);
+    expect(funded.rollDown).toBe(unfunded.rollDown);
+    expect(funded.fundingRate).toBe(4);
+    expect(funded.carryBp).toBeCloseTo(funded.carry / Math.abs(funded.dv01), 1);
+  });
+
+  it('should redeem a bond maturing before the horizon at par', () => {
+    const bond: Bond = {
+      ...(instrumentManager.getInstrument('US10Y') as Bond),
+      issueDate: '2022-06-15',
+      maturityDate: '2023-06-15',
+    };
+    const settlement = new Date('2023-04-03');
+    const context = {
+      settlement,
+      horizonSettlement: new Date('2023-10-03'),
+      yieldPct: 5,
+      horizonYieldPct: 5,
+      repoRate: 0,
+      repoBasis: 360,
+    };
+    const carryRoll = bondCarryRoll(bond, context)!;
+    const today = bondAnalytics(bond, 5, settlement);
+
+    expect(carryRoll.rollDown).toBeCloseTo((100 - today.cleanPrice) * 100000, 6);
+    expect(carryRoll.income).toBeCloseTo((4.25 / 2 - today.accrued) * 100000, 6);
+    expect(bondCarryRoll(bond, { ...context, settlement: new Date('2023-07-01') })).toBeUndefined();
+  });
+
+  it('should mirror a payer swap as a receiver', () => {
+    const payer = instrumentManager.getInstrument('USD5YIRS') as InterestRateSwap;
+    const receiver: InterestRateSwap = {
+      ...payer,
+      direction: payer.direction === SwapDirection.PAY_FIXED ? SwapDirection.RECEIVE_FIXED : SwapDirection.PAY_FIXED,
+    };
+    const context = swapValuationContext(payer, curveManager, instrumentManager.getCalendarManager(), asOf)!;
+    const horizon = carryHorizonDate(asOf, '3M')!;
+
+    const pay = swapCarryRoll(payer, context, horizon)!;
+    const receive = swapCarryRoll(receiver, context, horizon)!;
+    expect(receive.carry).toBeCloseTo(-pay.carry, 6);
+    expect(receive.rollDown).toBeCloseTo(-pay.rollDown, 6);
+    expect(pay.fundingCost).toBe(0);
+
+    // Nothing accrues before a forward-starting swap's effective date
+    const forwardStart: InterestRateSwap = { ...payer, effectiveDate: '2023-09-01', maturityDate: '2028-09-01' };
+    expect(swapCarryRoll(forwardStart, context, horizon)!.carry).toBe(0);
+  });
+});
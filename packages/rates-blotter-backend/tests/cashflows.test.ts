@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { generateSchedule } from '../src/analytics/schedule';
+import { bondCashflows, swapCashflows } from '../src/analytics/cashflows';
+import { HolidayCalendar } from '../src/analytics/calendar';
+import { formatDate } from '../src/analytics/dates';
+import { CurveManager } from '../src/server/curveManager';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { Bond } from '../src/models/bond';
+import { InterestRateSwap } from '../src/models/interestRateSwap';
+import { BusinessDayConvention, Currency, StubType } from '../src/models/enums';
+import { date } from './helpers';
+
+const dates = (periods: ReturnType<typeof generateSchedule>) =>
+  periods.map(period => `${formatDate(period.startDate)}/${formatDate(period.endDate)}${period.isStub ? '*' : ''}`);
+
+describe('Schedule generation', () => {
+  it('should roll month-end schedules on month ends', () => {
+    const periods = generateSchedule({ effectiveDate: date('2023-03-31'), maturityDate: date('2024-09-30'), frequency: 2 });
+    expect(dates(periods)).toEqual(['2023-03-31/2023-09-30', '2023-09-30/2024-03-31', '2024-03-31/2024-09-30']);
+  });
+
+  it('should place short and long front stubs', () => {
+    const params = { effectiveDate: date('2023-02-15'), maturityDate: date('2024-06-30'), frequency: 2 };
+    expect(dates(generateSchedule(params))).toEqual([
+      '2023-02-15/2023-06-30*',
+      '2023-06-30/2023-12-31',
+      '2023-12-31/2024-06-30',
+    ]);
+    expect(dates(generateSchedule({ ...params, stub: StubType.LONG_FRONT }))).toEqual([
+      '2023-02-15/2023-12-31*',
+      '2023-12-31/2024-06-30',
+    ]);
+  });
+
+  it('should place short and long back stubs', () => {
+    const params = { effectiveDate: date('2023-01-15'), maturityDate: date('2024-03-01'), frequency: 2 };
+    expect(dates(generateSchedule({ ...params, stub: StubType.SHORT_BACK }))).toEqual([
+      '2023-01-15/2023-07-15',
+      '2023-07-15/2024-01-15',
+      '2024-01-15/2024-03-01*',
+    ]);
+    expect(dates(generateSchedule({ ...params, stub: StubType.LONG_BACK }))).toEqual([
+      '2023-01-15/2023-07-15',
+      '2023-07-15/2024-03-01*',
+    ]);
+  });
+
+  it('should adjust accrual and payment dates on the calendar', () => {
+    const calendar = new HolidayCalendar({ name: 'TEST', currencies: [], holidays: [] });
+    const periods = generateSchedule({
+      effectiveDate: date('2023-03-31'),
+      maturityDate: date('2024-03-31'),
+      frequency: 4,
+      calendar,
+      accrualConvention: BusinessDayConvention.MODIFIED_FOLLOWING,
+    });
+    // 30 Sep 2023 and 31 Mar 2024 fall on weekends and roll back within the month
+    expect(formatDate(periods[1].adjustedEndDate)).toBe('2023-09-29');
+    expect(formatDate(periods[3].paymentDate)).toBe('2024-03-29');
+  });
+});
+
+describe('Instrument cashflows', () => {
+  const instrumentManager = new InstrumentManager();
+  instrumentManager.createExampleInstruments();
+  const bond = instrumentManager.getInstrument('US10Y') as Bond;
+  const swap = instrumentManager.getInstrument('USD5YIRS') as InterestRateSwap;
+  const calendar = instrumentManager.getCalendarManager().getCalendarForCurrency(Currency.USD);
+
+  it('should pay regular coupons and redeem the notional at maturity', () => {
+    const cashflows = bondCashflows(bond, { asOf: date('2023-04-01'), calendar });
+    const coupons = cashflows.filter(cashflow => cashflow.leg === 'FIXED');
+
+    expect(coupons).toHaveLength(20);
+    coupons.forEach(coupon => expect(coupon.amount).toBeCloseTo(10000000 * 0.0425 / 2, 2));
+    expect(coupons[0].paymentDate).toBe('2023-10-02'); // 30 Sep 2023 is a Saturday
+    expect(cashflows[cashflows.length - 1]).toMatchObject({ leg: 'PRINCIPAL', amount: 10000000, paymentDate: '2033-03-31' });
+  });
+
+  it('should drop settled payments and discount the rest', () => {
+    const curve = new CurveManager().getDiscountCurve(Currency.USD);
+    const cashflows = bondCashflows(bond, { asOf: date('2031-01-01'), calendar, discountCurve: curve });
+    expect(cashflows[0].paymentDate).toBe('2031-03-31');
+    cashflows.forEach(cashflow => {
+      expect(cashflow.discountFactor).toBeGreaterThan(0);
+      expect(cashflow.discountFactor).toBeLessThan(1);
+    });
+    expect(bondCashflows(bond, { asOf: date('2031-01-01'), calendar, includePast: true })).toHaveLength(21);
+  });
+
+  it('should project floating cashflows off the forward curve', () => {
+    const curve = new CurveManager().getDiscountCurve(Currency.USD)!;
+    const cashflows = swapCashflows(swap, { asOf: date('2023-04-01'), calendar, discountCurve: curve, forwardCurve: curve });
+    const fixed = cashflows.filter(cashflow => cashflow.leg === 'FIXED');
+    const floating = cashflows.filter(cashflow => cashflow.leg === 'FLOATING');
+
+    expect(fixed).toHaveLength(20);
+    expect(floating).toHaveLength(20);
+    floating.forEach(cashflow => {
+      expect(cashflow.projected).toBe(true);
+      expect(cashflow.rate).toBeGreaterThan(swap.floatingRateSpread);
+    });
+    // Floating leg accrues actual days: 2023-04-03 to 2023-07-03 is 91 days
+    expect(floating[0].accrualFactor).toBeCloseTo(91 / 360, 10);
+  });
+});
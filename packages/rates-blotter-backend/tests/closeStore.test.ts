@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { MarketSimulator } from '../src/server/marketSimulator';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { CurveManager } from '../src/server/curveManager';
+import { VolSurfaceManager } from '../src/server/volSurfaceManager';
+import { FixingsManager } from '../src/server/fixingsManager';
+import { CloseStore, closeRegionsFromTimes, localDateTime } from '../src/server/closeStore';
+import { Bond } from '../src/models/bond';
+import { Future } from '../src/models/future';
+import { ManualClock, createSeededRandom } from '../src/utils';
+
+describe('End-of-day closes', () => {
+  it('should read close times per region in local time', () => {
+    const regions = closeRegionsFromTimes('americas=16:00');
+    expect(regions.find(region => region.name === 'AMERICAS')!.closeTime).toBe('16:00');
+    expect(regions.find(region => region.name === 'EMEA')!.closeTime).toBe('16:30');
+    expect(() => closeRegionsFromTimes('MARS=17:00')).toThrow('Unknown close region');
+    expect(() => closeRegionsFromTimes('EMEA=5pm')).toThrow('Invalid close time');
+
+    // New York is four hours behind UTC in summer, Tokyo nine ahead
+    expect(localDateTime(new Date('2024-06-03T21:00:00Z'), 'America/New_York')).toEqual({ date: '2024-06-03', time: '17:00' });
+    expect(localDateTime(new Date('2024-06-03T21:00:00Z'), 'Asia/Tokyo')).toEqual({ date: '2024-06-04', time: '06:00' });
+  });
+
+  it('should snapshot a region at its close and measure changes from it', async () => {
+    const instrumentManager = new InstrumentManager();
+    const closeStore = new CloseStore();
+    const simulator = new MarketSimulator(
+      instrumentManager,
+      { updateInterval: 30 * 60_000, random: createSeededRandom(8), clock: new ManualClock(new Date('2024-06-03T20:00:00Z')) },
+      new CurveManager(),
+      new VolSurfaceManager(),
+      new FixingsManager(),
+      closeStore
+    );
+    await simulator.initialize();
+    const bond = instrumentManager.getInstrument('US10Y') as Bond;
+    const seededChange = bond.changeFromPrevClose;
+
+    simulator.fastForward(1); // 16:30 in New York
+    expect(closeStore.getDates()).toEqual([]);
+    expect(bond.changeFromPrevClose).toBe(seededChange);
+
+    simulator.fastForward(1); // 17:00
+    const [close] = closeStore.getCloses('2024-06-03').filter(c => c.region === 'AMERICAS');
+    expect(close.closedAt).toBe('2024-06-03T21:00:00.000Z');
+    const closed = close.instruments.find(instrument => instrument.instrumentId === 'US10Y')!;
+    expect(closed).toMatchObject({ price: bond.currentPrice, yield: bond.yieldToMaturity, book: bond.book });
+    expect(bond.changeFromPrevClose).toBe(0);
+    // London had closed before the simulation started
+    expect(closeStore.getCloses('2024-06-03').map(c => c.region)).toEqual(['AMERICAS']);
+
+    simulator.fastForward(4);
+    expect(bond.changeFromPrevClose).toBeCloseTo(bond.currentPrice - closed.price, 4);
+    expect(bond.percentageChange).toBeCloseTo(((bond.currentPrice - closed.price) / closed.price) * 100, 2);
+    expect(closeStore.getDates()).toEqual(['2024-06-03']);
+  });
+
+  it('should close the currencies having a business day and take futures\' daily change from the close', async () => {
+    const instrumentManager = new InstrumentManager();
+    const closeStore = new CloseStore();
+    // Canada Day was observed on Monday 3 July 2023; New York was open
+    const simulator = new MarketSimulator(
+      instrumentManager,
+      {
+        updateInterval: 30 * 60_000,
+        random: createSeededRandom(8),
+        clock: new ManualClock(new Date('2023-07-03T20:30:00Z')),
+        closeRegions: [{ name: 'AMERICAS', timeZone: 'America/New_York', closeTime: '17:00', currencies: ['CAD', 'USD'] }],
+      },
+      new CurveManager(),
+      new VolSurfaceManager(),
+      new FixingsManager(),
+      closeStore
+    );
+    await simulator.initialize();
+    const future = instrumentManager.getInstrument('ZN-U23') as Future;
+
+    simulator.fastForward(1);
+    const [close] = closeStore.getCloses('2023-07-03');
+    const closed = close.instruments.find(instrument => instrument.instrumentId === 'ZN-U23')!;
+    expect(future.priceChangeToday).toBe(0);
+
+    simulator.fastForward(6);
+    expect(future.priceChangeToday).toBe(future.changeFromPrevClose);
+    expect(future.priceChangeToday).toBeCloseTo(future.currentPrice - closed.price, 4);
+
+    // Toronto closes on Independence Day but the dollar instruments don't
+    simulator.fastForward(48);
+    expect(closeStore.getCloses('2023-07-04')[0].instruments).toEqual([]);
+    expect(future.priceChangeToday).toBeCloseTo(future.currentPrice - closed.price, 4);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { tenorToYears } from '../src/analytics/curve';
+import { bootstrapCurve, CurveDefinition } from '../src/analytics/curveBootstrap';
+import { CurveManager } from '../src/server/curveManager';
+import { Currency, ReferenceRateIndex } from '../src/models/enums';
+
+const definition: CurveDefinition = {
+  currency: Currency.USD,
+  index: ReferenceRateIndex.SOFR,
+  dayCountBasis: 360,
+  quotes: [
+    { type: 'DEPOSIT', tenor: '3M', rate: 5.0 },
+    { type: 'FUTURE', startTenor: '3M', endTenor: '6M', price: 95.1 },
+    { type: 'SWAP', tenor: '1Y', rate: 4.8, fixedFrequency: 1 },
+    { type: 'SWAP', tenor: '5Y', rate: 4.2, fixedFrequency: 1 },
+    { type: 'SWAP', tenor: '10Y', rate: 4.0, fixedFrequency: 2 },
+  ],
+};
+
+describe('Yield curve bootstrapping', () => {
+  it('should parse tenor labels into year fractions', () => {
+    expect(tenorToYears('ON')).toBeCloseTo(1 / 365, 10);
+    expect(tenorToYears('2W')).toBeCloseTo(14 / 365, 10);
+    expect(tenorToYears('6M')).toBe(0.5);
+    expect(tenorToYears('10Y')).toBe(10);
+    expect(() => tenorToYears('X')).toThrow();
+  });
+
+  it('should reprice deposit and future quotes exactly', () => {
+    const curve = bootstrapCurve(definition);
+
+    const depositRate = (1 / curve.discountFactor(0.25) - 1) / (0.25 * 365 / 360);
+    expect(depositRate * 100).toBeCloseTo(5.0, 10);
+
+    const futureRate = curve.forwardRate(0.25, 0.5) * 360 / 365;
+    expect(100 - futureRate * 100).toBeCloseTo(95.1, 10);
+  });
+
+  it('should reprice par swap quotes exactly', () => {
+    const curve = bootstrapCurve(definition);
+
+    expect(curve.parRate(1, 1) * 100).toBeCloseTo(4.8, 10);
+    expect(curve.parRate(5, 1) * 100).toBeCloseTo(4.2, 10);
+    expect(curve.parRate(10, 2) * 100).toBeCloseTo(4.0, 10);
+  });
+
+  it('should produce decreasing discount factors and consistent zero rates', () => {
+    const curve = bootstrapCurve(definition);
+    let previous = 1;
+
+    for (let t = 0.1; t <= 15; t += 0.1) {
+      const df = curve.discountFactor(t);
+      expect(df).toBeLessThan(previous);
+      expect(Math.exp(-curve.zeroRate(t) * t)).toBeCloseTo(df, 12);
+      previous = df;
+    }
+  });
+
+  it('should rebuild curves when quotes are shifted', () => {
+    const manager = new CurveManager();
+    const before = manager.getDiscountCurve(Currency.USD)!.parRate(5, 1);
+
+    manager.shiftQuotes(ReferenceRateIndex.SOFR, () => 10);
+
+    const after = manager.getDiscountCurve(Currency.USD)!.parRate(5, 1);
+    expect((after - before) * 10000).toBeCloseTo(10, 6);
+  });
+
+  it('should snapshot curves at standard tenors in percent', () => {
+    const manager = new CurveManager();
+    const snapshot = manager.getCurveSnapshot(Currency.EUR, 'EURIBOR');
+
+    expect(snapshot).toBeDefined();
+    expect(snapshot!.role).toBe('forward');
+    expect(snapshot!.points.map(p => p.tenor)).toContain('10Y');
+    expect(snapshot!.points[0].zeroRate).toBeGreaterThan(1);
+    expect(manager.getCurveSnapshot(Currency.CHF)).toBeUndefined();
+  });
+});
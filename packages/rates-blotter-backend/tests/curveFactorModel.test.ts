@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CurveFactorModel,
+  DEFAULT_CURVE_FACTOR_PARAMETERS,
+  factorLoadings,
+  factorShift,
+} from '../src/analytics/curveFactorModel';
+
+// Standard normal draws taken in order, zero once exhausted
+function draws(...values: number[]): () => number {
+  return () => values.shift() ?? 0;
+}
+
+describe('Curve factor model', () => {
+  it('should load slope on the short end and curvature on the belly', () => {
+    const short = factorLoadings(0.01);
+    const belly = factorLoadings(3);
+    const long = factorLoadings(30);
+
+    expect(short.level).toBe(1);
+    expect(short.slope).toBeCloseTo(1, 2);
+    expect(long.slope).toBeLessThan(0.1);
+    expect(short.curvature).toBeCloseTo(0, 2);
+    expect(belly.curvature).toBeGreaterThan(Math.max(short.curvature, long.curvature));
+
+    expect(factorShift({ level: 2, slope: 0, curvature: 0 }, 7)).toBe(2);
+    expect(factorShift({ level: 0, slope: 10, curvature: 0 }, 0.01)).toBeCloseTo(10, 1);
+  });
+
+  it('should move currencies together through the global shocks', () => {
+    const parameters = { ...DEFAULT_CURVE_FACTOR_PARAMETERS, globalCorrelation: { level: 1, slope: 1, curvature: 1 } };
+    // Global level, slope and curvature, then each currency's own three
+    const model = new CurveFactorModel(draws(1, 0, 0, 5, 5, 5, -5, -5, -5), parameters);
+    const moves = model.step(['USD', 'EUR']);
+
+    expect(moves.get('USD')).toEqual(moves.get('EUR'));
+    expect(moves.get('USD')!.level).toBeCloseTo(parameters.volatility.level, 12);
+    // Sell-offs flatten: a rise in level comes with a fall in slope
+    expect(moves.get('USD')!.slope).toBeCloseTo(parameters.levelSlopeCorrelation * parameters.volatility.slope, 12);
+  });
+
+  it('should pull the factors back towards the starting curve', () => {
+    const model = new CurveFactorModel(draws(0, 0, 0, 10));
+    model.step(['USD']);
+    const shocked = model.getFactors('USD').level;
+
+    const move = model.step(['USD']).get('USD')!;
+    expect(move.level).toBeCloseTo(-DEFAULT_CURVE_FACTOR_PARAMETERS.meanReversion * shocked, 12);
+    expect(model.getFactors('USD').level).toBeLessThan(shocked);
+
+    model.reset();
+    expect(model.getFactors('USD')).toEqual({ level: 0, slope: 0, curvature: 0 });
+  });
+
+  it('should scale shocks by the volatility factor', () => {
+    const single = new CurveFactorModel(draws(1, 1, 1, 1, 1, 1)).step(['USD']).get('USD')!;
+    const doubled = new CurveFactorModel(draws(1, 1, 1, 1, 1, 1)).step(['USD'], 2).get('USD')!;
+    expect(doubled.level).toBeCloseTo(2 * single.level, 12);
+    expect(doubled.curvature).toBeCloseTo(2 * single.curvature, 12);
+  });
+});
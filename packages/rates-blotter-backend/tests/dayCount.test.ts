@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import { yearFraction, accruedInterest, couponPeriod } from '../src/analytics/dayCount';
+import { addMonths } from '../src/analytics/dates';
+import { DayCountConvention } from '../src/models/enums';
+import { date } from './helpers';
+
+// Golden values from the ISDA memo "EMU and Market Conventions: Recent Developments"
+// (ACT/ACT examples), as also used by the QuantLib day counter test suite.
+const ACT_ACT_CASES = [
+  { label: 'semi-annual regular period', start: '2003-11-01', end: '2004-05-01', frequency: 2, isda: 0.497724380567, icma: 0.5 },
+  { label: 'short first period', start: '1999-02-01', end: '1999-07-01', frequency: 1, isda: 0.410958904110, icma: 0.410958904110 },
+  { label: 'period after a short first period', start: '1999-07-01', end: '2000-07-01', frequency: 1, isda: 1.001377348604, icma: 1.0 },
+  { label: 'long first period', start: '2002-08-15', end: '2003-07-15', frequency: 2, isda: 0.915068493151, icma: 0.915760869565 },
+  { label: 'period after a long first period', start: '2003-07-15', end: '2004-01-15', frequency: 2, isda: 0.504004790778, icma: 0.5 },
+  { label: 'penultimate period before a short final period', start: '1999-07-30', end: '2000-01-30', frequency: 2, isda: 0.503892506924, icma: 0.5 },
+];
+
+describe('Day count conventions', () => {
+  describe('ACT/ACT ISDA', () => {
+    ACT_ACT_CASES.forEach(({ label, start, end, isda }) => {
+      it(`should match the ISDA example for a ${label}`, () => {
+        expect(yearFraction(date(start), date(end), DayCountConvention.ACT_ACT_ISDA)).toBeCloseTo(isda, 11);
+      });
+    });
+
+    it('should match the ISDA example for a short final period', () => {
+      expect(yearFraction(date('2000-01-30'), date('2000-06-30'), DayCountConvention.ACT_ACT_ISDA)).toBeCloseTo(0.415300546448, 11);
+    });
+  });
+
+  describe('ACT/ACT ICMA', () => {
+    ACT_ACT_CASES.forEach(({ label, start, end, frequency, icma }) => {
+      it(`should match the ISDA example for a ${label}`, () => {
+        expect(yearFraction(date(start), date(end), DayCountConvention.ACT_ACT_ICMA, { frequency })).toBeCloseTo(icma, 11);
+      });
+    });
+
+    it('should use an explicit reference period for a short final period', () => {
+      const fraction = yearFraction(date('2000-01-30'), date('2000-06-30'), DayCountConvention.ACT_ACT_ICMA, {
+        frequency: 2,
+        referenceStart: date('2000-01-30'),
+        referenceEnd: date('2000-07-30'),
+      });
+      expect(fraction).toBeCloseTo(0.417582417582, 11);
+    });
+
+    it('should require a coupon frequency', () => {
+      expect(() => yearFraction(date('2003-11-01'), date('2004-05-01'), DayCountConvention.ACT_ACT_ICMA)).toThrow();
+    });
+  });
+
+  describe('30/360', () => {
+    it('should count whole months as 30 days', () => {
+      expect(yearFraction(date('2007-01-15'), date('2007-02-15'), DayCountConvention.THIRTY_360)).toBeCloseTo(30 / 360, 12);
+      expect(yearFraction(date('2007-01-15'), date('2007-07-15'), DayCountConvention.THIRTY_360)).toBeCloseTo(0.5, 12);
+    });
+
+    it('should treat the 31st as the 30th', () => {
+      expect(yearFraction(date('2007-01-31'), date('2007-02-28'), DayCountConvention.THIRTY_360)).toBeCloseTo(28 / 360, 12);
+      expect(yearFraction(date('2007-03-31'), date('2007-05-31'), DayCountConvention.THIRTY_360)).toBeCloseTo(60 / 360, 12);
+      expect(yearFraction(date('2007-03-15'), date('2007-05-31'), DayCountConvention.THIRTY_360)).toBeCloseTo(76 / 360, 12);
+    });
+
+    it('should apply the end-of-February rules only for end-of-month schedules', () => {
+      expect(yearFraction(date('2007-02-28'), date('2007-03-31'), DayCountConvention.THIRTY_360)).toBeCloseTo(33 / 360, 12);
+      expect(yearFraction(date('2007-02-28'), date('2007-03-31'), DayCountConvention.THIRTY_360, { endOfMonth: true })).toBeCloseTo(30 / 360, 12);
+      expect(yearFraction(date('2008-02-29'), date('2008-08-31'), DayCountConvention.THIRTY_360, { endOfMonth: true })).toBeCloseTo(0.5, 12);
+      expect(yearFraction(date('2007-02-28'), date('2008-02-29'), DayCountConvention.THIRTY_360, { endOfMonth: true })).toBeCloseTo(1, 12);
+    });
+  });
+
+  describe('ACT/360 and ACT/365', () => {
+    it('should divide actual days by the fixed denominator', () => {
+      expect(yearFraction(date('2023-01-01'), date('2023-07-01'), DayCountConvention.ACT_360)).toBeCloseTo(181 / 360, 12);
+      expect(yearFraction(date('2024-01-01'), date('2025-01-01'), DayCountConvention.ACT_365)).toBeCloseTo(366 / 365, 12);
+    });
+
+    it('should return negative fractions for reversed dates', () => {
+      expect(yearFraction(date('2023-07-01'), date('2023-01-01'), DayCountConvention.ACT_360)).toBeCloseTo(-181 / 360, 12);
+    });
+  });
+});
+
+describe('Accrued interest', () => {
+  it('should accrue ICMA coupons over the actual coupon period', () => {
+    // 4.25% semi-annual, 2023-03-31 -> 2023-09-30 is a 183 day period, 61 days accrued
+    const accrued = accruedInterest({
+      couponRate: 4.25,
+      frequency: 2,
+      previousCouponDate: date('2023-03-31'),
+      nextCouponDate: date('2023-09-30'),
+      settlementDate: date('2023-05-31'),
+      convention: DayCountConvention.ACT_ACT_ICMA,
+    });
+    expect(accrued).toBeCloseTo((4.25 / 2) * (61 / 183), 10);
+  });
+
+  it('should accrue 30/360 coupons with end-of-month rolls', () => {
+    const accrued = accruedInterest({
+      couponRate: 6,
+      frequency: 2,
+      previousCouponDate: date('2023-02-28'),
+      nextCouponDate: date('2023-08-31'),
+      settlementDate: date('2023-03-31'),
+      convention: DayCountConvention.THIRTY_360,
+    });
+    expect(accrued).toBeCloseTo(6 * (30 / 360), 10);
+  });
+
+  it('should find the coupon period by rolling back from maturity', () => {
+    const period = couponPeriod(date('2024-06-15'), date('2033-03-31'), 2, date('2023-03-31'));
+    expect(period?.previous.toISOString().slice(0, 10)).toBe('2024-03-31');
+    expect(period?.next.toISOString().slice(0, 10)).toBe('2024-09-30');
+    expect(couponPeriod(date('2034-01-01'), date('2033-03-31'), 2)).toBeUndefined();
+  });
+
+  it('should keep month-end rolls on month ends', () => {
+    expect(addMonths(date('2023-02-28'), 6, true).toISOString().slice(0, 10)).toBe('2023-08-31');
+    expect(addMonths(date('2023-01-31'), 1).toISOString().slice(0, 10)).toBe('2023-02-28');
+  });
+});
@@ -0,0 +1,25 @@
+import { MarketSimulator } from '../src/server/marketSimulator';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { CurveManager } from '../src/server/curveManager';
+import { ManualClock, createSeededRandom } from '../src/utils';
+
+export const date = (iso: string) => new Date(iso);
+
+/**
+ * A simulator with no volatility, so its curves only move when a test
+ * moves them, its clock starting at `start`
+ */
+export async function quietSimulator(
+  start: Date,
+  seed: number
+): Promise<{ simulator: MarketSimulator; instrumentManager: InstrumentManager; curveManager: CurveManager }> {
+  const instrumentManager = new InstrumentManager();
+  const curveManager = new CurveManager();
+  const simulator = new MarketSimulator(
+    instrumentManager,
+    { volatilityMultiplier: 0, random: createSeededRandom(seed), clock: new ManualClock(start) },
+    curveManager
+  );
+  await simulator.initialize();
+  return { simulator, instrumentManager, curveManager };
+}
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { KEY_RATE_TENORS, aggregateRiskLadder, keyRateWeight } from '../src/analytics/keyRateRisk';
+import { valueSwap } from '../src/analytics/swapPricing';
+import { CurveManager } from '../src/server/curveManager';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { instrumentKeyRateDv01, swapValuationContext } from '../src/server/valuation';
+import { Instrument } from '../src/models/instrument';
+import { InterestRateSwap } from '../src/models/interestRateSwap';
+import { Bond } from '../src/models/bond';
+
+const asOf = new Date('2023-04-01');
+
+function total(risk: Record<string, number>): number {
+  return Object.values(risk).reduce((sum, dv01) => sum + dv01, 0);
+}
+
+describe('Key-rate risk', () => {
+  const curveManager = new CurveManager();
+  const instrumentManager = new InstrumentManager();
+  instrumentManager.createExampleInstruments();
+
+  it('should spread a bump over the neighbouring key rates', () => {
+    expect(keyRateWeight(4, 5)).toBe(1); // 5Y
+    expect(keyRateWeight(4, 2)).toBe(0);
+    expect(keyRateWeight(4, 7.5)).toBeCloseTo(0.5, 12);
+    expect(keyRateWeight(0, 0.01)).toBe(1);
+    expect(keyRateWeight(6, 50)).toBe(1);
+
+    [0.01, 0.4, 3, 7, 12, 29, 40].forEach(time => {
+      const sum = KEY_RATE_TENORS.reduce((weights, _, i) => weights + keyRateWeight(i, time), 0);
+      expect(sum).toBeCloseTo(1, 12);
+    });
+  });
+
+  it('should add up to the parallel DV01 of a swap', () => {
+    const swap = instrumentManager.getInstrument('USD5YIRS') as InterestRateSwap;
+    const risk = instrumentKeyRateDv01(swap, instrumentManager, curveManager, asOf)!;
+    const context = swapValuationContext(swap, curveManager, instrumentManager.getCalendarManager(), asOf)!;
+
+    expect(Object.keys(risk)).toEqual(KEY_RATE_TENORS);
+    expect(total(risk)).toBeCloseTo(valueSwap(swap, context).dv01, 0);
+    // A five-year swap has its risk at five years and none at thirty
+    expect(risk['5Y']).toBeGreaterThan(Math.abs(risk['2Y']));
+    expect(risk['30Y']).toBeCloseTo(0, 6);
+  });
+
+  it('should show a long bond losing value as its key rates rise', () => {
+    const bond = instrumentManager.getInstrument('US10Y') as Bond;
+    const risk = instrumentKeyRateDv01(bond, instrumentManager, curveManager, asOf)!;
+
+    Object.values(risk).forEach(dv01 => expect(dv01).toBeLessThanOrEqual(0));
+    expect(risk['10Y']).toBe(Math.min(...Object.values(risk)));
+    expect(instrumentKeyRateDv01(instrumentManager.getInstrument('ZN-U23')!, instrumentManager, curveManager, asOf))
+      .toBeUndefined();
+  });
+
+  it('should aggregate instruments by book, trader and currency', () => {
+    const position = (instrumentId: string, book: string, trader: string, dv01: number) => ({
+      instrumentId,
+      book,
+      trader,
+      notionalCurrency: 'USD',
+      keyRateDv01: { '2Y': dv01, '10Y': -dv01 / 2 },
+    }) as unknown as Instrument;
+
+    const instruments = [
+      position('A', 'US_RATES', 'TRADER1', 100),
+      position('B', 'US_RATES', 'TRADER1', 50),
+      position('C', 'US_RATES', 'TRADER2', -40),
+      { ...position('D', 'US_RATES', 'TRADER1', 0), keyRateDv01: undefined },
+    ];
+
+    const ladder = aggregateRiskLadder(instruments);
+    expect(ladder).toHaveLength(2);
+    expect(ladder[0]).toMatchObject({ book: 'US_RATES', trader: 'TRADER1', currency: 'USD', instruments: ['A', 'B'] });
+    expect(ladder[0].keyRateDv01).toMatchObject({ '3M': 0, '2Y': 150, '10Y': -75 });
+    expect(ladder[0].total).toBe(75);
+
+    const [totals] = aggregateRiskLadder(instruments, ['currency']);
+    expect(totals.book).toBeUndefined();
+    expect(totals.keyRateDv01['2Y']).toBe(110);
+  });
+});
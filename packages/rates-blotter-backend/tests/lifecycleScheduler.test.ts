@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { MarketSimulator } from '../src/server/marketSimulator';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { CurveManager } from '../src/server/curveManager';
+import { LifecycleEvent, runInstrumentLifecycle } from '../src/server/lifecycleScheduler';
+import { Bond } from '../src/models/bond';
+import { TradingStatus } from '../src/models/enums';
+import { ManualClock, createSeededRandom } from '../src/utils';
+import { DeltaUpdate } from '../src/types';
+
+describe('Instrument lifecycle', () => {
+  it('should pay and roll bond coupons, then mature the bond', () => {
+    const instrumentManager = new InstrumentManager();
+    instrumentManager.createExampleInstruments(new Date('2023-06-01T12:00:00Z'));
+    const tenYear = instrumentManager.getInstrument('US10Y') as Bond;
+
+    const coupons = runInstrumentLifecycle(tenYear, new Date('2024-04-02T12:00:00Z'));
+    expect(coupons.map(event => [event.type, event.date, event.nextCouponDate])).toEqual([
+      ['COUPON_PAID', '2023-09-30', '2024-03-31'],
+      ['COUPON_PAID', '2024-03-31', '2024-09-30'],
+    ]);
+    expect(coupons[0].couponAmount).toBeCloseTo((4.25 / 2) * (tenYear.notionalAmount / 100), 2);
+    expect(tenYear.nextCouponDate).toBe('2024-09-30');
+    expect(runInstrumentLifecycle(tenYear, new Date('2024-04-02T18:00:00Z'))).toEqual([]);
+
+    const twoYear = instrumentManager.getInstrument('US2Y') as Bond;
+    const events = runInstrumentLifecycle(twoYear, new Date('2025-03-31T09:00:00Z'));
+    expect(events.slice(-2).map(event => [event.type, event.date])).toEqual([
+      ['COUPON_PAID', '2025-03-31'],
+      ['MATURED', '2025-03-31'],
+    ]);
+    expect(twoYear.status).toBe(TradingStatus.MATURED);
+    expect(runInstrumentLifecycle(twoYear, new Date('2025-10-01T09:00:00Z'))).toEqual([]);
+  });
+
+  it('should expire listed contracts after their last trading day and stop updating them', async () => {
+    const instrumentManager = new InstrumentManager();
+    const simulator = new MarketSimulator(
+      instrumentManager,
+      { updateInterval: 6 * 3_600_000, random: createSeededRandom(11), clock: new ManualClock(new Date('2023-09-14T12:00:00Z')) },
+      new CurveManager()
+    );
+    const events: LifecycleEvent[] = [];
+    const published: DeltaUpdate[] = [];
+    simulator.onLifecycleEvent(event => events.push(event));
+    simulator.onUpdate(updates => published.push(...updates));
+    await simulator.initialize();
+
+    simulator.fastForward(28); // To 2023-09-21
+    expect(events.filter(event => event.type === 'EXPIRED').map(event => [event.instrumentId, event.date])).toEqual([
+      ['ZN-U23-P114', '2023-09-15'],
+      ['ZN-U23', '2023-09-19'],
+    ]);
+    expect(published.some(update => update.instrumentId === 'ZN-U23' && update.fields.status === TradingStatus.EXPIRED)).toBe(true);
+
+    const future = instrumentManager.getInstrument('ZN-U23')!;
+    const price = future.currentPrice;
+    published.length = 0;
+    simulator.fastForward(8);
+    expect(future.currentPrice).toBe(price);
+    const repriced = published.filter(update => 'currentPrice' in update.fields).map(update => update.instrumentId);
+    expect(repriced).toContain('US10Y');
+    expect(repriced).not.toContain('ZN-U23');
+    expect(repriced).not.toContain('ZN-U23-P114');
+  });
+});
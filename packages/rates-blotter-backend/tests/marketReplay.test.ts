@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { MarketReplay, ReplayRecord, loadReplayFile, parseReplayCsv } from '../src/server/marketReplay';
+import { MarketSimulator } from '../src/server/marketSimulator';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { CurveManager } from '../src/server/curveManager';
+import { Bond } from '../src/models/bond';
+import { DeltaUpdate } from '../src/types';
+
+const start = Date.parse('2024-01-02T14:30:00Z');
+
+describe('Market replay', () => {
+  it('should read the same records from CSV and JSON lines', () => {
+    const jsonl = loadReplayFile('sample-us-rates.jsonl');
+    expect(loadReplayFile('sample-us-rates.csv')).toEqual(jsonl);
+    expect(jsonl[0]).toEqual({
+      timestamp: start,
+      instrumentId: 'US10Y',
+      fields: { currentPrice: 98.75, bidPrice: 98.73, askPrice: 98.77, yieldToMaturity: 4.41 },
+    });
+
+    // Sorted by time, keeping file order within a timestamp
+    const records = parseReplayCsv('timestamp,instrumentId,status\n2024-01-02T10:00:01Z,B,ACTIVE\n2024-01-02T10:00:00Z,A,HALTED\n');
+    expect(records.map(record => record.instrumentId)).toEqual(['A', 'B']);
+    expect(records[0].fields).toEqual({ status: 'HALTED' });
+    expect(() => loadReplayFile('missing.jsonl')).toThrow('Replay file not found');
+  });
+
+  it('should move through recorded time at a multiple of real time', () => {
+    const records: ReplayRecord[] = [0, 1000, 2000, 3000].map(offset => ({
+      timestamp: start + offset,
+      instrumentId: 'US10Y',
+      fields: { currentPrice: 100 + offset / 1000 },
+    }));
+    const replay = new MarketReplay(records, { speed: 2 });
+
+    expect(replay.advance(500).records).toHaveLength(2); // Up to one second in
+    replay.pause();
+    expect(replay.advance(500).records).toHaveLength(0);
+    expect(replay.getState().status).toBe('paused');
+    replay.resume();
+    expect(replay.advance(5000).records).toHaveLength(2);
+    expect(replay.getState()).toMatchObject({ status: 'finished', position: 4, currentTime: '2024-01-02T14:30:03.000Z' });
+
+    expect(replay.seek(start + 1500)).toHaveLength(2);
+    replay.setLoop(true);
+    replay.advance(5000);
+    const looped = replay.advance(500);
+    expect(looped.restarted).toBe(true);
+    expect(looped.records).toEqual([records[0]]);
+    expect(() => replay.setSpeed(0)).toThrow('Invalid replay speed');
+  });
+
+  it('should publish replayed fields as delta updates and restore the instruments afterwards', async () => {
+    const instrumentManager = new InstrumentManager();
+    const simulator = new MarketSimulator(instrumentManager, { updateInterval: 1000 }, new CurveManager());
+    const published: DeltaUpdate[][] = [];
+    simulator.onUpdate(updates => published.push(updates));
+    await simulator.initialize();
+
+    const bond = instrumentManager.getInstrument('US10Y') as Bond;
+    const seededPrice = bond.currentPrice;
+    simulator.startReplay(loadReplayFile('sample-us-rates.jsonl'), { speed: 5 });
+
+    simulator.fastForward(1);
+    expect(bond.currentPrice).toBe(98.62);
+    const update = published[0].find(u => u.instrumentId === 'US10Y')!;
+    expect(update.timestamp).toBe(start + 5000);
+    expect(update.fields).toMatchObject({ currentPrice: 98.62, yieldToMaturity: 4.43 });
+
+    simulator.seekReplay(new Date(start));
+    expect(bond.currentPrice).toBe(98.75);
+    expect(simulator.now().getTime()).toBe(start);
+
+    simulator.fastForward(10);
+    expect(simulator.getReplayState()).toMatchObject({ status: 'finished', position: 10 });
+    expect(bond.currentPrice).toBe(98.55);
+
+    simulator.stopReplay();
+    expect(simulator.getReplayState()).toBeUndefined();
+    expect(bond.currentPrice).toBe(seededPrice);
+  });
+});
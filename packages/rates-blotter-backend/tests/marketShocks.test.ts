@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import Fastify from 'fastify';
+import { configureShockRoutes } from '../src/server/shockRoutes';
+import { instrumentMarketValue } from '../src/server/valuation';
+import { curveShockBp, validateCurveShock } from '../src/analytics/curveShocks';
+import { ReferenceRateIndex } from '../src/models/enums';
+import { InterestRateSwap } from '../src/models/interestRateSwap';
+import { DeltaUpdate } from '../src/types';
+import { Future } from '../src/models/future';
+import { quietSimulator } from './helpers';
+
+const start = new Date('2023-04-03T14:00:00Z');
+
+describe('Market shocks', () => {
+  it('should twist about a pivot and peak a butterfly there', () => {
+    const twist = { shape: 'twist' as const, bp: 20, pivotTenor: '5Y' };
+    expect(curveShockBp(twist, 5)).toBeCloseTo(0, 10);
+    expect(curveShockBp(twist, 10) - curveShockBp(twist, 2)).toBeCloseTo(20, 10);
+    expect(curveShockBp(twist, 1)).toBeCloseTo(-7.5, 10);
+
+    const butterfly = { shape: 'butterfly' as const, bp: -6, pivotTenor: '5Y' };
+    expect(curveShockBp(butterfly, 5)).toBeCloseTo(-6, 10);
+    expect(curveShockBp(butterfly, 3.5)).toBeCloseTo(-3, 10);
+    expect(curveShockBp(butterfly, 10)).toBeCloseTo(0, 10);
+
+    expect(() => validateCurveShock({ shape: 'twist', bp: 5, pivotTenor: '30Y' })).toThrow('pivot tenor must lie between');
+  });
+
+  it('should move the curves of the selected currencies and report the change per book', async () => {
+    const { simulator, instrumentManager, curveManager } = await quietSimulator(start, 5);
+    const published: DeltaUpdate[] = [];
+    simulator.onUpdate(updates => published.push(...updates));
+    const tenYear = () => curveManager.getQuotes(ReferenceRateIndex.SOFR).find(q => q.type === 'SWAP' && q.tenor === '10Y')!.rate;
+    const quoteBefore = tenYear();
+    const bondBefore = instrumentMarketValue(instrumentManager.getInstrument('US10Y')!);
+
+    const result = simulator.applyShock({ shape: 'parallel', bp: 25 }, { notionalCurrency: ['USD'] });
+
+    expect(result.scope).toBe('curves');
+    expect(tenYear()).toBeCloseTo(quoteBefore + 0.25, 6);
+    expect(published.some(update => update.instrumentId === 'US10Y' && 'currentPrice' in update.fields)).toBe(true);
+
+    // Higher rates cost the long bond book money; the book's change is the sum of its positions'
+    const rates = result.books.find(row => row.book === 'US_RATES')!;
+    expect(rates.mtmChange).toBeLessThan(0);
+    expect(instrumentMarketValue(instrumentManager.getInstrument('US10Y')!)).toBeLessThan(bondBefore);
+    expect(result.totals.USD).toBeCloseTo(result.books.reduce((sum, row) => sum + row.mtmChange, 0), 2);
+  });
+
+  it('should shock only the selected instruments until cleared', async () => {
+    const { simulator, instrumentManager, curveManager } = await quietSimulator(start, 5);
+    simulator.fastForward(1); // Priced off the unmoving curves from here on
+    const swap = instrumentManager.getInstrument('USD5YIRS') as InterestRateSwap;
+    const bond = instrumentManager.getInstrument('US10Y')!;
+    const swapRate = swap.swapRate;
+    const bondPrice = instrumentMarketValue(bond);
+    const quotes = JSON.stringify(curveManager.getQuotes(ReferenceRateIndex.SOFR));
+
+    const result = simulator.applyShock({ shape: 'parallel', bp: 10 }, { securityType: ['INTEREST_RATE_SWAP'] });
+
+    expect(result.scope).toBe('instruments');
+    expect(result.instrumentIds).toEqual(['USD5YIRS']);
+    expect(result.books.map(row => row.book)).toEqual(['IR_SWAPS']);
+    expect(JSON.stringify(curveManager.getQuotes(ReferenceRateIndex.SOFR))).toBe(quotes);
+    expect(instrumentMarketValue(bond)).toBe(bondPrice);
+    expect(swap.swapRate - swapRate).toBeCloseTo(0.1, 2);
+
+    // The shock holds through later ticks, then comes off
+    simulator.fastForward(2);
+    expect(swap.swapRate - swapRate).toBeCloseTo(0.1, 2);
+    expect(simulator.clearShocks()).toBe(1);
+    expect(swap.swapRate).toBeCloseTo(swapRate, 3);
+
+    expect(() => simulator.applyShock({ shape: 'parallel', bp: 10 }, { instrumentIds: ['NOPE'] })).toThrow(
+      'No live instruments match the shock filter'
+    );
+  });
+
+  it('should leave order flow and the seeded tick stream to the timed ticks', async () => {
+    const { simulator, instrumentManager } = await quietSimulator(start, 5);
+    const { simulator: untouched, instrumentManager: untouchedInstruments } = await quietSimulator(start, 5);
+    simulator.fastForward(1);
+    untouched.fastForward(1);
+    let prints = 0;
+    simulator.onTradePrint(trades => (prints += trades.length));
+    const future = instrumentManager.getInstrument('ZN-U23') as Future;
+    const { volume, lastTradeTime } = future;
+
+    for (let i = 0; i < 5; i++) {
+      simulator.applyShock({ shape: 'parallel', bp: 0 }, { instrumentIds: ['US10Y'] });
+    }
+    simulator.clearShocks();
+    expect(prints).toBe(0);
+    expect(future.volume).toBe(volume);
+    expect(future.lastTradeTime).toEqual(lastTradeTime);
+
+    simulator.fastForward(3);
+    untouched.fastForward(3);
+    const other = untouchedInstruments.getInstrument('ZN-U23') as Future;
+    expect([future.bidPrice, future.askPrice, future.bidSize, future.volume]).toEqual([other.bidPrice, other.askPrice, other.bidSize, other.volume]);
+  });
+
+  it('should refuse a shock with a filter field it does not know', async () => {
+    const { simulator, curveManager } = await quietSimulator(start, 5);
+    const fastify = Fastify();
+    configureShockRoutes(fastify, simulator);
+    const tenYear = () => curveManager.getCurve(ReferenceRateIndex.SOFR)!.zeroRate(10);
+    const before = tenYear();
+
+    const response = await fastify.inject({
+      method: 'POST',
+      url: '/api/admin/shocks',
+      payload: { shape: 'parallel', bp: 25, securityTypes: ['INTEREST_RATE_SWAP'] },
+    });
+    expect(response.statusCode).toBe(400);
+    expect(response.json().error).toBe('Unknown shock fields: securityTypes');
+    expect(tenYear()).toBe(before);
+    await fastify.close();
+  });
+});
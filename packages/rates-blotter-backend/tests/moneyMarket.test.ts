@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest';
+import { bondEquivalentYield, moneyMarketAnalytics, moneyMarketYield, valueRepo } from '../src/analytics/moneyMarket';
+import { valueFra } from '../src/analytics/fraPricing';
+import { CurveManager } from '../src/server/curveManager';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { MoneyMarketInstrument } from '../src/models/moneyMarket';
+import { Repo } from '../src/models/repo';
+import { ForwardRateAgreement } from '../src/models/fra';
+import { Currency, MoneyMarketType, RateBasis, RepoDirection, SwapDirection } from '../src/models/enums';
+
+const instrumentManager = new InstrumentManager();
+instrumentManager.createExampleInstruments();
+const settlement = new Date('2024-01-02');
+
+describe('Money-market instruments', () => {
+  const bill: MoneyMarketInstrument = {
+    ...(instrumentManager.getInstrument('US3MBILL') as MoneyMarketInstrument),
+    moneyMarketType: MoneyMarketType.TBILL,
+    rateBasis: RateBasis.DISCOUNT,
+    issueDate: '2023-10-03',
+    maturityDate: '2024-04-02', // 91 days after settlement
+    faceValue: 1000000,
+    couponRate: 0,
+  };
+
+  it('should quote bills on a discount basis', () => {
+    // Price 98.685556 is a 5.20% discount over 91 days
+    const yieldPct = moneyMarketYield(bill, 100 * (1 - 0.052 * 91 / 360), settlement);
+    const analytics = moneyMarketAnalytics(bill, yieldPct, settlement);
+    expect(analytics.price).toBeCloseTo(98.685556, 6);
+    expect(analytics.discountRate).toBeCloseTo(5.2, 10);
+    expect(analytics.moneyMarketYield).toBeCloseTo(5.2693, 4);
+    expect(analytics.daysToMaturity).toBe(91);
+    // Price sensitivity of a simple yield: P * t / (1 + y * t) per 100
+    const t = 91 / 360;
+    expect(analytics.dv01).toBeCloseTo((analytics.price / 100) * 1000000 * t / (1 + yieldPct / 100 * t) * 1e-4, 4);
+  });
+
+  it('should compute bond-equivalent yields either side of half a year', () => {
+    expect(bondEquivalentYield(98.685556, 91)).toBeCloseTo(5.34244, 5);
+    // One year: the quadratic reduces to semi-annual compounding
+    const price = 100 / Math.pow(1.025, 2);
+    expect(bondEquivalentYield(price, 365)).toBeCloseTo(5, 8);
+  });
+
+  it('should price CDs off their maturity value', () => {
+    const cd: MoneyMarketInstrument = {
+      ...bill,
+      moneyMarketType: MoneyMarketType.CD,
+      rateBasis: RateBasis.YIELD,
+      issueDate: '2023-10-03',
+      couponRate: 5.4,
+    };
+    // Yield equal to the coupon at issue prices at par
+    const atIssue = moneyMarketAnalytics(cd, 5.4, new Date('2023-10-03'));
+    expect(atIssue.price).toBeCloseTo(100, 10);
+    expect(moneyMarketYield(cd, atIssue.price, new Date('2023-10-03'))).toBeCloseTo(5.4, 10);
+  });
+});
+
+describe('Repos', () => {
+  const repo: Repo = {
+    ...(instrumentManager.getInstrument('UST10Y-RR1M') as Repo),
+    direction: RepoDirection.REVERSE_REPO,
+    startDate: '2024-01-02',
+    endDate: '2024-02-01',
+    notionalAmount: 10000000,
+    repoRate: 5.4,
+    collateralNominal: 10500000,
+    haircut: 2,
+  };
+
+  it('should accrue interest and check the margin', () => {
+    const valuation = valueRepo(repo, 98, 5.4, new Date('2024-01-12'));
+    expect(valuation.accruedInterest).toBeCloseTo(10000000 * 0.054 * 10 / 360, 6);
+    expect(valuation.repurchaseAmount).toBeCloseTo(10000000 * (1 + 0.054 * 30 / 360), 6);
+    expect(valuation.collateralValue).toBeCloseTo(10290000, 6);
+    expect(valuation.marginExcess).toBeCloseTo(10290000 * 0.98 - 10000000 - valuation.accruedInterest, 6);
+    // Contract at the market rate has no value
+    expect(valuation.mtm).toBeCloseTo(0, 6);
+  });
+
+  it('should gain for the cash lender when market rates fall', () => {
+    const lender = valueRepo(repo, 98, 5.0, new Date('2024-01-12'));
+    const borrower = valueRepo({ ...repo, direction: RepoDirection.REPO }, 98, 5.0, new Date('2024-01-12'));
+    expect(lender.mtm).toBeGreaterThan(0);
+    expect(borrower.mtm).toBeCloseTo(-lender.mtm, 8);
+    expect(lender.dv01).toBeLessThan(0);
+  });
+});
+
+describe('FRAs', () => {
+  const curveManager = new CurveManager();
+  const curve = curveManager.getDiscountCurve(Currency.USD)!;
+  const context = { asOf: settlement, discountCurve: curve, forwardCurve: curve };
+  const fra: ForwardRateAgreement = {
+    ...(instrumentManager.getInstrument('USD3X6FRA') as ForwardRateAgreement),
+    startDate: '2024-04-02',
+    endDate: '2024-07-02',
+    notionalAmount: 100000000,
+    direction: SwapDirection.PAY_FIXED,
+  };
+
+  it('should have no value at the forward rate', () => {
+    const { forwardRate, accrualFactor } = valueFra(fra, context);
+    expect(accrualFactor).toBeCloseTo(91 / 360, 12);
+    const atForward = valueFra({ ...fra, contractRate: forwardRate }, context);
+    expect(atForward.mtm).toBeCloseTo(0, 6);
+    expect(atForward.settlementAmount).toBeCloseTo(0, 6);
+  });
+
+  it('should pay the buyer the discounted rate difference', () => {
+    const { forwardRate, accrualFactor } = valueFra(fra, context);
+    const valuation = valueFra({ ...fra, contractRate: forwardRate - 0.1 }, context);
+    const forward = forwardRate / 100;
+    expect(valuation.settlementAmount).toBeCloseTo(
+      (100000000 * 0.001 * accrualFactor) / (1 + forward * accrualFactor),
+      6
+    );
+    expect(valuation.dv01).toBeGreaterThan(0);
+    expect(valueFra({ ...fra, direction: SwapDirection.RECEIVE_FIXED }, context).dv01).toBeLessThan(0);
+  });
+});
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { OptionInputs, impliedVolatility, normalCdf, priceOption } from '../src/analytics/optionPricing';
+import { OptionPricingModel } from '../src/models/enums';
+
+const black: OptionInputs = {
+  model: OptionPricingModel.BLACK_76,
+  optionType: 'call',
+  forward: 112.25,
+  strike: 114,
+  timeToExpiry: 0.25,
+  volatility: 0.06,
+  rate: 0.05,
+};
+const normal: OptionInputs = { ...black, model: OptionPricingModel.BACHELIER, volatility: 6.5 };
+
+const bump = (inputs: OptionInputs, field: 'forward' | 'volatility' | 'rate' | 'timeToExpiry', h: number) =>
+  (priceOption({ ...inputs, [field]: inputs[field] + h }).price - priceOption({ ...inputs, [field]: inputs[field] - h }).price) / (2 * h);
+
+describe('Option pricing', () => {
+  it('should evaluate the normal distribution', () => {
+    expect(normalCdf(0)).toBeCloseTo(0.5, 15);
+    expect(normalCdf(1.96)).toBeCloseTo(0.9750021048517795, 12);
+    expect(normalCdf(-3)).toBeCloseTo(0.0013498980316301, 14);
+  });
+
+  it('should satisfy put-call parity under both models', () => {
+    [black, normal].forEach(inputs => {
+      const call = priceOption(inputs).price;
+      const put = priceOption({ ...inputs, optionType: 'put' }).price;
+      const discount = Math.exp(-inputs.rate * inputs.timeToExpiry);
+      expect(call - put).toBeCloseTo(discount * (inputs.forward - inputs.strike), 10);
+    });
+  });
+
+  it('should price an at-the-money Bachelier option in closed form', () => {
+    const atm = { ...normal, strike: normal.forward };
+    const expected = Math.exp(-atm.rate * atm.timeToExpiry) * atm.volatility * Math.sqrt(atm.timeToExpiry / (2 * Math.PI));
+    expect(priceOption(atm).price).toBeCloseTo(expected, 12);
+  });
+
+  it('should match greeks to finite differences', () => {
+    [black, normal].forEach(base => {
+      (['call', 'put'] as const).forEach(optionType => {
+        const inputs = { ...base, optionType };
+        const greeks = priceOption(inputs);
+        expect(greeks.delta).toBeCloseTo(bump(inputs, 'forward', 1e-4), 6);
+        expect(greeks.gamma).toBeCloseTo(
+          (bump({ ...inputs, forward: inputs.forward + 1e-3 }, 'forward', 1e-4) -
+            bump({ ...inputs, forward: inputs.forward - 1e-3 }, 'forward', 1e-4)) / 2e-3,
+          4
+        );
+        expect(greeks.vega).toBeCloseTo(bump(inputs, 'volatility', 1e-5), 5);
+        expect(greeks.rho).toBeCloseTo(bump(inputs, 'rate', 1e-6), 5);
+        // Theta is the decay in calendar time, so the expiry shortens
+        expect(greeks.theta).toBeCloseTo(-bump(inputs, 'timeToExpiry', 1e-6), 4);
+      });
+    });
+  });
+
+  it('should recover the volatility from a price', () => {
+    [black, normal].forEach(inputs => {
+      [108, 114, 118].forEach(strike => {
+        const { price } = priceOption({ ...inputs, strike, optionType: 'put' });
+        const { volatility, ...rest } = { ...inputs, strike, optionType: 'put' as const };
+        expect(impliedVolatility(price, rest)).toBeCloseTo(volatility, 6);
+      });
+    });
+  });
+
+  it('should value expired options at intrinsic and reject prices below it', () => {
+    const expired = priceOption({ ...black, optionType: 'put', timeToExpiry: -1 });
+    expect(expired.price).toBeCloseTo(1.75, 12);
+    expect(expired.delta).toBe(-1);
+    expect(expired.gamma).toBe(0);
+
+    const { volatility, ...rest } = black;
+    expect(impliedVolatility(0, { ...rest, strike: 100 })).toBeUndefined();
+    expect(impliedVolatility(1, { ...rest, timeToExpiry: 0 })).toBeUndefined();
+  });
+});
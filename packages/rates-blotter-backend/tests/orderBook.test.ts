@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { MarketSimulator } from '../src/server/marketSimulator';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { CurveManager } from '../src/server/curveManager';
+import { OrderBook, OrderBookDepth, OrderFlow } from '../src/server/orderBook';
+import { poissonRandom } from '../src/utils/random';
+import { ManualClock, createSeededRandom } from '../src/utils';
+
+const FLOW: OrderFlow = { arrivalRate: 0.5, cancelRate: 0.1, marketOrderRate: 0.2, orderSize: 20, lotSize: 1 };
+
+describe('Order books', () => {
+  it('should draw Poisson counts with the requested mean', () => {
+    const random = createSeededRandom(3);
+    [0.5, 4, 60].forEach(mean => {
+      const draws = Array.from({ length: 4000 }, () => poissonRandom(random, mean));
+      const average = draws.reduce((sum, n) => sum + n, 0) / draws.length;
+      expect(average).toBeCloseTo(mean, mean < 10 ? 1 : 0);
+      expect(draws.every(n => Number.isInteger(n) && n >= 0)).toBe(true);
+    });
+    expect(poissonRandom(random, 0)).toBe(0);
+  });
+
+  it('should hold tick-spaced levels behind the inside prices and follow them', () => {
+    const book = new OrderBook('ZN', 5, createSeededRandom(4));
+    book.step({ bid: 110.5, ask: 110.515625 }, 1 / 64, FLOW, 1, 1000);
+    let depth = book.depth();
+    expect(depth.bids[0].price).toBe(110.5);
+    expect(depth.asks[0].price).toBe(110.515625);
+    expectLadder(depth, 5);
+
+    // Orders at prices still in the book survive the move
+    const resting = depth.bids.find(level => level.price === 110.46875)!;
+    book.step({ bid: 110.484375, ask: 110.5 }, 1 / 64, { ...FLOW, arrivalRate: 0, cancelRate: 0, marketOrderRate: 0 }, 1, 2000);
+    depth = book.depth();
+    expect(depth.timestamp).toBe(2000);
+    expect(depth.bids.find(level => level.price === 110.46875)).toEqual(resting);
+    expectLadder(depth, 5);
+
+    // Repos are bid at the higher rate, deeper bids higher still
+    const repo = new OrderBook('REPO', 3, createSeededRandom(5), true);
+    repo.step({ bid: 5.32, ask: 5.26 }, 0.01, { ...FLOW, orderSize: 5_000_000, lotSize: 1_000_000 }, 1, 1000);
+    const repoDepth = repo.depth();
+    expect(repoDepth.bids.map(level => level.price)).toEqual([5.32, 5.33, 5.34].slice(0, repoDepth.bids.length));
+    expect(repoDepth.asks.map(level => level.price)).toEqual([5.26, 5.25, 5.24].slice(0, repoDepth.asks.length));
+
+    expect(() => new OrderBook('ZN', 0, Math.random)).toThrow('Invalid order book depth');
+    [0, NaN, 2.5].forEach(orderBookLevels =>
+      expect(() => new MarketSimulator(new InstrumentManager(), { orderBookLevels })).toThrow('Invalid order book depth')
+    );
+  });
+
+  it('should show the top of each book on its instrument and publish full depth', async () => {
+    const instrumentManager = new InstrumentManager();
+    const simulator = new MarketSimulator(
+      instrumentManager,
+      { random: createSeededRandom(12), clock: new ManualClock(new Date('2023-06-05T14:00:00Z')), orderBookLevels: 6 },
+      new CurveManager()
+    );
+    const published: OrderBookDepth[][] = [];
+    simulator.onDepthUpdate(depth => published.push(depth));
+    await simulator.initialize();
+    simulator.fastForward(5);
+
+    expect(published).toHaveLength(5);
+    const future = instrumentManager.getInstrument('ZN-U23')!;
+    const depth = simulator.getDepth('ZN-U23')!;
+    expect(published[4].find(book => book.instrumentId === 'ZN-U23')).toEqual(depth);
+    expectLadder(depth, 6);
+    expect(future.bidPrice).toBe(depth.bids[0].price);
+    expect(future.askPrice).toBe(depth.asks[0].price);
+    expect(future.bidSize).toBe(depth.bids[0].size);
+    expect(future.offerSize).toBe(depth.asks[0].size);
+    expect(simulator.getDepth('NOPE')).toBeUndefined();
+
+    // A liquid treasury's book runs deeper than an illiquid corporate's
+    const total = (book: OrderBookDepth) => book.bids.length + book.asks.length;
+    const orders = (book: OrderBookDepth) => [...book.bids, ...book.asks].reduce((sum, level) => sum + level.orders, 0);
+    expect(total(simulator.getDepth('US10Y')!)).toBeGreaterThan(0);
+    expect(orders(simulator.getDepth('US10Y')!)).toBeGreaterThan(orders(simulator.getDepth('ACME32')!));
+  });
+});
+
+/**
+ * Each side's prices are on the tick grid, moving away from the inside,
+ * and no more than `levels` deep
+ */
+function expectLadder(depth: OrderBookDepth, levels: number): void {
+  expect(depth.bids.length).toBeLessThanOrEqual(levels);
+  expect(depth.asks.length).toBeLessThanOrEqual(levels);
+  expect(depth.bids[0].price).toBeLessThan(depth.asks[0].price);
+  [depth.bids, depth.asks].forEach(side => {
+    side.forEach(level => {
+      expect(level.size).toBeGreaterThan(0);
+      expect(level.orders).toBeGreaterThan(0);
+      expect(level.price / depth.tickSize).toBeCloseTo(Math.round(level.price / depth.tickSize), 6);
+    });
+  });
+  expect(depth.bids.every((level, i) => i === 0 || level.price < depth.bids[i - 1].price)).toBe(true);
+  expect(depth.asks.every((level, i) => i === 0 || level.price > depth.asks[i - 1].price)).toBe(true);
+}
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import { compoundOvernightRate, CompoundingPeriod, FixingLookup } from '../src/analytics/overnightCompounding';
+import { accruedFloatingCoupon } from '../src/analytics/swapPricing';
+import { HolidayCalendar } from '../src/analytics/calendar';
+import { CurveManager } from '../src/server/curveManager';
+import { CalendarManager } from '../src/server/calendarManager';
+import { FixingsManager } from '../src/server/fixingsManager';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { swapValuationContext } from '../src/server/valuation';
+import { InterestRateSwap } from '../src/models/interestRateSwap';
+import { date } from './helpers';
+
+// Each fixing encodes its own date so the fixing applied is identifiable
+const fixing: FixingLookup = day => 5 + day.getUTCDate() / 100;
+
+function growthOf(fixings: [number, number][]): number {
+  return fixings.reduce((growth, [day, days]) => growth * (1 + (5 + day / 100) / 100 * days / 360), 1);
+}
+
+describe('Overnight compounding', () => {
+  const calendar = new HolidayCalendar({ name: 'WEEKEND', currencies: [], holidays: [] });
+  // Monday to Monday: business days 5th-9th, Friday weighted over the weekend
+  const week: CompoundingPeriod = {
+    start: date('2026-10-05'),
+    end: date('2026-10-12'),
+    calendar,
+    dayCountBasis: 360,
+  };
+
+  it('should compound daily fixings weighted by calendar days', () => {
+    const compounded = compoundOvernightRate(week, fixing)!;
+    const growth = growthOf([[5, 1], [6, 1], [7, 1], [8, 1], [9, 3]]);
+
+    expect(compounded.days).toBe(7);
+    expect(compounded.growth).toBeCloseTo(growth, 12);
+    expect(compounded.rate).toBeCloseTo((growth - 1) * 360 / 7 * 100, 10);
+    expect(compounded.observations.map(o => o.fixingDate)).toEqual(
+      ['2026-10-05', '2026-10-06', '2026-10-07', '2026-10-08', '2026-10-09']
+    );
+  });
+
+  it('should apply a lookback with the accrual day weights', () => {
+    const compounded = compoundOvernightRate(
+      { ...week, conventions: { lookbackDays: 2, lockoutDays: 0, observationShift: false } },
+      fixing
+    )!;
+
+    expect(compounded.observations.map(o => o.fixingDate)).toEqual(
+      ['2026-10-01', '2026-10-02', '2026-10-05', '2026-10-06', '2026-10-07']
+    );
+    expect(compounded.growth).toBeCloseTo(growthOf([[1, 1], [2, 1], [5, 1], [6, 1], [7, 3]]), 12);
+  });
+
+  it('should weight fixings by their own days under an observation shift', () => {
+    const compounded = compoundOvernightRate(
+      { ...week, conventions: { lookbackDays: 2, lockoutDays: 0, observationShift: true } },
+      fixing
+    )!;
+
+    // Observation period 1st-8th: the weekend weight moves to Friday the 2nd
+    expect(compounded.observations.map(o => [o.fixingDate, o.days])).toEqual([
+      ['2026-10-01', 1], ['2026-10-02', 3], ['2026-10-05', 1], ['2026-10-06', 1], ['2026-10-07', 1],
+    ]);
+    expect(compounded.growth).toBeCloseTo(growthOf([[1, 1], [2, 3], [5, 1], [6, 1], [7, 1]]), 12);
+  });
+
+  it('should freeze the last fixings under a lockout', () => {
+    const compounded = compoundOvernightRate(
+      { ...week, conventions: { lookbackDays: 0, lockoutDays: 2, observationShift: false } },
+      fixing
+    )!;
+
+    // The last two days take the fixing of the first locked-out day
+    expect(compounded.observations.map(o => o.fixingDate)).toEqual(
+      ['2026-10-05', '2026-10-06', '2026-10-07', '2026-10-08', '2026-10-08']
+    );
+  });
+
+  it('should stop accruing at accrueTo', () => {
+    const compounded = compoundOvernightRate({ ...week, accrueTo: date('2026-10-08') }, fixing)!;
+
+    expect(compounded.days).toBe(3);
+    expect(compounded.growth).toBeCloseTo(growthOf([[5, 1], [6, 1], [7, 1]]), 12);
+  });
+
+  it('should be undefined when a fixing is missing', () => {
+    const gap: FixingLookup = day => (day.getUTCDate() === 7 ? undefined : fixing(day));
+    expect(compoundOvernightRate(week, gap)).toBeUndefined();
+    // Accruing only up to the gap needs no fixing for it
+    expect(compoundOvernightRate({ ...week, accrueTo: date('2026-10-07') }, gap)).toBeDefined();
+  });
+});
+
+describe('Fixings store', () => {
+  it('should load histories and fall back to the latest earlier fixing', () => {
+    const fixingsManager = new FixingsManager();
+    expect(fixingsManager.getIndices()).toEqual(expect.arrayContaining(['SOFR', 'ESTR', 'SONIA']));
+
+    const friday = fixingsManager.getFixing('SOFR', date('2026-10-16'))!;
+    expect(friday).toBeDefined();
+    expect(fixingsManager.getFixing('SOFR', date('2026-10-17'))).toBeUndefined();
+    expect(fixingsManager.lookup('sofr')(date('2026-10-18'))).toBe(friday);
+    expect(fixingsManager.lookup('SOFR')(date('1999-01-01'))).toBeUndefined();
+  });
+
+  it('should upsert fixings in date order', () => {
+    const fixingsManager = new FixingsManager();
+    fixingsManager.addFixings('SOFR', [{ date: '2026-10-20', rate: 5.2 }, { date: '2026-10-19', rate: 5.1 }]);
+    fixingsManager.addFixings('SOFR', [{ date: '2026-10-20', rate: 5.25 }]);
+
+    expect(fixingsManager.getFixings('SOFR', date('2026-10-19'))).toEqual([
+      { date: '2026-10-19', rate: 5.1 },
+      { date: '2026-10-20', rate: 5.25 },
+    ]);
+    expect(fixingsManager.latestFixing('SOFR')).toEqual({ date: '2026-10-20', rate: 5.25 });
+    expect(() => fixingsManager.addFixings('LIBOR', [])).toThrow('Unknown index');
+  });
+
+  it('should accrue the running floating coupon of a swap from its fixings', () => {
+    const instrumentManager = new InstrumentManager();
+    instrumentManager.createExampleInstruments();
+    const swap = instrumentManager.getInstrument('USD5YIRS') as InterestRateSwap;
+    const asOf = date('2026-10-19');
+    const context = swapValuationContext(swap, new CurveManager(), new CalendarManager(), asOf, new FixingsManager())!;
+    const accrual = accruedFloatingCoupon(swap, context)!;
+
+    expect(accrual.periodStart <= '2026-10-19' && '2026-10-19' < accrual.periodEnd).toBe(true);
+    expect(accrual.accrualDays).toBe(accrual.observations.reduce((days, o) => days + o.days, 0));
+
+    const growth = accrual.observations.reduce((g, o) => g * (1 + o.rate / 100 * o.days / 360), 1);
+    expect(accrual.accruedAmount).toBeCloseTo(
+      swap.notionalAmount * (growth - 1 + swap.floatingRateSpread / 100 * accrual.accrualDays / 360),
+      6
+    );
+
+    // The sample histories go back to before the swap's first period
+    const firstPeriod = accruedFloatingCoupon(swap, { ...context, asOf: date('2023-06-05') })!;
+    expect(firstPeriod.periodStart).toBe('2023-04-03');
+    const fixingsManager = new FixingsManager();
+    firstPeriod.observations.forEach(o => expect(fixingsManager.getFixing('SOFR', date(o.fixingDate))).toBe(o.rate));
+
+    // No accrual outside the life of the swap
+    expect(accruedFloatingCoupon(swap, { ...context, asOf: date('2040-01-01') })).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { MarketSimulator } from '../src/server/marketSimulator';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { CurveManager } from '../src/server/curveManager';
+import { quoteAroundMid, roundToLot } from '../src/analytics/quotes';
+import { bondYieldFromPrice } from '../src/analytics/bondMath';
+import { quotedLevel } from '../src/server/valuation';
+import { Bond } from '../src/models/bond';
+import { SecurityType, TradingStatus } from '../src/models/enums';
+import { ManualClock, createSeededRandom } from '../src/utils';
+
+describe('Two-way quotes', () => {
+  it('should put bid and ask on the tick grid either side of the mid', () => {
+    expect(quoteAroundMid(100, 2, 0.25)).toEqual({ bid: 99.75, ask: 100.25 });
+    expect(quoteAroundMid(100.1, 1, 0.25)).toEqual({ bid: 100, ask: 100.25 });
+    expect(quoteAroundMid(100.1, 3, 0.25)).toEqual({ bid: 99.75, ask: 100.5 });
+    expect(quoteAroundMid(4.3512, 0.2, 0.001)).toEqual({ bid: 4.351, ask: 4.352 });
+    expect(roundToLot(2_340_000, 1_000_000)).toBe(2_000_000);
+    expect(roundToLot(120, 1_000_000)).toBe(1_000_000);
+  });
+
+  it('should quote every trading instrument around its mid, wider when the market is volatile', async () => {
+    const instrumentManager = new InstrumentManager();
+    const start = new Date('2023-06-05T14:00:00Z');
+    const simulator = new MarketSimulator(
+      instrumentManager,
+      { random: createSeededRandom(21), clock: new ManualClock(start) },
+      new CurveManager()
+    );
+    await simulator.initialize();
+    simulator.fastForward(3);
+
+    instrumentManager.getAllInstruments().forEach(instrument => {
+      expect(instrument.status).toBe(TradingStatus.ACTIVE);
+      const mid = quotedLevel(instrument);
+      const [low, high] = instrument.securityType === SecurityType.REPO
+        ? [instrument.askPrice, instrument.bidPrice]
+        : [instrument.bidPrice, instrument.askPrice];
+      expect(low).toBeLessThanOrEqual(mid);
+      expect(high).toBeGreaterThanOrEqual(mid);
+      expect(high).toBeGreaterThan(low);
+      expect(instrument.bidSize).toBeGreaterThan(0);
+      expect(instrument.offerSize).toBeGreaterThan(0);
+    });
+
+    // Bond yields are those of the quoted prices, the bid yielding more
+    const bond = instrumentManager.getInstrument('US10Y') as Bond;
+    const settlement = instrumentManager.spotSettlementDate(bond, simulator.now());
+    expect(bond.bidYield).toBeGreaterThan(bond.askYield);
+    expect(bond.bidYield).toBeCloseTo(bondYieldFromPrice(bond, bond.bidPrice, settlement), 4);
+    expect(bond.askYield).toBeCloseTo(bondYieldFromPrice(bond, bond.askPrice, settlement), 4);
+    expect(((bond.askPrice - bond.bidPrice) * 128) % 1).toBeCloseTo(0, 6);
+    expect(bond.bidSize % 1_000_000).toBe(0);
+
+    // The less liquid corporate is quoted wider than the treasury
+    const corporate = instrumentManager.getInstrument('ACME32')!;
+    expect(corporate.askPrice - corporate.bidPrice).toBeGreaterThan(bond.askPrice - bond.bidPrice);
+
+    const calmSpread = bond.askPrice - bond.bidPrice;
+    simulator.updateScenario('flashEvent');
+    simulator.triggerFlashEvent(60_000);
+    simulator.fastForward(1);
+    expect(bond.askPrice - bond.bidPrice).toBeGreaterThan(calmSpread * 3);
+  });
+});
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { loadScenarioFile, parseScenarioDuration, parseScenarioScript } from '../src/server/scenarioScript';
+import { CurveManager } from '../src/server/curveManager';
+import { curveShockBp } from '../src/analytics/curveShocks';
+import { ReferenceRateIndex, TradingStatus } from '../src/models/enums';
+import { quietSimulator } from './helpers';
+
+const start = new Date('2024-06-03T14:00:00Z');
+
+function swapRate(curveManager: CurveManager, tenor: string): number {
+  const quote = curveManager.getQuotes(ReferenceRateIndex.SOFR).find(q => q.type === 'SWAP' && q.tenor === tenor)!;
+  return quote.rate;
+}
+
+describe('Scenario scripts', () => {
+  it('should parse time offsets and reject bad events', () => {
+    expect(parseScenarioDuration('T+30s')).toBe(30_000);
+    expect(parseScenarioDuration('1m30s')).toBe(90_000);
+    expect(parseScenarioDuration('250ms')).toBe(250);
+    expect(parseScenarioDuration(2)).toBe(2000);
+    expect(() => parseScenarioDuration('soon')).toThrow('Invalid scenario duration');
+
+    const script = parseScenarioScript({
+      name: 'Ordered',
+      events: [
+        { at: '2m', action: 'resume', instrumentId: 'US10Y' },
+        { at: '1m', action: 'suspend', instrumentId: 'US10Y', for: '30s' },
+      ],
+    });
+    expect(script.events.map(event => event.action)).toEqual(['suspend', 'resume']);
+    expect(() => parseScenarioScript({ name: 'Bad', events: [{ action: 'shiftCurve', shape: 'parallel', bp: 5 }] })).toThrow(
+      'Scenario event 1: shiftCurve needs a currency or an index'
+    );
+    expect(() => parseScenarioScript({ name: 'Bad', events: [{ action: 'rally' }] })).toThrow('Unknown scenario action');
+    expect(loadScenarioFile('fomc-hike.json').events).toHaveLength(6);
+  });
+
+  it('should shape twists and butterflies between the tenors', () => {
+    const twist = { shape: 'twist' as const, bp: 10 };
+    expect(curveShockBp(twist, 2)).toBeCloseTo(-5, 10);
+    expect(curveShockBp(twist, 6)).toBeCloseTo(0, 10);
+    expect(curveShockBp(twist, 30)).toBeCloseTo(5, 10);
+
+    const butterfly = { shape: 'butterfly' as const, bp: 4, shortTenor: '5Y', longTenor: '15Y' };
+    expect(curveShockBp(butterfly, 10)).toBeCloseTo(4, 10);
+    expect(curveShockBp(butterfly, 1)).toBe(0);
+    expect(curveShockBp(butterfly, 30)).toBe(0);
+  });
+
+  it('should shift a currency\'s curves at the scripted time, gradually when asked', async () => {
+    const { simulator, curveManager } = await quietSimulator(start, 1);
+    const before = { five: swapRate(curveManager, '5Y'), ten: swapRate(curveManager, '10Y') };
+
+    simulator.loadScenarioScript(parseScenarioScript({
+      name: 'Hike',
+      events: [
+        { at: 'T+5s', action: 'shiftCurve', currency: 'USD', shape: 'parallel', bp: 25 },
+        { at: 'T+10s', action: 'shiftCurve', currency: 'USD', shape: 'twist', bp: 10, over: '10s' },
+      ],
+    }));
+
+    simulator.fastForward(4);
+    expect(swapRate(curveManager, '5Y')).toBe(before.five);
+    simulator.fastForward(1);
+    expect(swapRate(curveManager, '5Y')).toBeCloseTo(before.five + 0.25, 6);
+
+    simulator.fastForward(10); // Halfway through the twist
+    expect(swapRate(curveManager, '10Y') - before.ten).toBeCloseTo(0.25 + 0.025, 6);
+    simulator.fastForward(10);
+    expect(swapRate(curveManager, '10Y') - before.ten).toBeCloseTo(0.25 + 0.05, 6);
+    expect(simulator.getScenarioScriptState()).toBeUndefined(); // Finished
+  });
+
+  it('should suspend an instrument for a while and undo timed events when stopped', async () => {
+    const { simulator, instrumentManager } = await quietSimulator(start, 1);
+    const bond = instrumentManager.getInstrument('US10Y')!;
+
+    simulator.loadScenarioScript(parseScenarioScript({
+      name: 'Halt',
+      events: [
+        { at: '1s', action: 'suspend', instrumentId: 'US10Y', for: '3s' },
+        { at: '1s', action: 'setScenario', scenario: 'highVolatility', for: '1h' },
+      ],
+    }));
+    simulator.fastForward(1);
+    expect(bond.status).toBe(TradingStatus.SUSPENDED);
+    simulator.fastForward(3);
+    expect(bond.status).toBe(TradingStatus.ACTIVE);
+    expect(simulator.getScenarioScriptState()).toMatchObject({ name: 'Halt', status: 'running', completed: 1, elapsed: 4000 });
+
+    // Stopping part way through a timed suspension trades the instrument again
+    simulator.loadScenarioScript(parseScenarioScript({ name: 'Long halt', events: [{ action: 'suspend', instrumentId: 'US10Y', for: '1h' }] }));
+    simulator.fastForward(1);
+    expect(bond.status).toBe(TradingStatus.SUSPENDED);
+    simulator.stopScenarioScript();
+    expect(bond.status).toBe(TradingStatus.ACTIVE);
+    expect(simulator.getScenarioScriptState()).toBeUndefined();
+
+    expect(() =>
+      simulator.loadScenarioScript(parseScenarioScript({ name: 'Bad', events: [{ action: 'setScenario', scenario: 'panic' }] }))
+    ).toThrow('Unknown market scenario: panic');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { MarketSimulator, MarketScenario } from '../src/server/marketSimulator';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { CurveManager } from '../src/server/curveManager';
+import { VolSurfaceManager } from '../src/server/volSurfaceManager';
+import { Currency } from '../src/models/enums';
+import { ManualClock, createSeededRandom } from '../src/utils';
+import { DeltaUpdate } from '../src/types';
+
+const start = new Date('2024-06-03T14:00:00Z');
+
+// Updates published over a number of fast-forwarded ticks
+async function tickStream(seed: number, ticks: number, scenario: MarketScenario = 'flashEvent'): Promise<DeltaUpdate[][]> {
+  const simulator = new MarketSimulator(
+    new InstrumentManager(),
+    { scenario, updateInterval: 500, random: createSeededRandom(seed), clock: new ManualClock(start) },
+    new CurveManager()
+  );
+  const stream: DeltaUpdate[][] = [];
+  simulator.onUpdate(updates => stream.push(updates));
+
+  await simulator.initialize();
+  expect(simulator.fastForward(ticks)).toBe(stream.reduce((count, updates) => count + updates.length, 0));
+  return stream;
+}
+
+describe('Deterministic simulation', () => {
+  it('should repeat a seeded random sequence', () => {
+    const first = createSeededRandom(42);
+    const second = createSeededRandom(42);
+    const draws = Array.from({ length: 1000 }, () => first());
+
+    expect(draws).toEqual(Array.from({ length: 1000 }, () => second()));
+    draws.forEach(draw => {
+      expect(draw).toBeGreaterThanOrEqual(0);
+      expect(draw).toBeLessThan(1);
+    });
+    expect(createSeededRandom(43)()).not.toBe(draws[0]);
+  });
+
+  it('should only move a manual clock when advanced', () => {
+    const clock = new ManualClock(start);
+    expect(clock.now()).toEqual(start);
+    clock.advance(1500);
+    expect(clock.now().getTime()).toBe(start.getTime() + 1500);
+  });
+
+  it('should produce the same tick stream from the same seed and start time', async () => {
+    const first = await tickStream(7, 5);
+    const second = await tickStream(7, 5);
+
+    expect(first).toHaveLength(5);
+    expect(second).toEqual(first);
+    // Each tick is one update interval on from the last
+    first.forEach((updates, tick) => {
+      updates.forEach(update => expect(update.timestamp).toBe(start.getTime() + (tick + 1) * 500));
+    });
+
+    expect(await tickStream(8, 5)).not.toEqual(first);
+  });
+
+  it('should stamp curve and vol surface snapshots in simulation time', async () => {
+    const clock = new ManualClock(start);
+    const curveManager = new CurveManager(undefined, clock);
+    const volSurfaceManager = new VolSurfaceManager(undefined, clock);
+    const simulator = new MarketSimulator(
+      new InstrumentManager(),
+      { updateInterval: 60_000, random: createSeededRandom(9), clock },
+      curveManager,
+      volSurfaceManager
+    );
+    await simulator.initialize();
+    expect(curveManager.getCurveSnapshot(Currency.USD)!.asOf).toBe(start.toISOString());
+    expect(volSurfaceManager.getSnapshot('ZN-U23')!.asOf).toBe(start.toISOString());
+
+    simulator.fastForward(3);
+    const now = simulator.now().toISOString();
+    expect(now).toBe('2024-06-03T14:03:00.000Z');
+    expect(curveManager.getCurveSnapshot(Currency.USD)!.asOf).toBe(now);
+    expect(volSurfaceManager.getSnapshot('ZN-U23')!.asOf).toBe(now);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { MarketSimulator, SimulatorState } from '../src/server/marketSimulator';
+import { applySimulatorCommand } from '../src/server/simulatorControl';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { CurveManager } from '../src/server/curveManager';
+import { ManualClock, createSeededRandom } from '../src/utils';
+
+const start = new Date('2024-06-03T14:00:00Z');
+
+async function controlledSimulator(): Promise<{ simulator: MarketSimulator; states: SimulatorState[] }> {
+  const simulator = new MarketSimulator(
+    new InstrumentManager(),
+    { updateInterval: 1000, random: createSeededRandom(3), clock: new ManualClock(start) },
+    new CurveManager()
+  );
+  await simulator.initialize();
+  const states: SimulatorState[] = [];
+  simulator.onStateChange(state => states.push(state));
+  return { simulator, states };
+}
+
+describe('Simulator control', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should change regime on command and announce each change', async () => {
+    const { simulator, states } = await controlledSimulator();
+
+    expect(applySimulatorCommand(simulator, { action: 'setScenario', scenario: 'trending' }).scenario).toBe('trending');
+    expect(applySimulatorCommand(simulator, { action: 'setVolatility', multiplier: 2.5 }).volatilityMultiplier).toBe(2.5);
+    expect(applySimulatorCommand(simulator, { action: 'flashEvent', duration: 5000 })).toMatchObject({
+      flashEvent: true,
+      flashEventEnd: '2024-06-03T14:00:05.000Z',
+    });
+    expect(states.map(state => [state.scenario, state.volatilityMultiplier, state.flashEvent])).toEqual([
+      ['trending', 1, false],
+      ['trending', 2.5, false],
+      ['trending', 2.5, true],
+    ]);
+
+    // The flash event runs its course in simulation time
+    simulator.fastForward(5);
+    expect(simulator.getState().flashEvent).toBe(false);
+    expect(states[states.length - 1].flashEvent).toBe(false);
+
+    expect(() => applySimulatorCommand(simulator, { action: 'setScenario', scenario: 'panic' })).toThrow('Unknown market scenario');
+    expect(() => applySimulatorCommand(simulator, { action: 'setVolatility', multiplier: -1 })).toThrow('Invalid volatility multiplier');
+    expect(() => applySimulatorCommand(simulator, { action: 'setUpdateInterval', interval: 10 })).toThrow('at least 50ms');
+    expect(() => applySimulatorCommand(simulator, { action: 'rewind' } as never)).toThrow('Unknown simulator action: rewind');
+  });
+
+  it('should hold ticks while paused and tick at a new interval', async () => {
+    vi.useFakeTimers();
+    const { simulator } = await controlledSimulator();
+
+    expect(applySimulatorCommand(simulator, { action: 'start' })).toMatchObject({ running: true, paused: false });
+    vi.advanceTimersByTime(3000);
+    expect(simulator.now().getTime()).toBe(start.getTime() + 3000);
+
+    applySimulatorCommand(simulator, { action: 'pause' });
+    vi.advanceTimersByTime(2000);
+    expect(simulator.now().getTime()).toBe(start.getTime() + 3000);
+
+    applySimulatorCommand(simulator, { action: 'resume' });
+    applySimulatorCommand(simulator, { action: 'setUpdateInterval', interval: 500 });
+    vi.advanceTimersByTime(2000);
+    // Four ticks of half a second each
+    expect(simulator.now().getTime()).toBe(start.getTime() + 5000);
+
+    expect(applySimulatorCommand(simulator, { action: 'stop' })).toMatchObject({ running: false, updateInterval: 500 });
+    vi.advanceTimersByTime(2000);
+    expect(simulator.now().getTime()).toBe(start.getTime() + 5000);
+  });
+
+  it('should start and steer a replay of a recording in data/replays', async () => {
+    const { simulator, states } = await controlledSimulator();
+
+    expect(() => applySimulatorCommand(simulator, { action: 'pauseReplay' })).toThrow('No replay is running');
+    expect(() => applySimulatorCommand(simulator, { action: 'startReplay', file: '../package.json' })).toThrow('Unknown replay file');
+
+    expect(applySimulatorCommand(simulator, { action: 'startReplay', file: 'sample-us-rates.csv', speed: 2 })).toMatchObject({
+      mode: 'replaying',
+      replay: { source: 'sample-us-rates.csv', status: 'playing', speed: 2, loop: false },
+    });
+    applySimulatorCommand(simulator, { action: 'pauseReplay' });
+    applySimulatorCommand(simulator, { action: 'seekReplay', time: '2024-01-02T14:30:10Z' });
+    applySimulatorCommand(simulator, { action: 'setReplaySpeed', speed: 5 });
+    applySimulatorCommand(simulator, { action: 'setReplayLoop', loop: true });
+    expect(states[states.length - 1].replay).toMatchObject({
+      status: 'paused',
+      speed: 5,
+      loop: true,
+      currentTime: '2024-01-02T14:30:10.000Z',
+    });
+    expect(() => applySimulatorCommand(simulator, { action: 'seekReplay', time: 'noon' })).toThrow('Invalid replay time');
+
+    expect(applySimulatorCommand(simulator, { action: 'stopReplay' })).toMatchObject({ mode: 'simulating', replay: undefined });
+  });
+});
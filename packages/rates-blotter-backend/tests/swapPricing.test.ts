@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { valueSwap } from '../src/analytics/swapPricing';
+import { yearsBetween } from '../src/analytics/curve';
+import { CurveManager } from '../src/server/curveManager';
+import { CalendarManager } from '../src/server/calendarManager';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { swapValuationContext } from '../src/server/valuation';
+import { InterestRateSwap } from '../src/models/interestRateSwap';
+import { Currency, SwapDirection } from '../src/models/enums';
+
+const asOf = new Date('2023-04-01');
+
+describe('Swap valuation', () => {
+  const curveManager = new CurveManager();
+  const instrumentManager = new InstrumentManager();
+  instrumentManager.createExampleInstruments();
+  const seeded = instrumentManager.getInstrument('USD5YIRS') as InterestRateSwap;
+  const swap: InterestRateSwap = { ...seeded, floatingRateSpread: 0 };
+  const context = swapValuationContext(swap, curveManager, new CalendarManager(), asOf)!;
+
+  it('should have zero MTM at the par rate', () => {
+    const { parRate } = valueSwap(swap, context);
+    const atPar = valueSwap({ ...swap, fixedRate: parRate }, context);
+    // Cashflow amounts are rounded to cents
+    expect(Math.abs(atPar.mtm)).toBeLessThan(1);
+    expect(Math.abs(atPar.fixedLegPv - atPar.floatingLegPv)).toBeLessThan(1);
+  });
+
+  it('should flip the MTM sign with the swap direction', () => {
+    const payer = valueSwap({ ...swap, direction: SwapDirection.PAY_FIXED }, context);
+    const receiver = valueSwap({ ...swap, direction: SwapDirection.RECEIVE_FIXED }, context);
+    expect(receiver.mtm).toBeCloseTo(-payer.mtm, 6);
+    expect(receiver.dv01).toBeCloseTo(-payer.dv01, 6);
+    // A payer gains as rates rise
+    expect(payer.dv01).toBeGreaterThan(0);
+  });
+
+  it('should risk the swap at roughly its annuity per basis point', () => {
+    const valuation = valueSwap(swap, context);
+    expect(valuation.fixedLegDv01).toBeGreaterThan(0);
+    expect(valuation.floatingLegDv01).toBeGreaterThan(0);
+    expect(valuation.dv01).toBeCloseTo(valuation.fixedLegDv01 + valuation.floatingLegDv01, 6);
+    expect(valuation.dv01 / (valuation.annuity * 1e-4)).toBeCloseTo(1, 1);
+  });
+
+  it('should shift zero rates by the bump', () => {
+    const curve = curveManager.getDiscountCurve(Currency.USD)!;
+    const shifted = curve.shift(25);
+    const time = yearsBetween(asOf, new Date('2028-04-01'));
+    expect(shifted.zeroRate(time) - curve.zeroRate(time)).toBeCloseTo(0.0025, 8);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest';
+import { MarketSimulator } from '../src/server/marketSimulator';
+import { InstrumentManager } from '../src/server/instrumentManager';
+import { CurveManager } from '../src/server/curveManager';
+import { VolSurfaceManager } from '../src/server/volSurfaceManager';
+import { FixingsManager } from '../src/server/fixingsManager';
+import { CloseStore } from '../src/server/closeStore';
+import { TradePrint, TradeTape } from '../src/server/tradeTape';
+import { Future } from '../src/models/future';
+import { ManualClock, RingBuffer, createSeededRandom } from '../src/utils';
+
+function print(instrumentId: string, n: number): TradePrint {
+  return { tradeId: `T${n}`, instrumentId, price: 100, size: 1, aggressor: 'BUY', timestamp: new Date(n * 1000).toISOString() };
+}
+
+describe('Trade tape', () => {
+  it('should keep the latest trades of each instrument', () => {
+    const buffer = new RingBuffer<number>(3);
+    [1, 2].forEach(n => buffer.push(n));
+    expect(buffer.toArray()).toEqual([1, 2]);
+    [3, 4, 5].forEach(n => buffer.push(n));
+    expect(buffer.toArray()).toEqual([3, 4, 5]);
+    expect(buffer.size).toBe(3);
+    expect(() => new RingBuffer(0)).toThrow('Invalid ring buffer capacity');
+
+    const tape = new TradeTape(2);
+    [1, 2, 3].forEach(n => tape.record(print('ZN-U23', n)));
+    tape.record(print('US10Y', 4));
+    expect(tape.getTrades('ZN-U23').map(trade => trade.tradeId)).toEqual(['T3', 'T2']);
+    expect(tape.getTrades('ZN-U23', 1).map(trade => trade.tradeId)).toEqual(['T3']);
+    expect(tape.getTrades('US10Y')).toHaveLength(1);
+    expect(tape.getTrades('US2Y')).toEqual([]);
+  });
+
+  it('should print trades at the bid and offer and take the last trade and volume from them', async () => {
+    const instrumentManager = new InstrumentManager();
+    const tradeTape = new TradeTape(1000);
+    const start = new Date('2023-06-05T14:00:00Z');
+    const simulator = new MarketSimulator(
+      instrumentManager,
+      { random: createSeededRandom(31), clock: new ManualClock(start) },
+      new CurveManager(),
+      new VolSurfaceManager(),
+      new FixingsManager(),
+      new CloseStore(),
+      tradeTape
+    );
+    const published: TradePrint[] = [];
+    simulator.onTradePrint(prints => published.push(...prints));
+    await simulator.initialize();
+    const future = instrumentManager.getInstrument('ZN-U23') as Future;
+    const openingVolume = future.volume;
+
+    // Sellers hit bids and buyers lift offers, so sells print below the offer and buys above the bid
+    let sells = 0;
+    let buys = 0;
+    for (let i = 0; i < 30; i++) {
+      const printed = published.length;
+      simulator.fastForward(1);
+      published.slice(printed).filter(trade => trade.instrumentId === 'ZN-U23').forEach(trade => {
+        if (trade.aggressor === 'SELL') {
+          sells++;
+          expect(trade.price).toBeLessThan(future.askPrice);
+        } else {
+          buys++;
+          expect(trade.price).toBeGreaterThan(future.bidPrice);
+        }
+        expect(trade.size).toBeGreaterThan(0);
+        expect(Date.parse(trade.timestamp)).toBeLessThanOrEqual(simulator.now().getTime());
+      });
+    }
+    expect(sells).toBeGreaterThan(0);
+    expect(buys).toBeGreaterThan(0);
+
+    const trades = tradeTape.getTrades('ZN-U23');
+    const last = trades[0];
+    expect(future.lastTradePrice).toBe(last.price);
+    expect(future.lastTradeSize).toBe(last.size);
+    expect(future.lastTradeTime.toISOString()).toBe(last.timestamp);
+    expect(future.volume - openingVolume).toBe(trades.reduce((sum, trade) => sum + trade.size, 0));
+    expect(published.filter(trade => trade.instrumentId === 'ZN-U23')).toEqual([...trades].reverse());
+
+    // Newest first, and trade times never run backwards
+    trades.forEach((trade, i) => {
+      if (i > 0) expect(Date.parse(trade.timestamp)).toBeLessThanOrEqual(Date.parse(trades[i - 1].timestamp));
+    });
+    expect(new Set(published.map(trade => trade.tradeId)).size).toBe(published.length);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { VolSurface, fitSabr, fitSvi, sabrVolatility, sviVolatility } from '../src/analytics/volSurface';
+import { VOL_TENORS, VolSurfaceManager } from '../src/server/volSurfaceManager';
+
+const forward = 112;
+const strikes = [104, 106, 108, 110, 111, 112, 113, 114, 116, 118, 120];
+
+describe('Smile fitting', () => {
+  it('should recover a SABR smile', () => {
+    const params = { alpha: 0.65, beta: 0.5, rho: -0.3, nu: 0.8 };
+    const quotes = strikes.map(strike => ({ strike, vol: sabrVolatility(forward, strike, 0.5, params) }));
+    const slice = fitSabr(forward, 0.5, quotes, 0.5);
+    expect(slice.rmse).toBeLessThan(1e-5);
+    strikes.forEach(strike => {
+      expect(sabrVolatility(forward, strike, 0.5, slice.parameters as typeof params)).toBeCloseTo(
+        sabrVolatility(forward, strike, 0.5, params),
+        4
+      );
+    });
+  });
+
+  it('should fit an SVI smile', () => {
+    const params = { a: 0.0005, b: 0.01, rho: -0.4, m: 0.01, sigma: 0.05 };
+    const quotes = strikes.map(strike => ({ strike, vol: sviVolatility(forward, strike, 0.5, params) }));
+    const slice = fitSvi(forward, 0.5, quotes);
+    expect(slice.rmse).toBeLessThan(1e-4);
+  });
+});
+
+describe('Vol surface', () => {
+  const flat = (vol: number, time: number) => fitSabr(forward, time, strikes.map(strike => ({ strike, vol })), 1);
+  const surface = new VolSurface('TEST', forward, [flat(0.08, 1), flat(0.06, 0.25)]);
+
+  it('should interpolate total variance between expiries', () => {
+    const expected = Math.sqrt((0.06 ** 2 * 0.25 + 0.5 * (0.08 ** 2 * 1 - 0.06 ** 2 * 0.25)) / 0.625);
+    expect(surface.volatility(forward, 0.625)).toBeCloseTo(expected, 3);
+  });
+
+  it('should hold vols flat outside the quoted expiries', () => {
+    expect(surface.volatility(forward, 0.1)).toBeCloseTo(surface.volatility(forward, 0.25), 10);
+    expect(surface.volatility(forward, 5)).toBeCloseTo(surface.volatility(forward, 1), 10);
+  });
+
+  it('should move the smile with the forward', () => {
+    const skewed = new VolSurface('TEST', forward, [
+      fitSabr(forward, 0.5, strikes.map(strike => ({ strike, vol: 0.06 + (forward - strike) * 0.002 }))),
+    ]);
+    expect(skewed.volatility(114, 0.5, 114)).toBeCloseTo(skewed.volatility(112, 0.5), 10);
+  });
+});
+
+describe('VolSurfaceManager', () => {
+  it('should fit the example surface close to its quotes', () => {
+    const manager = new VolSurfaceManager();
+    manager.build('ZN-U23', 112.25);
+    const snapshot = manager.getSnapshot('ZN-U23')!;
+
+    expect(snapshot.expiries).toHaveLength(4);
+    snapshot.expiries.forEach(expiry => {
+      expect(expiry.rmse).toBeLessThan(0.1);
+    });
+    expect(snapshot.termStructure.map(point => point.tenor)).toEqual(VOL_TENORS);
+  });
+
+  it('should shift quotes and refit at a new forward', () => {
+    const manager = new VolSurfaceManager();
+    manager.build('ZN-U23', 112.25);
+    const before = manager.getSurface('ZN-U23')!.volatility(112.25, 0.25);
+    manager.shiftVols('ZN-U23', () => 0.5, 113);
+
+    const surface = manager.getSurface('ZN-U23')!;
+    expect(surface.forward).toBe(113);
+    expect(surface.volatility(113, 0.25) - before).toBeCloseTo(0.005, 3);
+  });
+});